@@ -50,7 +50,8 @@ struct ParsedDocumentV1: Codable {
 
 struct ImportantDateV1: Codable {
     let title: String
-    let date: String
+    /// nil when the RFP states no date (status "unknown").
+    let date: String?
     let type: String
     let isCritical: Bool
 }
@@ -687,10 +687,11 @@ final class BackendAnalysisClient {
                 )
             },
             deliverableRequirements: mapDeliverableRequirements(from: extracted.deliverableRequirements),
-            importantDates: extracted.importantDates.map { item in
-                ImportantDate(
+            importantDates: extracted.importantDates.compactMap { item in
+                guard let date = item.date else { return nil }
+                return ImportantDate(
                     title: item.title,
-                    date: parseDate(item.date),
+                    date: parseDate(date),
                     dateType: dateType(from: item.type),
                     isCritical: item.isCritical
                 )
@@ -10,9 +10,12 @@ const nextConfig: NextConfig = {
   reactStrictMode: true,
   // Monorepo: prevent Next from tracing from an incorrect workspace root (can break serverless output on deploy).
   outputFileTracingRoot: __dirname,
-  // Ensure the agency taxonomy CSV is bundled for the analyze-scope route on Vercel.
+  // Ensure the agency taxonomy CSV and red-flag rule file are bundled for the routes that read them on Vercel.
+  // Keys are route globs: "/api/analyses/**" also matches "/api/analyses" and the diff route, which re-run both.
   outputFileTracingIncludes: {
-    "/api/analyze-scope": ["./agencyservicesheet.csv"]
+    "/api/analyze-scope": ["./agencyservicesheet.csv"],
+    "/api/analyze-rfp": ["./config/red-flag-rules.json"],
+    "/api/analyses/**": ["./agencyservicesheet.csv", "./config/red-flag-rules.json"]
   }
 };
 
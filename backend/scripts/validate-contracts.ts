@@ -42,6 +42,7 @@ async function validateSchemasAndFixtures(): Promise<void> {
     "client-research.fixture.json": "https://angle-rfp.dev/schemas/v1/client-research-v1.schema.json",
     "financial-score.fixture.json": "https://angle-rfp.dev/schemas/v1/financial-score-v1.schema.json",
     "analysis-report.fixture.json": "https://angle-rfp.dev/schemas/v1/analysis-report-v1.schema.json",
+    "analysis-diff.fixture.json": "https://angle-rfp.dev/schemas/v1/analysis-diff-v1.schema.json",
     "api-envelope-success.fixture.json": "https://angle-rfp.dev/schemas/v1/api-envelope.schema.json",
     "api-envelope-error.fixture.json": "https://angle-rfp.dev/schemas/v1/api-envelope.schema.json"
   };
@@ -0,0 +1,53 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import process from "node:process";
+import type { AnySchema } from "ajv";
+import Ajv2020 from "ajv/dist/2020.js";
+import { ApiError } from "@/lib/api/errors";
+import { checkRuleExamples, compileRedFlagRules, redFlagRulesPath } from "@/lib/extraction/red-flag-rules";
+
+const repoRoot = path.resolve(process.cwd(), "..");
+const schemaPath = path.join(repoRoot, "contracts", "schemas", "v1", "red-flag-rules-v1.schema.json");
+
+async function readJson(filePath: string): Promise<unknown> {
+  const content = await fs.readFile(filePath, "utf8");
+  return JSON.parse(content);
+}
+
+async function main(): Promise<void> {
+  // Defaults to the file the backend loads (RED_FLAG_RULES_PATH or config/red-flag-rules.json).
+  const rulesPath = process.argv[2] ? path.resolve(process.argv[2]) : redFlagRulesPath();
+  const rulesFile = await readJson(rulesPath);
+
+  const ajv = new Ajv2020({ allErrors: true, strict: true });
+  const validate = ajv.compile((await readJson(schemaPath)) as AnySchema);
+  if (!validate(rulesFile)) {
+    const details = (validate.errors ?? []).map((error) => `${error.instancePath} ${error.message}`).join("; ");
+    throw new Error(`${rulesPath} failed schema validation: ${details}`);
+  }
+  console.log(`[ok] ${path.basename(rulesPath)} matches red-flag-rules-v1`);
+
+  const ruleSet = compileRedFlagRules(rulesFile, rulesPath);
+  console.log(`[ok] ${ruleSet.rules.length} rule(s) compiled (version ${ruleSet.version})`);
+
+  const failures = checkRuleExamples(ruleSet);
+  for (const failure of failures) {
+    console.error(`[error] ${failure}`);
+  }
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} example snippet(s) did not behave as declared`);
+  }
+
+  const exampleCount = ruleSet.rules.reduce(
+    (total, rule) => total + rule.examples.match.length + rule.examples.noMatch.length,
+    0
+  );
+  console.log(`[ok] ${exampleCount} example snippet(s) behave as declared`);
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  const details = error instanceof ApiError ? ` ${JSON.stringify(error.shape.details)}` : "";
+  console.error(`[error] ${message}${details}`);
+  process.exit(1);
+});
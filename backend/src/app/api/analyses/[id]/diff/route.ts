@@ -0,0 +1,59 @@
+import { randomUUID } from "node:crypto";
+import type { NextRequest } from "next/server";
+import { buildRequestContext } from "@/lib/api/request-context";
+import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
+import { makeError, normalizeUnknownError } from "@/lib/api/errors";
+import { reanalyzeWithDocument, type ReanalyzeInput } from "@/lib/analysis/analysis-diff";
+import { reserveUserDailyAnalysis } from "@/lib/ops/cost-budget";
+import { parseBearerToken } from "@/lib/security/auth";
+
+// Re-analyzes a stored analysis against a revised RFP or a client addendum and returns the diff.
+export const maxDuration = 300;
+
+const DIFF_ROLES: ReanalyzeInput["role"][] = ["main", "addendum", "qa_response"];
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const context = buildRequestContext(request);
+
+  try {
+    const { id } = await params;
+    const form = await request.formData();
+    const maybeFile = form.get("file");
+    const role = String(form.get("role") ?? "addendum").trim();
+
+    if (!(maybeFile instanceof File)) {
+      throw makeError(400, "validation_error", "file is required", "analysis-diff", {
+        retryable: false,
+        details: { field: "file" }
+      });
+    }
+
+    if (!(DIFF_ROLES as string[]).includes(role)) {
+      throw makeError(400, "validation_error", "role must be main, addendum or qa_response", "analysis-diff", {
+        retryable: false,
+        details: { field: "role" }
+      });
+    }
+
+    const revisedAnalysisId = randomUUID();
+    const principal = parseBearerToken(request.headers.get("authorization")) ?? "anonymous";
+    reserveUserDailyAnalysis(principal, revisedAnalysisId);
+
+    const result = await reanalyzeWithDocument({
+      baseAnalysisId: id,
+      revisedAnalysisId,
+      fileName: maybeFile.name,
+      mimeType: maybeFile.type,
+      fileBytes: Buffer.from(await maybeFile.arrayBuffer()),
+      role: role as ReanalyzeInput["role"]
+    });
+
+    return successEnvelope(context, result, {
+      warnings: result.diff.warnings,
+      partialResult: result.diff.warnings.length > 0
+    });
+  } catch (error: unknown) {
+    const normalized = normalizeUnknownError(error, "analysis-diff");
+    return errorEnvelope(context, normalized);
+  }
+}
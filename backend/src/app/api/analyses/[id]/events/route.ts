@@ -0,0 +1,30 @@
+import type { NextRequest } from "next/server";
+import { buildRequestContext } from "@/lib/api/request-context";
+import { errorEnvelope } from "@/lib/api/envelope";
+import { normalizeUnknownError } from "@/lib/api/errors";
+import { openAnalysisEventStream } from "@/lib/analysis/event-stream";
+
+// Streams for as long as the job runs; the client reconnects and gets a fresh snapshot.
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const context = buildRequestContext(request);
+
+  try {
+    const { id } = await params;
+    const stream = await openAnalysisEventStream(id, { signal: request.signal });
+
+    return new Response(stream, {
+      headers: {
+        "content-type": "text/event-stream; charset=utf-8",
+        "cache-control": "no-cache, no-transform",
+        connection: "keep-alive",
+        "x-accel-buffering": "no"
+      }
+    });
+  } catch (error: unknown) {
+    const normalized = normalizeUnknownError(error, "analyses");
+    return errorEnvelope(context, normalized);
+  }
+}
@@ -0,0 +1,22 @@
+import type { NextRequest } from "next/server";
+import { buildRequestContext } from "@/lib/api/request-context";
+import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
+import { normalizeUnknownError } from "@/lib/api/errors";
+import { getAnalysisReport } from "@/lib/analysis/analysis-history";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const context = buildRequestContext(request);
+
+  try {
+    const { id } = await params;
+    const report = await getAnalysisReport(id);
+
+    return successEnvelope(context, report, {
+      warnings: report.warnings,
+      partialResult: report.warnings.length > 0
+    });
+  } catch (error: unknown) {
+    const normalized = normalizeUnknownError(error, "analyses");
+    return errorEnvelope(context, normalized);
+  }
+}
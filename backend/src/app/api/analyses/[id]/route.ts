@@ -0,0 +1,36 @@
+import type { NextRequest } from "next/server";
+import { buildRequestContext } from "@/lib/api/request-context";
+import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
+import { normalizeUnknownError } from "@/lib/api/errors";
+import { getAnalysisJob } from "@/lib/analysis/analysis-jobs";
+import { deleteAnalysis } from "@/lib/analysis/analysis-history";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const context = buildRequestContext(request);
+
+  try {
+    const { id } = await params;
+    const job = await getAnalysisJob(id);
+
+    return successEnvelope(context, job, {
+      warnings: job.warnings,
+      partialResult: job.status !== "succeeded" || job.partialResult
+    });
+  } catch (error: unknown) {
+    const normalized = normalizeUnknownError(error, "analyses");
+    return errorEnvelope(context, normalized);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const context = buildRequestContext(request);
+
+  try {
+    const { id } = await params;
+    const result = await deleteAnalysis(id);
+    return successEnvelope(context, result);
+  } catch (error: unknown) {
+    const normalized = normalizeUnknownError(error, "analyses");
+    return errorEnvelope(context, normalized);
+  }
+}
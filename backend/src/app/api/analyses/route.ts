@@ -0,0 +1,100 @@
+import type { NextRequest } from "next/server";
+import { buildRequestContext } from "@/lib/api/request-context";
+import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
+import { makeError, normalizeUnknownError } from "@/lib/api/errors";
+import { submitAnalysisJob } from "@/lib/analysis/analysis-jobs";
+import { canQueueAnalysisJobs } from "@/lib/analysis/job-store";
+import { listAnalyses } from "@/lib/analysis/analysis-history";
+import { runAnalysisPipeline } from "@/lib/analysis/run-analysis";
+import { attachmentsFromForm } from "@/lib/parsing/document-bundle";
+import { reserveUserDailyAnalysis } from "@/lib/ops/cost-budget";
+import { parseBearerToken } from "@/lib/security/auth";
+import { assertValidAnalysisId } from "@/lib/storage/analysis-repository";
+
+// Runs the full parse -> extract -> scope/research -> score pipeline in one request,
+// or queues it as a job when mode=async and returns 202 for polling.
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  const context = buildRequestContext(request);
+
+  try {
+    const form = await request.formData();
+    const analysisId = String(form.get("analysisId") ?? "").trim();
+    const maybeFile = form.get("file");
+    const mode = String(form.get("mode") ?? "sync").trim();
+
+    if (!analysisId) {
+      throw makeError(400, "validation_error", "analysisId is required", "analyses", {
+        retryable: false,
+        details: { field: "analysisId" }
+      });
+    }
+    assertValidAnalysisId(analysisId, "analyses");
+
+    if (!(maybeFile instanceof File)) {
+      throw makeError(400, "validation_error", "file is required", "analyses", {
+        retryable: false,
+        details: { field: "file" }
+      });
+    }
+
+    if (mode !== "sync" && mode !== "async") {
+      throw makeError(400, "validation_error", "mode must be sync or async", "analyses", {
+        retryable: false,
+        details: { field: "mode" }
+      });
+    }
+
+    if (mode === "async" && !canQueueAnalysisJobs()) {
+      throw makeError(500, "server_misconfigured", "Async analyses need ANALYSIS_JOB_STORE=file in production", "analyses", {
+        retryable: false,
+        details: { field: "mode" }
+      });
+    }
+
+    const attachments = await attachmentsFromForm(form, "analyses");
+
+    const principal = parseBearerToken(request.headers.get("authorization")) ?? "anonymous";
+    reserveUserDailyAnalysis(principal, analysisId);
+
+    const pipelineInput = {
+      analysisId,
+      fileName: maybeFile.name,
+      mimeType: maybeFile.type,
+      fileBytes: Buffer.from(await maybeFile.arrayBuffer()),
+      attachments
+    };
+
+    if (mode === "async") {
+      const job = await submitAnalysisJob(pipelineInput);
+      return successEnvelope(context, job, { status: 202 });
+    }
+
+    const result = await runAnalysisPipeline(pipelineInput);
+
+    return successEnvelope(context, result.report, {
+      warnings: result.warnings,
+      partialResult: result.partialResult
+    });
+  } catch (error: unknown) {
+    const normalized = normalizeUnknownError(error, "analyses");
+    return errorEnvelope(context, normalized);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const context = buildRequestContext(request);
+
+  try {
+    const page = await listAnalyses({
+      limit: request.nextUrl.searchParams.get("limit"),
+      offset: request.nextUrl.searchParams.get("offset")
+    });
+
+    return successEnvelope(context, page);
+  } catch (error: unknown) {
+    const normalized = normalizeUnknownError(error, "analyses");
+    return errorEnvelope(context, normalized);
+  }
+}
@@ -0,0 +1,33 @@
+import type { NextRequest } from "next/server";
+import { buildRequestContext } from "@/lib/api/request-context";
+import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
+import { makeError, normalizeUnknownError } from "@/lib/api/errors";
+import { diffAnalyses } from "@/lib/analysis/analysis-diff";
+
+export const maxDuration = 30;
+
+export async function POST(request: NextRequest) {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+    for (const side of ["base", "revised"] as const) {
+      if (!body?.[side]?.analysisId || !body?.[side]?.extractedRfp) {
+        throw makeError(400, "validation_error", `${side}.analysisId and ${side}.extractedRfp are required`, "analysis-diff", {
+          retryable: false,
+          details: { field: side }
+        });
+      }
+    }
+
+    const diff = await diffAnalyses(body.base, body.revised);
+
+    return successEnvelope(context, diff, {
+      warnings: diff.warnings,
+      partialResult: diff.warnings.length > 0
+    });
+  } catch (error: unknown) {
+    const normalized = normalizeUnknownError(error, "analysis-diff");
+    return errorEnvelope(context, normalized);
+  }
+}
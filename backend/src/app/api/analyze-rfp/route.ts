@@ -4,6 +4,7 @@ import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
 import { makeError, normalizeUnknownError } from "@/lib/api/errors";
 import { analyzeRfpInput } from "@/lib/extraction/analyze-rfp";
 import { registerAnalysisUsage } from "@/lib/ops/cost-budget";
+import { assertValidAnalysisId, persistAnalysisArtifact } from "@/lib/storage/analysis-repository";
 
 // Extend timeout for Claude API calls (Pro plan required for >10s)
 export const maxDuration = 60;
@@ -19,6 +20,7 @@ export async function POST(request: NextRequest) {
         retryable: false
       });
     }
+    assertValidAnalysisId(body.analysisId, "analyze-rfp");
 
     const extracted = await analyzeRfpInput({
       analysisId: body.analysisId,
@@ -32,9 +34,12 @@ export async function POST(request: NextRequest) {
       tokens: estimatedTokens
     });
 
+    const storageWarnings = await persistAnalysisArtifact(body.analysisId, "extractedRfp", extracted);
+    const warnings = [...extracted.warnings, ...storageWarnings];
+
     return successEnvelope(context, extracted, {
-      warnings: extracted.warnings,
-      partialResult: extracted.warnings.length > 0
+      warnings,
+      partialResult: warnings.length > 0
     });
   } catch (error: unknown) {
     const normalized = normalizeUnknownError(error, "analyze-rfp");
@@ -3,6 +3,7 @@ import { buildRequestContext } from "@/lib/api/request-context";
 import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
 import { makeError, normalizeUnknownError } from "@/lib/api/errors";
 import { analyzeScopeInput } from "@/lib/scope/analyze-scope";
+import { assertValidAnalysisId, persistAnalysisArtifact } from "@/lib/storage/analysis-repository";
 
 // Extend timeout for Claude API calls (Pro plan required for >10s)
 export const maxDuration = 60;
@@ -18,16 +19,21 @@ export async function POST(request: NextRequest) {
         retryable: false
       });
     }
+    assertValidAnalysisId(body.analysisId, "analyze-scope");
 
     const result = await analyzeScopeInput({
       analysisId: body.analysisId,
       scopeOfWork: body.scopeOfWork,
-      language: body.language
+      language: body.language,
+      tables: Array.isArray(body.tables) ? body.tables : undefined
     });
 
+    const storageWarnings = await persistAnalysisArtifact(body.analysisId, "scopeAnalysis", result);
+    const warnings = [...result.warnings, ...storageWarnings];
+
     return successEnvelope(context, result, {
-      warnings: result.warnings,
-      partialResult: result.warnings.length > 0
+      warnings,
+      partialResult: warnings.length > 0
     });
   } catch (error: unknown) {
     const normalized = normalizeUnknownError(error, "analyze-scope");
@@ -3,6 +3,7 @@ import { buildRequestContext } from "@/lib/api/request-context";
 import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
 import { makeError, normalizeUnknownError } from "@/lib/api/errors";
 import { calculateScoreInput } from "@/lib/scoring/calculate-score";
+import { assertValidAnalysisId, persistAnalysisArtifact } from "@/lib/storage/analysis-repository";
 
 // Extend timeout for scoring calculations
 export const maxDuration = 30;
@@ -23,6 +24,7 @@ export async function POST(request: NextRequest) {
         }
       );
     }
+    assertValidAnalysisId(body.analysisId, "calculate-score");
 
     const result = await calculateScoreInput({
       analysisId: body.analysisId,
@@ -31,9 +33,12 @@ export async function POST(request: NextRequest) {
       clientResearch: body.clientResearch
     });
 
+    const storageWarnings = await persistAnalysisArtifact(body.analysisId, "financialScore", result.score);
+    const warnings = [...result.warnings, ...storageWarnings];
+
     return successEnvelope(context, result.score, {
-      warnings: result.warnings,
-      partialResult: result.warnings.length > 0
+      warnings,
+      partialResult: warnings.length > 0
     });
   } catch (error: unknown) {
     const normalized = normalizeUnknownError(error, "calculate-score");
@@ -18,7 +18,8 @@ export async function POST(request: NextRequest) {
     const result = await exportAnalysis({
       analysisId: body.analysisId,
       report: body.report,
-      format: body.format
+      format: body.format,
+      language: body.language
     });
 
     return successEnvelope(context, result);
@@ -3,8 +3,10 @@ import { buildRequestContext } from "@/lib/api/request-context";
 import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
 import { makeError, normalizeUnknownError } from "@/lib/api/errors";
 import { reserveUserDailyAnalysis, registerAnalysisUsage } from "@/lib/ops/cost-budget";
+import { attachmentsFromForm, parseDocumentBundle } from "@/lib/parsing/document-bundle";
 import { parseDocumentInput } from "@/lib/parsing/parse-document";
 import { parseBearerToken } from "@/lib/security/auth";
+import { assertValidAnalysisId, persistAnalysisArtifact } from "@/lib/storage/analysis-repository";
 
 // Allows long-running parse requests (OCR/Unstructured) on serverless platforms.
 export const maxDuration = 300;
@@ -23,6 +25,7 @@ export async function POST(request: NextRequest) {
         details: { field: "analysisId" }
       });
     }
+    assertValidAnalysisId(analysisId, "parse-document");
 
     if (!(maybeFile instanceof File)) {
       throw makeError(400, "validation_error", "file is required", "parse-document", {
@@ -31,26 +34,33 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    const attachments = await attachmentsFromForm(form, "parse-document");
+
     const principal = parseBearerToken(request.headers.get("authorization")) ?? "anonymous";
     reserveUserDailyAnalysis(principal, analysisId);
 
-    const fileBytes = Buffer.from(await maybeFile.arrayBuffer());
-
-    const parsed = await parseDocumentInput({
-      analysisId,
+    const main = {
       fileName: maybeFile.name,
       mimeType: maybeFile.type,
-      fileBytes
-    });
+      fileBytes: Buffer.from(await maybeFile.arrayBuffer())
+    };
+
+    const parsed =
+      attachments.length > 0
+        ? await parseDocumentBundle({ analysisId, documents: [{ role: "main", ...main }, ...attachments] })
+        : await parseDocumentInput({ analysisId, ...main });
 
     registerAnalysisUsage({
       analysisId,
       ocrPages: parsed.ocrStats?.pagesOcred ?? 0
     });
 
+    const storageWarnings = await persistAnalysisArtifact(analysisId, "parsedDocument", parsed);
+    const warnings = [...parsed.warnings, ...storageWarnings];
+
     return successEnvelope(context, parsed, {
-      warnings: parsed.warnings,
-      partialResult: parsed.warnings.length > 0
+      warnings,
+      partialResult: warnings.length > 0
     });
   } catch (error: unknown) {
     const normalized = normalizeUnknownError(error, "parse-document");
@@ -4,6 +4,7 @@ import { errorEnvelope, successEnvelope } from "@/lib/api/envelope";
 import { makeError, normalizeUnknownError } from "@/lib/api/errors";
 import { registerAnalysisUsage } from "@/lib/ops/cost-budget";
 import { researchClientInput } from "@/lib/research/research-client";
+import { assertValidAnalysisId, persistAnalysisArtifact } from "@/lib/storage/analysis-repository";
 
 // Extend timeout for Claude API + external research providers (Pro plan required for >10s)
 export const maxDuration = 60;
@@ -19,6 +20,7 @@ export async function POST(request: NextRequest) {
         retryable: false
       });
     }
+    assertValidAnalysisId(body.analysisId, "research-client");
 
     const result = await researchClientInput({
       analysisId: body.analysisId,
@@ -39,9 +41,12 @@ export async function POST(request: NextRequest) {
       queries: 5
     });
 
+    const storageWarnings = await persistAnalysisArtifact(body.analysisId, "clientResearch", result);
+    const warnings = [...result.warnings, ...storageWarnings];
+
     return successEnvelope(context, result, {
-      warnings: result.warnings,
-      partialResult: result.warnings.length > 0
+      warnings,
+      partialResult: warnings.length > 0
     });
   } catch (error: unknown) {
     const normalized = normalizeUnknownError(error, "research-client");
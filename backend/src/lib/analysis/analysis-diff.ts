@@ -0,0 +1,384 @@
+import { randomUUID } from "node:crypto";
+import { getAnalysisReport } from "@/lib/analysis/analysis-history";
+import { estimatedExtractionTokens } from "@/lib/analysis/run-analysis";
+import { makeError, normalizeUnknownError } from "@/lib/api/errors";
+import { analyzeRfpInput, type ExtractedRfpDataV1 } from "@/lib/extraction/analyze-rfp";
+import { registerAnalysisUsage } from "@/lib/ops/cost-budget";
+import { mergeParsedDocuments, type BundleDocumentRole } from "@/lib/parsing/document-bundle";
+import type { OcrProvider } from "@/lib/parsing/ocr-provider";
+import { parseDocumentInput } from "@/lib/parsing/parse-document";
+import type { ClientResearchV1 } from "@/lib/research/research-client";
+import { analyzeScopeInput, type ScopeAnalysisV1 } from "@/lib/scope/analyze-scope";
+import { calculateScoreInput, type FinancialScoreV1 } from "@/lib/scoring/calculate-score";
+import { getAnalysisRepository, type AnalysisRepository } from "@/lib/storage/analysis-repository";
+
+type ImportantDate = ExtractedRfpDataV1["importantDates"][number];
+type RedFlag = ExtractedRfpDataV1["redFlags"][number];
+
+/** One side of a diff. Scope analysis and client research are only needed for scoring. */
+export interface AnalysisDiffSide {
+  analysisId: string;
+  extractedRfp: ExtractedRfpDataV1;
+  scopeAnalysis?: ScopeAnalysisV1;
+  clientResearch?: ClientResearchV1;
+}
+
+export interface DateChangeV1 {
+  type: string;
+  title: string;
+  change: "added" | "removed" | "changed";
+  before: { date: string; time: string | null } | null;
+  after: { date: string; time: string | null } | null;
+}
+
+export interface WeightChangeV1 {
+  /** A criterion name, or "Technical" / "Financial" for the overall split. */
+  criterion: string;
+  kind: "criterion" | "technical_total" | "financial_total";
+  before: number | null;
+  after: number | null;
+}
+
+export interface RedFlagSummaryV1 {
+  title: string;
+  severity: RedFlag["severity"];
+  sourceText: string;
+  ruleId?: string;
+}
+
+export interface AnalysisDiffV1 {
+  schemaVersion: "1.0.0";
+  baseAnalysisId: string;
+  revisedAnalysisId: string;
+  changedDates: DateChangeV1[];
+  scopeItems: { added: string[]; removed: string[] };
+  evaluationWeights: WeightChangeV1[];
+  redFlags: { added: RedFlagSummaryV1[]; resolved: RedFlagSummaryV1[] };
+  score: {
+    before: number;
+    after: number;
+    delta: number;
+    recommendationBefore: FinancialScoreV1["recommendationBand"];
+    recommendationAfter: FinancialScoreV1["recommendationBand"];
+  };
+  /** One plain-language line per change, most significant first. */
+  summary: string[];
+  warnings: string[];
+}
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, " ").replace(/[^\p{L}\p{N} ]/gu, "").trim();
+}
+
+function roundToTwo(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+type Moment = NonNullable<DateChangeV1["before"]>;
+
+/** Distinct stated dates per type, in document order; restatements of the same date collapse. */
+function datesByType(dates: ImportantDate[]): Map<string, Array<{ entry: ImportantDate; moment: Moment }>> {
+  const byType = new Map<string, Array<{ entry: ImportantDate; moment: Moment }>>();
+  for (const entry of dates) {
+    if (!entry.date) {
+      continue;
+    }
+    const moment = { date: entry.date, time: entry.time ?? null };
+    const list = byType.get(entry.type) ?? [];
+    if (!list.some((item) => item.moment.date === moment.date && item.moment.time === moment.time)) {
+      list.push({ entry, moment });
+    }
+    byType.set(entry.type, list);
+  }
+  return byType;
+}
+
+/** Dates that disappeared and appeared within a type are paired up as moves. */
+function diffDates(base: ImportantDate[], revised: ImportantDate[]): DateChangeV1[] {
+  const before = datesByType(base);
+  const after = datesByType(revised);
+  const sameMoment = (a: Moment, b: Moment) => a.date === b.date && a.time === b.time;
+  const changes: DateChangeV1[] = [];
+
+  for (const type of new Set([...before.keys(), ...after.keys()])) {
+    const from = before.get(type) ?? [];
+    const to = after.get(type) ?? [];
+    const removed = from.filter((item) => !to.some((other) => sameMoment(item.moment, other.moment)));
+    const added = to.filter((item) => !from.some((other) => sameMoment(item.moment, other.moment)));
+    const moves = Math.min(removed.length, added.length);
+
+    for (let index = 0; index < moves; index += 1) {
+      changes.push({
+        type,
+        title: added[index].entry.title,
+        change: "changed",
+        before: removed[index].moment,
+        after: added[index].moment
+      });
+    }
+    for (const item of removed.slice(moves)) {
+      changes.push({ type, title: item.entry.title, change: "removed", before: item.moment, after: null });
+    }
+    for (const item of added.slice(moves)) {
+      changes.push({ type, title: item.entry.title, change: "added", before: null, after: item.moment });
+    }
+  }
+  return changes;
+}
+
+function scopeItemsOf(side: AnalysisDiffSide, useScopeAnalysis: boolean): string[] {
+  return useScopeAnalysis
+    ? (side.scopeAnalysis?.scopeItems ?? [])
+    : side.extractedRfp.requiredDeliverables.map((deliverable) => deliverable.item);
+}
+
+function diffItems(base: string[], revised: string[]): { added: string[]; removed: string[] } {
+  const baseKeys = new Set(base.map(normalizeKey));
+  const revisedKeys = new Set(revised.map(normalizeKey));
+  return {
+    added: revised.filter((item) => !baseKeys.has(normalizeKey(item))),
+    removed: base.filter((item) => !revisedKeys.has(normalizeKey(item)))
+  };
+}
+
+function diffWeights(base: ExtractedRfpDataV1, revised: ExtractedRfpDataV1): WeightChangeV1[] {
+  const before = base.structuredEvaluationCriteria;
+  const after = revised.structuredEvaluationCriteria;
+  const changes: WeightChangeV1[] = [];
+
+  const totals = [
+    ["Technical", "technical_total", before?.technicalWeightPercent, after?.technicalWeightPercent],
+    ["Financial", "financial_total", before?.financialWeightPercent, after?.financialWeightPercent]
+  ] as const;
+  for (const [criterion, kind, from, to] of totals) {
+    if ((from ?? null) !== (to ?? null)) {
+      changes.push({ criterion, kind, before: from ?? null, after: to ?? null });
+    }
+  }
+
+  const weights = (criteria: typeof before) =>
+    new Map((criteria?.criteria ?? []).map((entry) => [normalizeKey(entry.name), entry]));
+  const beforeWeights = weights(before);
+  const afterWeights = weights(after);
+  for (const key of new Set([...beforeWeights.keys(), ...afterWeights.keys()])) {
+    const from = beforeWeights.get(key)?.weightPercent ?? null;
+    const to = afterWeights.get(key)?.weightPercent ?? null;
+    if (from !== to) {
+      const name = (afterWeights.get(key) ?? beforeWeights.get(key))?.name ?? key;
+      changes.push({ criterion: name, kind: "criterion", before: from, after: to });
+    }
+  }
+  return changes;
+}
+
+function redFlagKey(flag: RedFlag): string {
+  return flag.ruleId ? `rule:${flag.ruleId}` : `${normalizeKey(flag.title)}|${normalizeKey(flag.sourceText)}`;
+}
+
+function summarizeRedFlag(flag: RedFlag): RedFlagSummaryV1 {
+  return {
+    title: flag.title,
+    severity: flag.severity,
+    sourceText: flag.sourceText,
+    ...(flag.ruleId ? { ruleId: flag.ruleId } : {})
+  };
+}
+
+function diffRedFlags(base: RedFlag[], revised: RedFlag[]): AnalysisDiffV1["redFlags"] {
+  const baseKeys = new Set(base.map(redFlagKey));
+  const revisedKeys = new Set(revised.map(redFlagKey));
+  return {
+    added: revised.filter((flag) => !baseKeys.has(redFlagKey(flag))).map(summarizeRedFlag),
+    resolved: base.filter((flag) => !revisedKeys.has(redFlagKey(flag))).map(summarizeRedFlag)
+  };
+}
+
+function dateLabel(change: DateChangeV1): string {
+  if (change.type === "other") {
+    return change.title;
+  }
+  const words = change.type.replace(/_/g, " ").replace(/\bqa\b/, "Q&A");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function describeMoment(moment: DateChangeV1["before"]): string {
+  return moment ? `${moment.date}${moment.time ? ` ${moment.time}` : ""}` : "not stated";
+}
+
+function describeWeight(value: number | null): string {
+  return value === null ? "unweighted" : `${value}%`;
+}
+
+function summarize(diff: Omit<AnalysisDiffV1, "summary" | "warnings" | "schemaVersion">): string[] {
+  const lines: string[] = [];
+  const { score } = diff;
+  if (score.delta !== 0) {
+    const sign = score.delta > 0 ? "+" : "";
+    const band =
+      score.recommendationBefore === score.recommendationAfter
+        ? ""
+        : `; recommendation ${score.recommendationBefore} -> ${score.recommendationAfter}`;
+    lines.push(`Score ${score.before} -> ${score.after} (${sign}${score.delta})${band}.`);
+  }
+  for (const flag of diff.redFlags.added) {
+    lines.push(`New ${flag.severity} red flag: ${flag.title}.`);
+  }
+  for (const change of diff.changedDates) {
+    lines.push(
+      change.change === "changed"
+        ? `${dateLabel(change)} moved from ${describeMoment(change.before)} to ${describeMoment(change.after)}.`
+        : `${dateLabel(change)} ${change.change === "added" ? "added" : "removed"}: ${describeMoment(change.before ?? change.after)}.`
+    );
+  }
+  for (const change of diff.evaluationWeights) {
+    const label = change.kind === "criterion" ? change.criterion : `${change.criterion} weight`;
+    lines.push(`${label}: ${describeWeight(change.before)} -> ${describeWeight(change.after)}.`);
+  }
+  if (diff.scopeItems.added.length > 0) {
+    lines.push(`Scope items added: ${diff.scopeItems.added.join("; ")}.`);
+  }
+  if (diff.scopeItems.removed.length > 0) {
+    lines.push(`Scope items removed: ${diff.scopeItems.removed.join("; ")}.`);
+  }
+  for (const flag of diff.redFlags.resolved) {
+    lines.push(`Red flag no longer raised: ${flag.title}.`);
+  }
+  return lines;
+}
+
+/**
+ * Compares two extractions of the same tender, typically before and after a client
+ * addendum. Scope items come from the scope analyses when both sides have one, and from
+ * required deliverables otherwise. Both sides are re-scored with calculateScoreInput; a side
+ * without its own scope analysis or client research borrows the other side's, so the score
+ * delta reflects changes in the RFP rather than missing inputs.
+ */
+export async function diffAnalyses(base: AnalysisDiffSide, revised: AnalysisDiffSide): Promise<AnalysisDiffV1> {
+  const warnings: string[] = [];
+  const useScopeAnalysis = Boolean(base.scopeAnalysis && revised.scopeAnalysis);
+  if (!useScopeAnalysis) {
+    warnings.push("Scope analysis missing on one side; scope items were compared from required deliverables.");
+  }
+  if (!base.clientResearch && !revised.clientResearch) {
+    warnings.push("No client research supplied; scores exclude client factors.");
+  }
+
+  const score = async (side: AnalysisDiffSide, other: AnalysisDiffSide) =>
+    (
+      await calculateScoreInput({
+        analysisId: side.analysisId,
+        extractedRfp: side.extractedRfp,
+        scopeAnalysis: side.scopeAnalysis ?? other.scopeAnalysis ?? {},
+        clientResearch: side.clientResearch ?? other.clientResearch ?? {}
+      })
+    ).score;
+  const [before, after] = await Promise.all([score(base, revised), score(revised, base)]);
+
+  const diff = {
+    baseAnalysisId: base.analysisId,
+    revisedAnalysisId: revised.analysisId,
+    changedDates: diffDates(base.extractedRfp.importantDates, revised.extractedRfp.importantDates),
+    scopeItems: diffItems(scopeItemsOf(base, useScopeAnalysis), scopeItemsOf(revised, useScopeAnalysis)),
+    evaluationWeights: diffWeights(base.extractedRfp, revised.extractedRfp),
+    redFlags: diffRedFlags(base.extractedRfp.redFlags, revised.extractedRfp.redFlags),
+    score: {
+      before: before.finalScore,
+      after: after.finalScore,
+      delta: roundToTwo(after.finalScore - before.finalScore),
+      recommendationBefore: before.recommendationBand,
+      recommendationAfter: after.recommendationBand
+    }
+  };
+
+  return { schemaVersion: "1.0.0", ...diff, summary: summarize(diff), warnings };
+}
+
+export interface ReanalyzeInput {
+  baseAnalysisId: string;
+  /** Id for the transient revised analysis; generated when omitted. */
+  revisedAnalysisId?: string;
+  fileName: string;
+  mimeType: string;
+  fileBytes: Buffer;
+  /**
+   * `main` treats the file as a complete revised RFP. `addendum` and `qa_response` append it
+   * to the base analysis's stored document, so it overrides only what it amends.
+   */
+  role: Extract<BundleDocumentRole, "main" | "addendum" | "qa_response">;
+  ocrProvider?: OcrProvider;
+  repository?: AnalysisRepository;
+}
+
+export interface ReanalyzeResult {
+  diff: AnalysisDiffV1;
+  revisedExtractedRfp: ExtractedRfpDataV1;
+  revisedScopeAnalysis: ScopeAnalysisV1;
+}
+
+/**
+ * Re-runs parse, extraction and scope analysis for a revised document and diffs the result
+ * against a stored analysis. Client research is reused from the base analysis, since an
+ * amendment does not change who the client is. Nothing is persisted.
+ */
+export async function reanalyzeWithDocument(input: ReanalyzeInput): Promise<ReanalyzeResult> {
+  const repository = input.repository ?? getAnalysisRepository();
+  const report = await getAnalysisReport(input.baseAnalysisId, repository);
+  const revisedAnalysisId = input.revisedAnalysisId ?? randomUUID();
+
+  const document = await parseDocumentInput({
+    analysisId: revisedAnalysisId,
+    fileName: input.fileName,
+    mimeType: input.mimeType,
+    fileBytes: input.fileBytes,
+    ocrProvider: input.ocrProvider
+  });
+
+  let parsedDocument = document;
+  if (input.role !== "main") {
+    const baseDocument = (await repository.get(input.baseAnalysisId))?.artifacts.parsedDocument;
+    if (!baseDocument) {
+      throw makeError(404, "validation_error", "The base analysis has no stored document to amend", "analysis-diff", {
+        retryable: false,
+        details: { analysisId: input.baseAnalysisId, missingArtifacts: ["parsedDocument"] }
+      });
+    }
+    parsedDocument = mergeParsedDocuments(revisedAnalysisId, [
+      { role: "main", fileName: `analysis-${input.baseAnalysisId}`, parsed: baseDocument },
+      { role: input.role, fileName: input.fileName, parsed: document }
+    ]);
+  }
+  registerAnalysisUsage({
+    analysisId: revisedAnalysisId,
+    ocrPages: document.ocrStats?.pagesOcred ?? 0,
+    tokens: estimatedExtractionTokens(parsedDocument.rawText)
+  });
+
+  try {
+    const revisedExtractedRfp = await analyzeRfpInput({ analysisId: revisedAnalysisId, parsedDocument });
+    const revisedScopeAnalysis = await analyzeScopeInput({
+      analysisId: revisedAnalysisId,
+      scopeOfWork: revisedExtractedRfp.scopeOfWork,
+      language: parsedDocument.primaryLanguage,
+      tables: parsedDocument.tables
+    });
+
+    const diff = await diffAnalyses(
+      {
+        analysisId: report.analysisId,
+        extractedRfp: report.extractedRfp,
+        scopeAnalysis: report.scopeAnalysis,
+        clientResearch: report.clientResearch
+      },
+      {
+        analysisId: revisedAnalysisId,
+        extractedRfp: revisedExtractedRfp,
+        scopeAnalysis: revisedScopeAnalysis
+      }
+    );
+    diff.warnings.push(...parsedDocument.warnings);
+
+    return { diff, revisedExtractedRfp, revisedScopeAnalysis };
+  } catch (error: unknown) {
+    throw normalizeUnknownError(error, "analysis-diff");
+  }
+}
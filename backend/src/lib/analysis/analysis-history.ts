@@ -0,0 +1,121 @@
+import { makeError } from "@/lib/api/errors";
+import { getAnalysisJobStore, type AnalysisJobStore } from "@/lib/analysis/job-store";
+import { assembleAnalysisReport, type AnalysisReportV1 } from "@/lib/analysis/run-analysis";
+import { calculateScoreInput } from "@/lib/scoring/calculate-score";
+import {
+  getAnalysisRepository,
+  type AnalysisRecordSummary,
+  type AnalysisRepository
+} from "@/lib/storage/analysis-repository";
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+export interface AnalysisHistoryPage {
+  analyses: AnalysisRecordSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+function parseNonNegativeInt(value: string | null, field: string, fallback: number): number {
+  if (value === null || value.trim() === "") {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw makeError(400, "validation_error", `${field} must be a non-negative integer`, "analyses", {
+      retryable: false,
+      details: { field }
+    });
+  }
+  return parsed;
+}
+
+export async function listAnalyses(
+  params: { limit: string | null; offset: string | null },
+  repository: AnalysisRepository = getAnalysisRepository()
+): Promise<AnalysisHistoryPage> {
+  const limit = Math.min(MAX_LIST_LIMIT, parseNonNegativeInt(params.limit, "limit", DEFAULT_LIST_LIMIT));
+  const offset = parseNonNegativeInt(params.offset, "offset", 0);
+  const page = await repository.list({ limit, offset });
+  return { ...page, limit, offset };
+}
+
+/**
+ * Returns the stored report, or assembles one from stored stage artifacts when the
+ * analysis was produced through the per-stage routes rather than /api/analyses.
+ */
+export async function getAnalysisReport(
+  analysisId: string,
+  repository: AnalysisRepository = getAnalysisRepository()
+): Promise<AnalysisReportV1> {
+  const stored = await repository.get(analysisId);
+  if (!stored) {
+    throw makeError(404, "validation_error", "Analysis not found", "analyses", {
+      retryable: false,
+      details: { analysisId }
+    });
+  }
+
+  const { report, parsedDocument, extractedRfp, scopeAnalysis, clientResearch, financialScore } = stored.artifacts;
+  if (report) {
+    return report;
+  }
+
+  if (!extractedRfp || !scopeAnalysis || !clientResearch || !financialScore) {
+    const missingArtifacts = (
+      [
+        ["extractedRfp", extractedRfp],
+        ["scopeAnalysis", scopeAnalysis],
+        ["clientResearch", clientResearch],
+        ["financialScore", financialScore]
+      ] as const
+    )
+      .filter(([, value]) => !value)
+      .map(([name]) => name);
+
+    throw makeError(404, "validation_error", "Analysis report is not available yet", "analyses", {
+      retryable: false,
+      details: { analysisId, missingArtifacts }
+    });
+  }
+
+  // The score artifact does not carry its warnings; they follow from the stored stage
+  // inputs, so re-derive them and keep the stored score itself.
+  const { warnings: scoreWarnings } = await calculateScoreInput({ analysisId, extractedRfp, scopeAnalysis, clientResearch });
+  return assembleAnalysisReport({
+    analysisId,
+    parsedDocument: parsedDocument ?? null,
+    extractedRfp,
+    scopeAnalysis,
+    clientResearch,
+    scoring: { score: financialScore, warnings: scoreWarnings }
+  });
+}
+
+export async function deleteAnalysis(
+  analysisId: string,
+  repository: AnalysisRepository = getAnalysisRepository(),
+  jobStore: AnalysisJobStore = getAnalysisJobStore()
+): Promise<{ analysisId: string; deleted: true }> {
+  const job = await jobStore.get(analysisId);
+  if (job && (job.status === "queued" || job.status === "running")) {
+    throw makeError(409, "validation_error", "Analysis is still running", "analyses", {
+      retryable: true,
+      details: { analysisId, status: job.status }
+    });
+  }
+
+  const deleted = await repository.delete(analysisId);
+  if (!deleted && !job) {
+    throw makeError(404, "validation_error", "Analysis not found", "analyses", {
+      retryable: false,
+      details: { analysisId }
+    });
+  }
+
+  await jobStore.delete(analysisId);
+  return { analysisId, deleted: true };
+}
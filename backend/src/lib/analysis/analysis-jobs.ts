@@ -0,0 +1,194 @@
+import { after } from "next/server";
+import { makeError, normalizeUnknownError } from "@/lib/api/errors";
+import {
+  ANALYSIS_STAGES,
+  percentCompleteForStages,
+  type AnalysisProgressEvent
+} from "@/lib/analysis/progress";
+import { publishAnalysisEvent } from "@/lib/analysis/event-bus";
+import { getAnalysisJobStore, type AnalysisJobStore, type AnalysisJobV1 } from "@/lib/analysis/job-store";
+import { runAnalysisPipeline, type RunAnalysisInput } from "@/lib/analysis/run-analysis";
+
+function createQueuedJob(analysisId: string): AnalysisJobV1 {
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: "1.0.0",
+    jobId: analysisId,
+    analysisId,
+    status: "queued",
+    currentStage: null,
+    percentComplete: 0,
+    stages: ANALYSIS_STAGES.map((stage) => ({
+      stage,
+      status: "pending",
+      startedAt: null,
+      completedAt: null
+    })),
+    artifacts: {},
+    report: null,
+    warnings: [],
+    partialResult: false,
+    error: null,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Folds a progress event into the job record. Returns false for stream-only events
+ * (pass and provider results) that do not change the stored job.
+ */
+export function applyProgressEvent(job: AnalysisJobV1, event: AnalysisProgressEvent): boolean {
+  if (event.type === "pass_result" || event.type === "provider_result") {
+    return false;
+  }
+
+  job.updatedAt = event.at;
+
+  if (event.type === "artifact") {
+    job.artifacts[event.artifact] = event.data;
+    return true;
+  }
+
+  const record = job.stages.find((item) => item.stage === event.stage);
+  if (!record) {
+    return false;
+  }
+
+  if (event.status === "started") {
+    record.status = "running";
+    record.startedAt = event.at;
+    job.currentStage = event.stage;
+  } else {
+    record.status = event.status;
+    record.completedAt = event.at;
+  }
+
+  job.percentComplete = percentCompleteForStages(
+    job.stages.filter((item) => item.status === "completed").map((item) => item.stage)
+  );
+  return true;
+}
+
+/**
+ * Runs the pipeline for an already-saved job, persisting the job record after every
+ * stage or artifact event and fanning all events out to stream subscribers. Saves
+ * are chained so a slow store never reorders snapshots.
+ */
+export async function runAnalysisJob(
+  input: RunAnalysisInput,
+  store: AnalysisJobStore = getAnalysisJobStore()
+): Promise<AnalysisJobV1> {
+  const job = (await store.get(input.analysisId)) ?? createQueuedJob(input.analysisId);
+  let pending: Promise<void> = Promise.resolve();
+  const persist = () => {
+    const snapshot = structuredClone(job);
+    pending = pending.then(() => store.save(snapshot)).catch(() => {
+      // A failed intermediate snapshot is superseded by the next one.
+    });
+  };
+
+  job.status = "running";
+  job.updatedAt = new Date().toISOString();
+  persist();
+
+  try {
+    const result = await runAnalysisPipeline({
+      ...input,
+      onProgress: (event) => {
+        input.onProgress?.(event);
+        if (applyProgressEvent(job, event)) {
+          persist();
+        }
+        publishAnalysisEvent(job.jobId, event);
+      }
+    });
+
+    job.status = "succeeded";
+    job.currentStage = null;
+    job.percentComplete = 100;
+    job.report = result.report;
+    job.warnings = result.warnings;
+    job.partialResult = result.partialResult;
+  } catch (error: unknown) {
+    job.status = "failed";
+    job.error = normalizeUnknownError(error, "analyses").shape;
+  }
+
+  job.updatedAt = new Date().toISOString();
+  await pending;
+  try {
+    await store.save(job);
+  } catch (error: unknown) {
+    await recordUnsavedResult(job, error, store);
+  } finally {
+    publishAnalysisEvent(job.jobId, { type: "job", status: job.status, at: job.updatedAt, error: job.error });
+  }
+  return job;
+}
+
+/**
+ * A job left "running" in the store blocks every resubmission with 409, so when the
+ * finished job cannot be saved it is recorded as failed without the report (often
+ * what the store could not take), or removed when even that save fails.
+ */
+async function recordUnsavedResult(job: AnalysisJobV1, error: unknown, store: AnalysisJobStore): Promise<void> {
+  console.error(`Saving analysis job ${job.jobId} failed:`, error instanceof Error ? error.message : error);
+  job.status = "failed";
+  job.report = null;
+  job.error = normalizeUnknownError(error, "analyses").shape;
+  job.updatedAt = new Date().toISOString();
+  try {
+    await store.save(job);
+  } catch {
+    await store.delete(job.jobId).catch((deleteError: unknown) => {
+      console.error(`Removing unsaved analysis job ${job.jobId} failed:`, deleteError);
+    });
+  }
+}
+
+/**
+ * Records a queued job and starts the pipeline without awaiting it. The run is handed
+ * to `after()` so the platform keeps the function alive once the 202 is sent. The job
+ * id is the analysisId, so resubmitting while a run is still in flight is rejected.
+ */
+export async function submitAnalysisJob(
+  input: RunAnalysisInput,
+  store: AnalysisJobStore = getAnalysisJobStore(),
+  schedule: (task: Promise<unknown>) => void = after
+): Promise<AnalysisJobV1> {
+  const existing = await store.get(input.analysisId);
+  if (existing && (existing.status === "queued" || existing.status === "running")) {
+    throw makeError(409, "validation_error", "An analysis job is already in progress for this analysisId", "analyses", {
+      retryable: true,
+      details: { jobId: existing.jobId, status: existing.status }
+    });
+  }
+
+  const job = createQueuedJob(input.analysisId);
+  await store.save(job);
+
+  schedule(
+    runAnalysisJob(input, store).catch((error: unknown) => {
+      // Pipeline and final-save failures are recorded on the job; only a store that
+      // cannot even be read lands here.
+      console.error(`Analysis job ${job.jobId} could not start:`, error instanceof Error ? error.message : error);
+    })
+  );
+
+  return job;
+}
+
+export async function getAnalysisJob(
+  jobId: string,
+  store: AnalysisJobStore = getAnalysisJobStore()
+): Promise<AnalysisJobV1> {
+  const job = await store.get(jobId);
+  if (!job) {
+    throw makeError(404, "validation_error", "Analysis job not found", "analyses", {
+      retryable: false,
+      details: { jobId }
+    });
+  }
+  return job;
+}
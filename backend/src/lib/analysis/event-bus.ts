@@ -0,0 +1,45 @@
+import type { AnalysisJobStatus } from "@/lib/analysis/job-store";
+import type { AnalysisProgressEvent } from "@/lib/analysis/progress";
+import type { ApiErrorShape } from "@/lib/api/errors";
+
+export type AnalysisStreamEvent =
+  | AnalysisProgressEvent
+  | {
+      type: "job";
+      status: AnalysisJobStatus;
+      at: string;
+      error: ApiErrorShape | null;
+    };
+
+export type AnalysisStreamListener = (event: AnalysisStreamEvent) => void;
+
+// In-process only: subscribers see events for jobs running in the same instance.
+const listenersByJob = new Map<string, Set<AnalysisStreamListener>>();
+
+export function subscribeAnalysisEvents(jobId: string, listener: AnalysisStreamListener): () => void {
+  const listeners = listenersByJob.get(jobId) ?? new Set<AnalysisStreamListener>();
+  listeners.add(listener);
+  listenersByJob.set(jobId, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && listenersByJob.get(jobId) === listeners) {
+      listenersByJob.delete(jobId);
+    }
+  };
+}
+
+export function publishAnalysisEvent(jobId: string, event: AnalysisStreamEvent): void {
+  const listeners = listenersByJob.get(jobId);
+  if (!listeners) {
+    return;
+  }
+
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(event);
+    } catch {
+      // A broken subscriber must not interrupt the pipeline or other subscribers.
+    }
+  }
+}
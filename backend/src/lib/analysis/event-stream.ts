@@ -0,0 +1,101 @@
+import { getAnalysisJob } from "@/lib/analysis/analysis-jobs";
+import { subscribeAnalysisEvents, type AnalysisStreamEvent } from "@/lib/analysis/event-bus";
+import { getAnalysisJobStore, type AnalysisJobStore } from "@/lib/analysis/job-store";
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+function formatSseEvent(id: number, event: string, data: unknown): string {
+  return `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Opens a Server-Sent Events stream for a job: a `snapshot` event with the stored
+ * job record first, then live progress events, ending with a `job` event once the
+ * run succeeds or fails. Throws (404) before streaming if the job is unknown.
+ */
+export async function openAnalysisEventStream(
+  jobId: string,
+  options: { store?: AnalysisJobStore; signal?: AbortSignal } = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const store = options.store ?? getAnalysisJobStore();
+  const encoder = new TextEncoder();
+
+  // Subscribe before reading the snapshot so nothing emitted in between is lost.
+  const buffered: AnalysisStreamEvent[] = [];
+  let deliver: ((event: AnalysisStreamEvent) => void) | null = null;
+  const unsubscribe = subscribeAnalysisEvents(jobId, (event) => {
+    if (deliver) {
+      deliver(event);
+    } else {
+      buffered.push(event);
+    }
+  });
+
+  let job;
+  try {
+    job = await getAnalysisJob(jobId, store);
+  } catch (error: unknown) {
+    unsubscribe();
+    throw error;
+  }
+
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+  let sequence = 0;
+
+  const cleanup = () => {
+    closed = true;
+    unsubscribe();
+    if (heartbeat) {
+      clearInterval(heartbeat);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) {
+          return;
+        }
+        cleanup();
+        controller.close();
+      };
+
+      const send = (event: AnalysisStreamEvent) => {
+        if (closed) {
+          return;
+        }
+        sequence += 1;
+        controller.enqueue(encoder.encode(formatSseEvent(sequence, event.type, event)));
+        if (event.type === "job") {
+          close();
+        }
+      };
+
+      sequence += 1;
+      controller.enqueue(encoder.encode(formatSseEvent(sequence, "snapshot", job)));
+
+      if (job.status === "succeeded" || job.status === "failed") {
+        send({ type: "job", status: job.status, at: job.updatedAt, error: job.error });
+        return;
+      }
+
+      for (const event of buffered.splice(0)) {
+        send(event);
+      }
+      deliver = send;
+
+      heartbeat = setInterval(() => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(": keep-alive\n\n"));
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+      heartbeat.unref?.();
+
+      options.signal?.addEventListener("abort", close, { once: true });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+}
@@ -0,0 +1,122 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { ApiErrorShape } from "@/lib/api/errors";
+import type { AnalysisArtifactName, AnalysisStage } from "@/lib/analysis/progress";
+import type { AnalysisReportV1 } from "@/lib/analysis/run-analysis";
+
+export type AnalysisJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface AnalysisJobStageRecord {
+  stage: AnalysisStage;
+  status: "pending" | "running" | "completed" | "failed";
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface AnalysisJobV1 {
+  schemaVersion: "1.0.0";
+  jobId: string;
+  analysisId: string;
+  status: AnalysisJobStatus;
+  currentStage: AnalysisStage | null;
+  percentComplete: number;
+  stages: AnalysisJobStageRecord[];
+  artifacts: Partial<Record<AnalysisArtifactName, unknown>>;
+  report: AnalysisReportV1 | null;
+  warnings: string[];
+  partialResult: boolean;
+  error: ApiErrorShape | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnalysisJobStore {
+  save(job: AnalysisJobV1): Promise<void>;
+  get(jobId: string): Promise<AnalysisJobV1 | null>;
+  delete(jobId: string): Promise<void>;
+}
+
+export class InMemoryAnalysisJobStore implements AnalysisJobStore {
+  private readonly jobs = new Map<string, AnalysisJobV1>();
+
+  async save(job: AnalysisJobV1): Promise<void> {
+    this.jobs.set(job.jobId, structuredClone(job));
+  }
+
+  async get(jobId: string): Promise<AnalysisJobV1 | null> {
+    const job = this.jobs.get(jobId);
+    return job ? structuredClone(job) : null;
+  }
+
+  async delete(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+}
+
+/**
+ * Stores one JSON file per job so that status survives process restarts on a
+ * single host. Writes go through a temp file + rename to avoid torn reads.
+ */
+export class FileAnalysisJobStore implements AnalysisJobStore {
+  constructor(private readonly dir: string) {}
+
+  private filePath(jobId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(jobId)}.json`);
+  }
+
+  async save(job: AnalysisJobV1): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const target = this.filePath(job.jobId);
+    const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(job), "utf8");
+    await fs.rename(tmp, target);
+  }
+
+  async get(jobId: string): Promise<AnalysisJobV1 | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(jobId), "utf8");
+      return JSON.parse(raw) as AnalysisJobV1;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(jobId: string): Promise<void> {
+    await fs.rm(this.filePath(jobId), { force: true });
+  }
+}
+
+let defaultStore: AnalysisJobStore | null = null;
+
+export function getAnalysisJobStore(): AnalysisJobStore {
+  if (defaultStore) {
+    return defaultStore;
+  }
+
+  if (process.env.ANALYSIS_JOB_STORE === "file") {
+    const dir = process.env.ANALYSIS_JOB_DIR || path.join(os.tmpdir(), "angle-rfp-jobs");
+    defaultStore = new FileAnalysisJobStore(dir);
+  } else {
+    defaultStore = new InMemoryAnalysisJobStore();
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Deployed async jobs outlive the request that queued them and may be polled from another
+ * worker, so production needs a store other than the per-process memory one. Local runs
+ * poll the process that runs the job, where the memory store is enough.
+ */
+export function canQueueAnalysisJobs(): boolean {
+  const isProdLike = process.env.NODE_ENV === "production" || process.env.VERCEL === "1";
+  return !isProdLike || !(getAnalysisJobStore() instanceof InMemoryAnalysisJobStore);
+}
+
+export function setAnalysisJobStore(store: AnalysisJobStore | null): void {
+  defaultStore = store;
+}
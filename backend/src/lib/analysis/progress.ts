@@ -0,0 +1,110 @@
+import type { RoutedProviderName } from "@/lib/research/provider-router";
+
+export const ANALYSIS_STAGES = [
+  "parse",
+  "extract_pass1",
+  "extract_pass2",
+  "extract_pass3",
+  "extract_pass4",
+  "extract_pass5",
+  "extract_pass6",
+  "beautify",
+  "scope",
+  "research",
+  "score"
+] as const;
+
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number];
+
+export type AnalysisArtifactName = "parsedDocument" | "extractedRfp" | "scopeAnalysis" | "clientResearch" | "financialScore";
+
+export type AnalysisProgressEvent =
+  | {
+      type: "stage";
+      stage: AnalysisStage;
+      status: "started" | "completed" | "failed";
+      at: string;
+    }
+  | {
+      type: "artifact";
+      artifact: AnalysisArtifactName;
+      at: string;
+      data: unknown;
+    }
+  | {
+      type: "pass_result";
+      stage: AnalysisStage;
+      at: string;
+      data: unknown;
+    }
+  | {
+      type: "provider_result";
+      provider: RoutedProviderName;
+      status: "succeeded" | "failed";
+      latencyMs: number;
+      documentCount: number;
+      target: string;
+      at: string;
+    };
+
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void;
+
+// Relative share of wall-clock time each stage typically takes; sums to 100.
+const STAGE_WEIGHTS: Record<AnalysisStage, number> = {
+  parse: 15,
+  extract_pass1: 25,
+  extract_pass2: 3,
+  extract_pass3: 3,
+  extract_pass4: 3,
+  extract_pass5: 3,
+  extract_pass6: 3,
+  beautify: 10,
+  scope: 10,
+  research: 15,
+  score: 10
+};
+
+export function percentCompleteForStages(completed: Iterable<AnalysisStage>): number {
+  let total = 0;
+  for (const stage of new Set(completed)) {
+    total += STAGE_WEIGHTS[stage];
+  }
+  return Math.min(100, total);
+}
+
+export function emitStage(
+  listener: AnalysisProgressListener | undefined,
+  stage: AnalysisStage,
+  status: "started" | "completed" | "failed"
+): void {
+  listener?.({ type: "stage", stage, status, at: new Date().toISOString() });
+}
+
+export function emitArtifact(
+  listener: AnalysisProgressListener | undefined,
+  artifact: AnalysisArtifactName,
+  data: unknown
+): void {
+  listener?.({ type: "artifact", artifact, at: new Date().toISOString(), data });
+}
+
+export function emitPassResult(
+  listener: AnalysisProgressListener | undefined,
+  stage: AnalysisStage,
+  data: unknown
+): void {
+  listener?.({ type: "pass_result", stage, at: new Date().toISOString(), data });
+}
+
+export function emitProviderResult(
+  listener: AnalysisProgressListener | undefined,
+  result: {
+    provider: RoutedProviderName;
+    status: "succeeded" | "failed";
+    latencyMs: number;
+    documentCount: number;
+    target: string;
+  }
+): void {
+  listener?.({ type: "provider_result", ...result, at: new Date().toISOString() });
+}
@@ -0,0 +1,308 @@
+import {
+  emitArtifact,
+  emitStage,
+  type AnalysisProgressListener,
+  type AnalysisStage
+} from "@/lib/analysis/progress";
+import { makeError, normalizeUnknownError } from "@/lib/api/errors";
+import { buildClarificationQuestions, type ClarificationListV1 } from "@/lib/clarifications/clarification-questions";
+import { analyzeRfpInput, type ExtractedRfpDataV1 } from "@/lib/extraction/analyze-rfp";
+import { registerAnalysisUsage } from "@/lib/ops/cost-budget";
+import { parseDocumentBundle, type BundleDocumentInput } from "@/lib/parsing/document-bundle";
+import type { OcrProvider } from "@/lib/parsing/ocr-provider";
+import { parseDocumentInput, type ParsedDocumentV1 } from "@/lib/parsing/parse-document";
+import { researchClientInput, type ClientResearchV1, type ResearchProviderSet } from "@/lib/research/research-client";
+import { analyzeScopeInput, type ScopeAnalysisV1 } from "@/lib/scope/analyze-scope";
+import { calculateScoreInput, type CalculateScoreResult, type FinancialScoreV1 } from "@/lib/scoring/calculate-score";
+import { persistAnalysisArtifact, type AnalysisRepository } from "@/lib/storage/analysis-repository";
+
+export type PipelineStage = "parse" | "extract" | "scope" | "research" | "score";
+
+export interface RunAnalysisInput {
+  analysisId: string;
+  fileName: string;
+  mimeType: string;
+  fileBytes: Buffer;
+  /** Annexes, addenda and Q&A responses parsed into one bundle with the main document. */
+  attachments?: BundleDocumentInput[];
+  ocrProvider?: OcrProvider;
+  researchProviders?: ResearchProviderSet;
+  onProgress?: AnalysisProgressListener;
+  repository?: AnalysisRepository;
+}
+
+export interface AnalysisReportV1 {
+  schemaVersion: "1.0.0";
+  analysisId: string;
+  summary: {
+    headline: string;
+    recommendation: string;
+    score: number;
+  };
+  extractedRfp: ExtractedRfpDataV1;
+  scopeAnalysis: ScopeAnalysisV1;
+  clientResearch: ClientResearchV1;
+  financialScore: FinancialScoreV1;
+  clarifications?: ClarificationListV1;
+  warnings: string[];
+  stageWarnings?: Record<PipelineStage, string[]>;
+  generatedAt: string;
+}
+
+export interface RunAnalysisResult {
+  parsedDocument: ParsedDocumentV1;
+  report: AnalysisReportV1;
+  warnings: string[];
+  partialResult: boolean;
+}
+
+const STAGE_ERROR_NAMES: Record<PipelineStage, string> = {
+  parse: "parse-document",
+  extract: "analyze-rfp",
+  scope: "analyze-scope",
+  research: "research-client",
+  score: "calculate-score"
+};
+
+// The extract stage reports its own pass-level progress from analyzeRfpInput.
+const STAGE_PROGRESS_NAMES: Record<PipelineStage, AnalysisStage | null> = {
+  parse: "parse",
+  extract: null,
+  scope: "scope",
+  research: "research",
+  score: "score"
+};
+
+async function runStage<T>(
+  stage: PipelineStage,
+  run: () => Promise<T>,
+  onProgress?: AnalysisProgressListener
+): Promise<T> {
+  const progressStage = STAGE_PROGRESS_NAMES[stage];
+  if (progressStage) {
+    emitStage(onProgress, progressStage, "started");
+  }
+
+  try {
+    const result = await run();
+    if (progressStage) {
+      emitStage(onProgress, progressStage, "completed");
+    }
+    return result;
+  } catch (error: unknown) {
+    if (progressStage) {
+      emitStage(onProgress, progressStage, "failed");
+    }
+    throw normalizeUnknownError(error, STAGE_ERROR_NAMES[stage]);
+  }
+}
+
+export function buildAnalysisReport(input: {
+  analysisId: string;
+  extractedRfp: ExtractedRfpDataV1;
+  scopeAnalysis: ScopeAnalysisV1;
+  clientResearch: ClientResearchV1;
+  financialScore: FinancialScoreV1;
+  warnings: string[];
+  stageWarnings?: Record<PipelineStage, string[]>;
+}): AnalysisReportV1 {
+  return {
+    schemaVersion: "1.0.0",
+    analysisId: input.analysisId,
+    summary: {
+      headline: `${input.extractedRfp.projectName} opportunity`,
+      recommendation: input.financialScore.recommendationBand,
+      score: input.financialScore.finalScore
+    },
+    extractedRfp: input.extractedRfp,
+    scopeAnalysis: input.scopeAnalysis,
+    clientResearch: input.clientResearch,
+    financialScore: input.financialScore,
+    clarifications: buildClarificationQuestions({
+      extractedRfp: input.extractedRfp,
+      scopeAnalysis: input.scopeAnalysis
+    }),
+    warnings: input.warnings,
+    ...(input.stageWarnings ? { stageWarnings: input.stageWarnings } : {}),
+    generatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * The report with every stage's warnings, grouped by stage. Shared by the pipeline and
+ * the stored-artifact fallback so both produce the same report for the same artifacts.
+ */
+export function assembleAnalysisReport(input: {
+  analysisId: string;
+  parsedDocument: ParsedDocumentV1 | null;
+  extractedRfp: ExtractedRfpDataV1;
+  scopeAnalysis: ScopeAnalysisV1;
+  clientResearch: ClientResearchV1;
+  scoring: CalculateScoreResult;
+}): AnalysisReportV1 {
+  const stageWarnings: Record<PipelineStage, string[]> = {
+    parse: input.parsedDocument?.warnings ?? [],
+    extract: input.extractedRfp.warnings,
+    scope: input.scopeAnalysis.warnings,
+    research: input.clientResearch.warnings,
+    score: input.scoring.warnings
+  };
+
+  return buildAnalysisReport({
+    analysisId: input.analysisId,
+    extractedRfp: input.extractedRfp,
+    scopeAnalysis: input.scopeAnalysis,
+    clientResearch: input.clientResearch,
+    financialScore: input.scoring.score,
+    warnings: Object.values(stageWarnings).flat(),
+    stageWarnings
+  });
+}
+
+export function estimatedExtractionTokens(rawText: string): number {
+  return Math.ceil(rawText.length / 4) * 5;
+}
+
+/**
+ * Runs parse -> extract -> (scope || research) -> score server-side and assembles
+ * an AnalysisReportV1. Stage failures surface as ApiErrors tagged with the stage name.
+ * Each artifact is persisted as soon as it exists, so failed runs keep what they produced.
+ */
+export async function runAnalysisPipeline(input: RunAnalysisInput): Promise<RunAnalysisResult> {
+  if (!input.analysisId) {
+    throw makeError(400, "validation_error", "analysisId is required", "analyses", {
+      retryable: false
+    });
+  }
+
+  const { onProgress, repository } = input;
+  const storageWarnings: string[] = [];
+  const persist = async (...args: Parameters<typeof persistAnalysisArtifact>) => {
+    storageWarnings.push(...(await persistAnalysisArtifact(...args)));
+  };
+
+  const parsedDocument = await runStage(
+    "parse",
+    () =>
+      input.attachments?.length
+        ? parseDocumentBundle({
+            analysisId: input.analysisId,
+            documents: [
+              { role: "main", fileName: input.fileName, mimeType: input.mimeType, fileBytes: input.fileBytes },
+              ...input.attachments
+            ],
+            ocrProvider: input.ocrProvider
+          })
+        : parseDocumentInput({
+            analysisId: input.analysisId,
+            fileName: input.fileName,
+            mimeType: input.mimeType,
+            fileBytes: input.fileBytes,
+            ocrProvider: input.ocrProvider
+          }),
+    onProgress
+  );
+  emitArtifact(onProgress, "parsedDocument", parsedDocument);
+  await persist(input.analysisId, "parsedDocument", parsedDocument, repository);
+  registerAnalysisUsage({
+    analysisId: input.analysisId,
+    ocrPages: parsedDocument.ocrStats?.pagesOcred ?? 0
+  });
+
+  const extractedRfp = await runStage(
+    "extract",
+    () =>
+      analyzeRfpInput(
+        {
+          analysisId: input.analysisId,
+          parsedDocument
+        },
+        { onProgress }
+      ),
+    onProgress
+  );
+  emitArtifact(onProgress, "extractedRfp", extractedRfp);
+  await persist(input.analysisId, "extractedRfp", extractedRfp, repository);
+  registerAnalysisUsage({
+    analysisId: input.analysisId,
+    tokens: estimatedExtractionTokens(parsedDocument.rawText)
+  });
+
+  const [scopeAnalysis, clientResearch] = await Promise.all([
+    runStage(
+      "scope",
+      async () => {
+        const scope = await analyzeScopeInput({
+          analysisId: input.analysisId,
+          scopeOfWork: extractedRfp.scopeOfWork,
+          language: parsedDocument.primaryLanguage,
+          tables: parsedDocument.tables
+        });
+        emitArtifact(onProgress, "scopeAnalysis", scope);
+        await persist(input.analysisId, "scopeAnalysis", scope, repository);
+        return scope;
+      },
+      onProgress
+    ),
+    runStage(
+      "research",
+      async () => {
+        const research = await researchClientInput(
+          {
+            analysisId: input.analysisId,
+            clientName: extractedRfp.clientName,
+            clientNameArabic: extractedRfp.clientNameArabic ?? undefined,
+            country: "SA",
+            rfpContext: {
+              projectName: extractedRfp.projectName,
+              projectDescription: extractedRfp.projectDescription,
+              scopeOfWork: extractedRfp.scopeOfWork
+            }
+          },
+          input.researchProviders,
+          { onProgress }
+        );
+        emitArtifact(onProgress, "clientResearch", research);
+        await persist(input.analysisId, "clientResearch", research, repository);
+        return research;
+      },
+      onProgress
+    )
+  ]);
+  registerAnalysisUsage({
+    analysisId: input.analysisId,
+    queries: 5
+  });
+
+  const scoring = await runStage(
+    "score",
+    () =>
+      calculateScoreInput({
+        analysisId: input.analysisId,
+        extractedRfp,
+        scopeAnalysis,
+        clientResearch
+      }),
+    onProgress
+  );
+  emitArtifact(onProgress, "financialScore", scoring.score);
+  await persist(input.analysisId, "financialScore", scoring.score, repository);
+
+  const report = assembleAnalysisReport({
+    analysisId: input.analysisId,
+    parsedDocument,
+    extractedRfp,
+    scopeAnalysis,
+    clientResearch,
+    scoring
+  });
+  const { warnings } = report;
+  await persist(input.analysisId, "report", report, repository);
+
+  return {
+    parsedDocument,
+    report,
+    warnings: [...warnings, ...storageWarnings],
+    partialResult: warnings.length + storageWarnings.length > 0
+  };
+}
@@ -0,0 +1,102 @@
+import type { ClarificationListV1 } from "@/lib/clarifications/clarification-questions";
+
+export type LetterLanguage = "en" | "ar";
+
+export interface ClarificationLetterInput {
+  clarifications: ClarificationListV1;
+  language: LetterLanguage;
+  clientName: string;
+  projectName: string;
+  /** Defaults to a placeholder the bid team fills in before sending. */
+  agencyName?: string;
+  issuedAt?: Date;
+}
+
+export interface ClarificationLetter {
+  language: LetterLanguage;
+  subject: string;
+  body: string;
+  questionCount: number;
+  /** Q&A deadline the letter should be sent before, when the RFP states one. */
+  sendBefore: string | null;
+}
+
+function deadlineText(qaDeadline: ClarificationListV1["qaDeadline"], language: LetterLanguage): string | null {
+  if (!qaDeadline) {
+    return null;
+  }
+  if (!qaDeadline.time) {
+    return qaDeadline.date;
+  }
+  return language === "ar" ? `${qaDeadline.date} الساعة ${qaDeadline.time}` : `${qaDeadline.date} at ${qaDeadline.time}`;
+}
+
+function numberedQuestions(clarifications: ClarificationListV1, language: LetterLanguage): string[] {
+  return clarifications.questions.flatMap((question, index) => {
+    const lines = [`${index + 1}. ${question.question[language]}`];
+    if (question.reference) {
+      lines.push(language === "ar" ? `   المرجع: «${question.reference}»` : `   Reference: "${question.reference}"`);
+    }
+    return [...lines, ""];
+  });
+}
+
+type LetterText = Pick<ClarificationLetter, "subject" | "body">;
+
+function englishLetter(input: ClarificationLetterInput, issued: string, deadline: string | null): LetterText {
+  const subject = `Request for Clarification - ${input.projectName}`;
+  const body = [
+    `To: ${input.clientName}`,
+    `Date: ${issued}`,
+    `Subject: ${subject}`,
+    "",
+    "Dear Sir/Madam,",
+    "",
+    `With reference to the RFP for ${input.projectName}, we respectfully request clarification on the points below.` +
+      (deadline ? ` We would be grateful to receive your responses in line with the clarification deadline of ${deadline}.` : ""),
+    "",
+    ...numberedQuestions(input.clarifications, "en"),
+    "Thank you for your support. We look forward to your response.",
+    "",
+    "Yours sincerely,",
+    input.agencyName ?? "[Agency name]"
+  ].join("\n");
+  return { subject, body };
+}
+
+function arabicLetter(input: ClarificationLetterInput, issued: string, deadline: string | null): LetterText {
+  const subject = `طلب استيضاح - ${input.projectName}`;
+  const body = [
+    `إلى: ${input.clientName}`,
+    `التاريخ: ${issued}`,
+    `الموضوع: ${subject}`,
+    "",
+    `السادة/ ${input.clientName} المحترمين،`,
+    "السلام عليكم ورحمة الله وبركاته،",
+    "",
+    `بالإشارة إلى كراسة الشروط والمواصفات الخاصة بـ ${input.projectName}، نأمل التكرم بتوضيح النقاط التالية` +
+      (deadline ? `، وذلك وفق الموعد المحدد لاستقبال الاستفسارات في ${deadline}.` : "."),
+    "",
+    ...numberedQuestions(input.clarifications, "ar"),
+    "شاكرين لكم حسن تعاونكم.",
+    "",
+    "وتفضلوا بقبول فائق الاحترام والتقدير،",
+    input.agencyName ?? "[اسم الوكالة]"
+  ].join("\n");
+  return { subject, body };
+}
+
+/** Renders the clarification list as a formal request letter to the client, in English or Arabic. */
+export function renderClarificationLetter(input: ClarificationLetterInput): ClarificationLetter {
+  const issued = (input.issuedAt ?? new Date()).toISOString().slice(0, 10);
+  const deadline = deadlineText(input.clarifications.qaDeadline, input.language);
+  const letter =
+    input.language === "ar" ? arabicLetter(input, issued, deadline) : englishLetter(input, issued, deadline);
+
+  return {
+    language: input.language,
+    ...letter,
+    questionCount: input.clarifications.questions.length,
+    sendBefore: input.clarifications.qaDeadline?.deadlineAt ?? input.clarifications.qaDeadline?.date ?? null
+  };
+}
@@ -0,0 +1,241 @@
+import type { ExtractedRfpDataV1 } from "@/lib/extraction/analyze-rfp";
+import type { ConflictField } from "@/lib/extraction/passes/pass5-conflicts";
+import type { ScopeAnalysisV1 } from "@/lib/scope/analyze-scope";
+
+export type ClarificationPriority = "high" | "medium" | "low";
+export type ClarificationOrigin = "missing_information" | "conflict" | "scope" | "red_flag";
+
+export interface ClarificationQuestionV1 {
+  /** Position in the prioritized list, "Q1", "Q2", ... */
+  id: string;
+  priority: ClarificationPriority;
+  /** Deduplication key, e.g. "budget", "conflict:submission_deadline", "red_flag:unlimited_liability". */
+  topic: string;
+  origins: ClarificationOrigin[];
+  question: { en: string; ar: string };
+  /** RFP text the question refers to, quoted verbatim. */
+  reference?: string;
+}
+
+export interface ClarificationListV1 {
+  questions: ClarificationQuestionV1[];
+  /** Earliest stated Q&A deadline; the letter should reach the client before it. */
+  qaDeadline: {
+    date: string;
+    time?: string;
+    deadlineAt?: string;
+    daysRemaining?: number;
+  } | null;
+  warnings: string[];
+}
+
+export interface ClarificationSource {
+  extractedRfp: Pick<ExtractedRfpDataV1, "missingInformation" | "redFlags" | "importantDates" | "conflicts">;
+  scopeAnalysis?: Pick<ScopeAnalysisV1, "uncertainItems"> | null;
+}
+
+type Candidate = Omit<ClarificationQuestionV1, "id">;
+
+const priorityRank: Record<ClarificationPriority, number> = { high: 0, medium: 1, low: 2 };
+const MAX_REFERENCE_LENGTH = 200;
+
+const missingInformationQuestions: Record<string, { priority: ClarificationPriority; en: string; ar: string }> = {
+  budget: {
+    priority: "medium",
+    en: "Could you share the estimated budget or budget range allocated for this project?",
+    ar: "نرجو التكرم بتزويدنا بالميزانية التقديرية أو النطاق المالي المخصص لهذا المشروع."
+  },
+  important_dates: {
+    priority: "high",
+    en: "Could you confirm the proposal submission deadline and the deadline for clarification questions, including the time and time zone?",
+    ar: "نرجو تأكيد الموعد النهائي لتقديم العروض وآخر موعد لاستقبال الاستفسارات، مع تحديد الساعة والتوقيت."
+  },
+  submission_method: {
+    priority: "high",
+    en: "Could you confirm how proposals should be submitted (portal, email or physical delivery) and to whom?",
+    ar: "نرجو توضيح طريقة تقديم العروض (المنصة الإلكترونية أو البريد الإلكتروني أو التسليم الورقي) والجهة المستلمة."
+  },
+  submission_format: {
+    priority: "low",
+    en: "Are there required file formats, size limits or templates for the technical and financial proposals?",
+    ar: "هل توجد صيغ ملفات أو أحجام أو نماذج محددة مطلوبة للعرضين الفني والمالي؟"
+  },
+  contract_terms: {
+    priority: "medium",
+    en: "Could you share the draft contract, including payment terms, liability and termination provisions?",
+    ar: "نرجو تزويدنا بمسودة العقد متضمنة شروط الدفع والمسؤولية وأحكام الإنهاء."
+  }
+};
+
+const conflictLabels: Record<ConflictField, { en: string; ar: string }> = {
+  submission_deadline: { en: "the submission deadline", ar: "الموعد النهائي لتقديم العروض" },
+  qa_deadline: { en: "the deadline for clarification questions", ar: "آخر موعد لاستقبال الاستفسارات" },
+  submission_method: { en: "the submission method", ar: "طريقة تقديم العروض" },
+  submission_email: { en: "the submission email address", ar: "البريد الإلكتروني لتقديم العروض" },
+  copies: { en: "the number of proposal copies", ar: "عدد نسخ العرض" },
+  technical_weight: { en: "the technical evaluation weight", ar: "وزن التقييم الفني" },
+  financial_weight: { en: "the financial evaluation weight", ar: "وزن التقييم المالي" },
+  contract_duration: { en: "the contract duration", ar: "مدة العقد" },
+  client_name: { en: "the client name", ar: "اسم الجهة" }
+};
+
+function quote(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > MAX_REFERENCE_LENGTH ? `${clean.slice(0, MAX_REFERENCE_LENGTH - 1).trimEnd()}…` : clean;
+}
+
+function normalizeKey(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function fromMissingInformation(items: ClarificationSource["extractedRfp"]["missingInformation"]): Candidate[] {
+  return items.map((item) => {
+    const template = missingInformationQuestions[item.field];
+    return {
+      priority: template?.priority ?? "medium",
+      topic: item.field,
+      origins: ["missing_information"],
+      // Fields without a bilingual template keep pass 4's English question.
+      question: template
+        ? { en: template.en, ar: template.ar }
+        : { en: item.suggestedQuestion, ar: item.suggestedQuestion }
+    };
+  });
+}
+
+function fromConflicts(conflicts: ClarificationSource["extractedRfp"]["conflicts"]): Candidate[] {
+  return (conflicts ?? []).map((conflict) => {
+    const label = conflictLabels[conflict.field];
+    const values = conflict.candidates.join(" / ");
+    return {
+      priority: "high",
+      topic: `conflict:${conflict.field}`,
+      origins: ["conflict"],
+      question: {
+        en: `The RFP states different values for ${label.en} (${values}). Could you confirm which one applies?`,
+        ar: `وردت في كراسة الشروط قيم مختلفة بخصوص ${label.ar} (${values}). نرجو تأكيد القيمة المعتمدة.`
+      }
+    };
+  });
+}
+
+function fromScope(scopeAnalysis: ClarificationSource["scopeAnalysis"]): Candidate[] {
+  return (scopeAnalysis?.uncertainItems ?? []).map((item) => ({
+    priority: "medium",
+    topic: `scope:${normalizeKey(item)}`,
+    origins: ["scope"],
+    question: {
+      en: "Could you clarify the expected deliverables, quantities and responsibilities for the following scope item?",
+      ar: "نرجو توضيح المخرجات والكميات والمسؤوليات المتوقعة لبند النطاق التالي."
+    },
+    reference: quote(item)
+  }));
+}
+
+function severityPriority(severity: "HIGH" | "MEDIUM" | "LOW"): ClarificationPriority {
+  return severity === "HIGH" ? "high" : severity === "MEDIUM" ? "medium" : "low";
+}
+
+/** One question per flagged clause; several rules can fire on the same clause. */
+function fromRedFlags(redFlags: ClarificationSource["extractedRfp"]["redFlags"]): Candidate[] {
+  const byClause = new Map<string, { candidate: Candidate; titles: string[] }>();
+  for (const flag of redFlags) {
+    const reference = quote(flag.sourceText || flag.description);
+    const key = normalizeKey(reference);
+    const priority = severityPriority(flag.severity);
+    const existing = byClause.get(key);
+    if (existing) {
+      existing.titles.push(flag.title.toLowerCase());
+      if (priorityRank[priority] < priorityRank[existing.candidate.priority]) {
+        existing.candidate.priority = priority;
+      }
+      continue;
+    }
+    byClause.set(key, {
+      titles: [flag.title.toLowerCase()],
+      candidate: {
+        priority,
+        topic: `red_flag:${flag.ruleId && flag.ruleId !== "other" ? flag.ruleId : normalizeKey(flag.title)}`,
+        origins: ["red_flag"],
+        question: { en: "", ar: "نرجو توضيح البند التالي وإفادتنا بمدى إمكانية مناقشته." },
+        reference
+      }
+    });
+  }
+
+  return Array.from(byClause.values()).map(({ candidate, titles }) => ({
+    ...candidate,
+    question: {
+      ...candidate.question,
+      en: `Regarding ${titles.join(" and ")}: could you confirm whether the following term is open to discussion?`
+    }
+  }));
+}
+
+function earliestQaDeadline(
+  importantDates: ClarificationSource["extractedRfp"]["importantDates"]
+): ClarificationListV1["qaDeadline"] {
+  const stated = importantDates
+    .filter((entry) => entry.type === "qa_deadline" && entry.date)
+    .sort((a, b) => a.date!.localeCompare(b.date!));
+  const first = stated[0];
+  if (!first?.date) {
+    return null;
+  }
+  return {
+    date: first.date,
+    ...(first.time ? { time: first.time } : {}),
+    ...(first.deadlineAt ? { deadlineAt: first.deadlineAt } : {}),
+    ...(first.daysRemaining !== undefined ? { daysRemaining: first.daysRemaining } : {})
+  };
+}
+
+/**
+ * Collects what a bid team would ask the client before bidding: information gaps,
+ * conflicting values, scope items that could not be classified and red-flag clauses.
+ * Questions on the same topic are merged, then ordered by priority.
+ */
+export function buildClarificationQuestions(source: ClarificationSource): ClarificationListV1 {
+  const candidates = [
+    ...fromConflicts(source.extractedRfp.conflicts),
+    ...fromMissingInformation(source.extractedRfp.missingInformation),
+    ...fromRedFlags(source.extractedRfp.redFlags),
+    ...fromScope(source.scopeAnalysis)
+  ];
+
+  const byTopic = new Map<string, Candidate>();
+  for (const candidate of candidates) {
+    const existing = byTopic.get(candidate.topic);
+    if (!existing) {
+      byTopic.set(candidate.topic, { ...candidate, origins: [...candidate.origins] });
+      continue;
+    }
+    if (priorityRank[candidate.priority] < priorityRank[existing.priority]) {
+      existing.priority = candidate.priority;
+    }
+    for (const origin of candidate.origins) {
+      if (!existing.origins.includes(origin)) {
+        existing.origins.push(origin);
+      }
+    }
+  }
+
+  const questions = Array.from(byTopic.values())
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => priorityRank[a.candidate.priority] - priorityRank[b.candidate.priority] || a.index - b.index)
+    .map(({ candidate }, position): ClarificationQuestionV1 => ({ id: `Q${position + 1}`, ...candidate }));
+
+  const qaDeadline = earliestQaDeadline(source.extractedRfp.importantDates);
+  const warnings: string[] = [];
+  if (!qaDeadline) {
+    warnings.push("No Q&A deadline found; confirm the clarification window with the client.");
+  } else if ((qaDeadline.daysRemaining ?? 0) < 0) {
+    warnings.push(`The Q&A deadline (${qaDeadline.date}) has passed; late clarification requests may not be answered.`);
+  }
+
+  return { questions, qaDeadline, warnings };
+}
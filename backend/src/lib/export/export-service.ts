@@ -3,10 +3,16 @@ import path from "node:path";
 import os from "node:os";
 import crypto from "node:crypto";
 import { makeError } from "@/lib/api/errors";
+import { renderClarificationLetter, type LetterLanguage } from "@/lib/clarifications/clarification-letter";
+import {
+  buildClarificationQuestions,
+  type ClarificationListV1,
+  type ClarificationSource
+} from "@/lib/clarifications/clarification-questions";
 import { renderPdfDocument } from "@/lib/export/pdf-renderer";
 import { createShareLinkPayload } from "@/lib/export/share-link";
 
-type ExportFormat = "pdf" | "email" | "link";
+type ExportFormat = "pdf" | "email" | "link" | "clarification_letter";
 
 interface AnalysisReportLike {
   schemaVersion?: string;
@@ -16,12 +22,22 @@ interface AnalysisReportLike {
     recommendation?: string;
     score?: number;
   };
+  extractedRfp?: ClarificationSource["extractedRfp"] & {
+    clientName?: string;
+    clientNameArabic?: string | null;
+    projectName?: string;
+    projectNameOriginal?: string | null;
+  };
+  scopeAnalysis?: ClarificationSource["scopeAnalysis"];
+  clarifications?: ClarificationListV1;
 }
 
 export interface ExportInput {
   analysisId: string;
   report: AnalysisReportLike;
   format: ExportFormat;
+  /** Letter language for `clarification_letter`; defaults to English. */
+  language?: LetterLanguage;
 }
 
 export interface ExportResult {
@@ -141,6 +157,51 @@ function buildShareLinkExport(input: ExportInput): ExportResult {
   };
 }
 
+function buildClarificationLetterExport(input: ExportInput): ExportResult {
+  const language = input.language ?? "en";
+  if (language !== "en" && language !== "ar") {
+    throw makeError(400, "validation_error", "language must be en or ar", "export", {
+      retryable: false,
+      details: { language }
+    });
+  }
+
+  const extractedRfp = input.report.extractedRfp;
+  if (!extractedRfp) {
+    throw makeError(400, "validation_error", "report.extractedRfp is required for clarification letters", "export", {
+      retryable: false
+    });
+  }
+
+  const clarifications =
+    input.report.clarifications ??
+    buildClarificationQuestions({ extractedRfp, scopeAnalysis: input.report.scopeAnalysis ?? null });
+  const clientName =
+    (language === "ar" ? extractedRfp.clientNameArabic : null) ?? extractedRfp.clientName ?? "[Client name]";
+  const projectName =
+    (language === "ar" ? extractedRfp.projectNameOriginal : null) ??
+    extractedRfp.projectName ??
+    input.report.summary?.headline ??
+    input.analysisId;
+  const letter = renderClarificationLetter({ clarifications, language, clientName, projectName });
+
+  return {
+    schemaVersion: "1.0.0",
+    analysisId: input.analysisId,
+    format: "clarification_letter",
+    exportId: `exp_${crypto.randomUUID()}`,
+    artifact: {
+      type: "clarification_letter",
+      ...letter,
+      bodyBytes: Buffer.byteLength(letter.body, "utf8")
+    },
+    retention: {
+      deleteAfterMinutes: 0,
+      deletionScheduled: false
+    }
+  };
+}
+
 export async function exportAnalysis(input: ExportInput): Promise<ExportResult> {
   if (!input.analysisId || !input.report || !input.format) {
     throw makeError(400, "validation_error", "analysisId, report, and format are required", "export", {
@@ -163,6 +224,8 @@ export async function exportAnalysis(input: ExportInput): Promise<ExportResult>
       return buildEmailExport(input);
     case "link":
       return buildShareLinkExport(input);
+    case "clarification_letter":
+      return buildClarificationLetterExport(input);
     default:
       throw makeError(400, "validation_error", "Unsupported export format", "export", {
         retryable: false,
@@ -1,10 +1,34 @@
+import { emitPassResult, emitStage, type AnalysisProgressListener } from "@/lib/analysis/progress";
 import { makeError } from "@/lib/api/errors";
+import { isKnownTimezone, scheduleDeadline } from "@/lib/extraction/deadlines";
+import { structureEvaluationCriteria, type StructuredEvaluationCriteriaV1 } from "@/lib/extraction/evaluation-criteria";
+import {
+  createSourceLocator,
+  evidencedFieldCount,
+  locateFieldEvidence,
+  type FieldEvidence,
+  type SourceSpan
+} from "@/lib/extraction/evidence-locator";
 import { runPass1Extraction } from "@/lib/extraction/passes/pass1-extract";
 import { runPass2Verification } from "@/lib/extraction/passes/pass2-verify";
 import { runPass3RedFlags } from "@/lib/extraction/passes/pass3-redflags";
 import { runPass4Completeness } from "@/lib/extraction/passes/pass4-completeness";
-import { runPass5Conflicts } from "@/lib/extraction/passes/pass5-conflicts";
+import {
+  applyAmendments,
+  applyWeightAmendments,
+  runPass5Conflicts,
+  type ExtractedConflictV1
+} from "@/lib/extraction/passes/pass5-conflicts";
+import { runPass6CommercialTerms, type CommercialTermsV1 } from "@/lib/extraction/passes/pass6-commercial";
+import {
+  groundExtractedValues,
+  groundingRate,
+  type FieldProvenance,
+  type Grounding,
+  type ProvenancedFieldName
+} from "@/lib/extraction/provenance";
 import { beautifyExtractedFields, type BeautifiedText } from "@/lib/extraction/text-beautifier";
+import type { SourceDocumentV1 } from "@/lib/parsing/document-bundle";
 
 export interface AnalyzeRfpInput {
   analysisId: string;
@@ -21,13 +45,20 @@ export interface AnalyzeRfpInput {
       confidence: number;
     }>;
     evidenceMap: Array<{ page: number; charStart: number; charEnd: number; excerpt: string; sourceType: string }>;
+    pageIndex?: Array<{ page: number; charStart: number; charEnd: number }>;
+    sourceDocuments?: Array<Pick<SourceDocumentV1, "documentId" | "role" | "fileName" | "charStart" | "charEnd">>;
     primaryLanguage: "arabic" | "english" | "mixed";
   };
 }
 
+export interface AnalyzeRfpOptions {
+  onProgress?: AnalysisProgressListener;
+}
+
 export interface DeliverableItemV1 {
   item: string;
   source: "verbatim" | "inferred";
+  sources?: SourceSpan[];
 }
 
 export interface DeliverableRequirementItemV1 {
@@ -53,9 +84,29 @@ export interface ExtractedRfpDataV1 {
   projectDescription: string;
   scopeOfWork: string;
   evaluationCriteria: string;
+  /** Weighted criteria parsed from evaluationCriteria, with the technical/financial split. */
+  structuredEvaluationCriteria?: StructuredEvaluationCriteriaV1;
   requiredDeliverables: DeliverableItemV1[];
   deliverableRequirements?: DeliverableRequirementsV1;
-  importantDates: Array<{ title: string; date: string; type: string; isCritical: boolean }>;
+  importantDates: Array<{
+    title: string;
+    /** Gregorian YYYY-MM-DD, or null with status "unknown" when no date is stated. */
+    date: string | null;
+    status: "stated" | "unknown";
+    /** The date as written, before Hijri conversion and digit normalization. */
+    dateOriginal?: string;
+    calendar?: "gregorian" | "hijri";
+    time?: string;
+    timezone?: string;
+    /** Countdown from extractionDate; set for stated dates only. */
+    deadlineAt?: string;
+    daysRemaining?: number;
+    businessDaysRemaining?: number;
+    type: string;
+    isCritical: boolean;
+    source?: Grounding;
+    sources?: SourceSpan[];
+  }>;
   submissionRequirements: {
     method: string;
     email: string | null;
@@ -64,6 +115,8 @@ export interface ExtractedRfpDataV1 {
     copies: number | null;
     otherRequirements: string[];
   };
+  /** Budget, payment, guarantee, penalty and duration terms, each quoting its source clause. */
+  commercialTerms?: CommercialTermsV1;
   redFlags: Array<{
     type: "contractual" | "feasibility" | "process";
     severity: "HIGH" | "MEDIUM" | "LOW";
@@ -71,7 +124,15 @@ export interface ExtractedRfpDataV1 {
     description: string;
     sourceText: string;
     recommendation: string;
+    ruleId?: string;
+    /** The clause that raised the flag; `sourceText` is its quote. */
+    sourceSpan?: SourceSpan;
+    detectedBy?: "rule" | "model" | "rule+model";
+    source?: Grounding;
+    sources?: SourceSpan[];
   }>;
+  /** Version of the red-flag rule file the flags were detected with. */
+  redFlagRulesVersion?: string;
   missingInformation: Array<{ field: string; suggestedQuestion: string }>;
   confidenceScores: Record<string, number> & { overall: number };
   completenessScore: number;
@@ -82,14 +143,19 @@ export interface ExtractedRfpDataV1 {
     blocked: boolean;
     blockReasons: string[];
     evidenceDensity: number;
+    /** Share of extracted values backed by a verbatim source span. */
+    groundingRate?: number;
+    inferredValueCount?: number;
     sectionScores: {
       extraction: number;
       scope: number;
       evaluation: number;
     };
   };
-  conflicts?: Array<{ field: string; candidates: string[]; resolution: string }>;
-  evidence: Array<{ field: string; page: number; excerpt: string }>;
+  /** Fields the document states with more than one value, each quoting every clause involved. */
+  conflicts?: ExtractedConflictV1[];
+  evidence: FieldEvidence[];
+  fieldProvenance?: Record<ProvenancedFieldName, FieldProvenance>;
   // Beautified text fields with structured sections for rich UI rendering
   beautifiedText?: {
     projectDescription: BeautifiedText;
@@ -126,20 +192,52 @@ function ensureRequired(output: ExtractedRfpDataV1): void {
   }
 }
 
-export async function analyzeRfpInput(input: AnalyzeRfpInput): Promise<ExtractedRfpDataV1> {
+export async function analyzeRfpInput(input: AnalyzeRfpInput, options: AnalyzeRfpOptions = {}): Promise<ExtractedRfpDataV1> {
   if (!input.analysisId || !input.parsedDocument?.rawText) {
     throw makeError(400, "validation_error", "analysisId and parsedDocument.rawText are required", "analyze-rfp", {
       retryable: false
     });
   }
 
+  const { onProgress } = options;
+
+  emitStage(onProgress, "extract_pass1", "started");
   const pass1 = await runPass1Extraction(input);
-  const pass2 = runPass2Verification(input, pass1);
-  const pass3 = runPass3RedFlags(input, pass1);
+  emitPassResult(onProgress, "extract_pass1", pass1);
+  emitStage(onProgress, "extract_pass1", "completed");
+
+  const locator = createSourceLocator(input.parsedDocument);
+  const structuredEvaluationCriteria = structureEvaluationCriteria(pass1.evaluationCriteria, input.parsedDocument, locator);
+
+  emitStage(onProgress, "extract_pass2", "started");
+  const pass2 = runPass2Verification(input, pass1, structuredEvaluationCriteria);
+  emitPassResult(onProgress, "extract_pass2", pass2);
+  emitStage(onProgress, "extract_pass2", "completed");
+
+  emitStage(onProgress, "extract_pass3", "started");
+  const pass3 = await runPass3RedFlags(input);
+  emitPassResult(onProgress, "extract_pass3", pass3);
+  emitStage(onProgress, "extract_pass3", "completed");
+
+  emitStage(onProgress, "extract_pass4", "started");
   const pass4 = runPass4Completeness(input, pass1);
-  const pass5 = runPass5Conflicts(input, pass1);
+  emitPassResult(onProgress, "extract_pass4", pass4);
+  emitStage(onProgress, "extract_pass4", "completed");
+
+  emitStage(onProgress, "extract_pass5", "started");
+  const pass5 = runPass5Conflicts(input, pass1, structuredEvaluationCriteria);
+  emitPassResult(onProgress, "extract_pass5", pass5);
+  emitStage(onProgress, "extract_pass5", "completed");
+  const amended = applyAmendments(pass1, pass5.conflicts);
+  const amendedCriteria = applyWeightAmendments(structuredEvaluationCriteria, pass5.conflicts);
+
+  emitStage(onProgress, "extract_pass6", "started");
+  const pass6 = runPass6CommercialTerms(input);
+  emitPassResult(onProgress, "extract_pass6", pass6);
+  emitStage(onProgress, "extract_pass6", "completed");
 
   // Run text beautification in parallel for key content fields
+  emitStage(onProgress, "beautify", "started");
   let beautifiedText: ExtractedRfpDataV1["beautifiedText"];
   try {
     beautifiedText = await beautifyExtractedFields({
@@ -151,6 +249,8 @@ export async function analyzeRfpInput(input: AnalyzeRfpInput): Promise<Extracted
     console.error("Text beautification failed:", error);
     // Continue without beautified text - it's enhancement, not critical
   }
+  emitPassResult(onProgress, "beautify", { beautifiedText: beautifiedText ?? null });
+  emitStage(onProgress, "beautify", "completed");
 
   const mergedConfidence: Record<string, number> & { overall: number } = {
     ...pass1.confidenceScores,
@@ -168,10 +268,22 @@ export async function analyzeRfpInput(input: AnalyzeRfpInput): Promise<Extracted
   if (pass4.completenessScore < 0.75) {
     qualityFlags.add("incomplete_extraction");
   }
-  if ((pass5.conflicts?.length ?? 0) > 0) {
+  // An amendment settles its conflict (the later document wins); only heuristic picks need review.
+  const conflicts = pass5.conflicts ?? [];
+  if (conflicts.some((conflict) => conflict.resolvedBy !== "amendment")) {
     qualityFlags.add("conflicts_detected");
   }
-  if ((pass1.evidence?.length ?? 0) < 4) {
+  if (conflicts.some((conflict) => conflict.resolvedBy === "amendment")) {
+    qualityFlags.add("amendments_applied");
+  }
+  const evidence = locateFieldEvidence(amended, input.parsedDocument, locator);
+  const grounded = groundExtractedValues({ pass1: amended, redFlags: pass3.redFlags }, input.parsedDocument, locator);
+  const grounding = groundingRate(grounded.summary);
+  if (grounding < 0.7) {
+    qualityFlags.add("ungrounded_values");
+  }
+  const evidencedFields = evidencedFieldCount(evidence);
+  if (evidencedFields < 4) {
     qualityFlags.add("low_evidence_density");
   }
   const criticalMissing = pass4.missingInformation.some((item) =>
@@ -181,7 +293,7 @@ export async function analyzeRfpInput(input: AnalyzeRfpInput): Promise<Extracted
     qualityFlags.add("critical_info_missing");
   }
 
-  const evidenceDensity = clampScore((pass1.evidence?.length ?? 0) / 7);
+  const evidenceDensity = clampScore(evidencedFields / 7);
   const sectionScores = {
     extraction: round2(mergedConfidence.overall),
     scope: round2(clampScore(pass1.confidenceScores.scopeOfWork ?? 0)),
@@ -197,17 +309,30 @@ export async function analyzeRfpInput(input: AnalyzeRfpInput): Promise<Extracted
   if (qualityFlags.has("conflicts_detected")) {
     blockReasons.push("Conflicting extracted values require manual review.");
   }
+  if (grounding < 0.5) {
+    blockReasons.push("Most extracted values could not be traced to the source document.");
+  }
   const blocked = blockReasons.length > 0;
   const status: "pass" | "review_required" | "blocked" = blocked
     ? "blocked"
-    : (qualityFlags.has("quality_degraded") || qualityFlags.has("low_evidence_density") || qualityFlags.has("incomplete_extraction"))
+    : (qualityFlags.has("quality_degraded") ||
+        qualityFlags.has("low_evidence_density") ||
+        qualityFlags.has("incomplete_extraction") ||
+        qualityFlags.has("ungrounded_values"))
       ? "review_required"
       : "pass";
 
+  const analyzedAt = new Date();
+  const unknownTimezones = new Set(
+    grounded.importantDates.flatMap((date) => (date.timezone && !isKnownTimezone(date.timezone) ? [date.timezone] : []))
+  );
+  const timezoneWarnings = Array.from(unknownTimezones).map(
+    (timezone) => `Deadline timezone "${timezone}" is not recognized; the exact deadline time was left unset.`
+  );
   const output: ExtractedRfpDataV1 = {
     schemaVersion: "1.0.0",
     analysisId: input.analysisId,
-    extractionDate: new Date().toISOString(),
+    extractionDate: analyzedAt.toISOString(),
     clientName: pass1.clientName,
     clientNameArabic: pass1.clientNameArabic,
     projectName: pass1.projectName,
@@ -215,25 +340,41 @@ export async function analyzeRfpInput(input: AnalyzeRfpInput): Promise<Extracted
     projectDescription: pass1.projectDescription,
     scopeOfWork: pass1.scopeOfWork,
     evaluationCriteria: pass1.evaluationCriteria,
-    requiredDeliverables: pass1.requiredDeliverables,
+    structuredEvaluationCriteria: amendedCriteria,
+    requiredDeliverables: grounded.requiredDeliverables,
     deliverableRequirements: pass1.deliverableRequirements,
-    importantDates: pass1.importantDates,
-    submissionRequirements: pass1.submissionRequirements,
-    redFlags: pass3.redFlags,
+    importantDates: grounded.importantDates.map((date) =>
+      date.date === null ? date : { ...date, ...scheduleDeadline({ ...date, date: date.date }, analyzedAt) }
+    ),
+    submissionRequirements: amended.submissionRequirements,
+    commercialTerms: pass6.commercialTerms,
+    redFlags: grounded.redFlags,
+    redFlagRulesVersion: pass3.rulesVersion,
     missingInformation: pass4.missingInformation,
     confidenceScores: mergedConfidence,
     completenessScore: pass4.completenessScore,
-    warnings: [...pass1.warnings, ...pass2.warnings, ...pass3.warnings, ...pass4.warnings, ...pass5.warnings],
+    warnings: [
+      ...pass1.warnings,
+      ...pass2.warnings,
+      ...pass3.warnings,
+      ...pass4.warnings,
+      ...pass5.warnings,
+      ...pass6.warnings,
+      ...timezoneWarnings
+    ],
     qualityFlags: Array.from(qualityFlags),
     quality: {
       status,
       blocked,
       blockReasons,
       evidenceDensity: round2(evidenceDensity),
+      groundingRate: round2(grounding),
+      inferredValueCount: grounded.summary.inferredValues,
       sectionScores
     },
     conflicts: pass5.conflicts,
-    evidence: pass1.evidence,
+    evidence,
+    fieldProvenance: grounded.fieldProvenance,
     beautifiedText
   };
 
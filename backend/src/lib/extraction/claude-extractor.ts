@@ -24,6 +24,7 @@ const ClaudeExtractedFieldsSchema = z.object({
   importantDates: z.array(z.object({
     title: z.string(),
     date: z.string(),
+    dateOriginal: z.string().nullable().optional(),
     type: z.enum(["submission_deadline", "qa_deadline", "presentation", "other"]).default("other")
   })).default([]),
   submissionRequirements: z.object({
@@ -62,7 +63,7 @@ Extract the following fields from this RFP document. Return ONLY valid JSON, no
   "scopeOfWork": "Core in-scope work items only, concise bullet lines (max 12)",
   "evaluationCriteria": "Well-structured criteria with weights (see format below)",
   "requiredDeliverables": [{"item": "Technical Proposal", "source": "verbatim"}, {"item": "Past Project Portfolio", "source": "inferred"}],
-  "importantDates": [{"title": "...", "date": "YYYY-MM-DD", "type": "submission_deadline|qa_deadline|presentation|other"}],
+  "importantDates": [{"title": "...", "date": "YYYY-MM-DD", "dateOriginal": "the date and time exactly as written", "type": "submission_deadline|qa_deadline|presentation|other"}],
   "submissionRequirements": {"method": "Email|Portal|Physical", "email": "...", "format": "PDF|Word", "physicalAddress": "...", "copies": null}
 }
 
@@ -89,7 +90,7 @@ EXTRACTION RULES:
 4. requiredDeliverables: Specific items to submit with source tagging:
    - "source": "verbatim" if explicitly stated in RFP (e.g., "Submit technical proposal")
    - "source": "inferred" if derived from evaluation criteria or implied requirements
-5. importantDates: Parse any date format to YYYY-MM-DD. Skip addresses containing numbers.
+5. importantDates: Parse any date format to Gregorian YYYY-MM-DD. Copy dateOriginal verbatim from the document, keeping Hijri dates, Arabic-Indic digits, times and timezones as written. Skip addresses containing numbers.
 6. Skip page numbers, headers, footers, table of contents entries.
 7. Do NOT duplicate section headings. Each heading should appear only once in scopeOfWork/evaluationCriteria.
 8. Keep scope bullets concise and non-redundant; never output long phase-by-phase prose.
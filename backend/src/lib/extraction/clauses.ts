@@ -0,0 +1,36 @@
+import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import type { SourceSpan } from "@/lib/extraction/evidence-locator";
+import { pageForOffset } from "@/lib/parsing/normalization";
+
+/** A trimmed line or sentence of rawText: `text === rawText.slice(start, end)`. */
+export interface Clause {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Lines of rawText, split further at sentence ends so each quote stays readable. */
+export function splitClauses(rawText: string): Clause[] {
+  const clauses: Clause[] = [];
+  const sentence = /[^\n]+?(?:(?<![A-Z])[.!?\u061F;](?=\s)|$)/gm;
+  for (const match of rawText.matchAll(sentence)) {
+    const raw = match[0];
+    const leading = raw.length - raw.trimStart().length;
+    const text = raw.trim();
+    if (text.length === 0) {
+      continue;
+    }
+    const start = (match.index ?? 0) + leading;
+    clauses.push({ text, start, end: start + text.length });
+  }
+  return clauses;
+}
+
+export function clauseSpan(clause: Clause, pageIndex: AnalyzeRfpInput["parsedDocument"]["pageIndex"]): SourceSpan {
+  return {
+    page: pageForOffset(pageIndex ?? [], clause.start),
+    charStart: clause.start,
+    charEnd: clause.end,
+    quote: clause.text
+  };
+}
@@ -0,0 +1,369 @@
+export type DateCalendar = "gregorian" | "hijri";
+
+export interface ParsedDate {
+  /** Gregorian calendar date, YYYY-MM-DD. */
+  date: string;
+  /** Calendar the date was written in. */
+  calendar: DateCalendar;
+  /** The date exactly as written, e.g. "١٤٤٧/٠٣/١٥ هـ". */
+  original: string;
+  /** Offset of `original` in the parsed text. */
+  index: number;
+  /** 24-hour time of day when stated, HH:MM. */
+  time?: string;
+  /**
+   * Timezone when stated: an IANA name ("Asia/Riyadh" for AST), a fixed offset
+   * ("UTC-05:00" for EST), or the zone as written when it is not recognized.
+   */
+  timezone?: string;
+}
+
+/** Replaces Arabic-Indic and Extended Arabic-Indic digits with ASCII, one character for one. */
+export function normalizeDigits(text: string): string {
+  return text
+    .replace(/[\u0660-\u0669]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0));
+}
+
+const gregorianMonths: Array<[RegExp, number]> = [
+  [/^(?:jan(?:uary)?|يناير|كانون\s+الثاني)$/i, 1],
+  [/^(?:feb(?:ruary)?|فبراير|شباط)$/i, 2],
+  [/^(?:mar(?:ch)?|مارس|آذار)$/i, 3],
+  [/^(?:apr(?:il)?|أبريل|ابريل|إبريل|نيسان)$/i, 4],
+  [/^(?:may|مايو|أيار)$/i, 5],
+  [/^(?:jun(?:e)?|يونيو|يونيه|حزيران)$/i, 6],
+  [/^(?:jul(?:y)?|يوليو|يوليه|تموز)$/i, 7],
+  [/^(?:aug(?:ust)?|أغسطس|اغسطس|آب)$/i, 8],
+  [/^(?:sep(?:t(?:ember)?)?|سبتمبر|أيلول)$/i, 9],
+  [/^(?:oct(?:ober)?|أكتوبر|اكتوبر|تشرين\s+الأول)$/i, 10],
+  [/^(?:nov(?:ember)?|نوفمبر|تشرين\s+الثاني)$/i, 11],
+  [/^(?:dec(?:ember)?|ديسمبر|كانون\s+الأول)$/i, 12]
+];
+
+const hijriMonths: Array<[RegExp, number]> = [
+  [/^(?:muharram|محرم)$/i, 1],
+  [/^(?:safar|صفر)$/i, 2],
+  [/^(?:rabi[\s'-]*(?:al|ul)?[\s-]*awwal|ربيع\s+الأول|ربيع\s+الاول)$/i, 3],
+  [/^(?:rabi[\s'-]*(?:al|ul|ath)?[\s-]*(?:thani|akhir)|ربيع\s+الآخر|ربيع\s+الاخر|ربيع\s+الثاني)$/i, 4],
+  [/^(?:jumad[ae][\s-]*(?:al|ul)?[\s-]*(?:awwal|ula|oula)|جمادى\s+الأولى|جمادى\s+الاولى)$/i, 5],
+  [/^(?:jumad[ae][\s-]*(?:al|ul|ath)?[\s-]*(?:thani(?:yah)?|akhir(?:ah)?)|جمادى\s+الآخرة|جمادى\s+الاخرة|جمادى\s+الثانية)$/i, 6],
+  [/^(?:rajab|رجب)$/i, 7],
+  [/^(?:sha'?ban|شعبان)$/i, 8],
+  [/^(?:ramadan|رمضان)$/i, 9],
+  [/^(?:shawwal|شوال)$/i, 10],
+  [/^(?:dhu[\s'-]*(?:al|l)?[\s'-]*qa'?dah|ذو\s+القعدة|ذي\s+القعدة)$/i, 11],
+  [/^(?:dhu[\s'-]*(?:al|l)?[\s'-]*hijjah|ذو\s+الحجة|ذي\s+الحجة)$/i, 12]
+];
+
+const monthNameSource = [
+  "january|february|march|april|june|july|august|september|october|november|december",
+  "jan|feb|mar|apr|may|jun|jul|aug|sept|sep|oct|nov|dec",
+  "يناير|فبراير|مارس|أبريل|ابريل|إبريل|مايو|يونيو|يونيه|يوليو|يوليه|أغسطس|اغسطس|سبتمبر|أكتوبر|اكتوبر|نوفمبر|ديسمبر",
+  "كانون\\s+الثاني|كانون\\s+الأول|تشرين\\s+الأول|تشرين\\s+الثاني|شباط|آذار|نيسان|أيار|حزيران|تموز|آب|أيلول",
+  "muharram|safar|rabi[\\s'-]*(?:al|ul|ath)?[\\s-]*(?:awwal|thani|akhir)|jumad[ae][\\s-]*(?:al|ul|ath)?[\\s-]*(?:awwal|ula|oula|thaniyah|thani|akhirah|akhir)",
+  "rajab|sha'?ban|ramadan|shawwal|dhu[\\s'-]*(?:al|l)?[\\s'-]*(?:qa'?dah|hijjah)",
+  "محرم|صفر|ربيع\\s+(?:الأول|الاول|الآخر|الاخر|الثاني)|جمادى\\s+(?:الأولى|الاولى|الآخرة|الاخرة|الثانية)",
+  "رجب|شعبان|رمضان|شوال|(?:ذو|ذي)\\s+(?:القعدة|الحجة)"
+].join("|");
+
+// Explicit calendar markers after a date: هـ / AH for Hijri, م / AD for Gregorian.
+const markerSource = "(?:\\s*(هـ|ه|AH|H|هجري(?:ة)?|م|AD|ميلادي(?:ة)?)(?![\\w\\u0600-\\u06FF]))?";
+
+const datePatterns: Array<{ pattern: RegExp; kind: "ymd" | "dmy" | "dayMonthName" | "monthNameDay" }> = [
+  { pattern: new RegExp(`\\b(\\d{4})[\\/\\-.](\\d{1,2})[\\/\\-.](\\d{1,2})\\b${markerSource}`, "gi"), kind: "ymd" },
+  { pattern: new RegExp(`\\b(\\d{1,2})[\\/\\-.](\\d{1,2})[\\/\\-.](\\d{4})\\b${markerSource}`, "gi"), kind: "dmy" },
+  {
+    pattern: new RegExp(
+      `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${monthNameSource})[\\s,.]+(\\d{4})\\b${markerSource}`,
+      "gi"
+    ),
+    kind: "dayMonthName"
+  },
+  {
+    pattern: new RegExp(`(?<![\\w\\u0600-\\u06FF])(${monthNameSource})\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b${markerSource}`, "gi"),
+    kind: "monthNameDay"
+  }
+];
+
+// "Version 1.2.2026", "v2.1.2025" and "الإصدار 1.2.2026" are version numbers, not dates.
+const versionPrefixPattern = /(?:\bversion|\bv|\brev(?:ision)?\.?|الإصدار|إصدار|النسخة)\s*$/i;
+
+function isVersionNumber(text: string, match: RegExpExecArray): boolean {
+  return /^\d+\.\d+\.\d+/.test(match[0]) && versionPrefixPattern.test(text.slice(0, match.index));
+}
+
+function monthFromName(name: string): { month: number; calendar: DateCalendar } | null {
+  const cleaned = name.replace(/\s+/g, " ").trim();
+  for (const [pattern, month] of gregorianMonths) {
+    if (pattern.test(cleaned)) {
+      return { month, calendar: "gregorian" };
+    }
+  }
+  for (const [pattern, month] of hijriMonths) {
+    if (pattern.test(cleaned)) {
+      return { month, calendar: "hijri" };
+    }
+  }
+  return null;
+}
+
+function calendarForMarker(marker: string | undefined): DateCalendar | null {
+  if (!marker) {
+    return null;
+  }
+  return /^(?:م|AD|ميلادي)/i.test(marker) ? "gregorian" : "hijri";
+}
+
+/** Hijri years in current documents fall around 1300-1600 AH; Gregorian ones after 1900. */
+function calendarForYear(year: number): DateCalendar | null {
+  if (year >= 1300 && year <= 1600) {
+    return "hijri";
+  }
+  if (year >= 1900 && year <= 2200) {
+    return "gregorian";
+  }
+  return null;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function gregorianIso(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+const ummAlQura = new Intl.DateTimeFormat("en-u-ca-islamic-umalqura-nu-latn", {
+  timeZone: "UTC",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric"
+});
+
+function hijriParts(date: Date): { year: number; month: number; day: number } {
+  const parts = ummAlQura.formatToParts(date);
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: value("year"), month: value("month"), day: value("day") };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 1 Muharram 1 AH (16 July 622, Julian) and the mean lunar year.
+const HIJRI_EPOCH_MS = Date.UTC(622, 6, 19);
+const MEAN_HIJRI_YEAR_DAYS = 354.36667;
+const MEAN_HIJRI_MONTH_DAYS = 29.530589;
+
+/**
+ * Converts an Umm al-Qura date to Gregorian YYYY-MM-DD, or null if the date does not
+ * exist (e.g. 30th of a 29-day month). Month lengths come from the runtime's ICU
+ * calendar tables, so the result follows the official Saudi calendar.
+ */
+export function hijriToGregorian(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 30) {
+    return null;
+  }
+
+  const estimate =
+    HIJRI_EPOCH_MS +
+    Math.round((year - 1) * MEAN_HIJRI_YEAR_DAYS + (month - 1) * MEAN_HIJRI_MONTH_DAYS + (day - 1)) * DAY_MS;
+  for (let offset = -5; offset <= 5; offset += 1) {
+    const candidate = new Date(estimate + offset * DAY_MS);
+    const parts = hijriParts(candidate);
+    if (parts.year === year && parts.month === month && parts.day === day) {
+      return candidate.toISOString().slice(0, 10);
+    }
+  }
+  return null;
+}
+
+function toGregorian(calendar: DateCalendar, year: number, month: number, day: number): string | null {
+  return calendar === "hijri" ? hijriToGregorian(year, month, day) : gregorianIso(year, month, day);
+}
+
+function matchToDate(
+  kind: (typeof datePatterns)[number]["kind"],
+  match: RegExpExecArray
+): { date: string; calendar: DateCalendar } | null {
+  let year: number;
+  let month: number;
+  let day: number;
+  let calendar: DateCalendar | null;
+
+  if (kind === "ymd" || kind === "dmy") {
+    const [first, second, third] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (kind === "ymd") {
+      [year, month, day] = [first, second, third];
+    } else {
+      year = third;
+      // Day-first is the regional convention; read month-first when the second number cannot be a month.
+      [day, month] = second > 12 && first <= 12 ? [second, first] : [first, second];
+    }
+    calendar = calendarForMarker(match[4]) ?? calendarForYear(year);
+  } else {
+    const [dayText, monthName, yearText] =
+      kind === "dayMonthName" ? [match[1], match[2], match[3]] : [match[2], match[1], match[3]];
+    const named = monthFromName(monthName);
+    if (!named) {
+      return null;
+    }
+    [year, month, day] = [Number(yearText), named.month, Number(dayText)];
+    calendar = named.calendar;
+  }
+
+  if (!calendar || calendarForYear(year) !== calendar) {
+    return null;
+  }
+  const date = toGregorian(calendar, year, month, day);
+  return date ? { date, calendar } : null;
+}
+
+const timePattern =
+  /(?<!\d)(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?|صباحاً|صباحا|ص|مساءً|مساء|ظهراً|ظهرا|م)?(?![\w\u0600-\u06FF])/gi;
+const ianaTimezonePattern = /\b(?:Africa|America|Asia|Atlantic|Australia|Europe|Indian|Pacific)\/[A-Za-z_]+(?:\/[A-Za-z_]+)?/;
+const utcOffsetPattern = /\b(?:GMT|UTC)\s*([+\-\u2212])\s*(\d{1,2})(?::?(\d{2}))?(?!\d)/i;
+// Checked in order after explicit offsets; abbreviations are case-sensitive so "est" or "pt" in prose never match.
+const namedTimezones: Array<[RegExp, string]> = [
+  [
+    /\b(?:AST|KSA\s+time|Saudi\s+(?:Arabia\s+)?time|Riyadh\s+time|Arabia\s+Standard\s+Time)\b|بتوقيت\s+(?:الرياض|مكة(?:\s+المكرمة)?|السعودية|المملكة)/i,
+    "Asia/Riyadh"
+  ],
+  [/\bGST\b|\b(?:Gulf\s+Standard\s+Time|UAE\s+[Tt]ime|(?:Dubai|Abu\s+Dhabi)\s+[Tt]ime)\b|بتوقيت\s+(?:دبي|أبوظبي|أبو\s+ظبي|الإمارات)/, "Asia/Dubai"],
+  [/\b(?:Qatar|Doha)\s+time\b|بتوقيت\s+(?:الدوحة|قطر)/i, "Asia/Qatar"],
+  [/\bKuwait\s+time\b|بتوقيت\s+الكويت/i, "Asia/Kuwait"],
+  [/\bBahrain\s+time\b|بتوقيت\s+البحرين/i, "Asia/Bahrain"],
+  [/\b(?:Cairo|Egypt)\s+time\b|بتوقيت\s+(?:القاهرة|مصر)/i, "Africa/Cairo"],
+  [/\bEST\b/, "UTC-05:00"],
+  [/\bEDT\b/, "UTC-04:00"],
+  [/\bET\b|\bEastern\s+[Tt]ime\b/, "America/New_York"],
+  [/\bPST\b/, "UTC-08:00"],
+  [/\bPDT\b/, "UTC-07:00"],
+  [/\bPT\b|\bPacific\s+[Tt]ime\b/, "America/Los_Angeles"],
+  [/\bCEST\b/, "UTC+02:00"],
+  [/\bCET\b/, "UTC+01:00"],
+  [/\bBST\b/, "UTC+01:00"],
+  [/\b(?:GMT|UTC)\b|بتوقيت\s+(?:غرينتش|جرينتش)/, "UTC"]
+];
+// A zone-like word right after the time ("5 PM MSK", "2 PM Moscow time") or any other "بتوقيت …".
+const statedZonePattern =
+  /^\s*\(?\s*([A-Z]{2,4}T|MSK|[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?\s+(?:Standard\s+)?[Tt]ime)\b/;
+const arabicStatedZonePattern = /بتوقيت\s+[\u0600-\u06FF]+/;
+const notZones = /^(?:BUT|NOT|OUT|GET|SET|LET|PUT|YET|SENT|NEXT|TEXT|BEST|JUST|MUST|LAST|PAST|FIRST|Local\s.*)$/;
+
+/**
+ * Time of day outside the given ranges, and where its text ends; a bare hour only counts
+ * with am/pm or after "الساعة".
+ */
+function findTime(text: string, taken: Array<[number, number]>): { time: string; end: number } | undefined {
+  timePattern.lastIndex = 0;
+  for (let match = timePattern.exec(text); match; match = timePattern.exec(text)) {
+    const start = match.index;
+    if (taken.some(([from, to]) => start < to && from < start + match![0].length)) {
+      continue;
+    }
+    let hour = Number(match[1]);
+    const minute = match[2] ? Number(match[2]) : 0;
+    const meridiem = match[3]?.toLowerCase();
+    if (!match[2] && !meridiem && !/الساعة\s*$/.test(text.slice(0, start))) {
+      continue;
+    }
+    // "م" alone is ambiguous with the Gregorian marker, so it only reads as PM after hh:mm.
+    if (meridiem === "م" && !match[2]) {
+      continue;
+    }
+    if (hour > 23 || minute > 59) {
+      continue;
+    }
+    if (meridiem) {
+      const pm = /^(?:p|مساء|ظهر|م$)/.test(meridiem);
+      if (hour > 12) {
+        continue;
+      }
+      if (pm && hour < 12) {
+        hour += 12;
+      } else if (!pm && hour === 12) {
+        hour = 0;
+      }
+    }
+    return { time: `${pad(hour)}:${pad(minute)}`, end: start + match[0].length };
+  }
+  return undefined;
+}
+
+/** The stated timezone of a line; `timeEnd` is where the time of day ends, if one was found. */
+function findTimezone(text: string, timeEnd: number | undefined): string | undefined {
+  const offset = text.match(utcOffsetPattern);
+  if (offset) {
+    const hours = Number(offset[2]);
+    const minutes = Number(offset[3] ?? 0);
+    if (hours <= 14 && minutes < 60) {
+      return `UTC${offset[1] === "+" ? "+" : "-"}${pad(hours)}:${pad(minutes)}`;
+    }
+  }
+  const iana = text.match(ianaTimezonePattern);
+  if (iana) {
+    return iana[0];
+  }
+  const named = namedTimezones.find(([pattern]) => pattern.test(text));
+  if (named) {
+    return named[1];
+  }
+
+  const stated = timeEnd === undefined ? null : text.slice(timeEnd).match(statedZonePattern);
+  if (stated && !notZones.test(stated[1])) {
+    return stated[1];
+  }
+  return text.match(arabicStatedZonePattern)?.[0];
+}
+
+/** Every date in the text, in reading order, with Hijri dates converted to Gregorian. */
+export function findDates(text: string): ParsedDate[] {
+  const normalized = normalizeDigits(text);
+  const found: ParsedDate[] = [];
+  const taken: Array<[number, number]> = [];
+
+  for (const { pattern, kind } of datePatterns) {
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(normalized); match; match = pattern.exec(normalized)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (taken.some(([from, to]) => start < to && from < end) || isVersionNumber(normalized, match)) {
+        continue;
+      }
+      const parsed = matchToDate(kind, match);
+      if (!parsed) {
+        continue;
+      }
+      taken.push([start, end]);
+      found.push({ ...parsed, original: text.slice(start, end), index: start });
+    }
+  }
+
+  return found.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * The first date in a line of text, with the time of day and timezone stated
+ * alongside it (e.g. "before 2:00 PM AST", "الساعة 10 صباحاً بتوقيت الرياض").
+ */
+export function parseDate(text: string): ParsedDate | null {
+  const dates = findDates(text);
+  const first = dates[0];
+  if (!first) {
+    return null;
+  }
+
+  const normalized = normalizeDigits(text);
+  const taken = dates.map((date): [number, number] => [date.index, date.index + date.original.length]);
+  const found = findTime(normalized, taken);
+  const time = found?.time;
+  const timezone = findTimezone(normalized, found?.end);
+
+  return {
+    ...first,
+    ...(time ? { time } : {}),
+    ...(timezone ? { timezone } : {})
+  };
+}
@@ -0,0 +1,155 @@
+import { hijriToGregorian } from "@/lib/extraction/dates";
+
+/** Tender deadlines without a stated timezone are read as Saudi local time. */
+export const SAUDI_TIMEZONE = "Asia/Riyadh";
+
+// Fixed offsets are kept as "UTC+04:00"; Intl only knows them as inverted Etc/GMT names.
+const fixedOffsetPattern = /^UTC([+-])(\d{2}):(\d{2})$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DeadlineSchedule {
+  /** ISO 8601 date-time with offset, set when the time of day is stated and its timezone recognized. */
+  deadlineAt?: string;
+  /** Calendar days from the analysis date (Riyadh) to the date; negative once passed. */
+  daysRemaining: number;
+  /** Sunday-Thursday working days after the analysis date up to and including the date, excluding public holidays. */
+  businessDaysRemaining: number;
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function dayNumber(iso: string): number {
+  return Date.UTC(Number(iso.slice(0, 4)), Number(iso.slice(5, 7)) - 1, Number(iso.slice(8, 10))) / DAY_MS;
+}
+
+function addDays(iso: string, days: number): string {
+  return isoDay(new Date((dayNumber(iso) + days) * DAY_MS));
+}
+
+function fixedOffsetMinutes(timeZone: string): number | null {
+  const match = timeZone.match(fixedOffsetPattern);
+  if (!match) {
+    return null;
+  }
+  return (match[1] === "-" ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]));
+}
+
+/** A timezone deadlines can be placed in: an IANA name or a fixed "UTC±HH:MM" offset. */
+export function isKnownTimezone(timeZone: string): boolean {
+  if (fixedOffsetMinutes(timeZone) !== null) {
+    return true;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The calendar date an instant falls on in the given timezone. */
+export function calendarDateIn(instant: Date, timeZone: string): string {
+  const fixed = fixedOffsetMinutes(timeZone);
+  if (fixed !== null) {
+    return isoDay(new Date(instant.getTime() + fixed * 60 * 1000));
+  }
+  const parts = new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).formatToParts(
+    instant
+  );
+  const value = (type: string) => parts.find((part) => part.type === type)?.value;
+  return `${value("year")}-${value("month")}-${value("day")}`;
+}
+
+function utcOffset(date: string, time: string, timeZone: string): string {
+  if (fixedOffsetMinutes(timeZone) !== null) {
+    return timeZone.replace(/^UTC/, "");
+  }
+  const name =
+    new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+      .formatToParts(new Date(`${date}T${time}:00Z`))
+      .find((part) => part.type === "timeZoneName")?.value ?? "GMT";
+  const offset = name.replace(/^GMT/, "");
+  return offset === "" ? "+00:00" : offset;
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+/**
+ * Saudi public holidays in a Gregorian year under the Labour Law: Founding Day
+ * (22 Feb), National Day (23 Sep), Eid al-Fitr (1-4 Shawwal) and Eid al-Adha
+ * (9-12 Dhu al-Hijjah, from the Day of Arafah). Eid dates follow Umm al-Qura.
+ */
+export function saudiPublicHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const holidays = new Set<string>([`${year}-02-22`, `${year}-09-23`]);
+  const eids: Array<[month: number, firstDay: number]> = [
+    [10, 1],
+    [12, 9]
+  ];
+  // A Gregorian year overlaps two Hijri years; check one either side for safety.
+  const hijriYear = Math.round((year - 622) * 1.0307);
+  for (let h = hijriYear - 1; h <= hijriYear + 2; h += 1) {
+    for (const [month, firstDay] of eids) {
+      const start = hijriToGregorian(h, month, firstDay);
+      if (!start) {
+        continue;
+      }
+      for (let offset = 0; offset < 4; offset += 1) {
+        const day = addDays(start, offset);
+        if (Number(day.slice(0, 4)) === year) {
+          holidays.add(day);
+        }
+      }
+    }
+  }
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/** Sunday to Thursday, and not a public holiday; the Saudi weekend is Friday and Saturday. */
+export function isSaudiBusinessDay(iso: string): boolean {
+  const weekday = new Date(dayNumber(iso) * DAY_MS).getUTCDay();
+  if (weekday === 5 || weekday === 6) {
+    return false;
+  }
+  return !saudiPublicHolidays(Number(iso.slice(0, 4))).has(iso);
+}
+
+/** Business days after `from` up to and including `to`; 0 when `to` is not after `from`. */
+export function businessDaysBetween(from: string, to: string): number {
+  let count = 0;
+  for (let day = addDays(from, 1); day <= to; day = addDays(day, 1)) {
+    if (isSaudiBusinessDay(day)) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Countdown for a stated date relative to the analysis time. A stated timezone that is
+ * not recognized leaves deadlineAt unset rather than guessing Riyadh time; the countdown
+ * still counts days in Riyadh.
+ */
+export function scheduleDeadline(
+  entry: { date: string; time?: string; timezone?: string },
+  analyzedAt: Date
+): DeadlineSchedule {
+  const known = entry.timezone === undefined || isKnownTimezone(entry.timezone);
+  const timeZone = known ? (entry.timezone ?? SAUDI_TIMEZONE) : SAUDI_TIMEZONE;
+  const today = calendarDateIn(analyzedAt, timeZone);
+
+  return {
+    ...(entry.time && known ? { deadlineAt: `${entry.date}T${entry.time}:00${utcOffset(entry.date, entry.time, timeZone)}` } : {}),
+    daysRemaining: dayNumber(entry.date) - dayNumber(today),
+    businessDaysRemaining: businessDaysBetween(today, entry.date)
+  };
+}
@@ -0,0 +1,299 @@
+import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import type { SourceLocator, SourceSpan } from "@/lib/extraction/evidence-locator";
+import { CRITERIA_TOTAL_ROW, criteriaFromTables } from "@/lib/extraction/table-fields";
+
+export type EvaluationCategory = "technical" | "financial";
+
+type WeightUnit = "percent" | "points";
+
+export interface EvaluationSubCriterionV1 {
+  name: string;
+  /** Weight as written in the RFP; may be relative to the parent or to the whole evaluation. */
+  weightPercent: number | null;
+  sourceSpan: SourceSpan | null;
+}
+
+export interface EvaluationCriterionV1 {
+  name: string;
+  weightPercent: number | null;
+  /**
+   * Share of the whole evaluation: stated percentages as written, rescaled to 100 when they
+   * add up to nearly 100 or are points; null for points that do not cover the evaluation.
+   */
+  normalizedWeightPercent: number | null;
+  category: EvaluationCategory;
+  subCriteria: EvaluationSubCriterionV1[];
+  sourceSpan: SourceSpan | null;
+}
+
+export interface StructuredEvaluationCriteriaV1 {
+  criteria: EvaluationCriterionV1[];
+  /** Sum of top-level weights as stated; null when no criterion carries a weight. */
+  statedWeightTotal: number | null;
+  weightsNormalized: boolean;
+  /** Null unless every criterion is weighted and the weights cover the whole evaluation. */
+  technicalWeightPercent: number | null;
+  financialWeightPercent: number | null;
+}
+
+interface ParsedLine {
+  text: string;
+  name: string;
+  weight: number | null;
+  unit: WeightUnit | null;
+  numbered: boolean;
+}
+
+interface DraftCriterion {
+  line: ParsedLine;
+  category: EvaluationCategory;
+  group: boolean;
+  children: ParsedLine[];
+}
+
+const MAX_UNWEIGHTED_NAME_CHARS = 80;
+// Two weights closer than this are treated as equal (rounding in the source document).
+const WEIGHT_TOLERANCE = 1;
+// Percentages summing this close to 100 are the whole evaluation, off only by rounding.
+const TOTAL_TOLERANCE = 2;
+
+const headingNoise = [/^evaluation criteria:?$/i, /^criteria:?$/i, /^evaluation( matrix)?:?$/i, /^معايير\s+التقييم:?$/];
+const financialPattern =
+  /\b(?:financial|commercial|price|pricing|cost|fees?|budget)\b|المالي|المالية|السعر|الأسعار|التكلفة|التكاليف/i;
+const technicalGroupPattern = /\btechnical\s+(?:evaluation|proposal|offer|envelope|score)\b|العرض\s+الفني|التقييم\s+الفني/i;
+const financialGroupPattern =
+  /\b(?:financial|commercial)\s+(?:evaluation|proposal|offer|envelope|score)\b|العرض\s+المالي|التقييم\s+المالي/i;
+
+const weightPatterns: Array<{ pattern: RegExp; unit: WeightUnit }> = [
+  { pattern: /(\d{1,3}(?:\.\d+)?)\s*[%\u066A]/, unit: "percent" },
+  { pattern: /(\d{1,3}(?:\.\d+)?)\s*(?:points?\b|pts\b|marks\b|درجة|درجات|نقطة|نقاط)/i, unit: "points" },
+  { pattern: /(?:weight(?:ing)?|الوزن|النسبة)\s*[:=]?\s*(\d{1,3}(?:\.\d+)?)/i, unit: "percent" }
+];
+
+function toWesternDigits(value: string): string {
+  return value
+    .replace(/[\u0660-\u0669]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseWeight(text: string): { value: number; unit: WeightUnit } | null {
+  const normalized = toWesternDigits(text);
+  for (const { pattern, unit } of weightPatterns) {
+    const match = normalized.match(pattern);
+    if (match?.[1]) {
+      const value = Number(match[1]);
+      if (Number.isFinite(value) && value > 0 && value <= 100) {
+        return { value, unit };
+      }
+    }
+  }
+  return null;
+}
+
+function criterionName(text: string): string {
+  return toWesternDigits(text)
+    .replace(/^\d+(?:\.\d+)*[.)-]?\s+/, "")
+    .replace(/\(\s*(?:weight(?:ing)?\s*[:=]?\s*)?\d{1,3}(?:\.\d+)?\s*(?:[%\u066A]|points?|pts|marks)?\s*\)/gi, "")
+    .replace(/(?:weight(?:ing)?|الوزن|النسبة)\s*[:=]?\s*\d{1,3}(?:\.\d+)?\s*[%\u066A]?/gi, "")
+    .replace(/\d{1,3}(?:\.\d+)?\s*(?:[%\u066A]|points?|pts|marks|درجة|درجات|نقطة|نقاط)/gi, "")
+    .replace(/[\s:;,\-–—|]+$/g, "")
+    .replace(/^[\s:;,\-–—|]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseLines(text: string): ParsedLine[] {
+  return text
+    .split(/\r?\n/)
+    .map((raw) => {
+      const stripped = raw.replace(/^\s*[-*•▪‣●]\s+/, "").trim();
+      const weight = parseWeight(stripped);
+      return {
+        text: stripped,
+        name: criterionName(stripped),
+        weight: weight?.value ?? null,
+        unit: weight?.unit ?? null,
+        numbered: /^\d+[.)]\s/.test(toWesternDigits(stripped))
+      };
+    })
+    .filter((line) => line.name.length > 0 && !headingNoise.some((pattern) => pattern.test(line.text)));
+}
+
+function categoryFor(name: string, current: EvaluationCategory | null): EvaluationCategory {
+  if (financialPattern.test(name)) {
+    return "financial";
+  }
+  return current ?? "technical";
+}
+
+/**
+ * Numbered lines are criteria and the bullets under them sub-criteria. Without
+ * numbering every weighted line is a criterion (unweighted prose is dropped).
+ * Total lines, numbered or not, only restate the sum and are skipped.
+ */
+function draftCriteria(lines: ParsedLine[]): DraftCriterion[] {
+  const drafts: DraftCriterion[] = [];
+  const numbered = lines.some((line) => line.numbered);
+  const anyWeighted = lines.some((line) => line.weight !== null);
+  let currentCategory: EvaluationCategory | null = null;
+
+  for (const line of lines) {
+    if (CRITERIA_TOTAL_ROW.test(line.name)) {
+      continue;
+    }
+    const group = technicalGroupPattern.test(line.text) || financialGroupPattern.test(line.text);
+    if (group) {
+      currentCategory = financialGroupPattern.test(line.text) ? "financial" : "technical";
+    }
+
+    const parent = drafts[drafts.length - 1];
+    const isChild = numbered ? !line.numbered && !group : false;
+    if (isChild) {
+      parent?.children.push(line);
+      continue;
+    }
+
+    if (!numbered && anyWeighted && line.weight === null && !group) {
+      continue;
+    }
+    if (line.weight === null && line.name.length > MAX_UNWEIGHTED_NAME_CHARS) {
+      continue;
+    }
+
+    drafts.push({
+      line,
+      category: group ? (currentCategory ?? "technical") : categoryFor(line.name, currentCategory),
+      group,
+      children: []
+    });
+  }
+
+  return foldGroups(drafts);
+}
+
+/**
+ * "Technical evaluation 70%" followed by criteria summing to 70 (or to 100, i.e.
+ * relative to the group) is one criterion with sub-criteria, not an extra 70%.
+ */
+function foldGroups(drafts: DraftCriterion[]): DraftCriterion[] {
+  const output: DraftCriterion[] = [];
+
+  for (let i = 0; i < drafts.length; i += 1) {
+    const draft = drafts[i];
+    if (!draft.group || draft.line.weight === null) {
+      output.push(draft);
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < drafts.length && !drafts[end].group) {
+      end += 1;
+    }
+    const members = drafts.slice(i + 1, end);
+    const memberTotal = members.reduce((sum, member) => sum + (member.line.weight ?? 0), 0);
+    const allWeighted = members.length > 0 && members.every((member) => member.line.weight !== null);
+    const nested =
+      allWeighted &&
+      (Math.abs(memberTotal - draft.line.weight) <= WEIGHT_TOLERANCE || Math.abs(memberTotal - 100) <= WEIGHT_TOLERANCE);
+
+    if (!nested) {
+      output.push(draft);
+      continue;
+    }
+
+    output.push({ ...draft, children: [...draft.children, ...members.map((member) => member.line)] });
+    i = end - 1;
+  }
+
+  return output;
+}
+
+function firstSpan(locator: SourceLocator, line: ParsedLine): SourceSpan | null {
+  return locator.locate(line.text)[0] ?? locator.locate(line.name)[0] ?? null;
+}
+
+function isWeighted(drafts: DraftCriterion[]): boolean {
+  return drafts.some((draft) => draft.line.weight !== null);
+}
+
+/** Text of each evaluation criteria section the parser found, in document order. */
+function criteriaSections(parsedDocument: Pick<AnalyzeRfpInput["parsedDocument"], "rawText" | "sections">): string[] {
+  return parsedDocument.sections
+    .filter((section) => section.name === "evaluation_criteria")
+    .filter((section) => section.startOffset >= 0 && section.endOffset <= parsedDocument.rawText.length)
+    .map((section) => parsedDocument.rawText.slice(section.startOffset, section.endOffset));
+}
+
+/**
+ * Reads weighted criteria from the document itself (a criteria table, then the evaluation
+ * criteria section) and falls back to the extracted evaluationCriteria text, which may be
+ * shortened. Percentages adding up to nearly 100, and points on any scale, are rescaled
+ * to 100 so downstream consumers can compare them directly; percentages that fall short
+ * are a partial list and leave the technical/financial split unknown.
+ */
+export function structureEvaluationCriteria(
+  evaluationCriteria: string,
+  parsedDocument: Pick<AnalyzeRfpInput["parsedDocument"], "rawText" | "sections" | "tables">,
+  locator: SourceLocator
+): StructuredEvaluationCriteriaV1 {
+  const tableCriteria = criteriaFromTables(parsedDocument.tables);
+  const candidates = [
+    tableCriteria.map((criterion) => `${criterion.name} ${criterion.weight}`).join("\n"),
+    ...criteriaSections(parsedDocument)
+  ].map((text) => draftCriteria(parseLines(text)));
+  const drafts = candidates.find(isWeighted) ?? draftCriteria(parseLines(evaluationCriteria));
+
+  const weights = drafts.map((draft) => draft.line.weight);
+  const weighted = weights.filter((weight): weight is number => weight !== null);
+  const statedWeightTotal = weighted.length > 0 ? round2(weighted.reduce((sum, weight) => sum + weight, 0)) : null;
+  const allWeighted = weighted.length > 0 && weighted.length === weights.length;
+  const pointsScale = allWeighted && weighted.length > 1 && drafts.every((draft) => draft.line.unit === "points");
+  const wholeEvaluation =
+    allWeighted && statedWeightTotal !== null && (pointsScale || Math.abs(statedWeightTotal - 100) <= TOTAL_TOLERANCE);
+  const weightsNormalized = wholeEvaluation && statedWeightTotal !== null && Math.abs(statedWeightTotal - 100) > 0.5;
+
+  const criteria: EvaluationCriterionV1[] = drafts.map((draft) => {
+    const { weight, unit } = draft.line;
+    let normalizedWeightPercent: number | null = null;
+    if (weight !== null && weightsNormalized && statedWeightTotal) {
+      normalizedWeightPercent = round2((weight / statedWeightTotal) * 100);
+    } else if (weight !== null && (wholeEvaluation || unit === "percent")) {
+      // A stated percentage is already a share of the whole, even in a partial list.
+      normalizedWeightPercent = weight;
+    }
+
+    return {
+      name: draft.line.name,
+      weightPercent: weight,
+      normalizedWeightPercent,
+      category: draft.category,
+      subCriteria: draft.children.map((child) => ({
+        name: child.name,
+        weightPercent: child.weight,
+        sourceSpan: firstSpan(locator, child)
+      })),
+      sourceSpan: firstSpan(locator, draft.line)
+    };
+  });
+
+  const splitFor = (category: EvaluationCategory): number | null =>
+    wholeEvaluation
+      ? round2(
+          criteria
+            .filter((criterion) => criterion.category === category)
+            .reduce((sum, criterion) => sum + (criterion.normalizedWeightPercent ?? 0), 0)
+        )
+      : null;
+
+  return {
+    criteria,
+    statedWeightTotal,
+    weightsNormalized,
+    technicalWeightPercent: splitFor("technical"),
+    financialWeightPercent: splitFor("financial")
+  };
+}
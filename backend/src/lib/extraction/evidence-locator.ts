@@ -0,0 +1,289 @@
+import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import type { Pass1Output } from "@/lib/extraction/passes/pass1-extract";
+import { pageForOffset, type EvidenceEntry } from "@/lib/parsing/normalization";
+
+export interface FieldEvidence {
+  field: string;
+  page: number;
+  excerpt: string;
+  /** Offsets into parsedDocument.rawText; absent when the value could not be traced to the source. */
+  charStart?: number;
+  charEnd?: number;
+  /** Set to "table_cell" when the value was read from a parsed table row. */
+  sourceType?: EvidenceEntry["sourceType"];
+}
+
+/** A verbatim stretch of parsedDocument.rawText: `quote === rawText.slice(charStart, charEnd)`. */
+export interface SourceSpan {
+  page: number;
+  charStart: number;
+  charEnd: number;
+  quote: string;
+}
+
+export interface SourceLocator {
+  /** Spans of rawText that support `value`, in document order; empty when it cannot be grounded. */
+  locate(value: string | null | undefined): SourceSpan[];
+}
+
+type LocatableDocument = Pick<AnalyzeRfpInput["parsedDocument"], "rawText" | "pageIndex">;
+
+const MAX_EXCERPT_CHARS = 200;
+const MIN_NEEDLE_CHARS = 4;
+const MAX_PROBE_CHARS = 120;
+const MIN_PROBE_CHARS = 20;
+const MAX_SPANS_PER_VALUE = 8;
+
+const sectionForField: Record<string, string> = {
+  scopeOfWork: "scope_of_work",
+  evaluationCriteria: "evaluation_criteria",
+  importantDates: "important_dates",
+  submissionRequirements: "submission_requirements"
+};
+
+interface SearchIndex {
+  folded: string;
+  /** Raw-text offset of every character in `folded`. */
+  offsets: number[];
+}
+
+/** Case, width, tatweel, harakat and alef/yeh variants are ignored when matching. */
+function foldChar(char: string): string {
+  if (char.charCodeAt(0) < 0x80) {
+    return char.toLowerCase();
+  }
+  return char
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\u0640\u064B-\u065F\u0670]/g, "")
+    .replace(/[\u0622\u0623\u0625\u0671]/g, "\u0627")
+    .replace(/\u0649/g, "\u064A");
+}
+
+function buildSearchIndex(text: string): SearchIndex {
+  let folded = "";
+  const offsets: number[] = [];
+  let offset = 0;
+
+  for (const char of text) {
+    const isSpace = /\s/.test(char);
+    const piece = isSpace ? (folded.endsWith(" ") || folded.length === 0 ? "" : " ") : foldChar(char);
+    for (let i = 0; i < piece.length; i += 1) {
+      offsets.push(offset);
+    }
+    folded += piece;
+    offset += char.length;
+  }
+
+  return { folded, offsets };
+}
+
+function foldNeedle(value: string): string {
+  return buildSearchIndex(value).folded.trim();
+}
+
+function findSpan(index: SearchIndex, needle: string, from = 0): { start: number; end: number } | null {
+  const folded = foldNeedle(needle);
+  if (folded.length < MIN_NEEDLE_CHARS) {
+    return null;
+  }
+
+  const position = index.folded.indexOf(folded, from);
+  if (position === -1) {
+    return null;
+  }
+
+  return { start: position, end: position + folded.length };
+}
+
+/** Line- or sentence-sized probes of a long value, in order. */
+function probes(value: string): string[] {
+  return value
+    .split(/\n+|(?<=[.!?\u061F])\s+/)
+    .map((part) => part.replace(/^[\s\-*•\d.)]+/, "").trim())
+    .filter((part) => part.length >= MIN_PROBE_CHARS)
+    .map((part) => part.slice(0, MAX_PROBE_CHARS));
+}
+
+/**
+ * Finds `value` in the folded text. Short values must appear verbatim (after
+ * folding); long, possibly reflowed or partly paraphrased values are grounded
+ * line by line, so only the lines that really occur in the source are returned.
+ */
+function findValue(index: SearchIndex, value: string): Array<{ start: number; end: number }> {
+  const trimmed = value.trim();
+  if (trimmed.length <= MAX_PROBE_CHARS) {
+    const exact = findSpan(index, trimmed);
+    if (exact) {
+      return [exact];
+    }
+  }
+
+  const spans: Array<{ start: number; end: number }> = [];
+  let cursor = 0;
+  for (const probe of probes(trimmed)) {
+    const span = findSpan(index, probe, cursor) ?? findSpan(index, probe);
+    if (!span) {
+      continue;
+    }
+    const overlapping = spans.find((item) => span.start <= item.end && span.end >= item.start);
+    if (overlapping) {
+      overlapping.start = Math.min(overlapping.start, span.start);
+      overlapping.end = Math.max(overlapping.end, span.end);
+    } else {
+      spans.push(span);
+    }
+    cursor = span.end;
+    if (spans.length >= MAX_SPANS_PER_VALUE) {
+      break;
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+export function createSourceLocator(parsedDocument: LocatableDocument): SourceLocator {
+  const rawText = parsedDocument.rawText;
+  const pageIndex = parsedDocument.pageIndex ?? [];
+  let index: SearchIndex | null = null;
+
+  return {
+    locate(value) {
+      if (!value || value.trim().length === 0) {
+        return [];
+      }
+      index ??= buildSearchIndex(rawText);
+      const searchIndex = index;
+
+      return findValue(searchIndex, value).map((span) => {
+        const charStart = searchIndex.offsets[span.start];
+        const lastChar = searchIndex.offsets[span.end - 1];
+        const charEnd = lastChar + ((rawText.codePointAt(lastChar) ?? 0) > 0xffff ? 2 : 1);
+        return {
+          page: pageForOffset(pageIndex, charStart),
+          charStart,
+          charEnd,
+          quote: rawText.slice(charStart, charEnd)
+        };
+      });
+    }
+  };
+}
+
+/** True when `span` is well-formed and its quote is exactly the rawText it points at. */
+export function isValidSourceSpan(span: SourceSpan, rawText: string): boolean {
+  return (
+    Number.isInteger(span.charStart) &&
+    Number.isInteger(span.charEnd) &&
+    span.charStart >= 0 &&
+    span.charEnd > span.charStart &&
+    span.charEnd <= rawText.length &&
+    rawText.slice(span.charStart, span.charEnd) === span.quote
+  );
+}
+
+function toEvidence(field: string, spans: SourceSpan[], rawText: string): FieldEvidence {
+  const charStart = spans[0].charStart;
+  const charEnd = spans[spans.length - 1].charEnd;
+  return {
+    field,
+    page: spans[0].page,
+    excerpt: rawText.slice(charStart, Math.min(charEnd, charStart + MAX_EXCERPT_CHARS)),
+    charStart,
+    charEnd
+  };
+}
+
+function candidatesFor(pass1: Pass1Output): Array<{ field: string; values: Array<string | null | undefined> }> {
+  return [
+    { field: "clientName", values: [pass1.clientNameArabic, pass1.clientName] },
+    { field: "projectName", values: [pass1.projectNameOriginal, pass1.projectName] },
+    { field: "projectDescription", values: [pass1.projectDescription] },
+    { field: "scopeOfWork", values: [pass1.scopeOfWork] },
+    { field: "evaluationCriteria", values: [pass1.evaluationCriteria] },
+    ...pass1.requiredDeliverables.map((deliverable, i) => ({
+      field: `requiredDeliverables[${i}]`,
+      values: [deliverable.item]
+    })),
+    ...pass1.importantDates.map((date, i) => ({
+      field: `importantDates[${i}]`,
+      values: [date.title, date.dateOriginal, date.date]
+    })),
+    { field: "submissionRequirements.email", values: [pass1.submissionRequirements.email] },
+    { field: "submissionRequirements.physicalAddress", values: [pass1.submissionRequirements.physicalAddress] }
+  ];
+}
+
+/** Page of the parse-stage section that matches a top-level field, if any. */
+function sectionPage(field: string, parsedDocument: AnalyzeRfpInput["parsedDocument"]): number {
+  const sectionName = sectionForField[field.split(/[.[]/)[0]];
+  const section = sectionName ? parsedDocument.sections.find((item) => item.name === sectionName) : undefined;
+  return section ? pageForOffset(parsedDocument.pageIndex ?? [], section.startOffset) : 1;
+}
+
+/**
+ * Traces every extracted field back to its location in the parsed document so each
+ * evidence entry carries the real page and rawText offsets. Pass-1 excerpts that
+ * cannot be located are kept, pinned to the page of their detected section. Values
+ * pass 1 read from table rows are reported as "table_cell" evidence on the table's page.
+ */
+export function locateFieldEvidence(
+  pass1: Pass1Output,
+  parsedDocument: AnalyzeRfpInput["parsedDocument"],
+  locator: SourceLocator = createSourceLocator(parsedDocument)
+): FieldEvidence[] {
+  const rawText = parsedDocument.rawText;
+  const evidence: FieldEvidence[] = [];
+  const located = new Set<string>();
+
+  // Table values keep their table page; offsets are added when the row or its first cell is in rawText.
+  for (const entry of pass1.evidence) {
+    if (entry.sourceType !== "table_cell" || located.has(entry.field)) {
+      continue;
+    }
+    const rowSpans = locator.locate(entry.excerpt);
+    const [span] = rowSpans.length > 0 ? rowSpans : locator.locate(entry.excerpt.split(" | ")[0]);
+    evidence.push({
+      field: entry.field,
+      page: entry.page,
+      excerpt: entry.excerpt,
+      ...(span ? { charStart: span.charStart, charEnd: span.charEnd } : {}),
+      sourceType: "table_cell"
+    });
+    located.add(entry.field);
+  }
+
+  for (const candidate of candidatesFor(pass1)) {
+    if (located.has(candidate.field)) {
+      continue;
+    }
+    for (const value of candidate.values) {
+      const spans = locator.locate(value);
+      if (spans.length > 0) {
+        evidence.push(toEvidence(candidate.field, spans, rawText));
+        located.add(candidate.field);
+        break;
+      }
+    }
+  }
+
+  for (const entry of pass1.evidence) {
+    if (located.has(entry.field) || entry.excerpt.trim().length === 0) {
+      continue;
+    }
+    const spans = locator.locate(entry.excerpt);
+    evidence.push(
+      spans.length > 0
+        ? toEvidence(entry.field, spans, rawText)
+        : { field: entry.field, page: sectionPage(entry.field, parsedDocument), excerpt: entry.excerpt }
+    );
+    located.add(entry.field);
+  }
+
+  return evidence;
+}
+
+/** Distinct top-level fields with evidence, e.g. `importantDates[2]` counts as `importantDates`. */
+export function evidencedFieldCount(evidence: FieldEvidence[]): number {
+  return new Set(evidence.map((entry) => entry.field.split(/[.[]/)[0])).size;
+}
@@ -1,5 +1,8 @@
 import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
 import { extractWithClaude, type ClaudeExtractedFields } from "@/lib/extraction/claude-extractor";
+import { parseDate, type DateCalendar, type ParsedDate } from "@/lib/extraction/dates";
+import { criteriaFromTables, datesFromTables, deliverablesFromTables } from "@/lib/extraction/table-fields";
+import type { EvidenceEntry } from "@/lib/parsing/normalization";
 
 export interface DeliverableItem {
   item: string;
@@ -18,6 +21,21 @@ export interface DeliverableRequirements {
   strategicCreative: DeliverableRequirementItem[];
 }
 
+export interface ImportantDateItem {
+  title: string;
+  /** Gregorian date, YYYY-MM-DD; null when the document states no date. */
+  date: string | null;
+  status: "stated" | "unknown";
+  /** The date as written in the document, e.g. a Hijri date in Arabic-Indic digits. */
+  dateOriginal?: string;
+  calendar?: DateCalendar;
+  /** Time of day (HH:MM, 24-hour) and timezone when the document states them. */
+  time?: string;
+  timezone?: string;
+  type: string;
+  isCritical: boolean;
+}
+
 export interface Pass1Output {
   clientName: string;
   clientNameArabic: string | null;
@@ -28,7 +46,7 @@ export interface Pass1Output {
   evaluationCriteria: string;
   requiredDeliverables: DeliverableItem[];
   deliverableRequirements: DeliverableRequirements;
-  importantDates: Array<{ title: string; date: string; type: string; isCritical: boolean }>;
+  importantDates: ImportantDateItem[];
   submissionRequirements: {
     method: string;
     email: string | null;
@@ -38,7 +56,8 @@ export interface Pass1Output {
     otherRequirements: string[];
   };
   warnings: string[];
-  evidence: Array<{ field: string; page: number; excerpt: string }>;
+  /** `sourceType` is "table_cell" for values read from a parsed table row. */
+  evidence: Array<{ field: string; page: number; excerpt: string; sourceType?: EvidenceEntry["sourceType"] }>;
   confidenceScores: Record<string, number> & { overall: number };
 }
 
@@ -108,26 +127,34 @@ function extractExactBlock(text: string, headingRegex: RegExp, fallbackLength: n
   return text.slice(start, end).trim();
 }
 
-function normalizeDate(raw: string): string | null {
-  const iso = raw.match(/\b(\d{4}-\d{2}-\d{2})\b/);
-  if (iso?.[1]) {
-    return iso[1];
-  }
-
-  const dmy = raw.match(/\b(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})\b/);
-  if (dmy) {
-    const dd = dmy[1].padStart(2, "0");
-    const mm = dmy[2].padStart(2, "0");
-    const yyyy = dmy[3];
-    return `${yyyy}-${mm}-${dd}`;
-  }
+function parsedDateFields(parsed: ParsedDate, original = parsed.original): Pick<
+  ImportantDateItem,
+  "date" | "status" | "dateOriginal" | "calendar" | "time" | "timezone"
+> {
+  return {
+    date: parsed.date,
+    status: "stated",
+    dateOriginal: original,
+    calendar: parsed.calendar,
+    ...(parsed.time ? { time: parsed.time } : {}),
+    ...(parsed.timezone ? { timezone: parsed.timezone } : {})
+  };
+}
 
-  return null;
+function importantDateType(title: string): string {
+  const lower = title.toLowerCase();
+  return /question|استفسار|الأسئلة/.test(lower)
+    ? "qa_deadline"
+    : /submission|تقديم\s+العروض|موعد\s+التقديم/.test(lower)
+      ? "submission_deadline"
+      : /presentation|العرض\s+التقديمي/.test(lower)
+        ? "presentation"
+        : "other";
 }
 
-function extractDates(text: string): Array<{ title: string; date: string; type: string; isCritical: boolean }> {
+function extractDates(text: string): ImportantDateItem[] {
   const lines = text.split(/\r?\n/);
-  const out: Array<{ title: string; date: string; type: string; isCritical: boolean }> = [];
+  const out: ImportantDateItem[] = [];
 
   // Patterns that indicate this line is an address, not a date
   const addressPatterns = /address|street|building|floor|district|p\.?o\.?\s*box|postal|zip|avenue|road|blvd|suite|unit|city|region|حي|شارع|مبنى|طابق|صندوق بريد/i;
@@ -138,23 +165,16 @@ function extractDates(text: string): Array<{ title: string; date: string; type:
       continue;
     }
 
-    const normalized = normalizeDate(line);
-    if (!normalized) {
+    const parsed = parseDate(line);
+    if (!parsed) {
       continue;
     }
 
-    const lower = line.toLowerCase();
-    const type = lower.includes("question")
-      ? "qa_deadline"
-      : lower.includes("submission")
-        ? "submission_deadline"
-        : lower.includes("presentation")
-          ? "presentation"
-          : "other";
+    const type = importantDateType(line);
 
     out.push({
       title: line.replace(/\s+/g, " ").trim().slice(0, 120),
-      date: normalized,
+      ...parsedDateFields(parsed),
       type,
       isCritical: type === "submission_deadline" || type === "presentation"
     });
@@ -164,7 +184,8 @@ function extractDates(text: string): Array<{ title: string; date: string; type:
     return [
       {
         title: "Date not explicitly extracted",
-        date: "2099-12-31",
+        date: null,
+        status: "unknown",
         type: "other",
         isCritical: false
       }
@@ -1236,10 +1257,8 @@ function sanitizeEvaluationCriteria(criteriaText: string): string {
   return output.join("\n");
 }
 
-function dedupeImportantDates(
-  dates: Array<{ title: string; date: string; type: string; isCritical: boolean }>
-): Array<{ title: string; date: string; type: string; isCritical: boolean }> {
-  const byKey = new Map<string, { title: string; date: string; type: string; isCritical: boolean }>();
+function dedupeImportantDates(dates: ImportantDateItem[]): ImportantDateItem[] {
+  const byKey = new Map<string, ImportantDateItem>();
 
   for (const date of dates) {
     const cleanTitle = date.title.replace(/\s+/g, " ").trim();
@@ -1291,20 +1310,31 @@ function mapClaudeToPass1Output(
 ): Pass1Output {
   const warnings: string[] = [];
 
-  // Map Claude date types to our format with isCritical flag
-  const mappedDates = claude.importantDates.map((d) => ({
-    title: d.title,
-    date: d.date,
-    type: d.type,
-    isCritical: d.type === "submission_deadline" || d.type === "presentation"
-  }));
+  // Map Claude date types to our format with isCritical flag. Dates are re-read from the
+  // text the model quoted, so Hijri conversion does not depend on the model's arithmetic.
+  const mappedDates = claude.importantDates.map((d): ImportantDateItem => {
+    const fromOriginal = d.dateOriginal ? parseDate(d.dateOriginal) : null;
+    const fromDate = fromOriginal ? null : parseDate(d.date);
+    // A date neither the model nor the parser could read is unknown rather than passed through.
+    return {
+      title: d.title,
+      date: null,
+      status: "unknown",
+      ...(d.dateOriginal ? { dateOriginal: d.dateOriginal } : {}),
+      ...(fromOriginal ? parsedDateFields(fromOriginal, d.dateOriginal ?? undefined) : {}),
+      ...(fromDate ? parsedDateFields(fromDate, d.dateOriginal ?? fromDate.original) : {}),
+      type: d.type,
+      isCritical: d.type === "submission_deadline" || d.type === "presentation"
+    };
+  });
   const importantDates = dedupeImportantDates(mappedDates);
 
   // Ensure we have at least one date entry
   if (importantDates.length === 0) {
     importantDates.push({
       title: "Date not explicitly extracted",
-      date: "2099-12-31",
+      date: null,
+      status: "unknown",
       type: "other",
       isCritical: false
     });
@@ -1329,7 +1359,7 @@ function mapClaudeToPass1Output(
     projectName: claude.projectName ? 0.95 : 0.55,
     scopeOfWork: claude.scopeOfWork ? 0.92 : 0.65,
     evaluationCriteria: claude.evaluationCriteria ? 0.9 : 0.6,
-    dates: importantDates[0]?.date !== "2099-12-31" ? 0.88 : 0.5,
+    dates: importantDates[0]?.status === "stated" ? 0.88 : 0.5,
     overall: 0.9
   };
 
@@ -1376,6 +1406,88 @@ function mapClaudeToPass1Output(
   };
 }
 
+/**
+ * Adds what the document states only in tables: criteria weights when the criteria text
+ * has none, timeline rows and deliverable-schedule items. Every value read from a table
+ * gets a "table_cell" evidence entry quoting its row.
+ */
+function withTableFields(output: Pass1Output, tables: AnalyzeRfpInput["parsedDocument"]["tables"]): Pass1Output {
+  if (tables.length === 0) {
+    return output;
+  }
+
+  let { evaluationCriteria, evidence } = output;
+  const criteria = criteriaFromTables(tables);
+  if (criteria.length > 0 && !/\d\s*[%\u066A]/.test(evaluationCriteria)) {
+    evaluationCriteria = criteria.map((criterion) => `${criterion.name} ${criterion.weight}`).join("\n");
+    evidence = [
+      ...evidence.filter((entry) => entry.field !== "evaluationCriteria"),
+      {
+        field: "evaluationCriteria",
+        page: criteria[0].source.page,
+        excerpt: criteria.map((criterion) => criterion.source.excerpt).join("\n").slice(0, 200),
+        sourceType: "table_cell"
+      }
+    ];
+  }
+
+  // Table dates replace the "not extracted" placeholder.
+  const importantDates = output.importantDates.filter(
+    (date) => date.status === "stated" || date.title !== "Date not explicitly extracted"
+  );
+  const tableDateEvidence: Array<{ index: number; page: number; excerpt: string }> = [];
+  for (const { title, parsed, source } of datesFromTables(tables)) {
+    const key = normalizeDedupeKey(title);
+    let index = importantDates.findIndex((date) => {
+      const existing = normalizeDedupeKey(date.title);
+      return date.date === parsed.date && (existing.includes(key) || key.includes(existing));
+    });
+    if (index === -1) {
+      const type = importantDateType(title);
+      index = importantDates.push({
+        title: title.replace(/\s+/g, " ").trim().slice(0, 120),
+        ...parsedDateFields(parsed),
+        type,
+        isCritical: type === "submission_deadline" || type === "presentation"
+      }) - 1;
+    }
+    tableDateEvidence.push({ index, ...source });
+  }
+
+  const requiredDeliverables = [...output.requiredDeliverables];
+  const tableDeliverableEvidence: Array<{ index: number; page: number; excerpt: string }> = [];
+  for (const { item, source } of deliverablesFromTables(tables)) {
+    const key = normalizeDedupeKey(item);
+    let index = requiredDeliverables.findIndex((deliverable) => normalizeDedupeKey(deliverable.item) === key);
+    if (index === -1) {
+      index = requiredDeliverables.push({ item: item.replace(/\s+/g, " "), source: "verbatim" }) - 1;
+    }
+    tableDeliverableEvidence.push({ index, ...source });
+  }
+
+  return {
+    ...output,
+    evaluationCriteria,
+    importantDates: tableDateEvidence.length > 0 ? importantDates : output.importantDates,
+    requiredDeliverables,
+    evidence: [
+      ...evidence,
+      ...tableDateEvidence.map(({ index, page, excerpt }) => ({
+        field: `importantDates[${index}]`,
+        page,
+        excerpt,
+        sourceType: "table_cell" as const
+      })),
+      ...tableDeliverableEvidence.map(({ index, page, excerpt }) => ({
+        field: `requiredDeliverables[${index}]`,
+        page,
+        excerpt,
+        sourceType: "table_cell" as const
+      }))
+    ]
+  };
+}
+
 function runPass1ExtractionFallback(input: AnalyzeRfpInput): Pass1Output {
   // Original regex-based extraction as fallback
   const text = input.parsedDocument.rawText;
@@ -1429,7 +1541,7 @@ function runPass1ExtractionFallback(input: AnalyzeRfpInput): Pass1Output {
     projectName: projectName === "Untitled Project" ? 0.55 : 0.9,
     scopeOfWork: scopeFromSection || scopeFromHeading ? 0.9 : 0.65,
     evaluationCriteria: evalFromSection || evalFromHeading ? 0.87 : 0.6,
-    dates: importantDates[0]?.date === "2099-12-31" ? 0.5 : 0.82,
+    dates: importantDates[0]?.status === "unknown" ? 0.5 : 0.82,
     overall: 0.8
   };
 
@@ -1461,7 +1573,7 @@ export async function runPass1Extraction(input: AnalyzeRfpInput): Promise<Pass1O
   // Try Claude extraction first
   try {
     const claudeResult = await extractWithClaude(text);
-    return mapClaudeToPass1Output(claudeResult, text);
+    return withTableFields(mapClaudeToPass1Output(claudeResult, text), input.parsedDocument.tables);
   } catch (error) {
     console.error(
       "Claude extraction failed, using fallback:",
@@ -1469,6 +1581,6 @@ export async function runPass1Extraction(input: AnalyzeRfpInput): Promise<Pass1O
         ? { message: error.message, stack: error.stack }
         : error
     );
-    return runPass1ExtractionFallback(input);
+    return withTableFields(runPass1ExtractionFallback(input), input.parsedDocument.tables);
   }
 }
@@ -1,11 +1,13 @@
 import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import type { StructuredEvaluationCriteriaV1 } from "@/lib/extraction/evaluation-criteria";
 
 export function runPass2Verification(
   input: AnalyzeRfpInput,
   extracted: {
     scopeOfWork: string;
     evaluationCriteria: string;
-  }
+  },
+  structuredCriteria: StructuredEvaluationCriteriaV1
 ): {
   verificationScore: number;
   warnings: string[];
@@ -32,16 +34,12 @@ export function runPass2Verification(
     warnings.push("Evaluation criteria may contain content not found in source document.");
   }
 
-  // Check evaluation criteria percentages if present
-  const percentages = extracted.evaluationCriteria.match(/(\d{1,3})\s*%/g) ?? [];
-  if (percentages.length > 1) {
-    const sum = percentages
-      .map((token) => Number(token.replace("%", "").trim()))
-      .reduce((acc, value) => acc + value, 0);
-    if (sum !== 100) {
-      warnings.push(`Evaluation criteria percentages sum to ${sum}, not 100.`);
-      verificationScore -= 0.05;
-    }
+  // Top-level criterion weights should add up to 100; sub-criteria are not counted twice.
+  const weightedCriteria = structuredCriteria.criteria.filter((criterion) => criterion.weightPercent !== null);
+  const sum = structuredCriteria.statedWeightTotal;
+  if (weightedCriteria.length > 1 && sum !== null && Math.abs(sum - 100) > 0.5) {
+    warnings.push(`Evaluation criteria percentages sum to ${sum}, not 100.`);
+    verificationScore -= 0.05;
   }
 
   return {
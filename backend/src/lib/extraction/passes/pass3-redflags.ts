@@ -1,60 +1,197 @@
 import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { clauseSpan, splitClauses, type Clause } from "@/lib/extraction/clauses";
+import type { SourceSpan } from "@/lib/extraction/evidence-locator";
+import { getRedFlagReviewer, type RedFlagFinding, type RedFlagReviewer, type ReviewClause } from "@/lib/extraction/red-flag-reviewer";
+import {
+  loadRedFlagRules,
+  ruleMatchesText,
+  type RedFlagRule,
+  type RedFlagSeverity,
+  type RedFlagType
+} from "@/lib/extraction/red-flag-rules";
 
-const redFlagKeywords: Array<{
-  type: "contractual" | "feasibility" | "process";
-  severity: "HIGH" | "MEDIUM" | "LOW";
+export interface DetectedRedFlag {
+  /** Catalogue rule id, or "other" for model findings outside the catalogue. */
+  ruleId: string;
+  type: RedFlagType;
+  severity: RedFlagSeverity;
   title: string;
-  pattern: RegExp;
+  description: string;
+  /** The clause that raised the flag, verbatim from rawText. */
+  sourceText: string;
   recommendation: string;
-}> = [
-  {
-    type: "contractual",
-    severity: "HIGH",
-    title: "Unlimited Revisions",
-    pattern: /unlimited\s+revisions|غير\s+محدود\s+من\s+التعديلات/i,
-    recommendation: "Negotiate revision cap with change-request process."
-  },
-  {
-    type: "contractual",
-    severity: "MEDIUM",
-    title: "IP Ownership Risk",
-    pattern: /all\s+work\s+becomes\s+client\s+property|work\s+for\s+hire/i,
-    recommendation: "Request ownership carve-out for unused concepts."
-  },
-  {
-    type: "feasibility",
-    severity: "MEDIUM",
-    title: "Unrealistic Timeline",
-    pattern: /within\s+\d+\s+days|خلال\s+\d+\s+يوم/i,
-    recommendation: "Clarify delivery sequencing and milestone expectations."
-  },
-  {
-    type: "process",
-    severity: "LOW",
-    title: "No Q&A Window",
-    pattern: /no\s+questions|without\s+q&a|بدون\s+أسئلة/i,
-    recommendation: "Request formal clarification window before submission."
+  sourceSpan: SourceSpan;
+  detectedBy: "rule" | "model" | "rule+model";
+}
+
+// Clauses worth sending to the model: contract, commercial and legal terms.
+const termsClausePattern =
+  /contract|agreement|terms|liabilit|indemn|payment|invoice|penalt|damages|guarantee|bond|terminat|intellectual\s+property|ownership|exclusiv|compet|warrant|insurance|local\s+content|saudi[sz]ation|fee|cost|العقد|الشروط|المسؤولية|التعويض|الدفع|الدفعات|غرامة|غرامات|الضمان|إنهاء|الملكية\s+الفكرية|حصري|المحتوى\s+المحلي|السعودة/i;
+const MAX_REVIEW_CHARS = 12000;
+
+const severityRank: Record<RedFlagSeverity, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+type ParsedDocument = AnalyzeRfpInput["parsedDocument"];
+
+/**
+ * Whether the clause falls inside one of the rule's sections. Section detection is
+ * heuristic, so a rule scoped to sections the document lacks applies everywhere.
+ */
+function inRuleSections(rule: RedFlagRule, clause: Clause, sections: ParsedDocument["sections"]): boolean {
+  if (!rule.sections) {
+    return true;
+  }
+  const scoped = sections.filter((section) => rule.sections!.includes(section.name));
+  return (
+    scoped.length === 0 ||
+    scoped.some((section) => clause.start < section.endOffset && section.startOffset < clause.end)
+  );
+}
+
+function ruleFlags(rules: RedFlagRule[], clauses: Clause[], parsedDocument: ParsedDocument): DetectedRedFlag[] {
+  const flags: DetectedRedFlag[] = [];
+  for (const rule of rules) {
+    const clause = clauses.find(
+      (item) => ruleMatchesText(rule, item.text) && inRuleSections(rule, item, parsedDocument.sections)
+    );
+    if (!clause) {
+      continue;
+    }
+    flags.push({
+      ruleId: rule.id,
+      type: rule.type,
+      severity: rule.severity,
+      title: rule.title,
+      description: rule.description,
+      sourceText: clause.text,
+      recommendation: rule.recommendation,
+      sourceSpan: clauseSpan(clause, parsedDocument.pageIndex),
+      detectedBy: "rule"
+    });
+  }
+  return flags;
+}
+
+/** Terms clauses with ids into `clauses`, each followed by the next clause for context, within the prompt budget. */
+function reviewClauses(clauses: Clause[]): ReviewClause[] {
+  const ids = new Set<number>();
+  clauses.forEach((clause, id) => {
+    if (termsClausePattern.test(clause.text)) {
+      ids.add(id);
+      if (id + 1 < clauses.length) {
+        ids.add(id + 1);
+      }
+    }
+  });
+
+  const selected: ReviewClause[] = [];
+  let budget = MAX_REVIEW_CHARS;
+  for (const id of Array.from(ids).sort((a, b) => a - b)) {
+    budget -= clauses[id].text.length;
+    if (budget < 0) {
+      break;
+    }
+    selected.push({ id, text: clauses[id].text });
   }
-];
+  return selected;
+}
+
+function overlaps(a: SourceSpan, b: SourceSpan): boolean {
+  return a.charStart < b.charEnd && b.charStart < a.charEnd;
+}
+
+/**
+ * Folds model findings into the rule flags. A finding in the same catalogue category,
+ * or of the same type on the same clause, confirms the rule flag instead of adding a
+ * second one; the rest become model-only flags quoting the clause they point at.
+ */
+function mergeFindings(
+  rules: RedFlagRule[],
+  flags: DetectedRedFlag[],
+  findings: RedFlagFinding[],
+  clauses: Clause[],
+  reviewed: Set<number>,
+  pageIndex: ParsedDocument["pageIndex"]
+): DetectedRedFlag[] {
+  const merged = [...flags];
+  const knownRules = new Set(rules.map((rule) => rule.id));
+
+  for (const finding of findings) {
+    const clause = clauses[finding.clauseId];
+    if (!clause || !reviewed.has(finding.clauseId)) {
+      continue;
+    }
+    const span = clauseSpan(clause, pageIndex);
+    const ruleId = knownRules.has(finding.category) ? finding.category : "other";
+
+    const existing = merged.find(
+      (flag) =>
+        (ruleId !== "other" && flag.ruleId === ruleId) || (flag.type === finding.type && overlaps(flag.sourceSpan, span))
+    );
+    if (existing) {
+      if (existing.detectedBy === "rule") {
+        existing.detectedBy = "rule+model";
+      }
+      continue;
+    }
 
-export function runPass3RedFlags(input: AnalyzeRfpInput, extracted: { scopeOfWork: string }) {
-  const text = `${input.parsedDocument.rawText}\n${extracted.scopeOfWork}`;
+    merged.push({
+      ruleId,
+      type: finding.type,
+      severity: finding.severity,
+      title: finding.title,
+      description: finding.description,
+      sourceText: clause.text,
+      recommendation: finding.recommendation,
+      sourceSpan: span,
+      detectedBy: "model"
+    });
+  }
+
+  return merged;
+}
+
+/**
+ * Red flags from the rule catalogue plus a model review of the contract and terms
+ * clauses. Every flag quotes the clause it came from, with offsets into rawText;
+ * the model pass is best-effort and rule matches stand on their own without it.
+ * Rules come from the rule file, whose version is returned for the output.
+ */
+export async function runPass3RedFlags(
+  input: AnalyzeRfpInput,
+  reviewer: RedFlagReviewer = getRedFlagReviewer()
+): Promise<{ redFlags: DetectedRedFlag[]; rulesVersion: string; warnings: string[] }> {
+  const { rawText, pageIndex } = input.parsedDocument;
+  const { version: rulesVersion, rules } = await loadRedFlagRules();
+  const clauses = splitClauses(rawText);
   const warnings: string[] = [];
 
-  const redFlags = redFlagKeywords
-    .filter((item) => item.pattern.test(text))
-    .map((item) => ({
-      type: item.type,
-      severity: item.severity,
-      title: item.title,
-      description: `${item.title} detected in RFP language.`,
-      sourceText: text.slice(0, 220),
-      recommendation: item.recommendation
-    }));
+  const candidates = reviewClauses(clauses);
+  let findings: RedFlagFinding[] = [];
+  try {
+    findings = await reviewer.review(
+      candidates,
+      rules.map((rule) => ({ id: rule.id, title: rule.title }))
+    );
+  } catch (error) {
+    console.error("Red-flag model review failed, using rule matches only:", error instanceof Error ? error.message : error);
+    warnings.push("Red-flag model review unavailable; rule matches only.");
+  }
+
+  const redFlags = mergeFindings(
+    rules,
+    ruleFlags(rules, clauses, input.parsedDocument),
+    findings,
+    clauses,
+    new Set(candidates.map((clause) => clause.id)),
+    pageIndex
+  ).sort(
+    (a, b) => severityRank[a.severity] - severityRank[b.severity] || a.sourceSpan.charStart - b.sourceSpan.charStart
+  );
 
   if (redFlags.length > 0) {
     warnings.push(`${redFlags.length} red flag(s) detected.`);
   }
 
-  return { redFlags, warnings };
+  return { redFlags, rulesVersion, warnings };
 }
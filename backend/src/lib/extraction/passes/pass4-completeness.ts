@@ -5,7 +5,7 @@ export function runPass4Completeness(
   extracted: {
     scopeOfWork: string;
     evaluationCriteria: string;
-    importantDates: Array<{ date: string }>;
+    importantDates: Array<{ status: "stated" | "unknown" }>;
     submissionRequirements: { method: string; format: string };
   }
 ): {
@@ -23,7 +23,7 @@ export function runPass4Completeness(
     });
   }
 
-  if (extracted.importantDates.length === 0 || extracted.importantDates[0]?.date === "2099-12-31") {
+  if (!extracted.importantDates.some((date) => date.status === "stated")) {
     missingInformation.push({
       field: "important_dates",
       suggestedQuestion: "Can you confirm all critical submission and Q&A dates?"
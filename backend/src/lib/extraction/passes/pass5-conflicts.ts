@@ -1,36 +1,531 @@
 import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { clauseSpan, splitClauses, type Clause } from "@/lib/extraction/clauses";
+import { findDates, normalizeDigits, parseDate } from "@/lib/extraction/dates";
+import type { StructuredEvaluationCriteriaV1 } from "@/lib/extraction/evaluation-criteria";
+import type { SourceSpan } from "@/lib/extraction/evidence-locator";
+import type { Pass1Output } from "@/lib/extraction/passes/pass1-extract";
+import { readContractDuration } from "@/lib/extraction/passes/pass6-commercial";
+import { documentForOffset, documentLabel, supersedesEarlierDocuments } from "@/lib/parsing/document-bundle";
 
-function extractSubmissionDates(text: string): string[] {
-  const lines = text.split(/\r?\n/);
-  const values: string[] = [];
+export type ConflictField =
+  | "submission_deadline"
+  | "qa_deadline"
+  | "submission_method"
+  | "submission_email"
+  | "copies"
+  | "technical_weight"
+  | "financial_weight"
+  | "contract_duration"
+  | "client_name";
 
-  for (const line of lines) {
-    if (!/submission|proposal deadline|موعد\s+التقديم/i.test(line)) {
-      continue;
+export type ConflictResolutionRule = "amendment" | "majority" | "extracted_value" | "first_occurrence";
+
+export interface ConflictSourceV1 {
+  value: string;
+  sourceSpan: SourceSpan;
+  /** Bundle file the clause came from; see ParsedDocumentV1.sourceDocuments. */
+  documentId?: string;
+}
+
+export interface ExtractedConflictV1 {
+  field: ConflictField;
+  /** Distinct values, in the order the document first states them. */
+  candidates: string[];
+  /** Every clause stating one of the candidates. */
+  sources: ConflictSourceV1[];
+  resolvedValue: string;
+  resolvedBy: ConflictResolutionRule;
+  /** Why `resolvedValue` was chosen, citing the deciding clause. */
+  resolution: string;
+}
+
+interface FieldValue {
+  /** Equal keys are the same value written differently, e.g. "12 months" and "1 year". */
+  key: string;
+  value: string;
+}
+
+interface FieldDetector {
+  field: ConflictField;
+  label: string;
+  read(clause: Clause): FieldValue[];
+  /** Looser equality for values with variants; keys are compared exactly otherwise. */
+  same?(a: string, b: string): boolean;
+}
+
+type SourceDocument = NonNullable<AnalyzeRfpInput["parsedDocument"]["sourceDocuments"]>[number];
+
+interface Statement extends FieldValue {
+  clause: Clause;
+  document: SourceDocument | null;
+  /** Stated by an amending clause, or anywhere in an addendum or Q&A response. */
+  amends: boolean;
+}
+
+interface ValueGroup {
+  key: string;
+  value: string;
+  statements: Statement[];
+}
+
+const MAX_QUOTE_CHARS = 120;
+
+const qaPattern = /question|clarification|inquir|enquir|استفسار|الاستفسارات|الأسئلة|استيضاح/i;
+const submissionDeadlinePattern =
+  /submission|closing\s+date|proposal\s+deadline|deadline\s+for\s+(?:proposals|bids|tenders|offers)|(?:proposals?|bids?|tenders?|offers?)\s+(?:are\s+|is\s+)?(?:due|must\s+be\s+(?:submitted|received))|موعد\s+التقديم|تقديم\s+العروض|لتقديم\s+العروض|استلام\s+العروض/i;
+/** Separate technical and financial envelopes often close on different dates. */
+const envelopePattern = /(?:technical|financial|commercial|price)\s+(?:proposal|offer|envelope)|العرض\s+(?:الفني|المالي)/i;
+const submitPattern = /\bsubmi(?:t|ts|tted|ssion)\b|\bdeliver(?:ed|y)?\b|تقديم|تسليم|ترسل|إرسال/i;
+const proposalPattern = /proposal|offer|\bbids?\b|tender|العرض|العروض|عرض/i;
+const amendmentPattern =
+  /amend|revis|extend|extension|postpone|moved\s+to|changed\s+to|updated|addendum|corrigendum|supersed|تعديل|معدل|المعدل|تمديد|ملحق|تأجيل/i;
+const emailPattern = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+const submissionMethods: Array<[label: string, pattern: RegExp]> = [
+  [
+    "Online portal",
+    /\betimad\b|\bportal\b|e-?procurement|online\s+platform|منصة\s+اعتماد|المنصة\s+الإلكترونية|البوابة\s+الإلكترونية/i
+  ],
+  ["Email", /\be-?mail\b|[\w.+-]+@[\w-]+\.\w|البريد\s+الإلكتروني/i],
+  [
+    "Physical delivery",
+    /by\s+hand|hand[-\s]?deliver|in\s+person|courier|sealed\s+envelopes?|(?:hard|printed)\s+cop(?:y|ies)|ظرف\s+مختوم|ظروف\s+مختومة|باليد|نسخ(?:ة)?\s+ورقية/i
+  ]
+];
+
+const numberWords: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10
+};
+const copiesPattern =
+  /\b(\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten)\s*(?:\(\s*\d{1,2}\s*\)\s*)?(?:(?:hard|printed|paper|bound)\s+)?cop(?:y|ies)\b|(?:عدد\s*)?\(?\s*(\d{1,2})\s*\)?\s*(?:نسخ|نسخة)/gi;
+
+const TECHNICAL = String.raw`technical|الفني|الفنية`;
+const FINANCIAL = String.raw`financial|commercial|price|المالي|المالية`;
+const passingScorePattern = /minimum|passing|threshold|pass\s+mark|cut-?off|الحد\s+الأدنى|درجة\s+النجاح/i;
+
+function weightPattern(kind: string): RegExp {
+  const weight = String.raw`(\d{1,3}(?:\.\d+)?)\s*[%\u066A]`;
+  const qualifiers = String.raw`(?:(?:evaluation|score|proposal|offer|component|weight(?:ing)?)\s*)*`;
+  return new RegExp(
+    String.raw`(?<!\p{L})(?:${kind})(?!\p{L})\s*${qualifiers}(?:[:=\-–]|is|of|accounts\s+for|carries)?\s*${weight}` +
+      String.raw`|${weight}\s*(?:for\s+(?:the\s+)?)?(?:${kind})(?!\p{L})`,
+    "giu"
+  );
+}
+
+const clientLabelPattern =
+  /^(?:client(?:\s+name)?|issuer|issuing\s+(?:entity|authority|organi[sz]ation)|contracting\s+(?:entity|authority)|procuring\s+entity|purchaser|اسم\s+الجهة|الجهة(?:\s+الحكومية|\s+المالكة|\s+المستفيدة)?|العميل)\s*[:：\-–]\s*(.{2,120})$/i;
+const nameStopwords = new Set(["the", "of", "and", "for", "co", "company", "inc", "ltd", "llc"]);
+
+function unique(values: FieldValue[]): FieldValue[] {
+  const seen = new Set<string>();
+  return values.filter((item) => (seen.has(item.key) ? false : (seen.add(item.key), true)));
+}
+
+function methodsIn(text: string): string[] {
+  return submissionMethods.filter(([, pattern]) => pattern.test(text)).map(([label]) => label);
+}
+
+function isSubmissionClause(text: string): boolean {
+  return submitPattern.test(text) && !qaPattern.test(text);
+}
+
+function dateDetector(field: ConflictField, label: string, matches: (text: string) => boolean): FieldDetector {
+  return {
+    field,
+    label,
+    read(clause) {
+      if (!matches(clause.text)) {
+        return [];
+      }
+      return unique(findDates(clause.text).map((date) => ({ key: date.date, value: date.date })));
+    }
+  };
+}
+
+function weightDetector(field: ConflictField, label: string, kind: string): FieldDetector {
+  const pattern = weightPattern(kind);
+  return {
+    field,
+    label,
+    read(clause) {
+      const text = normalizeDigits(clause.text);
+      const values: FieldValue[] = [];
+      for (const match of text.matchAll(pattern)) {
+        const preceding = text.slice(Math.max(0, (match.index ?? 0) - 30), match.index);
+        if (passingScorePattern.test(preceding)) {
+          continue;
+        }
+        const percent = Number(match[1] ?? match[2]);
+        if (percent > 0 && percent <= 100) {
+          values.push({ key: String(percent), value: `${percent}%` });
+        }
+      }
+      return unique(values);
     }
+  };
+}
+
+function foldName(name: string): string {
+  return name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\u0640\u064B-\u065F\u0670]/g, "")
+    .replace(/[\u0622\u0623\u0625]/g, "\u0627")
+    .replace(/\u0629/g, "\u0647")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function nameTokens(key: string): string[] {
+  return key.split(" ").filter((token) => token.length > 0 && !nameStopwords.has(token));
+}
 
-    const iso = line.match(/\b\d{4}-\d{2}-\d{2}\b/g) ?? [];
-    const dmy = line.match(/\b\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4}\b/g) ?? [];
-    values.push(...iso, ...dmy);
+/** "Saudi Aramco" and "Aramco", or "MoC" and "Ministry of Culture", name the same client. */
+function sameClient(a: string, b: string): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const shortTokens = nameTokens(shorter);
+  const longTokens = nameTokens(longer);
+  if (shortTokens.length > 0 && shortTokens.every((token) => longTokens.includes(token))) {
+    return true;
+  }
+  if (shortTokens.length !== 1) {
+    return false;
   }
+  const allTokens = longer.split(" ");
+  return [longTokens, allTokens].some(
+    (tokens) => tokens.length > 1 && tokens.map((token) => token[0]).join("") === shortTokens[0]
+  );
+}
 
-  return Array.from(new Set(values));
+function clientNameDetector(script: "arabic" | "latin"): FieldDetector {
+  return {
+    field: "client_name",
+    label: "client name",
+    read(clause) {
+      const name = clause.text.match(clientLabelPattern)?.[1]?.trim();
+      if (!name || /[\u0600-\u06FF]/.test(name) !== (script === "arabic")) {
+        return [];
+      }
+      return [{ key: foldName(name), value: name }];
+    },
+    same: sameClient
+  };
 }
 
-export function runPass5Conflicts(input: AnalyzeRfpInput, extracted: { importantDates: Array<{ date: string }> }) {
+const detectors: FieldDetector[] = [
+  dateDetector(
+    "submission_deadline",
+    "submission deadline",
+    (text) => submissionDeadlinePattern.test(text) && !qaPattern.test(text) && !envelopePattern.test(text)
+  ),
+  dateDetector("qa_deadline", "Q&A deadline", (text) => qaPattern.test(text)),
+  {
+    field: "submission_method",
+    label: "submission method",
+    read: (clause) =>
+      isSubmissionClause(clause.text) ? methodsIn(clause.text).map((method) => ({ key: method, value: method })) : []
+  },
+  {
+    field: "submission_email",
+    label: "submission email",
+    read: (clause) =>
+      isSubmissionClause(clause.text)
+        ? unique(Array.from(clause.text.matchAll(emailPattern), (match) => ({ key: match[0].toLowerCase(), value: match[0] })))
+        : []
+  },
+  {
+    field: "copies",
+    label: "number of copies",
+    read(clause) {
+      if (!proposalPattern.test(clause.text)) {
+        return [];
+      }
+      const text = normalizeDigits(clause.text);
+      return unique(
+        Array.from(text.matchAll(copiesPattern), (match) => {
+          const token = (match[1] ?? match[2]).toLowerCase();
+          const count = numberWords[token] ?? Number(token);
+          return { key: String(count), value: String(count) };
+        }).filter((item) => Number(item.key) > 0)
+      );
+    }
+  },
+  weightDetector("technical_weight", "technical evaluation weight", TECHNICAL),
+  weightDetector("financial_weight", "financial evaluation weight", FINANCIAL),
+  {
+    field: "contract_duration",
+    label: "contract duration",
+    read(clause) {
+      const duration = readContractDuration(clause.text);
+      if (!duration) {
+        return [];
+      }
+      const unit = duration.value === 1 ? duration.unit.replace(/s$/, "") : duration.unit;
+      return [{ key: String(duration.months), value: `${duration.value} ${unit}` }];
+    }
+  },
+  clientNameDetector("latin"),
+  clientNameDetector("arabic")
+];
+
+/** Keys of the values pass 1 settled on, used to break ties in their favour. */
+function extractedKeys(
+  pass1: Pick<Pass1Output, "importantDates"> & Partial<Pick<Pass1Output, "submissionRequirements" | "clientName" | "clientNameArabic">>,
+  criteria?: StructuredEvaluationCriteriaV1 | null
+): Partial<Record<ConflictField, string[]>> {
+  const dateOf = (type: string) => pass1.importantDates.find((entry) => entry.type === type && entry.date)?.date;
+  const method = methodsIn(pass1.submissionRequirements?.method ?? "");
+  const keys: Partial<Record<ConflictField, Array<string | null | undefined>>> = {
+    submission_deadline: [dateOf("submission_deadline")],
+    qa_deadline: [dateOf("qa_deadline")],
+    submission_method: method.length === 1 ? method : [],
+    submission_email: [pass1.submissionRequirements?.email?.toLowerCase()],
+    copies: [pass1.submissionRequirements?.copies?.toString()],
+    technical_weight: [criteria?.technicalWeightPercent?.toString()],
+    financial_weight: [criteria?.financialWeightPercent?.toString()],
+    client_name: [pass1.clientName, pass1.clientNameArabic].map((name) => (name ? foldName(name) : null))
+  };
+  return Object.fromEntries(
+    Object.entries(keys).map(([field, values]) => [field, values.filter((value): value is string => Boolean(value))])
+  );
+}
+
+function statementsFor(detector: FieldDetector, clauses: Clause[], documents: SourceDocument[] | undefined): Statement[] {
+  return clauses.flatMap((clause) => {
+    const values = detector.read(clause);
+    const document = documentForOffset(documents, clause.start);
+    const amends = amendmentPattern.test(clause.text) || (document !== null && supersedesEarlierDocuments(document.role));
+    if (values.length === 1) {
+      return [{ ...values[0], clause, document, amends }];
+    }
+    // A clause listing several values is a schedule or a comparison, not a statement of the
+    // value, except an amendment "from X to Y", which states the last one.
+    if (values.length === 2 && amendmentPattern.test(clause.text)) {
+      return [{ ...values[1], clause, document, amends }];
+    }
+    return [];
+  });
+}
+
+function groupStatements(statements: Statement[], same: FieldDetector["same"]): ValueGroup[] {
+  const groups: ValueGroup[] = [];
+  for (const statement of statements) {
+    const group = groups.find((item) => item.key === statement.key || same?.(item.key, statement.key));
+    if (group) {
+      group.statements.push(statement);
+    } else {
+      groups.push({ key: statement.key, value: statement.value, statements: [statement] });
+    }
+  }
+  return groups;
+}
+
+function quoteOf(clause: Clause): string {
+  return clause.text.length > MAX_QUOTE_CHARS ? `${clause.text.slice(0, MAX_QUOTE_CHARS - 1).trimEnd()}…` : clause.text;
+}
+
+function resolve(
+  groups: ValueGroup[],
+  extracted: string[],
+  detector: FieldDetector,
+  where: (statement: Statement) => string
+): Pick<ExtractedConflictV1, "resolvedValue" | "resolvedBy" | "resolution"> {
+  const amendments = groups.flatMap((group) =>
+    group.statements.filter((statement) => statement.amends).map((statement) => ({ group, statement }))
+  );
+  const lastAmendment = amendments.sort((a, b) => a.statement.clause.start - b.statement.clause.start).at(-1);
+  if (lastAmendment) {
+    const { group, statement } = lastAmendment;
+    return {
+      resolvedValue: group.value,
+      resolvedBy: "amendment",
+      resolution: `Resolved to ${group.value}: ${where(statement)} amends the earlier value ("${quoteOf(statement.clause)}").`
+    };
+  }
+
+  const counts = groups.map((group) => group.statements.length).sort((a, b) => b - a);
+  if (counts[0] > counts[1]) {
+    const group = groups.find((item) => item.statements.length === counts[0])!;
+    return {
+      resolvedValue: group.value,
+      resolvedBy: "majority",
+      resolution: `Resolved to ${group.value}: stated ${group.statements.length} times, more often than any other value; confirm with the client.`
+    };
+  }
+
+  const matchesExtracted = groups.find((group) =>
+    extracted.some((key) => key === group.key || detector.same?.(key, group.key))
+  );
+  if (matchesExtracted) {
+    return {
+      resolvedValue: matchesExtracted.value,
+      resolvedBy: "extracted_value",
+      resolution: `Resolved to ${matchesExtracted.value}: the value the extraction used, stated on ${where(matchesExtracted.statements[0])}; confirm with the client.`
+    };
+  }
+
+  const first = groups[0];
+  return {
+    resolvedValue: first.value,
+    resolvedBy: "first_occurrence",
+    resolution: `Resolved to ${first.value}: the first value stated, on ${where(first.statements[0])}; confirm with the client.`
+  };
+}
+
+/**
+ * Compares every value the document states for the key fields (deadlines, submission
+ * method and email, copies, evaluation weights, contract duration and client name) and
+ * reports each field stated with more than one value, quoting every clause involved.
+ * An amendment wins over what it amends, and in a bundle everything an addendum or
+ * Q&A response states counts as one; otherwise the most-stated value wins, then the
+ * extracted value, then the first stated value.
+ */
+export function runPass5Conflicts(
+  input: AnalyzeRfpInput,
+  extracted: Pick<Pass1Output, "importantDates"> &
+    Partial<Pick<Pass1Output, "submissionRequirements" | "clientName" | "clientNameArabic">>,
+  structuredEvaluationCriteria?: StructuredEvaluationCriteriaV1 | null
+) {
+  const { rawText, pageIndex, sourceDocuments } = input.parsedDocument;
+  const clauses = splitClauses(rawText);
+  const reference = extractedKeys(extracted, structuredEvaluationCriteria);
+  const where = (statement: Statement) => {
+    const page = `page ${clauseSpan(statement.clause, pageIndex).page}`;
+    return statement.document ? `${documentLabel(statement.document)}, ${page}` : page;
+  };
   const warnings: string[] = [];
-  const conflicts: Array<{ field: string; candidates: string[]; resolution: string }> = [];
+  const conflicts: ExtractedConflictV1[] = [];
+
+  for (const detector of detectors) {
+    const groups = groupStatements(statementsFor(detector, clauses, sourceDocuments), detector.same);
+    if (groups.length < 2) {
+      continue;
+    }
 
-  const candidateSubmissionDates = extractSubmissionDates(input.parsedDocument.rawText);
-  if (candidateSubmissionDates.length > 1) {
-    const resolved = extracted.importantDates[0]?.date ?? candidateSubmissionDates[0];
     conflicts.push({
-      field: "submission_deadline",
-      candidates: candidateSubmissionDates,
-      resolution: `Resolved to ${resolved} using first explicit timeline entry.`
+      field: detector.field,
+      candidates: groups.map((group) => group.value),
+      sources: groups
+        .flatMap((group) => group.statements)
+        .sort((a, b) => a.clause.start - b.clause.start)
+        .map((statement) => ({
+          value: statement.value,
+          sourceSpan: clauseSpan(statement.clause, pageIndex),
+          ...(statement.document ? { documentId: statement.document.documentId } : {})
+        })),
+      ...resolve(groups, reference[detector.field] ?? [], detector, where)
     });
-    warnings.push("Conflicting submission deadline values detected.");
+    warnings.push(`Conflicting ${detector.label} values detected.`);
   }
 
   return { conflicts, warnings };
 }
+
+type AmendableFields = Pick<Pass1Output, "importantDates" | "submissionRequirements">;
+
+function amendedDate(conflict: ExtractedConflictV1) {
+  const source = conflict.sources.filter((item) => item.value === conflict.resolvedValue).at(-1);
+  const quote = source?.sourceSpan.quote ?? "";
+  const stated = findDates(quote).filter((date) => date.date === conflict.resolvedValue).at(-1);
+  const parsed = stated ? parseDate(quote.slice(stated.index)) : null;
+  if (!source || !parsed) {
+    return null;
+  }
+  return {
+    source: source.sourceSpan,
+    fields: {
+      date: parsed.date,
+      dateOriginal: parsed.original,
+      calendar: parsed.calendar,
+      ...(parsed.time ? { time: parsed.time } : {}),
+      ...(parsed.timezone ? { timezone: parsed.timezone } : {})
+    }
+  };
+}
+
+/**
+ * Carries values settled by an amendment (an amending clause, addendum or Q&A
+ * response) into the extracted deadlines and submission requirements, so the
+ * report shows what the latest document says. A superseded deadline is dropped when the
+ * amending clause has an entry of its own, and retitled after that clause otherwise; the
+ * conflict keeps the overridden value.
+ */
+export function applyAmendments<T extends AmendableFields>(extracted: T, conflicts: ExtractedConflictV1[]): T {
+  const amended = conflicts.filter((conflict) => conflict.resolvedBy === "amendment");
+  if (amended.length === 0) {
+    return extracted;
+  }
+
+  let importantDates = extracted.importantDates;
+  const submissionRequirements = { ...extracted.submissionRequirements };
+  for (const conflict of amended) {
+    if (conflict.field === "submission_deadline" || conflict.field === "qa_deadline") {
+      const amendment = amendedDate(conflict);
+      if (!amendment) {
+        continue;
+      }
+      const superseded = (entry: (typeof importantDates)[number]) =>
+        entry.type === conflict.field && entry.date !== null && entry.date !== amendment.fields.date;
+      const index = importantDates.findIndex(superseded);
+      if (index === -1) {
+        continue;
+      }
+      if (importantDates.some((entry) => entry.type === conflict.field && entry.date === amendment.fields.date)) {
+        // The amending clause has its own entry; the superseded ones would only repeat the old date.
+        importantDates = importantDates.filter((entry) => !superseded(entry));
+      } else {
+        // Retitle the entry after the amending clause; the old title, time and timezone state the superseded date.
+        const updated = { ...importantDates[index], time: undefined, timezone: undefined, ...amendment.fields };
+        updated.title = amendment.source.quote;
+        if (!updated.time) {
+          delete updated.time;
+        }
+        if (!updated.timezone) {
+          delete updated.timezone;
+        }
+        importantDates = importantDates.map((item, i) => (i === index ? updated : item));
+      }
+    } else if (conflict.field === "submission_email") {
+      submissionRequirements.email = conflict.resolvedValue;
+    } else if (conflict.field === "copies") {
+      submissionRequirements.copies = Number(conflict.resolvedValue);
+    } else if (conflict.field === "submission_method") {
+      submissionRequirements.method = conflict.resolvedValue;
+    }
+  }
+
+  return { ...extracted, importantDates, submissionRequirements };
+}
+
+/** Carries an amended technical/financial split into the structured evaluation criteria. */
+export function applyWeightAmendments(
+  criteria: StructuredEvaluationCriteriaV1,
+  conflicts: ExtractedConflictV1[]
+): StructuredEvaluationCriteriaV1 {
+  const amendedWeight = (field: ConflictField) => {
+    const conflict = conflicts.find((item) => item.field === field && item.resolvedBy === "amendment");
+    return conflict ? Number.parseFloat(conflict.resolvedValue) : null;
+  };
+  const technical = amendedWeight("technical_weight");
+  const financial = amendedWeight("financial_weight");
+  if (technical === null && financial === null) {
+    return criteria;
+  }
+
+  // An addendum often restates only one side of the split; the other is its complement.
+  return {
+    ...criteria,
+    technicalWeightPercent: technical ?? (financial !== null ? 100 - financial : criteria.technicalWeightPercent),
+    financialWeightPercent: financial ?? (technical !== null ? 100 - technical : criteria.financialWeightPercent)
+  };
+}
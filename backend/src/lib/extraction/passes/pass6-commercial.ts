@@ -0,0 +1,366 @@
+import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { clauseSpan, splitClauses, type Clause } from "@/lib/extraction/clauses";
+import type { SourceSpan } from "@/lib/extraction/evidence-locator";
+
+export type CurrencyCode = "SAR" | "USD" | "AED";
+
+export interface MoneyAmountV1 {
+  amount: number;
+  currency: CurrencyCode | null;
+}
+
+export interface BudgetRangeV1 {
+  min: number | null;
+  max: number | null;
+  currency: CurrencyCode | null;
+  sourceSpan: SourceSpan;
+}
+
+export interface PaymentTermV1 {
+  text: string;
+  /** Percentages in the clause, e.g. an advance and milestone installments. */
+  percentages: number[];
+  /** Days allowed to pay after invoice or acceptance. */
+  paymentDays: number | null;
+  sourceSpan: SourceSpan;
+}
+
+export interface GuaranteeTermV1 {
+  percent: number | null;
+  amount: MoneyAmountV1 | null;
+  sourceSpan: SourceSpan;
+}
+
+export interface PenaltyClauseV1 {
+  text: string;
+  ratePercent: number | null;
+  per: "day" | "week" | "month" | null;
+  /** Ceiling on accumulated penalties, as a share of the contract value. */
+  capPercent: number | null;
+  sourceSpan: SourceSpan;
+}
+
+export interface ContractDurationV1 {
+  value: number;
+  unit: "days" | "weeks" | "months" | "years";
+  months: number;
+  sourceSpan: SourceSpan;
+}
+
+export interface CommercialTermsV1 {
+  estimatedBudget: BudgetRangeV1 | null;
+  paymentTerms: PaymentTermV1[];
+  bidBond: GuaranteeTermV1 | null;
+  performanceGuarantee: GuaranteeTermV1 | null;
+  penalties: PenaltyClauseV1[];
+  contractDuration: ContractDurationV1 | null;
+}
+
+interface MoneyMatch extends MoneyAmountV1 {
+  index: number;
+  end: number;
+  explicit: boolean;
+}
+
+const MAX_CLAUSES_PER_TERM = 6;
+
+const CURRENCY = String.raw`SAR|SR|S\.R\.?|USD|US\$|\$|AED|ريال(?:\s+سعودي)?|ر\.س\.?|دولار(?:\s+أمريكي)?|درهم`;
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const SCALE = String.raw`billion|bn|million|mn|m|thousand|k|مليار|ملايين|مليون|آلاف|ألف`;
+const moneyPattern = new RegExp(
+  String.raw`(?<![A-Za-z])(?:(${CURRENCY})\s*)?(${NUMBER})(?:\s*(${SCALE})(?![A-Za-z]))?(?:\s*(${CURRENCY})(?![A-Za-z]))?`,
+  "gi"
+);
+const rangeConnector = /^\s*(?:-|–|—|to|and|till|until|إلى|الى|و)\s*$/i;
+const percentPattern = /(\d+(?:\.\d+)?)\s*[%\u066A]/g;
+
+const budgetPattern =
+  /\bbudget\b|estimated\s+(?:contract\s+|project\s+)?(?:value|cost)|(?:contract|project)\s+value|ميزانية|الميزانية|القيمة\s+التقديرية|التكلفة\s+التقديرية|قيمة\s+العقد/i;
+const upperBoundPattern = /up\s+to|not\s+(?:to\s+)?exceed|maximum|ceiling|at\s+most|لا\s+تتجاوز|لا\s+يتجاوز|بحد\s+أقصى/i;
+const lowerBoundPattern = /at\s+least|minimum|starting\s+(?:from|at)|لا\s+تقل|بحد\s+أدنى/i;
+const paymentPattern =
+  /\bpayments?\b|\bpaid\b|\binvoices?\b|instal(?:l)?ments?|الدفع|دفعة|الدفعات|المستخلص|المستخلصات|الفاتورة|الفواتير/i;
+const paymentDaysPattern = /net\s*(\d{1,3})\b|(\d{1,3})\s*(?:calendar\s+|working\s+|business\s+)?days?\b|(\d{1,3})\s*(?:يوم|أيام)/i;
+const bidBondPattern =
+  /bid\s+(?:bond|security|guarantee)|tender\s+(?:bond|security|guarantee)|initial\s+guarantee|الضمان\s+الابتدائي|ضمان\s+ابتدائي/i;
+const performancePattern =
+  /performance\s+(?:bond|guarantee|security)|final\s+guarantee|الضمان\s+النهائي|ضمان\s+نهائي|ضمان\s+حسن\s+التنفيذ/i;
+const penaltyPattern = /penalt(?:y|ies)|liquidated\s+damages|delay\s+(?:fines?|charges?)|غرامة|غرامات|الغرامات/i;
+const penaltyCapPattern =
+  /(?:maximum|max\.?|cap(?:ped)?(?:\s+at)?|not\s+(?:to\s+)?exceed|up\s+to|بحد\s+أقصى|لا\s+تتجاوز|لا\s+يتجاوز)[^%\u066A\d]{0,40}(\d+(?:\.\d+)?)\s*[%\u066A]/i;
+const durationPattern =
+  /contract\s+(?:duration|period|term)|duration\s+of\s+the\s+(?:contract|project|engagement|agreement)|project\s+duration|engagement\s+period|period\s+of\s+performance|مدة\s+العقد|مدة\s+المشروع|مدة\s+التنفيذ|مدة\s+التعاقد/i;
+const durationValuePattern =
+  /(\d+(?:\.\d+)?)\s*\)?\s*(years?|months?|weeks?|days?|سنوات|سنة|سنه|أعوام|عام|شهور|أشهر|شهراً|شهرا|شهر|أسابيع|أسبوع|أيام|يوماً|يوما|يوم)/i;
+
+/** Arabic-Indic digits and separators are mapped one-to-one, so offsets are preserved. */
+function toWesternDigits(value: string): string {
+  return value
+    .replace(/[\u0660-\u0669]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0))
+    .replace(/\u066C/g, ",")
+    .replace(/\u066B/g, ".");
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function currencyCode(token: string | undefined): CurrencyCode | null {
+  if (!token) {
+    return null;
+  }
+  if (/^(?:SAR|SR|S\.R)|ريال|ر\.س/i.test(token)) {
+    return "SAR";
+  }
+  if (/^(?:USD|US\$|\$)|دولار/i.test(token)) {
+    return "USD";
+  }
+  if (/^AED|درهم/i.test(token)) {
+    return "AED";
+  }
+  return null;
+}
+
+function scaleFactor(token: string | undefined): number {
+  if (!token) {
+    return 1;
+  }
+  if (/^(?:billion|bn)$|مليار/i.test(token)) {
+    return 1_000_000_000;
+  }
+  if (/^(?:million|mn|m)$|مليون|ملايين/i.test(token)) {
+    return 1_000_000;
+  }
+  if (/^(?:thousand|k)$|ألف|آلاف/i.test(token)) {
+    return 1_000;
+  }
+  return 1;
+}
+
+/**
+ * Money amounts in a clause. A bare number only counts when it carries a currency
+ * or scale word, or is the other end of a range with one ("SAR 1,000,000 - 2,000,000").
+ */
+function moneyAmounts(text: string): MoneyAmountV1[] {
+  const normalized = toWesternDigits(text);
+  const matches: MoneyMatch[] = [];
+
+  for (const match of normalized.matchAll(moneyPattern)) {
+    const index = match.index ?? 0;
+    const end = index + match[0].length;
+    if (/^\s*[%\u066A]/.test(normalized.slice(end))) {
+      continue;
+    }
+    const currency = currencyCode(match[1]) ?? currencyCode(match[4]);
+    const scale = scaleFactor(match[3]);
+    matches.push({
+      amount: Number(match[2].replace(/,/g, "")) * scale,
+      currency,
+      index,
+      end,
+      explicit: currency !== null || match[3] !== undefined
+    });
+  }
+
+  const kept = matches.filter((item, i) => {
+    if (item.explicit) {
+      return true;
+    }
+    const previous = matches[i - 1];
+    const next = matches[i + 1];
+    return (
+      (previous?.explicit && rangeConnector.test(normalized.slice(previous.end, item.index))) ||
+      (next?.explicit && rangeConnector.test(normalized.slice(item.end, next.index)))
+    );
+  });
+
+  const currency = kept.find((item) => item.currency !== null)?.currency ?? null;
+  return kept
+    .filter((item) => item.amount > 0)
+    .map((item) => ({ amount: item.amount, currency: item.currency ?? currency }));
+}
+
+function percentages(text: string): number[] {
+  return Array.from(toWesternDigits(text).matchAll(percentPattern), (match) => Number(match[1])).filter(
+    (value) => value > 0 && value <= 100
+  );
+}
+
+function extractBudget(clauses: Clause[], pageIndex: AnalyzeRfpInput["parsedDocument"]["pageIndex"]): BudgetRangeV1 | null {
+  for (let i = 0; i < clauses.length; i += 1) {
+    if (!budgetPattern.test(clauses[i].text)) {
+      continue;
+    }
+
+    // "Estimated budget:" is often followed by the figure on the next line.
+    const candidates = [clauses[i], clauses[i].text.endsWith(":") ? clauses[i + 1] : undefined].filter(
+      (clause): clause is Clause => clause !== undefined
+    );
+    for (const clause of candidates) {
+      const amounts = moneyAmounts(clause.text);
+      if (amounts.length === 0) {
+        continue;
+      }
+
+      const values = amounts.map((item) => item.amount);
+      let min: number | null = Math.min(...values);
+      let max: number | null = Math.max(...values);
+      if (amounts.length === 1 && upperBoundPattern.test(clauses[i].text)) {
+        min = null;
+      } else if (amounts.length === 1 && lowerBoundPattern.test(clauses[i].text)) {
+        max = null;
+      }
+
+      return {
+        min,
+        max,
+        currency: amounts.find((item) => item.currency !== null)?.currency ?? null,
+        sourceSpan: clauseSpan(clause, pageIndex)
+      };
+    }
+  }
+  return null;
+}
+
+function extractPaymentTerms(clauses: Clause[], pageIndex: AnalyzeRfpInput["parsedDocument"]["pageIndex"]): PaymentTermV1[] {
+  return clauses
+    .filter(
+      (clause) =>
+        paymentPattern.test(clause.text) &&
+        !bidBondPattern.test(clause.text) &&
+        !performancePattern.test(clause.text) &&
+        !penaltyPattern.test(clause.text)
+    )
+    .map((clause) => {
+      const days = toWesternDigits(clause.text).match(paymentDaysPattern);
+      const paymentDays = days ? Number(days[1] ?? days[2] ?? days[3]) : null;
+      return {
+        text: clause.text,
+        percentages: percentages(clause.text),
+        paymentDays,
+        sourceSpan: clauseSpan(clause, pageIndex)
+      };
+    })
+    .filter((term) => term.percentages.length > 0 || term.paymentDays !== null)
+    .slice(0, MAX_CLAUSES_PER_TERM);
+}
+
+function extractGuarantee(
+  clauses: Clause[],
+  pattern: RegExp,
+  pageIndex: AnalyzeRfpInput["parsedDocument"]["pageIndex"]
+): GuaranteeTermV1 | null {
+  const matching = clauses.filter((clause) => pattern.test(clause.text));
+  const terms = matching.map((clause) => ({
+    percent: percentages(clause.text)[0] ?? null,
+    amount: moneyAmounts(clause.text)[0] ?? null,
+    sourceSpan: clauseSpan(clause, pageIndex)
+  }));
+  return terms.find((term) => term.percent !== null || term.amount !== null) ?? terms[0] ?? null;
+}
+
+function extractPenalties(clauses: Clause[], pageIndex: AnalyzeRfpInput["parsedDocument"]["pageIndex"]): PenaltyClauseV1[] {
+  return clauses
+    .filter((clause) => penaltyPattern.test(clause.text))
+    .map((clause) => {
+      const text = toWesternDigits(clause.text);
+      const capMatch = text.match(penaltyCapPattern);
+      const capPercent = capMatch ? Number(capMatch[1]) : null;
+      const capIndex = capMatch ? (capMatch.index ?? 0) + capMatch[0].length : -1;
+      const rate = Array.from(text.matchAll(percentPattern)).find(
+        (match) => (match.index ?? 0) + match[0].length !== capIndex
+      );
+
+      let per: PenaltyClauseV1["per"] = null;
+      if (/per\s+(?:calendar\s+)?day|each\s+day|daily|(?:عن\s+)?كل\s+يوم|يومياً|يوميا/i.test(text)) {
+        per = "day";
+      } else if (/per\s+week|each\s+week|weekly|(?:عن\s+)?كل\s+أسبوع/i.test(text)) {
+        per = "week";
+      } else if (/per\s+month|each\s+month|monthly|(?:عن\s+)?كل\s+شهر/i.test(text)) {
+        per = "month";
+      }
+
+      return {
+        text: clause.text,
+        ratePercent: rate ? Number(rate[1]) : null,
+        per,
+        capPercent,
+        sourceSpan: clauseSpan(clause, pageIndex)
+      };
+    })
+    .slice(0, MAX_CLAUSES_PER_TERM);
+}
+
+function durationUnit(token: string): ContractDurationV1["unit"] {
+  if (/^year|سن|عام|أعوام/i.test(token)) {
+    return "years";
+  }
+  if (/^month|شهر|أشهر|شهور/i.test(token)) {
+    return "months";
+  }
+  if (/^week|أسبوع|أسابيع/i.test(token)) {
+    return "weeks";
+  }
+  return "days";
+}
+
+const monthsPerUnit: Record<ContractDurationV1["unit"], number> = {
+  days: 1 / 30,
+  weeks: 7 / 30,
+  months: 1,
+  years: 12
+};
+
+/** The duration a contract-duration clause states, or null when the text is not one. */
+export function readContractDuration(text: string): Omit<ContractDurationV1, "sourceSpan"> | null {
+  if (!durationPattern.test(text)) {
+    return null;
+  }
+  const match = toWesternDigits(text).match(durationValuePattern);
+  if (!match) {
+    return null;
+  }
+  const value = Number(match[1]);
+  const unit = durationUnit(match[2]);
+  return { value, unit, months: round2(value * monthsPerUnit[unit]) };
+}
+
+function extractContractDuration(
+  clauses: Clause[],
+  pageIndex: AnalyzeRfpInput["parsedDocument"]["pageIndex"]
+): ContractDurationV1 | null {
+  for (const clause of clauses) {
+    const duration = readContractDuration(clause.text);
+    if (duration) {
+      return { ...duration, sourceSpan: clauseSpan(clause, pageIndex) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Pulls the commercial envelope of the RFP out of the source text: estimated
+ * budget range, payment terms, bid bond and performance guarantee, penalty clauses
+ * and contract duration. Every term quotes the clause it was read from.
+ */
+export function runPass6CommercialTerms(input: AnalyzeRfpInput) {
+  const { rawText, pageIndex } = input.parsedDocument;
+  const clauses = splitClauses(rawText);
+  const warnings: string[] = [];
+
+  const commercialTerms: CommercialTermsV1 = {
+    estimatedBudget: extractBudget(clauses, pageIndex),
+    paymentTerms: extractPaymentTerms(clauses, pageIndex),
+    bidBond: extractGuarantee(clauses, bidBondPattern, pageIndex),
+    performanceGuarantee: extractGuarantee(clauses, performancePattern, pageIndex),
+    penalties: extractPenalties(clauses, pageIndex),
+    contractDuration: extractContractDuration(clauses, pageIndex)
+  };
+
+  if (commercialTerms.penalties.length > 0 && commercialTerms.penalties.every((penalty) => penalty.capPercent === null)) {
+    warnings.push("Penalty clauses found with no stated cap.");
+  }
+
+  return { commercialTerms, warnings };
+}
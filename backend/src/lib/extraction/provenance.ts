@@ -0,0 +1,125 @@
+import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { isValidSourceSpan, type SourceLocator, type SourceSpan } from "@/lib/extraction/evidence-locator";
+import type { Pass1Output } from "@/lib/extraction/passes/pass1-extract";
+
+/** "verbatim" values are backed by at least one validated source span; everything else is "inferred". */
+export type Grounding = "verbatim" | "inferred";
+
+export interface FieldProvenance {
+  source: Grounding;
+  sources: SourceSpan[];
+}
+
+export type ProvenancedFieldName =
+  | "clientName"
+  | "projectName"
+  | "projectDescription"
+  | "scopeOfWork"
+  | "evaluationCriteria"
+  | "submissionRequirements";
+
+export interface ProvenanceSummary {
+  groundedValues: number;
+  inferredValues: number;
+}
+
+interface RedFlagLike {
+  title: string;
+  sourceText: string;
+  sourceSpan?: SourceSpan;
+}
+
+export interface GroundedValues<F extends RedFlagLike> {
+  requiredDeliverables: Array<Pass1Output["requiredDeliverables"][number] & { sources: SourceSpan[] }>;
+  importantDates: Array<Pass1Output["importantDates"][number] & FieldProvenance>;
+  redFlags: Array<F & FieldProvenance>;
+  fieldProvenance: Record<ProvenancedFieldName, FieldProvenance>;
+  summary: ProvenanceSummary;
+}
+
+function dedupeSpans(spans: SourceSpan[]): SourceSpan[] {
+  const byRange = new Map<string, SourceSpan>();
+  for (const span of spans) {
+    byRange.set(`${span.charStart}:${span.charEnd}`, span);
+  }
+  return Array.from(byRange.values()).sort((a, b) => a.charStart - b.charStart);
+}
+
+/**
+ * Grounds every extracted value in parsedDocument.rawText. Each value gets the spans
+ * that support it (checked against rawText so a stale or shifted offset can never
+ * be shown to a reviewer) and is marked "inferred" when nothing in the source backs it.
+ */
+export function groundExtractedValues<F extends RedFlagLike>(
+  params: { pass1: Pass1Output; redFlags: F[] },
+  parsedDocument: AnalyzeRfpInput["parsedDocument"],
+  locator: SourceLocator
+): GroundedValues<F> {
+  const rawText = parsedDocument.rawText;
+  const summary: ProvenanceSummary = { groundedValues: 0, inferredValues: 0 };
+
+  const ground = (...values: Array<string | null | undefined>): FieldProvenance => {
+    let sources: SourceSpan[] = [];
+    for (const value of values) {
+      sources = locator.locate(value).filter((span) => isValidSourceSpan(span, rawText));
+      if (sources.length > 0) {
+        break;
+      }
+    }
+    const source: Grounding = sources.length > 0 ? "verbatim" : "inferred";
+    summary[source === "verbatim" ? "groundedValues" : "inferredValues"] += 1;
+    return { source, sources };
+  };
+
+  const { pass1 } = params;
+
+  const requiredDeliverables = pass1.requiredDeliverables.map((deliverable) => {
+    const provenance = ground(deliverable.item);
+    return {
+      ...deliverable,
+      source: provenance.source === "inferred" ? ("inferred" as const) : deliverable.source,
+      sources: provenance.sources
+    };
+  });
+
+  const importantDates = pass1.importantDates.map((date) => ({ ...date, ...ground(date.title, date.dateOriginal, date.date) }));
+  // Flags that already carry their clause span are grounded by it, not by re-searching the text.
+  const redFlags = params.redFlags.map((flag) => {
+    if (flag.sourceSpan && isValidSourceSpan(flag.sourceSpan, rawText)) {
+      summary.groundedValues += 1;
+      return { ...flag, source: "verbatim" as const, sources: [flag.sourceSpan] };
+    }
+    return { ...flag, ...ground(flag.sourceText, flag.title) };
+  });
+
+  // Criteria are usually one per line ("Technical approach 30%"), so each line is grounded on its own.
+  const criteriaLines = pass1.evaluationCriteria
+    .split(/\n+/)
+    .map((line) => line.replace(/^[\s\-*•]+/, "").trim())
+    .filter(Boolean);
+  const criteriaSpans = dedupeSpans(
+    criteriaLines.flatMap((line) => locator.locate(line)).filter((span) => isValidSourceSpan(span, rawText))
+  );
+  const evaluationCriteria: FieldProvenance = {
+    source: criteriaSpans.length > 0 ? "verbatim" : "inferred",
+    sources: criteriaSpans
+  };
+  summary[evaluationCriteria.source === "verbatim" ? "groundedValues" : "inferredValues"] += 1;
+
+  const fieldProvenance: Record<ProvenancedFieldName, FieldProvenance> = {
+    clientName: ground(pass1.clientNameArabic, pass1.clientName),
+    projectName: ground(pass1.projectNameOriginal, pass1.projectName),
+    projectDescription: ground(pass1.projectDescription),
+    scopeOfWork: ground(pass1.scopeOfWork),
+    evaluationCriteria,
+    submissionRequirements: ground(pass1.submissionRequirements.email, pass1.submissionRequirements.physicalAddress)
+  };
+
+  return { requiredDeliverables, importantDates, redFlags, fieldProvenance, summary };
+}
+
+/** Share of extracted values backed by the source; 1 when nothing was extracted. */
+export function groundingRate(summary: ProvenanceSummary): number {
+  const total = summary.groundedValues + summary.inferredValues;
+  return total === 0 ? 1 : summary.groundedValues / total;
+}
@@ -0,0 +1,106 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import { parseJsonFromModelText } from "@/lib/ai/json-response";
+import { runWithClaudeSonnetModel } from "@/lib/ai/model-resolver";
+
+export interface ReviewClause {
+  id: number;
+  text: string;
+}
+
+const RedFlagFindingSchema = z.object({
+  clauseId: z.number().int(),
+  // A rule id from the catalogue, or "other".
+  category: z.string(),
+  type: z.enum(["contractual", "feasibility", "process"]),
+  severity: z.enum(["HIGH", "MEDIUM", "LOW"]),
+  title: z.string().min(1),
+  description: z.string(),
+  recommendation: z.string()
+});
+
+export type RedFlagFinding = z.infer<typeof RedFlagFindingSchema>;
+
+/** A catalogue rule the model may file a finding under. */
+export interface ReviewCategory {
+  id: string;
+  title: string;
+}
+
+export interface RedFlagReviewer {
+  review(clauses: ReviewClause[], categories: ReviewCategory[]): Promise<RedFlagFinding[]>;
+}
+
+const API_TIMEOUT_MS = 90000;
+
+function reviewPrompt(categories: ReviewCategory[]): string {
+  return `You are a bid manager at a creative agency reviewing the contract and commercial terms of an RFP.
+
+Each clause below is prefixed with its id in square brackets. Flag only clauses that create real commercial, legal or delivery risk for the agency.
+
+Known categories (use the id when one fits, otherwise "other"):
+${categories.map((category) => `- ${category.id}: ${category.title}`).join("\n")}
+
+Return JSON only:
+{"findings": [{"clauseId": 12, "category": "unlimited_liability", "type": "contractual|feasibility|process", "severity": "HIGH|MEDIUM|LOW", "title": "Short title", "description": "One sentence on why this is a risk", "recommendation": "One sentence on what to negotiate or clarify"}]}
+
+Rules:
+- clauseId must be one of the ids shown; never invent clauses.
+- One finding per clause and category.
+- Standard boilerplate is not a red flag.
+- No markdown code fences. JSON only.
+
+Clauses:
+`;
+}
+
+class ClaudeRedFlagReviewer implements RedFlagReviewer {
+  async review(clauses: ReviewClause[], categories: ReviewCategory[]): Promise<RedFlagFinding[]> {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey || clauses.length === 0) {
+      return [];
+    }
+
+    const client = new Anthropic({ apiKey, timeout: API_TIMEOUT_MS });
+    const response = await runWithClaudeSonnetModel((model) =>
+      client.messages.create({
+        model,
+        temperature: 0,
+        max_tokens: 3000,
+        messages: [
+          {
+            role: "user",
+            content: reviewPrompt(categories) + clauses.map((clause) => `[${clause.id}] ${clause.text}`).join("\n")
+          }
+        ]
+      })
+    );
+
+    const textContent = response.content.find((block) => block.type === "text");
+    if (!textContent || textContent.type !== "text") {
+      throw new Error("No text response from red-flag review");
+    }
+
+    const parsed = parseJsonFromModelText<{ findings?: unknown }>(textContent.text, {
+      context: "Red-flag review",
+      expectedType: "object"
+    });
+    // Keep the well-formed findings even when a few are malformed.
+    const findings = Array.isArray(parsed.findings) ? parsed.findings : [];
+    return findings.flatMap((finding) => {
+      const result = RedFlagFindingSchema.safeParse(finding);
+      return result.success ? [result.data] : [];
+    });
+  }
+}
+
+let defaultReviewer: RedFlagReviewer | null = null;
+
+export function getRedFlagReviewer(): RedFlagReviewer {
+  defaultReviewer ??= new ClaudeRedFlagReviewer();
+  return defaultReviewer;
+}
+
+export function setRedFlagReviewer(reviewer: RedFlagReviewer | null): void {
+  defaultReviewer = reviewer;
+}
@@ -0,0 +1,201 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { makeError } from "@/lib/api/errors";
+
+export type RedFlagType = "contractual" | "feasibility" | "process";
+export type RedFlagSeverity = "HIGH" | "MEDIUM" | "LOW";
+
+const BilingualPatternsSchema = z
+  .object({
+    en: z.array(z.string().min(1)).optional(),
+    ar: z.array(z.string().min(1)).optional()
+  })
+  .strict();
+
+const RedFlagRuleFileEntrySchema = z
+  .object({
+    id: z.string().regex(/^[a-z][a-z0-9_]*$/),
+    type: z.enum(["contractual", "feasibility", "process"]),
+    severity: z.enum(["HIGH", "MEDIUM", "LOW"]),
+    title: z.string().min(1),
+    description: z.string().min(1),
+    patterns: BilingualPatternsSchema,
+    context: BilingualPatternsSchema.optional(),
+    exclude: BilingualPatternsSchema.optional(),
+    sections: z.array(z.string().min(1)).min(1).optional(),
+    recommendation: z.string().min(1),
+    examples: z
+      .object({
+        match: z.array(z.string().min(1)).min(1),
+        noMatch: z.array(z.string().min(1)).optional()
+      })
+      .strict()
+  })
+  .strict();
+
+const RedFlagRuleFileSchema = z
+  .object({
+    $schema: z.string().optional(),
+    version: z.string().min(1),
+    rules: z.array(RedFlagRuleFileEntrySchema).min(1)
+  })
+  .strict();
+
+export type RedFlagRuleFile = z.infer<typeof RedFlagRuleFileSchema>;
+
+export interface RedFlagRule {
+  id: string;
+  type: RedFlagType;
+  severity: RedFlagSeverity;
+  title: string;
+  description: string;
+  /** English and Arabic patterns; matched against one clause at a time. */
+  patterns: RegExp[];
+  /** When set, the same clause must also match one of these (e.g. "90 days" only counts in a payment clause). */
+  context?: RegExp[];
+  /** Clauses matching any of these are skipped. */
+  exclude?: RegExp[];
+  /** Detected section names (see segmentSections) the rule is limited to. */
+  sections?: string[];
+  recommendation: string;
+  examples: { match: string[]; noMatch: string[] };
+}
+
+export interface RedFlagRuleSet {
+  version: string;
+  rules: RedFlagRule[];
+}
+
+function compilePatterns(
+  patterns: z.infer<typeof BilingualPatternsSchema>,
+  ruleId: string,
+  field: string,
+  source: string
+): RegExp[] {
+  return [...(patterns.en ?? []), ...(patterns.ar ?? [])].map((pattern) => {
+    try {
+      return new RegExp(pattern, "i");
+    } catch (error) {
+      throw makeError(500, "server_misconfigured", `Red-flag rule ${ruleId} has an invalid ${field} pattern`, "analyze-rfp", {
+        details: { source, ruleId, pattern, reason: error instanceof Error ? error.message : String(error) }
+      });
+    }
+  });
+}
+
+/** Validates a parsed rule file and compiles its patterns; `source` names the file in errors. */
+export function compileRedFlagRules(raw: unknown, source: string): RedFlagRuleSet {
+  const parsed = RedFlagRuleFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw makeError(500, "server_misconfigured", "Red-flag rule file is invalid", "analyze-rfp", {
+      details: {
+        source,
+        issues: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      }
+    });
+  }
+
+  const seen = new Set<string>();
+  const rules = parsed.data.rules.map((entry): RedFlagRule => {
+    if (seen.has(entry.id) || entry.id === "other") {
+      throw makeError(500, "server_misconfigured", `Red-flag rule id ${entry.id} is duplicated or reserved`, "analyze-rfp", {
+        details: { source, ruleId: entry.id }
+      });
+    }
+    seen.add(entry.id);
+
+    const patterns = compilePatterns(entry.patterns, entry.id, "match", source);
+    if (patterns.length === 0) {
+      throw makeError(500, "server_misconfigured", `Red-flag rule ${entry.id} has no patterns`, "analyze-rfp", {
+        details: { source, ruleId: entry.id }
+      });
+    }
+
+    return {
+      id: entry.id,
+      type: entry.type,
+      severity: entry.severity,
+      title: entry.title,
+      description: entry.description,
+      patterns,
+      context: entry.context ? compilePatterns(entry.context, entry.id, "context", source) : undefined,
+      exclude: entry.exclude ? compilePatterns(entry.exclude, entry.id, "exclude", source) : undefined,
+      sections: entry.sections,
+      recommendation: entry.recommendation,
+      examples: { match: entry.examples.match, noMatch: entry.examples.noMatch ?? [] }
+    };
+  });
+
+  return { version: parsed.data.version, rules };
+}
+
+/** Whether the clause text triggers the rule, ignoring section scope. */
+export function ruleMatchesText(rule: RedFlagRule, text: string): boolean {
+  return (
+    rule.patterns.some((pattern) => pattern.test(text)) &&
+    (!rule.context || rule.context.some((pattern) => pattern.test(text))) &&
+    !(rule.exclude && rule.exclude.some((pattern) => pattern.test(text)))
+  );
+}
+
+/** Example snippets that do not behave as the rule file says they should. */
+export function checkRuleExamples(ruleSet: RedFlagRuleSet): string[] {
+  const failures: string[] = [];
+  for (const rule of ruleSet.rules) {
+    for (const example of rule.examples.match) {
+      if (!ruleMatchesText(rule, example)) {
+        failures.push(`${rule.id}: expected a match for "${example}"`);
+      }
+    }
+    for (const example of rule.examples.noMatch) {
+      if (ruleMatchesText(rule, example)) {
+        failures.push(`${rule.id}: expected no match for "${example}"`);
+      }
+    }
+  }
+  return failures;
+}
+
+export function redFlagRulesPath(): string {
+  const configured = process.env.RED_FLAG_RULES_PATH?.trim();
+  return configured ? path.resolve(configured) : path.resolve(process.cwd(), "config", "red-flag-rules.json");
+}
+
+let cached: { path: string; mtimeMs: number; ruleSet: RedFlagRuleSet } | null = null;
+
+/**
+ * Reads the rule file, reusing the compiled rules until the file changes on disk so
+ * rule edits apply without a redeploy. An unreadable or invalid file fails the run
+ * with `server_misconfigured` rather than silently dropping every rule.
+ */
+export async function loadRedFlagRules(): Promise<RedFlagRuleSet> {
+  const filePath = redFlagRulesPath();
+
+  let raw: string;
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(filePath)).mtimeMs;
+    if (cached && cached.path === filePath && cached.mtimeMs === mtimeMs) {
+      return cached.ruleSet;
+    }
+    raw = await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    throw makeError(500, "server_misconfigured", "Red-flag rule file could not be read", "analyze-rfp", {
+      details: { source: filePath, reason: error instanceof Error ? error.message : String(error) }
+    });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw makeError(500, "server_misconfigured", "Red-flag rule file is not valid JSON", "analyze-rfp", {
+      details: { source: filePath, reason: error instanceof Error ? error.message : String(error) }
+    });
+  }
+
+  const ruleSet = compileRedFlagRules(json, filePath);
+  cached = { path: filePath, mtimeMs, ruleSet };
+  return ruleSet;
+}
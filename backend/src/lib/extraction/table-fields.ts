@@ -0,0 +1,167 @@
+import type { AnalyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { parseDate, type ParsedDate } from "@/lib/extraction/dates";
+
+type ParsedTable = AnalyzeRfpInput["parsedDocument"]["tables"][number];
+
+/** The table row a value was read from; `excerpt` is the row's cells joined with " | ". */
+export interface TableCellSource {
+  page: number;
+  excerpt: string;
+}
+
+export interface TableCriterion {
+  name: string;
+  /** The weight cell as written; bare numbers get "%", or " points" under a score/points header. */
+  weight: string;
+  source: TableCellSource;
+}
+
+export interface TableDate {
+  title: string;
+  parsed: ParsedDate;
+  source: TableCellSource;
+}
+
+export interface TableDeliverable {
+  item: string;
+  source: TableCellSource;
+}
+
+// Spreadsheets can hold thousands of dated or itemized rows; a timeline or schedule never does.
+const MAX_TABLE_DATES = 40;
+const MAX_TABLE_DELIVERABLES = 60;
+
+const CRITERIA_NAME_HEADER = /criteri|معيار|المعايير|البند/;
+const CRITERIA_WEIGHT_HEADER = /weight|%|٪|score|points|الوزن|النسبة|الدرجة/;
+const DATE_HEADER = /date|deadline|due|التاريخ|تاريخ|الموعد/;
+const MILESTONE_HEADER =
+  /milestone|activity|event|phase|stage|step|task|deliverable|description|المرحلة|النشاط|الحدث|المهمة|المخرجات|الوصف|البند/;
+const DELIVERABLE_HEADER = /deliverable|output|المخرجات|التسليمات|المنتجات/;
+const ITEM_HEADER = /item|product|description|الصنف|المنتج|البند|الوصف/;
+const QUANTITY_HEADER = /\bqty\b|quantity|count|\bno\.|العدد|الكمية/;
+const POINTS_HEADER = /score|points|marks|الدرجة/;
+
+/** A criteria row or line that sums the others ("Total", "Total score", "المجموع"); its weight is not a criterion's. */
+export const CRITERIA_TOTAL_ROW =
+  /^(?:(?:sub-?|grand\s+)?total|المجموع|الإجمالي|إجمالي)(?:\s+(?:score|points|marks|weight(?:ing)?|الكلي|العام))?\s*[:.]?$/i;
+
+function lowerHeaders(table: ParsedTable): string[] {
+  return table.headers.map((header) => header.toLowerCase());
+}
+
+function sourceFor(table: ParsedTable, row: string[]): TableCellSource {
+  return { page: table.pages[0] ?? 1, excerpt: row.filter(Boolean).join(" | ") };
+}
+
+/** Name and weight columns of a criteria/weight matrix, or null for any other table. */
+function criteriaColumns(table: ParsedTable): { nameColumn: number; weightColumn: number } | null {
+  const headers = lowerHeaders(table);
+  const nameColumn = headers.findIndex((header) => CRITERIA_NAME_HEADER.test(header));
+  const weightColumn = headers.findIndex((header) => CRITERIA_WEIGHT_HEADER.test(header));
+  return nameColumn === -1 || weightColumn === -1 || nameColumn === weightColumn ? null : { nameColumn, weightColumn };
+}
+
+/** Rows of the first table whose headers look like a criteria/weight matrix, total rows left out. */
+export function criteriaFromTables(tables: ParsedTable[]): TableCriterion[] {
+  for (const table of tables) {
+    const columns = criteriaColumns(table);
+    if (!columns) {
+      continue;
+    }
+    const { nameColumn, weightColumn } = columns;
+    const unit = POINTS_HEADER.test(lowerHeaders(table)[weightColumn]) ? " points" : "%";
+
+    const criteria = table.rows
+      .filter((row) => row[nameColumn] && row[weightColumn] && !CRITERIA_TOTAL_ROW.test(row[nameColumn].trim()))
+      .map((row) => {
+        const weight = row[weightColumn];
+        return {
+          name: row[nameColumn],
+          weight: /^[\d\u0660-\u0669\s.,]+$/.test(weight) ? `${weight}${unit}` : weight,
+          source: sourceFor(table, row)
+        };
+      });
+    if (criteria.length > 0) {
+      return criteria;
+    }
+  }
+  return [];
+}
+
+/**
+ * The date column is the one headed like a date, or failing that the first column where
+ * most cells parse as dates; a single date cell in a prose-like table is not a timeline.
+ */
+function dateColumn(table: ParsedTable): number {
+  const headed = lowerHeaders(table).findIndex((header) => DATE_HEADER.test(header));
+  if (headed !== -1) {
+    return headed;
+  }
+  return table.headers.findIndex(
+    (_, column) => table.rows.filter((row) => row[column] && parseDate(row[column])).length * 2 >= table.rows.length
+  );
+}
+
+/** Milestone rows of timeline tables and dated deliverable schedules. */
+export function datesFromTables(tables: ParsedTable[]): TableDate[] {
+  const dates: TableDate[] = [];
+
+  for (const table of tables) {
+    if (table.rows.length === 0) {
+      continue;
+    }
+    const dateIndex = dateColumn(table);
+    if (dateIndex === -1) {
+      continue;
+    }
+    const headers = lowerHeaders(table);
+    const named = headers.findIndex((header, column) => column !== dateIndex && MILESTONE_HEADER.test(header));
+    const titleIndex = named !== -1 ? named : headers.findIndex((_, column) => column !== dateIndex);
+
+    for (const row of table.rows) {
+      const parsed = row[dateIndex] ? parseDate(row[dateIndex]) : null;
+      const title = row[titleIndex] ?? "";
+      if (parsed && title) {
+        dates.push({ title, parsed, source: sourceFor(table, row) });
+      }
+    }
+  }
+
+  return dates.slice(0, MAX_TABLE_DATES);
+}
+
+/**
+ * Items of deliverable schedules and bills of quantities: tables with a deliverable
+ * column, or an item column next to a quantity column. Criteria tables are skipped.
+ */
+export function deliverablesFromTables(tables: ParsedTable[]): TableDeliverable[] {
+  const deliverables: TableDeliverable[] = [];
+
+  for (const table of tables) {
+    if (criteriaColumns(table)) {
+      continue;
+    }
+    const headers = lowerHeaders(table);
+    const deliverableColumn = headers.findIndex((header) => DELIVERABLE_HEADER.test(header));
+    const hasQuantity = headers.some((header) => QUANTITY_HEADER.test(header));
+    const itemColumn =
+      deliverableColumn !== -1
+        ? deliverableColumn
+        : hasQuantity || DELIVERABLE_HEADER.test(table.title.toLowerCase())
+          ? headers.findIndex((header) => ITEM_HEADER.test(header))
+          : -1;
+    if (itemColumn === -1) {
+      continue;
+    }
+
+    for (const row of table.rows) {
+      const item = row[itemColumn]?.trim();
+      // Total and subtotal rows of a bill of quantities are not deliverables.
+      if (item && !/^(?:sub-?)?total\b|^الإجمالي|^المجموع/i.test(item)) {
+        deliverables.push({ item, source: sourceFor(table, row) });
+      }
+    }
+  }
+
+  return deliverables.slice(0, MAX_TABLE_DELIVERABLES);
+}
@@ -0,0 +1,184 @@
+import { makeError } from "@/lib/api/errors";
+
+const SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+const ENTRY_SIZE = 128;
+const HEADER_DIFAT_ENTRIES = 109;
+
+const STORAGE_ENTRY = 1;
+const STREAM_ENTRY = 2;
+const ROOT_ENTRY = 5;
+
+interface DirectoryEntry {
+  name: string;
+  type: number;
+  left: number;
+  right: number;
+  child: number;
+  startSector: number;
+  size: number;
+}
+
+export interface CompoundFile {
+  /** Names of the streams stored directly under the root storage. */
+  streamNames: string[];
+  /** Names of the storages directly under the root storage, such as MSG attachment folders. */
+  storageNames: string[];
+  /** A root-level stream by name, or a nested one by "storage/stream" path. */
+  read(path: string): Buffer | null;
+}
+
+export function isCompoundFile(bytes: Buffer): boolean {
+  return bytes.length >= 512 && bytes.subarray(0, 8).equals(SIGNATURE);
+}
+
+function corrupt(message: string): never {
+  throw makeError(400, "validation_error", `Compound file is not readable: ${message}`, "parse-document", {
+    retryable: false
+  });
+}
+
+/**
+ * Reads the streams of an OLE2 compound file (legacy .doc, .xls, .ppt, .msg).
+ * Chains are followed through the FAT, and streams below the mini-stream cutoff
+ * through the mini FAT; every chain walk is bounded by the sector count.
+ */
+export function openCompoundFile(bytes: Buffer): CompoundFile {
+  if (!isCompoundFile(bytes)) {
+    corrupt("missing OLE2 signature");
+  }
+
+  const sectorSize = 1 << bytes.readUInt16LE(0x1e);
+  const miniSectorSize = 1 << bytes.readUInt16LE(0x20);
+  const fatSectorCount = bytes.readUInt32LE(0x2c);
+  const firstDirectorySector = bytes.readUInt32LE(0x30);
+  const miniStreamCutoff = bytes.readUInt32LE(0x38);
+  const firstMiniFatSector = bytes.readUInt32LE(0x3c);
+  let difatSector = bytes.readUInt32LE(0x44);
+  const sectorCount = Math.floor((bytes.length - sectorSize) / sectorSize);
+  if (sectorSize !== 512 && sectorSize !== 4096) {
+    corrupt(`unsupported sector size ${sectorSize}`);
+  }
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+  const sector = (index: number) => {
+    if (index >= sectorCount) {
+      corrupt(`sector ${index} is outside the file`);
+    }
+    return bytes.subarray(sectorOffset(index), sectorOffset(index) + sectorSize);
+  };
+
+  const fatSectors: number[] = [];
+  for (let index = 0; index < HEADER_DIFAT_ENTRIES && fatSectors.length < fatSectorCount; index += 1) {
+    fatSectors.push(bytes.readUInt32LE(0x4c + index * 4));
+  }
+  for (let guard = 0; difatSector !== END_OF_CHAIN && difatSector !== FREE_SECTOR && fatSectors.length < fatSectorCount; guard += 1) {
+    if (guard > sectorCount) {
+      corrupt("DIFAT chain loops");
+    }
+    const block = sector(difatSector);
+    for (let offset = 0; offset < sectorSize - 4 && fatSectors.length < fatSectorCount; offset += 4) {
+      fatSectors.push(block.readUInt32LE(offset));
+    }
+    difatSector = block.readUInt32LE(sectorSize - 4);
+  }
+
+  const allocationTable = (sectors: number[]): number[] =>
+    sectors.flatMap((index) => {
+      const block = sector(index);
+      return Array.from({ length: sectorSize / 4 }, (_, slot) => block.readUInt32LE(slot * 4));
+    });
+  const fat = allocationTable(fatSectors);
+
+  const chain = (start: number, table: number[], limit: number): number[] => {
+    const sectors: number[] = [];
+    for (let current = start; current !== END_OF_CHAIN && current !== FREE_SECTOR; current = table[current]) {
+      if (current >= table.length || sectors.length > limit) {
+        corrupt("sector chain is broken or loops");
+      }
+      sectors.push(current);
+    }
+    return sectors;
+  };
+  const readChain = (start: number) => Buffer.concat(chain(start, fat, sectorCount).map(sector));
+
+  const directory = readChain(firstDirectorySector);
+  const entries: DirectoryEntry[] = [];
+  for (let offset = 0; offset + ENTRY_SIZE <= directory.length; offset += ENTRY_SIZE) {
+    const nameLength = Math.max(0, directory.readUInt16LE(offset + 64) - 2);
+    entries.push({
+      name: directory.toString("utf16le", offset, offset + Math.min(nameLength, 64)),
+      type: directory.readUInt8(offset + 66),
+      left: directory.readUInt32LE(offset + 68),
+      right: directory.readUInt32LE(offset + 72),
+      child: directory.readUInt32LE(offset + 76),
+      startSector: directory.readUInt32LE(offset + 116),
+      size: directory.readUInt32LE(offset + 120)
+    });
+  }
+  const root = entries[0];
+  if (!root || root.type !== ROOT_ENTRY) {
+    corrupt("root storage entry is missing");
+  }
+
+  // The children of a storage form a red-black tree linked through left/right siblings.
+  const childrenOf = (storage: DirectoryEntry) => {
+    const children = new Map<string, DirectoryEntry>();
+    const pending = [storage.child];
+    for (let visited = 0; pending.length > 0 && visited <= entries.length; visited += 1) {
+      const index = pending.pop() as number;
+      const entry = entries[index];
+      if (index === NO_STREAM || !entry) {
+        continue;
+      }
+      if (entry.type === STREAM_ENTRY || entry.type === STORAGE_ENTRY) {
+        children.set(entry.name, entry);
+      }
+      pending.push(entry.left, entry.right);
+    }
+    return children;
+  };
+  const rootChildren = childrenOf(root);
+
+  let miniStream: Buffer | null = null;
+  let miniFat: number[] | null = null;
+  const readMini = (entry: DirectoryEntry) => {
+    miniStream ??= readChain(root.startSector);
+    miniFat ??= allocationTable(chain(firstMiniFatSector, fat, sectorCount));
+    const stream = miniStream;
+    return Buffer.concat(
+      chain(entry.startSector, miniFat, miniFat.length).map((index) =>
+        stream.subarray(index * miniSectorSize, (index + 1) * miniSectorSize)
+      )
+    );
+  };
+
+  const namesOf = (type: number) =>
+    Array.from(rootChildren.values())
+      .filter((entry) => entry.type === type)
+      .map((entry) => entry.name);
+
+  return {
+    streamNames: namesOf(STREAM_ENTRY),
+    storageNames: namesOf(STORAGE_ENTRY),
+    read(path: string): Buffer | null {
+      const names = path.split("/");
+      let children = rootChildren;
+      for (const storage of names.slice(0, -1)) {
+        const entry = children.get(storage);
+        if (!entry || entry.type !== STORAGE_ENTRY) {
+          return null;
+        }
+        children = childrenOf(entry);
+      }
+      const entry = children.get(names[names.length - 1]);
+      if (!entry || entry.type !== STREAM_ENTRY) {
+        return null;
+      }
+      const data = entry.size < miniStreamCutoff ? readMini(entry) : readChain(entry.startSector);
+      return data.subarray(0, entry.size);
+    }
+  };
+}
@@ -0,0 +1,83 @@
+import { makeError } from "@/lib/api/errors";
+import { tabularDocument, type TabularParseResult } from "@/lib/parsing/tabular";
+
+const DELIMITERS = [",", ";", "\t"] as const;
+
+/** The delimiter that gives the header row the most columns that later rows agree with. */
+function detectDelimiter(text: string): string {
+  const sample = text.slice(0, 64 * 1024);
+  let best: string = ",";
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const rows = parseCsvRows(sample, delimiter).slice(0, 10);
+    const columns = rows[0]?.length ?? 0;
+    const score = columns < 2 ? 0 : rows.filter((row) => row.length === columns).length * columns;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** RFC 4180 rows: quoted fields may hold delimiters, doubled quotes and line breaks. */
+export function parseCsvRows(text: string, delimiter?: string): string[][] {
+  const separator = delimiter ?? detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function parseCsvBuffer(fileBytes: Buffer, fileName: string): TabularParseResult {
+  const decoded = fileBytes.toString("utf8").replace(/^\uFEFF/, "");
+  // Excel exports CSV in the system code page unless saved as "CSV UTF-8"; Arabic Windows uses 1256.
+  const text = decoded.includes("\uFFFD") ? new TextDecoder("windows-1256").decode(fileBytes) : decoded;
+  const sheetName = fileName.replace(/\.[^.]+$/, "") || "CSV";
+
+  const result = tabularDocument([{ name: sheetName, rows: parseCsvRows(text) }], "csv");
+  if (result.text.trim().length === 0) {
+    throw makeError(400, "validation_error", "CSV file contains no readable text", "parse-document", {
+      retryable: false
+    });
+  }
+  if (decoded !== text) {
+    result.warnings.push("CSV file is not UTF-8; decoded as Windows-1256 (Arabic).");
+  }
+  return result;
+}
@@ -0,0 +1,185 @@
+import { makeError } from "@/lib/api/errors";
+import { isCompoundFile, openCompoundFile } from "@/lib/parsing/cfb-archive";
+import { pageBoundariesFromBreaks, type PageBoundary } from "@/lib/parsing/normalization";
+import { parseRtfBuffer } from "@/lib/parsing/rtf-parser";
+
+export interface DocParseResult {
+  text: string;
+  pages: PageBoundary[];
+  warnings: string[];
+}
+
+const WORD_BINARY_IDENT = 0xa5ec;
+const FIB_ENCRYPTED = 0x0100;
+const FIB_WHICH_TABLE_STREAM = 0x0200;
+// Word 97 and later write nFib 0xC1; Word 6 and Word 95 (0x65-0x68) use a different FIB layout.
+const MIN_WORD97_NFIB = 0xc0;
+const CLX_INDEX = 33;
+const COMPRESSED_PIECE = 0x40000000;
+
+function unreadable(message: string): never {
+  throw makeError(400, "validation_error", message, "parse-document", {
+    retryable: false
+  });
+}
+
+interface Piece {
+  cpStart: number;
+  cpEnd: number;
+  fc: number;
+  compressed: boolean;
+}
+
+/** The piece table (PlcPcd) inside the CLX: where each run of characters sits in WordDocument. */
+function readPieceTable(table: Buffer, fcClx: number, lcbClx: number): Piece[] {
+  let offset = fcClx;
+  const end = Math.min(fcClx + lcbClx, table.length);
+  // Prc entries hold formatting property modifiers and come before the piece table.
+  while (offset < end && table[offset] === 0x01) {
+    offset += 3 + table.readUInt16LE(offset + 1);
+  }
+  if (offset + 5 > end || table[offset] !== 0x02) {
+    unreadable("DOC file piece table is missing or corrupt");
+  }
+
+  const lcb = table.readUInt32LE(offset + 1);
+  const plc = offset + 5;
+  const count = Math.floor((lcb - 4) / 12);
+  if (count <= 0 || plc + lcb > table.length) {
+    unreadable("DOC file piece table is missing or corrupt");
+  }
+
+  const descriptors = plc + (count + 1) * 4;
+  return Array.from({ length: count }, (_, index) => {
+    const fcValue = table.readUInt32LE(descriptors + index * 8 + 2);
+    const compressed = (fcValue & COMPRESSED_PIECE) !== 0;
+    return {
+      cpStart: table.readUInt32LE(plc + index * 4),
+      cpEnd: table.readUInt32LE(plc + (index + 1) * 4),
+      fc: compressed ? (fcValue & ~COMPRESSED_PIECE) / 2 : fcValue,
+      compressed
+    };
+  });
+}
+
+/**
+ * Maps Word's in-text control characters to plain text: paragraph and line marks
+ * become newlines, cell marks pipes, and field codes keep only their displayed result.
+ */
+function renderWordText(raw: string): { text: string; pageBreaks: number[] } {
+  let text = "";
+  const pageBreaks: number[] = [];
+  // One entry per open field; true while its instruction part (before the separator) is read.
+  const fields: boolean[] = [];
+
+  for (const char of raw) {
+    const code = char.charCodeAt(0);
+    if (code === 0x13) {
+      fields.push(true);
+      continue;
+    }
+    if (code === 0x14) {
+      fields[fields.length - 1] = false;
+      continue;
+    }
+    if (code === 0x15) {
+      fields.pop();
+      continue;
+    }
+    if (fields.includes(true)) {
+      continue;
+    }
+
+    if (code === 0x0d || code === 0x0b) {
+      text += "\n";
+    } else if (code === 0x07) {
+      // A cell mark directly after another ends the table row.
+      text = text.endsWith(" | ") ? `${text.slice(0, -3)}\n` : `${text} | `;
+    } else if (code === 0x0c) {
+      text += "\n";
+      pageBreaks.push(text.length);
+    } else if (code === 0x1e) {
+      text += "-";
+    } else if (code === 0xa0) {
+      text += " ";
+    } else if (code >= 0x20 || code === 0x09) {
+      text += char;
+    }
+  }
+
+  return { text, pageBreaks };
+}
+
+/**
+ * Reads the main document text of a Word 97-2003 .doc file through its piece table.
+ * Files that are really RTF (Word's "save as .doc" default for some templates) are
+ * handed to the RTF parser.
+ */
+export function parseDocBuffer(fileBytes: Buffer): DocParseResult {
+  if (fileBytes.subarray(0, 5).toString("latin1") === "{\\rtf") {
+    const result = parseRtfBuffer(fileBytes);
+    return { ...result, warnings: ["DOC file is RTF; parsed as RTF.", ...result.warnings] };
+  }
+  if (!isCompoundFile(fileBytes)) {
+    unreadable("DOC file is not a Word 97-2003 document");
+  }
+
+  const compound = openCompoundFile(fileBytes);
+  const wordDocument = compound.read("WordDocument");
+  if (!wordDocument || wordDocument.length < 0x200 || wordDocument.readUInt16LE(0) !== WORD_BINARY_IDENT) {
+    unreadable("DOC file has no Word document stream");
+  }
+  if (wordDocument.readUInt16LE(2) < MIN_WORD97_NFIB) {
+    unreadable("DOC file was saved by Word 95 or earlier, which is not supported; re-save it as DOCX");
+  }
+  const flags = wordDocument.readUInt16LE(0x0a);
+  if (flags & FIB_ENCRYPTED) {
+    unreadable("DOC file is password-protected");
+  }
+
+  const table = compound.read(flags & FIB_WHICH_TABLE_STREAM ? "1Table" : "0Table");
+  if (!table) {
+    unreadable("DOC file has no table stream");
+  }
+
+  const csw = wordDocument.readUInt16LE(32);
+  const longsOffset = 34 + csw * 2;
+  const cslw = wordDocument.readUInt16LE(longsOffset);
+  const ccpText = wordDocument.readInt32LE(longsOffset + 2 + 3 * 4);
+  const fcLcbOffset = longsOffset + 2 + cslw * 4 + 2;
+  const fcClx = wordDocument.readUInt32LE(fcLcbOffset + CLX_INDEX * 8);
+  const lcbClx = wordDocument.readUInt32LE(fcLcbOffset + CLX_INDEX * 8 + 4);
+
+  const windows1252 = new TextDecoder("windows-1252");
+  let raw = "";
+  for (const piece of readPieceTable(table, fcClx, lcbClx)) {
+    // Only the main story counts; footnotes, headers and comments follow it in CP order.
+    const length = Math.min(piece.cpEnd, ccpText) - piece.cpStart;
+    if (length <= 0) {
+      continue;
+    }
+    const start = piece.fc;
+    const end = start + length * (piece.compressed ? 1 : 2);
+    if (end > wordDocument.length) {
+      unreadable("DOC file piece table points outside the document stream");
+    }
+    const bytes = wordDocument.subarray(start, end);
+    raw += piece.compressed ? windows1252.decode(bytes) : bytes.toString("utf16le");
+  }
+
+  const { text: rendered, pageBreaks } = renderWordText(raw);
+  const text = rendered.trim();
+  if (text.length === 0) {
+    unreadable("DOC file contains no readable text");
+  }
+
+  const leadingTrim = rendered.length - rendered.trimStart().length;
+  return {
+    text,
+    pages: pageBoundariesFromBreaks(
+      text.length,
+      pageBreaks.map((offset) => offset - leadingTrim)
+    ),
+    warnings: []
+  };
+}
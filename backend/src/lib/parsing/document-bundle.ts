@@ -0,0 +1,297 @@
+import { makeError } from "@/lib/api/errors";
+import { detectPrimaryLanguage, normalizeForMatching, type PageBoundary } from "@/lib/parsing/normalization";
+import type { OcrProvider } from "@/lib/parsing/ocr-provider";
+import {
+  MAX_EXTRACTED_CHARS,
+  parseDocumentInput,
+  type ParsedDocumentV1,
+  type ParsedFormat
+} from "@/lib/parsing/parse-document";
+import { shiftOutline, type OutlineNode } from "@/lib/parsing/section-segmentation";
+
+export type BundleDocumentRole = "main" | "annex" | "addendum" | "qa_response";
+
+export const BUNDLE_DOCUMENT_ROLES: BundleDocumentRole[] = ["main", "annex", "addendum", "qa_response"];
+
+const MAX_BUNDLE_DOCUMENTS = 10;
+
+const roleLabels: Record<BundleDocumentRole, string> = {
+  main: "Main RFP",
+  annex: "Annex",
+  addendum: "Addendum",
+  qa_response: "Q&A response"
+};
+
+export interface BundleDocumentInput {
+  role: BundleDocumentRole;
+  fileName: string;
+  mimeType: string;
+  fileBytes: Buffer;
+}
+
+export interface ParseBundleInput {
+  analysisId: string;
+  /** Exactly one `main` document; addenda and Q&A responses in the order they were issued. */
+  documents: BundleDocumentInput[];
+  ocrProvider?: OcrProvider;
+}
+
+/** Where one file of a bundle sits in the combined rawText and page numbering. */
+export interface SourceDocumentV1 {
+  documentId: string;
+  role: BundleDocumentRole;
+  fileName: string;
+  detectedFormat: ParsedFormat;
+  charStart: number;
+  charEnd: number;
+  pageStart: number;
+  pageEnd: number;
+  parseConfidence: number;
+}
+
+export function isBundleDocumentRole(value: unknown): value is BundleDocumentRole {
+  return typeof value === "string" && (BUNDLE_DOCUMENT_ROLES as string[]).includes(value);
+}
+
+/** Addenda and Q&A responses are issued after the RFP and take precedence over it. */
+export function supersedesEarlierDocuments(role: BundleDocumentRole): boolean {
+  return role === "addendum" || role === "qa_response";
+}
+
+export function documentForOffset<T extends Pick<SourceDocumentV1, "charStart" | "charEnd">>(
+  documents: T[] | undefined,
+  offset: number
+): T | null {
+  return documents?.find((document) => offset >= document.charStart && offset < document.charEnd) ?? null;
+}
+
+export function documentLabel(document: Pick<SourceDocumentV1, "role" | "fileName">): string {
+  return `${roleLabels[document.role]} ${document.fileName}`;
+}
+
+function assertBundle(documents: BundleDocumentInput[]): void {
+  const mainCount = documents.filter((document) => document.role === "main").length;
+  if (mainCount !== 1) {
+    throw makeError(400, "validation_error", "A document bundle needs exactly one main document", "parse-document", {
+      retryable: false,
+      details: { mainDocuments: mainCount }
+    });
+  }
+  if (documents.length > MAX_BUNDLE_DOCUMENTS) {
+    throw makeError(413, "file_too_large", `A document bundle is limited to ${MAX_BUNDLE_DOCUMENTS} files`, "parse-document", {
+      retryable: false,
+      details: { maxDocuments: MAX_BUNDLE_DOCUMENTS, actualDocuments: documents.length }
+    });
+  }
+  const invalid = documents.find((document) => !isBundleDocumentRole(document.role));
+  if (invalid) {
+    throw makeError(400, "validation_error", `Unknown document role: ${String(invalid.role)}`, "parse-document", {
+      retryable: false,
+      details: { fileName: invalid.fileName, roles: BUNDLE_DOCUMENT_ROLES }
+    });
+  }
+}
+
+/** Main RFP first, then annexes, then addenda and Q&A responses in issue order, so later text supersedes earlier. */
+function mergeOrder(documents: BundleDocumentInput[]): BundleDocumentInput[] {
+  const rank = (role: BundleDocumentRole) => (role === "main" ? 0 : role === "annex" ? 1 : 2);
+  return documents
+    .map((document, index) => ({ document, index }))
+    .sort((a, b) => rank(a.document.role) - rank(b.document.role) || a.index - b.index)
+    .map(({ document }) => document);
+}
+
+function pagesOf(parsed: ParsedDocumentV1): PageBoundary[] {
+  const pages = parsed.pageIndex ?? [];
+  return pages.length > 0 ? pages : [{ page: 1, charStart: 0, charEnd: parsed.rawText.length }];
+}
+
+/** One already-parsed file of a bundle, in merge order. */
+export interface ParsedBundlePart {
+  role: BundleDocumentRole;
+  fileName: string;
+  parsed: ParsedDocumentV1;
+}
+
+/**
+ * Merges parsed files into one ParsedDocumentV1. Offsets and page numbers are re-based onto
+ * the combined text, and `sourceDocuments` records which file each range came from. A part
+ * that is itself a merged bundle keeps its own headers and per-file ranges.
+ */
+export function mergeParsedDocuments(analysisId: string, parts: ParsedBundlePart[]): ParsedDocumentV1 {
+  const texts: string[] = [];
+  const sections: ParsedDocumentV1["sections"] = [];
+  const outline: OutlineNode[] = [];
+  const tables: ParsedDocumentV1["tables"] = [];
+  const evidenceMap: ParsedDocumentV1["evidenceMap"] = [];
+  const pageIndex: PageBoundary[] = [];
+  const sourceDocuments: SourceDocumentV1[] = [];
+  const parserProvenance = new Set<string>();
+  const warnings: string[] = [];
+  let offset = 0;
+  let pageOffset = 0;
+  let pagesOcred = 0;
+  const pageConfidence: Array<{ page: number; confidence: number }> = [];
+  let ocrUsed = false;
+  let mainFormat: ParsedFormat = "txt";
+
+  for (const { role, fileName, parsed } of parts) {
+    const nested = parsed.sourceDocuments ?? [];
+    const separator = texts.length === 0 ? "" : "\n\n";
+    const header = nested.length > 0 ? "" : `=== ${documentLabel({ role, fileName })} ===\n`;
+    const charStart = offset + separator.length;
+    const bodyStart = charStart + header.length;
+    if (role !== "main" && bodyStart + parsed.rawText.length > MAX_EXTRACTED_CHARS) {
+      warnings.push(`${fileName}: skipped; the bundle exceeds ${MAX_EXTRACTED_CHARS} characters of text.`);
+      continue;
+    }
+
+    const pages = pagesOf(parsed);
+    const pageCount = Math.max(...pages.map((boundary) => boundary.page));
+    const shiftPage = (page: number) => page + pageOffset;
+
+    texts.push(separator, header, parsed.rawText);
+    pages.forEach((boundary, index) => {
+      pageIndex.push({
+        page: shiftPage(boundary.page),
+        // The header belongs to the document's first page.
+        charStart: index === 0 ? charStart : bodyStart + boundary.charStart,
+        charEnd: bodyStart + boundary.charEnd
+      });
+    });
+    sections.push(
+      ...parsed.sections.map((section) => ({
+        ...section,
+        startOffset: section.startOffset + bodyStart,
+        endOffset: section.endOffset + bodyStart
+      }))
+    );
+    outline.push(...shiftOutline(parsed.outline ?? [], bodyStart));
+    tables.push(...parsed.tables.map((table) => ({ ...table, pages: table.pages.map(shiftPage) })));
+    evidenceMap.push(
+      ...parsed.evidenceMap.map((entry) => ({
+        ...entry,
+        page: shiftPage(entry.page),
+        charStart: entry.charStart + bodyStart,
+        charEnd: entry.charEnd + bodyStart
+      }))
+    );
+    const documents =
+      nested.length > 0
+        ? nested
+        : [
+            {
+              role,
+              fileName,
+              detectedFormat: parsed.detectedFormat,
+              charStart: -header.length,
+              charEnd: parsed.rawText.length,
+              pageStart: 1,
+              pageEnd: pageCount,
+              parseConfidence: parsed.parseConfidence
+            }
+          ];
+    for (const document of documents) {
+      sourceDocuments.push({
+        ...document,
+        documentId: `doc-${sourceDocuments.length + 1}`,
+        charStart: bodyStart + document.charStart,
+        charEnd: bodyStart + document.charEnd,
+        pageStart: shiftPage(document.pageStart),
+        pageEnd: shiftPage(document.pageEnd)
+      });
+    }
+    parsed.parserProvenance?.forEach((provider) => parserProvenance.add(provider));
+    warnings.push(...parsed.warnings.map((warning) => (nested.length > 0 ? warning : `${fileName}: ${warning}`)));
+    if (parsed.ocrStats?.used) {
+      ocrUsed = true;
+      pagesOcred += parsed.ocrStats.pagesOcred;
+      pageConfidence.push(...(parsed.ocrStats.pageConfidence ?? []).map((entry) => ({ ...entry, page: shiftPage(entry.page) })));
+    }
+    if (role === "main") {
+      mainFormat = parsed.detectedFormat;
+    }
+
+    offset = bodyStart + parsed.rawText.length;
+    pageOffset += pageCount;
+  }
+
+  const rawText = texts.join("");
+  const totalChars = sourceDocuments.reduce((sum, document) => sum + (document.charEnd - document.charStart), 0);
+  const parseConfidence = sourceDocuments.reduce(
+    (sum, document) => sum + document.parseConfidence * ((document.charEnd - document.charStart) / totalChars),
+    0
+  );
+
+  return {
+    schemaVersion: "1.0.0",
+    analysisId,
+    detectedFormat: mainFormat,
+    primaryLanguage: detectPrimaryLanguage(normalizeForMatching(rawText)),
+    rawText,
+    sections,
+    outline,
+    tables,
+    evidenceMap,
+    pageIndex,
+    parseConfidence: Math.round(parseConfidence * 1000) / 1000,
+    ocrStats: ocrUsed ? { used: true, pagesOcred, ...(pageConfidence.length > 0 ? { pageConfidence } : {}) } : null,
+    parserProvenance: Array.from(parserProvenance),
+    sourceDocuments,
+    warnings
+  };
+}
+
+/**
+ * Parses every file of a tender bundle (main RFP, annexes, addenda, Q&A responses) and
+ * merges them into one ParsedDocumentV1 with per-file provenance.
+ */
+export async function parseDocumentBundle(input: ParseBundleInput): Promise<ParsedDocumentV1> {
+  assertBundle(input.documents);
+
+  const parts: ParsedBundlePart[] = [];
+  for (const document of mergeOrder(input.documents)) {
+    // Parsed one at a time so only a single file's buffers are held during OCR.
+    const parsed = await parseDocumentInput({
+      analysisId: input.analysisId,
+      fileName: document.fileName,
+      mimeType: document.mimeType,
+      fileBytes: document.fileBytes,
+      ocrProvider: input.ocrProvider
+    });
+    parts.push({ role: document.role, fileName: document.fileName, parsed });
+  }
+
+  return mergeParsedDocuments(input.analysisId, parts);
+}
+
+/**
+ * Reads the optional `attachments` files of a multipart upload, each paired by position
+ * with an `attachmentRoles` entry (annex, addendum or qa_response).
+ */
+export async function attachmentsFromForm(form: FormData, stage: string): Promise<BundleDocumentInput[]> {
+  const files = form.getAll("attachments");
+  const roles = form.getAll("attachmentRoles").map((role) => String(role).trim());
+
+  if (files.some((file) => !(file instanceof File))) {
+    throw makeError(400, "validation_error", "attachments must be files", stage, {
+      retryable: false,
+      details: { field: "attachments" }
+    });
+  }
+  if (roles.length !== files.length || roles.some((role) => role === "main" || !isBundleDocumentRole(role))) {
+    throw makeError(400, "validation_error", "Each attachment needs a role of annex, addendum or qa_response", stage, {
+      retryable: false,
+      details: { field: "attachmentRoles", attachments: files.length, roles }
+    });
+  }
+
+  return Promise.all(
+    (files as File[]).map(async (file, index) => ({
+      role: roles[index] as BundleDocumentRole,
+      fileName: file.name,
+      mimeType: file.type,
+      fileBytes: Buffer.from(await file.arrayBuffer())
+    }))
+  );
+}
@@ -1,24 +1,104 @@
 import mammoth from "mammoth";
 import { makeError } from "@/lib/api/errors";
+import { pageBoundariesFromBreaks, type PageBoundary } from "@/lib/parsing/normalization";
+import { tablesFromHtml, type ExtractedTable } from "@/lib/parsing/table-extraction";
 
 export interface DocxParseResult {
   text: string;
+  pages: PageBoundary[];
+  tables: ExtractedTable[];
   warnings: string[];
 }
 
+interface DocxElement {
+  type: string;
+  value?: string;
+  breakType?: string;
+  children?: DocxElement[];
+}
+
+interface CollectedText {
+  text: string;
+  pageBreaks: number[];
+  /** Pages each top-level table runs across, in document order. */
+  tablePages: number[][];
+}
+
+/**
+ * Mirrors mammoth's raw-text conversion (paragraphs end in a blank line, tabs kept)
+ * while recording where explicit page breaks fall in the output.
+ */
+function collectRawText(document: DocxElement): CollectedText {
+  let text = "";
+  const pageBreaks: number[] = [];
+  const tablePages: number[][] = [];
+  let tableDepth = 0;
+
+  const visit = (element: DocxElement) => {
+    if (element.type === "text") {
+      text += element.value ?? "";
+      return;
+    }
+    if (element.type === "tab") {
+      text += "\t";
+      return;
+    }
+    if (element.type === "break" && element.breakType === "page") {
+      pageBreaks.push(text.length);
+      return;
+    }
+    const topLevelTable = element.type === "table" && tableDepth === 0;
+    const firstPage = pageBreaks.length + 1;
+    tableDepth += element.type === "table" ? 1 : 0;
+    for (const child of element.children ?? []) {
+      visit(child);
+    }
+    tableDepth -= element.type === "table" ? 1 : 0;
+    if (topLevelTable) {
+      tablePages.push(Array.from({ length: pageBreaks.length + 2 - firstPage }, (_, index) => firstPage + index));
+    }
+    if (element.type === "paragraph") {
+      text += "\n\n";
+    }
+  };
+
+  visit(document);
+  return { text, pageBreaks, tablePages };
+}
+
 export async function parseDocxBuffer(fileBytes: Buffer): Promise<DocxParseResult> {
   const warnings: string[] = [];
 
   try {
-    const extracted = await mammoth.extractRawText({ buffer: fileBytes });
-    const text = extracted.value.trim();
+    const collected: CollectedText = { text: "", pageBreaks: [], tablePages: [] };
+    const converted = await mammoth.convertToHtml(
+      { buffer: fileBytes },
+      {
+        transformDocument: (document: DocxElement) => {
+          Object.assign(collected, collectRawText(document));
+          return document;
+        }
+      }
+    );
 
-    for (const message of extracted.messages) {
+    for (const message of converted.messages) {
       warnings.push(`DOCX parser: ${message.message}`);
     }
 
+    const { text: rawText, pageBreaks, tablePages } = collected;
+    const text = rawText.trim();
+    const leadingTrim = rawText.length - rawText.trimStart().length;
+
     if (text.length > 0) {
-      return { text, warnings };
+      return {
+        text,
+        pages: pageBoundariesFromBreaks(
+          text.length,
+          pageBreaks.map((offset) => offset - leadingTrim)
+        ),
+        tables: tablesFromHtml(converted.value, { source: "docx", pages: (index) => tablePages[index] ?? [1] }),
+        warnings
+      };
     }
   } catch {
     warnings.push("DOCX parser could not read document structure. Attempting fallback decode.");
@@ -34,6 +114,8 @@ export async function parseDocxBuffer(fileBytes: Buffer): Promise<DocxParseResul
   warnings.push("DOCX fallback decode used; extracted text may be incomplete.");
   return {
     text: fallbackText,
+    pages: [],
+    tables: [],
     warnings
   };
 }
@@ -0,0 +1,79 @@
+import { decodeXmlEntities } from "@/lib/parsing/xml-text";
+
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  bytes: Buffer;
+  /** An image embedded in the body (signature logo, pasted screenshot) rather than a sent file. */
+  inline: boolean;
+}
+
+/** An .eml or .msg message reduced to what tender analysis needs. */
+export interface ParsedEmail {
+  subject: string | null;
+  /** Sender as written in the message, e.g. `Procurement <tenders@moh.gov.sa>`. */
+  from: string | null;
+  senderOrganization: string | null;
+  /** ISO 8601 timestamp of when the message was sent. */
+  sentAt: string | null;
+  body: string;
+  attachments: EmailAttachment[];
+  warnings: string[];
+}
+
+// Personal mailbox domains say nothing about the issuing organization.
+const WEBMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "yahoo.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com"
+]);
+
+/**
+ * The Organization header when the sender's mail client sets one, otherwise the sender's
+ * mail domain without mail-host prefixes (`mail.`, `smtp.`); null for webmail senders.
+ */
+export function senderOrganization(organizationHeader: string | null, from: string | null): string | null {
+  if (organizationHeader?.trim()) {
+    return organizationHeader.trim();
+  }
+  const domain = /@([\w.-]+)/.exec(from ?? "")?.[1]?.toLowerCase().replace(/^(?:mail|email|smtp|mx)\d*\./, "");
+  return domain && !WEBMAIL_DOMAINS.has(domain) ? domain : null;
+}
+
+/** Visible text of an HTML body: block elements become line breaks and table cells pipes. */
+export function htmlToText(html: string): string {
+  return decodeXmlEntities(
+    html
+      .replace(/<(head|style|script)\b[\s\S]*?<\/\1>/gi, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<\/t[dh]>\s*(?=<t[dh]\b)/gi, " | ")
+      .replace(/<br\s*\/?>|<\/(?:p|div|tr|li|h[1-6]|table)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&nbsp;/gi, " ")
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * The message as document text: a short header block (so extraction sees the sender
+ * and sent date next to the dates quoted in the body), then the body.
+ */
+export function emailDocumentText(email: ParsedEmail): string {
+  const lines = [
+    email.subject ? `Subject: ${email.subject}` : null,
+    email.from ? `From: ${email.from}` : null,
+    email.senderOrganization ? `Organization: ${email.senderOrganization}` : null,
+    email.sentAt ? `Sent: ${email.sentAt.slice(0, 16).replace("T", " ")} UTC` : null
+  ].filter((line): line is string => line !== null);
+  return [lines.join("\n"), email.body].filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,232 @@
+import { makeError } from "@/lib/api/errors";
+import { htmlToText, senderOrganization, type EmailAttachment, type ParsedEmail } from "@/lib/parsing/email-message";
+
+interface MimeEntity {
+  headers: Map<string, string>;
+  /** Undecoded body, one latin1 character per byte. */
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset ?? "utf-8").trim().toLowerCase();
+  try {
+    return new TextDecoder(label === "us-ascii" ? "utf-8" : label).decode(bytes);
+  } catch {
+    return bytes.toString("utf8");
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const unfolded = text.replace(/=\r?\n/g, "");
+  for (let index = 0; index < unfolded.length; index += 1) {
+    const hex = unfolded.slice(index + 1, index + 3);
+    if (unfolded[index] === "=" && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(Number.parseInt(hex, 16));
+      index += 2;
+    } else {
+      bytes.push(unfolded.charCodeAt(index) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** RFC 2047 encoded words (`=?charset?B|Q?...?=`); whitespace between adjacent words is dropped. */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?\s]+\?[bq]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[bq]\?[^?\s]*\?=)/gi, "$1")
+    .replace(/=\?([^?\s]+)\?([bq])\?([^?\s]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toLowerCase() === "b"
+          ? Buffer.from(text, "base64")
+          : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeCharset(bytes, charset.replace(/\*.*$/, ""));
+    });
+}
+
+/**
+ * A structured header such as Content-Type: its main value and parameters, including
+ * RFC 2231 extended (`name*=utf-8''...`) and continued (`name*0*=`) parameters.
+ */
+function parseHeaderValue(header: string | undefined): HeaderValue {
+  const [value = "", ...rest] = (header ?? "").split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const pieces = new Map<string, Array<{ order: number; text: string; extended: boolean }>>();
+  for (const part of rest) {
+    const match = /^\s*([^=*\s]+)(\*(\d+))?(\*)?\s*=\s*("((?:[^"\\]|\\.)*)"|[^;]*)/.exec(part);
+    if (!match) {
+      continue;
+    }
+    const name = match[1].toLowerCase();
+    const text = match[6] !== undefined ? match[6].replace(/\\(.)/g, "$1") : match[5].trim();
+    const list = pieces.get(name) ?? [];
+    list.push({ order: Number(match[3] ?? 0), text, extended: Boolean(match[4]) });
+    pieces.set(name, list);
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, list] of pieces) {
+    list.sort((a, b) => a.order - b.order);
+    const first = list[0];
+    if (first.extended) {
+      const charset = /^([^']*)'[^']*'/.exec(first.text)?.[1] || "utf-8";
+      const encoded = list.map((piece, index) => (index === 0 ? piece.text.replace(/^[^']*'[^']*'/, "") : piece.text)).join("");
+      const bytes = encoded.replace(/%([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)));
+      params[name] = decodeCharset(Buffer.from(bytes, "latin1"), charset);
+    } else {
+      params[name] = decodeEncodedWords(list.map((piece) => piece.text).join(""));
+    }
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function parseEntity(source: string): MimeEntity {
+  const split = /\r?\n\r?\n/.exec(source);
+  const headerBlock = split ? source.slice(0, split.index) : source;
+  const body = split ? source.slice(split.index + split[0].length) : "";
+  const headers = new Map<string, string>();
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!headers.has(name)) {
+        headers.set(name, line.slice(colon + 1).trim());
+      }
+    }
+  }
+  return { headers, body };
+}
+
+function entityBytes(entity: MimeEntity): Buffer {
+  const encoding = (entity.headers.get("content-transfer-encoding") ?? "7bit").trim().toLowerCase();
+  if (encoding === "base64") {
+    return Buffer.from(entity.body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+  }
+  if (encoding === "quoted-printable") {
+    return decodeQuotedPrintable(entity.body);
+  }
+  return Buffer.from(entity.body, "latin1");
+}
+
+function multipartChildren(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) {
+        parts.push(current.join("\r\n"));
+      }
+      if (line.slice(delimiter.length).startsWith("--")) {
+        return parts;
+      }
+      current = [];
+    } else {
+      current?.push(line);
+    }
+  }
+  if (current) {
+    parts.push(current.join("\r\n"));
+  }
+  return parts;
+}
+
+const MAX_MIME_DEPTH = 12;
+
+/**
+ * Parses an RFC 822 / MIME message: headers, the best body (text/plain over HTML, as
+ * multipart/alternative intends) and every attachment, including forwarded messages.
+ */
+export function parseEmlBuffer(fileBytes: Buffer): ParsedEmail {
+  const message = parseEntity(fileBytes.toString("latin1"));
+  if (!message.headers.has("from") && !message.headers.has("subject") && !message.headers.has("content-type")) {
+    throw makeError(400, "validation_error", "EML file has no message headers", "parse-document", {
+      retryable: false
+    });
+  }
+
+  const plain: string[] = [];
+  const html: string[] = [];
+  const attachments: EmailAttachment[] = [];
+  const warnings: string[] = [];
+
+  const visit = (entity: MimeEntity, depth: number) => {
+    const contentType = parseHeaderValue(entity.headers.get("content-type") ?? "text/plain");
+    const disposition = parseHeaderValue(entity.headers.get("content-disposition"));
+    const fileName = disposition.params.filename ?? contentType.params.name;
+
+    if (contentType.value.startsWith("multipart/") && contentType.params.boundary) {
+      if (depth >= MAX_MIME_DEPTH) {
+        warnings.push("EML message nesting is too deep; inner parts were skipped.");
+        return;
+      }
+      const children = multipartChildren(entity.body, contentType.params.boundary).map(parseEntity);
+      if (contentType.value === "multipart/alternative") {
+        // Parts are ordered from plainest to richest; one readable body is enough.
+        const preferred =
+          children.find((child) => /^text\/plain\b/i.test(child.headers.get("content-type") ?? "text/plain")) ??
+          children[children.length - 1];
+        if (preferred) {
+          visit(preferred, depth + 1);
+        }
+        return;
+      }
+      children.forEach((child) => visit(child, depth + 1));
+      return;
+    }
+
+    if (contentType.value === "message/rfc822") {
+      const inner = parseEntity(entityBytes(entity).toString("latin1"));
+      const subject = decodeEncodedWords(inner.headers.get("subject") ?? "").trim();
+      attachments.push({
+        fileName: fileName ?? `${subject.replace(/[\\/:*?"<>|\s]+/g, " ").trim() || "forwarded message"}.eml`,
+        mimeType: "message/rfc822",
+        bytes: entityBytes(entity),
+        inline: false
+      });
+      return;
+    }
+
+    const isBodyText = /^text\/(plain|html)$/.test(contentType.value) && disposition.value !== "attachment" && !fileName;
+    if (isBodyText) {
+      const text = decodeCharset(entityBytes(entity), contentType.params.charset);
+      (contentType.value === "text/plain" ? plain : html).push(text);
+      return;
+    }
+
+    attachments.push({
+      fileName: fileName ?? `attachment-${attachments.length + 1}`,
+      mimeType: contentType.value,
+      bytes: entityBytes(entity),
+      inline:
+        contentType.value.startsWith("image/") && (disposition.value === "inline" || entity.headers.has("content-id"))
+    });
+  };
+  visit(message, 0);
+
+  const body = (plain.length > 0 ? plain.join("\n\n") : html.map(htmlToText).join("\n\n")).replace(/\r\n?/g, "\n").trim();
+  const header = (name: string) => {
+    const value = message.headers.get(name);
+    return value ? decodeEncodedWords(value).trim() : null;
+  };
+  const from = header("from");
+  const sent = header("date");
+  const sentAt = sent && !Number.isNaN(Date.parse(sent)) ? new Date(sent).toISOString() : null;
+  if (sent && !sentAt) {
+    warnings.push(`EML Date header could not be read: ${sent}`);
+  }
+
+  return {
+    subject: header("subject"),
+    from,
+    senderOrganization: senderOrganization(header("organization"), from),
+    sentAt,
+    body,
+    attachments,
+    warnings
+  };
+}
@@ -0,0 +1,171 @@
+import { makeError } from "@/lib/api/errors";
+import { isCompoundFile, openCompoundFile, type CompoundFile } from "@/lib/parsing/cfb-archive";
+import { htmlToText, senderOrganization, type EmailAttachment, type ParsedEmail } from "@/lib/parsing/email-message";
+
+// MAPI property ids (MS-OXPROPS) read from an Outlook .msg file.
+const PR_SUBJECT = 0x0037;
+const PR_CLIENT_SUBMIT_TIME = 0x0039;
+const PR_TRANSPORT_MESSAGE_HEADERS = 0x007d;
+const PR_SENDER_NAME = 0x0c1a;
+const PR_SENDER_EMAIL_ADDRESS = 0x0c1f;
+const PR_MESSAGE_DELIVERY_TIME = 0x0e06;
+const PR_BODY = 0x1000;
+const PR_RTF_COMPRESSED = 0x1009;
+const PR_HTML = 0x1013;
+const PR_DISPLAY_NAME = 0x3001;
+const PR_ATTACH_DATA = 0x3701;
+const PR_ATTACH_FILENAME = 0x3704;
+const PR_ATTACH_METHOD = 0x3705;
+const PR_ATTACH_LONG_FILENAME = 0x3707;
+const PR_ATTACH_MIME_TAG = 0x370e;
+const PR_ATTACH_CONTENT_ID = 0x3712;
+const PR_SENDER_SMTP_ADDRESS = 0x5d01;
+const PR_ATTACHMENT_HIDDEN = 0x7ffe;
+
+const PT_LONG = 0x0003;
+const PT_BOOLEAN = 0x000b;
+const PT_SYSTIME = 0x0040;
+const ATTACH_EMBEDDED_MSG = 5;
+const ATTACHMENT_PREFIX = "__attach_version1.0_#";
+const PROPERTIES_STREAM = "__properties_version1.0";
+// FILETIME counts 100 ns ticks from 1601-01-01.
+const FILETIME_UNIX_EPOCH_MS = 11_644_473_600_000;
+
+/** Property values of one storage: variable-length ones in substg streams, fixed ones in the properties stream. */
+interface PropertyReader {
+  string(id: number): string | null;
+  binary(id: number): Buffer | null;
+  fixed(id: number, type: number): Buffer | null;
+}
+
+function propertyReader(compound: CompoundFile, storage: string, propertiesHeaderSize: number): PropertyReader {
+  const path = (name: string) => (storage ? `${storage}/${name}` : name);
+  const streamName = (id: number, type: string) => `__substg1.0_${id.toString(16).toUpperCase().padStart(4, "0")}${type}`;
+
+  let fixedValues: Map<number, Buffer> | null = null;
+  const readFixed = () => {
+    if (fixedValues) {
+      return fixedValues;
+    }
+    fixedValues = new Map();
+    const stream = compound.read(path(PROPERTIES_STREAM));
+    for (let offset = propertiesHeaderSize; stream && offset + 16 <= stream.length; offset += 16) {
+      fixedValues.set(stream.readUInt32LE(offset), stream.subarray(offset + 8, offset + 16));
+    }
+    return fixedValues;
+  };
+
+  return {
+    string(id) {
+      const unicode = compound.read(path(streamName(id, "001F")));
+      if (unicode) {
+        return unicode.toString("utf16le").replace(/\0+$/, "");
+      }
+      const ansi = compound.read(path(streamName(id, "001E")));
+      return ansi ? new TextDecoder("windows-1252").decode(ansi).replace(/\0+$/, "") : null;
+    },
+    binary(id) {
+      return compound.read(path(streamName(id, "0102")));
+    },
+    fixed(id, type) {
+      return readFixed().get(((id << 16) | type) >>> 0) ?? null;
+    }
+  };
+}
+
+function filetimeToIso(value: Buffer | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const milliseconds = Number(value.readBigUInt64LE(0) / 10_000n) - FILETIME_UNIX_EPOCH_MS;
+  return milliseconds > 0 ? new Date(milliseconds).toISOString() : null;
+}
+
+function transportHeader(headers: string | null, name: string): string | null {
+  const unfolded = headers?.replace(/\r?\n[ \t]+/g, " ") ?? "";
+  return new RegExp(`^${name}:[ \\t]*(.+)$`, "im").exec(unfolded)?.[1]?.trim() ?? null;
+}
+
+/**
+ * Reads an Outlook .msg file (an OLE2 compound file of MAPI properties): subject, sender,
+ * sent time, the plain or HTML body, and attachments stored by value.
+ */
+export function parseMsgBuffer(fileBytes: Buffer): ParsedEmail {
+  if (!isCompoundFile(fileBytes)) {
+    throw makeError(400, "validation_error", "MSG file is not an Outlook message", "parse-document", {
+      retryable: false
+    });
+  }
+  const compound = openCompoundFile(fileBytes);
+  // The top-level properties stream has a 32-byte header; attachment storages use 8 bytes.
+  const message = propertyReader(compound, "", 32);
+  const warnings: string[] = [];
+
+  let body = message.string(PR_BODY);
+  if (!body) {
+    const html = message.binary(PR_HTML) ?? Buffer.from(message.string(PR_HTML) ?? "", "utf8");
+    body = html.length > 0 ? htmlToText(html.toString("utf8")) : "";
+  }
+  if (!body && message.binary(PR_RTF_COMPRESSED)) {
+    warnings.push("MSG body is stored only as compressed RTF; the body text was skipped.");
+  }
+
+  const headers = message.string(PR_TRANSPORT_MESSAGE_HEADERS);
+  const senderName = message.string(PR_SENDER_NAME);
+  const senderAddress = [message.string(PR_SENDER_SMTP_ADDRESS), message.string(PR_SENDER_EMAIL_ADDRESS)].find((address) =>
+    address?.includes("@")
+  );
+  const from =
+    senderName && senderAddress ? `${senderName} <${senderAddress}>` : senderName ?? senderAddress ?? transportHeader(headers, "From");
+  const headerDate = transportHeader(headers, "Date");
+  const sentAt =
+    filetimeToIso(message.fixed(PR_CLIENT_SUBMIT_TIME, PT_SYSTIME)) ??
+    filetimeToIso(message.fixed(PR_MESSAGE_DELIVERY_TIME, PT_SYSTIME)) ??
+    (headerDate && !Number.isNaN(Date.parse(headerDate)) ? new Date(headerDate).toISOString() : null);
+
+  const attachments: EmailAttachment[] = [];
+  for (const storage of compound.storageNames.filter((name) => name.startsWith(ATTACHMENT_PREFIX)).sort()) {
+    const attachment = propertyReader(compound, storage, 8);
+    const fileName =
+      attachment.string(PR_ATTACH_LONG_FILENAME) ??
+      attachment.string(PR_ATTACH_FILENAME) ??
+      attachment.string(PR_DISPLAY_NAME) ??
+      `attachment-${attachments.length + 1}`;
+    const data = attachment.binary(PR_ATTACH_DATA);
+    if (!data) {
+      const method = attachment.fixed(PR_ATTACH_METHOD, PT_LONG)?.readUInt32LE(0);
+      warnings.push(
+        method === ATTACH_EMBEDDED_MSG
+          ? `MSG embedded message ${fileName} skipped; forward it as a separate file.`
+          : `MSG attachment ${fileName} has no stored data and was skipped.`
+      );
+      continue;
+    }
+    const mimeType = attachment.string(PR_ATTACH_MIME_TAG)?.toLowerCase() ?? "";
+    const embedded =
+      Boolean(attachment.fixed(PR_ATTACHMENT_HIDDEN, PT_BOOLEAN)?.readUInt16LE(0)) || Boolean(attachment.string(PR_ATTACH_CONTENT_ID));
+    attachments.push({
+      fileName,
+      mimeType,
+      bytes: data,
+      inline: embedded && (mimeType.startsWith("image/") || /\.(png|jpe?g|gif|bmp)$/i.test(fileName))
+    });
+  }
+
+  const subject = message.string(PR_SUBJECT);
+  if (!subject && !body && attachments.length === 0) {
+    throw makeError(400, "validation_error", "MSG file contains no message content", "parse-document", {
+      retryable: false
+    });
+  }
+
+  return {
+    subject,
+    from,
+    senderOrganization: senderOrganization(transportHeader(headers, "Organization"), from),
+    sentAt,
+    body: body.replace(/\r\n?/g, "\n").trim(),
+    attachments,
+    warnings
+  };
+}
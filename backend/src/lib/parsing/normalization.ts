@@ -89,80 +89,93 @@ export function detectSections(text: string): SectionSpan[] {
   return sections.sort((a, b) => a.startOffset - b.startOffset);
 }
 
-export interface ExtractedTable {
-  title: string;
-  headers: string[];
-  rows: string[][];
-  pages: number[];
-  confidence: number;
+export interface EvidenceEntry {
+  page: number;
+  charStart: number;
+  charEnd: number;
+  excerpt: string;
+  sourceType: "pdf_text" | "ocr" | "docx" | "txt" | "table_cell" | "unstructured" | "pptx" | "rtf" | "doc" | "email";
 }
 
-export function extractTables(text: string): ExtractedTable[] {
-  const lines = text
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter(Boolean);
+export interface PageBoundary {
+  page: number;
+  charStart: number;
+  charEnd: number;
+}
 
-  const tableCandidates = lines.filter((line) => line.includes("|") || line.includes("\t"));
-  if (tableCandidates.length < 2) {
-    return [];
+/** 1-based page containing `offset`; text outside every known page reports page 1. */
+export function pageForOffset(boundaries: PageBoundary[], offset: number): number {
+  for (const boundary of boundaries) {
+    if (offset >= boundary.charStart && offset < boundary.charEnd) {
+      return boundary.page;
+    }
   }
+  return 1;
+}
 
-  const split = (line: string): string[] =>
-    line
-      .split(line.includes("|") ? "|" : "\t")
-      .map((part) => part.trim())
-      .filter(Boolean);
-
-  const headers = split(tableCandidates[0]);
-  const rows = tableCandidates.slice(1, 12).map(split).filter((row) => row.length > 0);
+/** Splits `[0, textLength)` into pages at each page-break offset. */
+export function pageBoundariesFromBreaks(textLength: number, breakOffsets: number[]): PageBoundary[] {
+  const boundaries: PageBoundary[] = [];
+  let charStart = 0;
 
-  if (headers.length === 0 || rows.length === 0) {
-    return [];
+  for (const offset of [...breakOffsets].sort((a, b) => a - b)) {
+    const charEnd = Math.max(charStart, Math.min(offset, textLength));
+    boundaries.push({ page: boundaries.length + 1, charStart, charEnd });
+    charStart = charEnd;
   }
+  boundaries.push({ page: boundaries.length + 1, charStart, charEnd: textLength });
 
-  return [
-    {
-      title: "Detected Table",
-      headers,
-      rows,
-      pages: [1],
-      confidence: 0.65
-    }
-  ];
+  return boundaries;
 }
 
-export interface EvidenceEntry {
-  page: number;
-  charStart: number;
-  charEnd: number;
-  excerpt: string;
-  sourceType: "pdf_text" | "ocr" | "docx" | "txt" | "table_cell" | "unstructured";
+/**
+ * Re-bases page boundaries after `delta` characters were trimmed from the front of
+ * the text and clips them to `textLength`; pages left with no text are dropped.
+ */
+export function shiftPageBoundaries(boundaries: PageBoundary[], delta: number, textLength: number): PageBoundary[] {
+  return boundaries
+    .map((boundary) => ({
+      page: boundary.page,
+      charStart: Math.max(0, Math.min(boundary.charStart - delta, textLength)),
+      charEnd: Math.max(0, Math.min(boundary.charEnd - delta, textLength))
+    }))
+    .filter((boundary) => boundary.charEnd > boundary.charStart);
 }
 
+/**
+ * One evidence entry per section (or one for the opening text when there are none).
+ * `pageSourceTypes` overrides `sourceType` for entries starting on the given pages,
+ * e.g. OCR'd pages of an otherwise digital PDF.
+ */
 export function buildEvidenceMap(
   text: string,
   sections: SectionSpan[],
-  sourceType: EvidenceEntry["sourceType"]
+  sourceType: EvidenceEntry["sourceType"],
+  pageBoundaries: PageBoundary[] = [],
+  pageSourceTypes: ReadonlyMap<number, EvidenceEntry["sourceType"]> = new Map()
 ): EvidenceEntry[] {
   if (sections.length === 0) {
     const excerpt = text.slice(0, Math.min(120, text.length));
+    const page = pageForOffset(pageBoundaries, 0);
     return [
       {
-        page: 1,
+        page,
         charStart: 0,
         charEnd: excerpt.length,
         excerpt,
-        sourceType
+        sourceType: pageSourceTypes.get(page) ?? sourceType
       }
     ];
   }
 
-  return sections.map((section) => ({
-    page: 1,
-    charStart: section.startOffset,
-    charEnd: section.endOffset,
-    excerpt: text.slice(section.startOffset, section.endOffset),
-    sourceType
-  }));
+  return sections.map((section) => {
+    const page = pageForOffset(pageBoundaries, section.startOffset);
+    return {
+      page,
+      charStart: section.startOffset,
+      charEnd: section.endOffset,
+      excerpt: text.slice(section.startOffset, section.endOffset),
+      sourceType: pageSourceTypes.get(page) ?? sourceType
+    };
+  });
 }
@@ -1,45 +1,99 @@
+import { makeError } from "@/lib/api/errors";
+import { TesseractOcrProvider } from "@/lib/parsing/tesseract-ocr-provider";
+import { GoogleVisionOcrProvider } from "@/lib/parsing/vision-ocr-provider";
+
+export interface OcrPageResult {
+  page: number;
+  text: string;
+  /** Mean recognition confidence for the page, 0-1. */
+  confidence: number;
+}
+
 export interface OcrResult {
   text: string;
+  /** Pages actually sent through OCR; counted against the analysis OCR page budget. */
   pagesOcred: number;
+  /** Per-page results in page order, when the provider recognizes page by page. */
+  pages?: OcrPageResult[];
   warnings: string[];
 }
 
+export interface OcrRequest {
+  fileBytes: Buffer;
+  fileName: string;
+  pagesHint: number;
+  /** 1-based pages to recognize; every page up to `pagesHint` when omitted. */
+  pages?: number[];
+}
+
 export interface OcrProvider {
-  performOcr(input: {
-    fileBytes: Buffer;
-    fileName: string;
-    pagesHint: number;
-  }): Promise<OcrResult>;
-}
-
-class StubVisionOcrProvider implements OcrProvider {
-  async performOcr(input: {
-    fileBytes: Buffer;
-    fileName: string;
-    pagesHint: number;
-  }): Promise<OcrResult> {
-    const hasKey = Boolean(process.env.GOOGLE_VISION_API_KEY);
-
-    if (!hasKey) {
-      return {
-        text: "",
-        pagesOcred: 0,
-        warnings: [
-          `OCR fallback requested for ${input.fileName}, but GOOGLE_VISION_API_KEY is not configured.`
-        ]
-      };
-    }
+  performOcr(input: OcrRequest): Promise<OcrResult>;
+}
+
+export type OcrProviderName = "tesseract" | "google_vision" | "none";
 
+const OCR_PROVIDER_NAMES: OcrProviderName[] = ["tesseract", "google_vision", "none"];
+
+class DisabledOcrProvider implements OcrProvider {
+  async performOcr(input: OcrRequest): Promise<OcrResult> {
     return {
       text: "",
       pagesOcred: 0,
-      warnings: [
-        `OCR provider wiring is configured but no live implementation exists yet for ${input.fileName}.`
-      ]
+      warnings: [`OCR fallback requested for ${input.fileName}, but OCR is disabled (OCR_PROVIDER=none).`]
     };
   }
 }
 
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * `OCR_PROVIDER` picks the engine. Without it, Google Vision is used when
+ * `GOOGLE_VISION_API_KEY` is set and the offline Tesseract engine otherwise.
+ */
+export function resolveOcrProviderName(): OcrProviderName {
+  const configured = process.env.OCR_PROVIDER?.trim().toLowerCase();
+  if (!configured) {
+    return process.env.GOOGLE_VISION_API_KEY ? "google_vision" : "tesseract";
+  }
+  if (!OCR_PROVIDER_NAMES.includes(configured as OcrProviderName)) {
+    throw makeError(500, "server_misconfigured", `Unknown OCR_PROVIDER: ${configured}`, "parse-document", {
+      retryable: false,
+      details: { allowed: OCR_PROVIDER_NAMES }
+    });
+  }
+  return configured as OcrProviderName;
+}
+
 export function createOcrProvider(): OcrProvider {
-  return new StubVisionOcrProvider();
+  const name = resolveOcrProviderName();
+
+  if (name === "google_vision") {
+    const apiKey = process.env.GOOGLE_VISION_API_KEY;
+    if (!apiKey) {
+      throw makeError(500, "server_misconfigured", "OCR_PROVIDER=google_vision requires GOOGLE_VISION_API_KEY", "parse-document", {
+        retryable: false
+      });
+    }
+    return new GoogleVisionOcrProvider({
+      apiKey,
+      endpoint: process.env.GOOGLE_VISION_API_URL?.trim() || "https://vision.googleapis.com/v1/files:annotate",
+      languageHints: ["ar", "en"],
+      timeoutMs: numberFromEnv("OCR_TIMEOUT_MS", 60_000)
+    });
+  }
+
+  if (name === "tesseract") {
+    return new TesseractOcrProvider({
+      tesseractPath: process.env.TESSERACT_PATH?.trim() || "tesseract",
+      pdftoppmPath: process.env.PDFTOPPM_PATH?.trim() || "pdftoppm",
+      languages: process.env.OCR_LANGUAGES?.trim() || "eng+ara",
+      dpi: numberFromEnv("OCR_DPI", 300),
+      timeoutMs: numberFromEnv("OCR_TIMEOUT_MS", 60_000)
+    });
+  }
+
+  return new DisabledOcrProvider();
 }
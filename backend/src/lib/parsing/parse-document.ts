@@ -1,21 +1,55 @@
-import { makeError } from "@/lib/api/errors";
-import { buildEvidenceMap, detectPrimaryLanguage, detectSections, extractTables, normalizeForMatching, truncateText } from "@/lib/parsing/normalization";
+import { ApiError, makeError } from "@/lib/api/errors";
+import {
+  buildEvidenceMap,
+  detectPrimaryLanguage,
+  normalizeForMatching,
+  shiftPageBoundaries,
+  truncateText,
+  type PageBoundary
+} from "@/lib/parsing/normalization";
+import { mergeParsedDocuments, type ParsedBundlePart, type SourceDocumentV1 } from "@/lib/parsing/document-bundle";
+import { emailDocumentText, type ParsedEmail } from "@/lib/parsing/email-message";
 import { createOcrProvider, type OcrProvider } from "@/lib/parsing/ocr-provider";
+import { parseCsvBuffer } from "@/lib/parsing/csv-parser";
+import { parseDocBuffer } from "@/lib/parsing/doc-parser";
 import { parseDocxBuffer } from "@/lib/parsing/docx-parser";
-import { parsePdfBuffer } from "@/lib/parsing/pdf-parser";
+import { parseEmlBuffer } from "@/lib/parsing/eml-parser";
+import { parseMsgBuffer } from "@/lib/parsing/msg-parser";
+import { layoutPages, parsePdfBuffer, type PdfPageText } from "@/lib/parsing/pdf-parser";
+import { segmentSections, type OutlineNode } from "@/lib/parsing/section-segmentation";
+import { tablesFromText, type ExtractedTable } from "@/lib/parsing/table-extraction";
+import { parsePptxBuffer } from "@/lib/parsing/pptx-parser";
+import { parseRtfBuffer } from "@/lib/parsing/rtf-parser";
 import { parseTxtBuffer } from "@/lib/parsing/txt-parser";
 import { parseWithUnstructured } from "@/lib/parsing/unstructured-provider";
+import { parseXlsxBuffer } from "@/lib/parsing/xlsx-parser";
 
-export type ParsedFormat = "pdf" | "docx" | "txt";
+export type ParsedFormat = "pdf" | "docx" | "txt" | "xlsx" | "csv" | "pptx" | "rtf" | "doc" | "eml" | "msg";
+
+const PARSED_FORMATS: ParsedFormat[] = ["pdf", "docx", "txt", "xlsx", "csv", "pptx", "rtf", "doc", "eml", "msg"];
 
 const MAX_FILE_BYTES = 30 * 1024 * 1024;
 const MAX_PAGES = 250;
-const MAX_EXTRACTED_CHARS = 2_000_000;
+export const MAX_EXTRACTED_CHARS = 2_000_000;
+// Forwarded chains are followed this many messages deep; each message may bring this many attachments.
+const MAX_ATTACHMENT_DEPTH = 3;
+const MAX_EMAIL_ATTACHMENTS = 10;
+// Below this mean word confidence, OCR'd numbers and dates are often misread.
+const LOW_OCR_CONFIDENCE = 0.6;
 
 const supportedMimeTypeToFormat: Record<string, ParsedFormat> = {
   "application/pdf": "pdf",
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
-  "text/plain": "txt"
+  "text/plain": "txt",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "text/csv": "csv",
+  "application/csv": "csv",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+  "application/rtf": "rtf",
+  "text/rtf": "rtf",
+  "application/msword": "doc",
+  "message/rfc822": "eml",
+  "application/vnd.ms-outlook": "msg"
 };
 
 export interface ParseDocumentInput {
@@ -24,6 +58,16 @@ export interface ParseDocumentInput {
   mimeType: string;
   fileBytes: Buffer;
   ocrProvider?: OcrProvider;
+  /** How many emails deep this file was attached; set when parsing email attachments. */
+  attachmentDepth?: number;
+}
+
+/** Envelope of an .eml or .msg upload; its attachments appear in `sourceDocuments`. */
+export interface EmailMetadataV1 {
+  subject: string | null;
+  from: string | null;
+  senderOrganization: string | null;
+  sentAt: string | null;
 }
 
 export interface ParsedDocumentV1 {
@@ -33,26 +77,29 @@ export interface ParsedDocumentV1 {
   primaryLanguage: "arabic" | "english" | "mixed";
   rawText: string;
   sections: Array<{ name: string; startOffset: number; endOffset: number }>;
-  tables: Array<{
-    title: string;
-    headers: string[];
-    rows: string[][];
-    pages: number[];
-    confidence: number;
-  }>;
+  /** Heading tree of the document; `sections` lists its classified nodes. */
+  outline?: OutlineNode[];
+  tables: ExtractedTable[];
   evidenceMap: Array<{
     page: number;
     charStart: number;
     charEnd: number;
     excerpt: string;
-    sourceType: "pdf_text" | "ocr" | "docx" | "txt" | "table_cell" | "unstructured";
+    sourceType: "pdf_text" | "ocr" | "docx" | "txt" | "table_cell" | "unstructured" | "pptx" | "rtf" | "doc" | "email";
   }>;
+  /** Character range of each source page within rawText; empty when page layout is unknown. */
+  pageIndex?: PageBoundary[];
   parseConfidence: number;
   ocrStats: {
     used: boolean;
     pagesOcred: number;
+    /** Recognition confidence (0-1) of each OCR'd page, when the provider reports it. */
+    pageConfidence?: Array<{ page: number; confidence: number }>;
   } | null;
   parserProvenance?: string[];
+  /** Per-document ranges when several files were parsed into one bundle; see document-bundle. */
+  sourceDocuments?: SourceDocumentV1[];
+  email?: EmailMetadataV1;
   warnings: string[];
 }
 
@@ -73,8 +120,8 @@ function detectFormat(fileName: string, mimeType: string): ParsedFormat {
   }
 
   const ext = fileName.split(".").pop()?.toLowerCase();
-  if (ext === "pdf" || ext === "docx" || ext === "txt") {
-    return ext;
+  if ((PARSED_FORMATS as Array<string | undefined>).includes(ext)) {
+    return ext as ParsedFormat;
   }
 
   throw makeError(400, "unsupported_format", `Unsupported document format: ${mimeType || ext || "unknown"}`, "parse-document", {
@@ -83,6 +130,15 @@ function detectFormat(fileName: string, mimeType: string): ParsedFormat {
   });
 }
 
+/** Spreadsheets carry their tables from the cell grid rather than from text heuristics. */
+function isSpreadsheetFormat(format: ParsedFormat): format is "xlsx" | "csv" {
+  return format === "xlsx" || format === "csv";
+}
+
+function isEmailFormat(format: ParsedFormat): format is "eml" | "msg" {
+  return format === "eml" || format === "msg";
+}
+
 function shouldUseUnstructuredParser(params: {
   analysisProfile: AnalysisProfile;
   detectedFormat: ParsedFormat;
@@ -156,8 +212,16 @@ export async function parseDocumentInput(input: ParseDocumentInput): Promise<Par
 
   let rawText = "";
   let pageCount = 1;
-  let sourceType: "pdf_text" | "ocr" | "docx" | "txt" | "unstructured" = "txt";
+  let pageBoundaries: PageBoundary[] = [];
+  let sourceType: ParsedDocumentV1["evidenceMap"][number]["sourceType"] = "txt";
   let needsOcr = false;
+  let pdfPages: PdfPageText[] = [];
+  let ocrCandidatePages: number[] = [];
+  let headingOffsets: number[] = [];
+  const pageSourceTypes = new Map<number, ParsedDocumentV1["evidenceMap"][number]["sourceType"]>();
+  // Tables read from document structure (sheet grids, DOCX/HTML tables, PDF layout).
+  let structuredTables: ExtractedTable[] = [];
+  let email: ParsedEmail | null = null;
 
   if (detectedFormat === "txt") {
     const result = parseTxtBuffer(input.fileBytes);
@@ -165,9 +229,41 @@ export async function parseDocumentInput(input: ParseDocumentInput): Promise<Par
     warnings.push(...result.warnings);
     sourceType = "txt";
     parserProvenance.push("txt_local");
+  } else if (isSpreadsheetFormat(detectedFormat)) {
+    const result =
+      detectedFormat === "xlsx" ? parseXlsxBuffer(input.fileBytes) : parseCsvBuffer(input.fileBytes, input.fileName);
+    rawText = result.text;
+    pageCount = Math.max(result.pages.length, 1);
+    pageBoundaries = result.pages;
+    structuredTables = result.tables;
+    warnings.push(...result.warnings);
+    sourceType = "table_cell";
+    parserProvenance.push(`${detectedFormat}_local`);
+  } else if (isEmailFormat(detectedFormat)) {
+    email = detectedFormat === "eml" ? parseEmlBuffer(input.fileBytes) : parseMsgBuffer(input.fileBytes);
+    rawText = emailDocumentText(email);
+    warnings.push(...email.warnings);
+    sourceType = "email";
+    parserProvenance.push(`${detectedFormat}_local`);
+  } else if (detectedFormat === "pptx" || detectedFormat === "rtf" || detectedFormat === "doc") {
+    const result =
+      detectedFormat === "pptx"
+        ? parsePptxBuffer(input.fileBytes)
+        : detectedFormat === "rtf"
+          ? parseRtfBuffer(input.fileBytes)
+          : parseDocBuffer(input.fileBytes);
+    rawText = result.text;
+    pageCount = Math.max(result.pages.length, 1);
+    pageBoundaries = result.pages;
+    warnings.push(...result.warnings);
+    sourceType = detectedFormat;
+    parserProvenance.push(`${detectedFormat}_local`);
   } else if (detectedFormat === "docx") {
     const result = await parseDocxBuffer(input.fileBytes);
     rawText = result.text;
+    pageCount = Math.max(result.pages.length, 1);
+    pageBoundaries = result.pages;
+    structuredTables = result.tables;
     warnings.push(...result.warnings);
     sourceType = "docx";
     parserProvenance.push("docx_local");
@@ -175,8 +271,12 @@ export async function parseDocumentInput(input: ParseDocumentInput): Promise<Par
     const result = parsePdfBuffer(input.fileBytes);
     rawText = result.text;
     pageCount = result.pageCount;
+    pageBoundaries = result.pages.map(({ page, charStart, charEnd }) => ({ page, charStart, charEnd }));
     warnings.push(...result.warnings);
     needsOcr = result.needsOcr;
+    pdfPages = result.pages;
+    ocrCandidatePages = result.ocrPages;
+    structuredTables = result.tables;
     sourceType = "pdf_text";
     parserProvenance.push("pdf_local");
 
@@ -188,30 +288,52 @@ export async function parseDocumentInput(input: ParseDocumentInput): Promise<Par
     }
   }
 
-  let ocrStats: { used: boolean; pagesOcred: number } | null = null;
+  let ocrStats: ParsedDocumentV1["ocrStats"] = null;
 
   if (detectedFormat === "pdf" && needsOcr) {
     const provider = input.ocrProvider ?? createOcrProvider();
+    // With a page layout only the scanned-looking pages are sent; otherwise the whole file.
     const ocrResult = await provider.performOcr({
       fileBytes: input.fileBytes,
       fileName: input.fileName,
-      pagesHint: pageCount
+      pagesHint: pageCount,
+      ...(pdfPages.length > 0 ? { pages: ocrCandidatePages } : {})
     });
 
-    if (ocrResult.text.trim().length > 0) {
+    const recognized = (ocrResult.pages ?? []).filter((page) => page.text.trim().length > 0);
+    if (pdfPages.length > 0 && recognized.length > 0) {
+      const ocrTextByPage = new Map(recognized.map((page) => [page.page, page.text.trim()]));
+      const layout = layoutPages(pdfPages.map((page) => ocrTextByPage.get(page.page) ?? page.text));
+      rawText = layout.text;
+      pageBoundaries = layout.pages.map(({ page, charStart, charEnd }) => ({ page, charStart, charEnd }));
+      ocrTextByPage.forEach((_, page) => pageSourceTypes.set(page, "ocr"));
+    } else if (ocrResult.text.trim().length > 0) {
       rawText = `${rawText}\n\n${ocrResult.text}`.trim();
       sourceType = "ocr";
     }
 
     warnings.push(...ocrResult.warnings);
+    const pageConfidence = ocrResult.pages?.map(({ page, confidence }) => ({ page, confidence }));
+    const lowConfidencePages = (pageConfidence ?? [])
+      .filter((entry) => entry.confidence < LOW_OCR_CONFIDENCE)
+      .map((entry) => entry.page);
+    if (lowConfidencePages.length > 0) {
+      warnings.push(`OCR confidence is low on page(s) ${lowConfidencePages.join(", ")}; check quoted figures against the original.`);
+    }
     ocrStats = {
       used: true,
-      pagesOcred: ocrResult.pagesOcred
+      pagesOcred: ocrResult.pagesOcred,
+      ...(pageConfidence ? { pageConfidence } : {})
     };
     parserProvenance.push("ocr");
   }
 
-  if (detectedFormat !== "txt" && process.env.UNSTRUCTURED_API_KEY) {
+  if (
+    detectedFormat !== "txt" &&
+    !isSpreadsheetFormat(detectedFormat) &&
+    !isEmailFormat(detectedFormat) &&
+    process.env.UNSTRUCTURED_API_KEY
+  ) {
     const shouldUseUnstructured = shouldUseUnstructuredParser({
       analysisProfile,
       detectedFormat,
@@ -232,6 +354,12 @@ export async function parseDocumentInput(input: ParseDocumentInput): Promise<Par
         if (unstructured && unstructured.text.length > Math.max(Math.floor(rawText.length * 0.75), 500)) {
           rawText = unstructured.text;
           sourceType = "unstructured";
+          pageBoundaries = unstructured.pages;
+          pageSourceTypes.clear();
+          headingOffsets = unstructured.titleOffsets;
+          if (unstructured.tables.length > 0) {
+            structuredTables = unstructured.tables;
+          }
         }
         parserProvenance.push("unstructured");
 
@@ -246,6 +374,7 @@ export async function parseDocumentInput(input: ParseDocumentInput): Promise<Par
   }
 
   const trimmedText = rawText.trim();
+  const leadingTrim = rawText.length - rawText.trimStart().length;
   if (trimmedText.length === 0) {
     throw makeError(422, "validation_error", "No text could be extracted from document", "parse-document", {
       retryable: false
@@ -253,9 +382,16 @@ export async function parseDocumentInput(input: ParseDocumentInput): Promise<Par
   }
 
   const boundedText = truncateText(trimmedText, MAX_EXTRACTED_CHARS);
-  const sections = detectSections(boundedText);
-  const tables = extractTables(boundedText);
-  const evidenceMap = buildEvidenceMap(boundedText, sections, sourceType);
+  const { outline, sections } = segmentSections(boundedText, {
+    headingOffsets: headingOffsets.map((offset) => offset - leadingTrim)
+  });
+  const pageIndex = shiftPageBoundaries(pageBoundaries, leadingTrim, boundedText.length);
+  // Pipe/tab rows in the text are the fallback when the parser saw no table structure.
+  const tables =
+    structuredTables.length > 0 || isSpreadsheetFormat(detectedFormat)
+      ? structuredTables
+      : tablesFromText(boundedText, pageIndex);
+  const evidenceMap = buildEvidenceMap(boundedText, sections, sourceType, pageIndex, pageSourceTypes);
   const primaryLanguage = detectPrimaryLanguage(normalizeForMatching(boundedText));
 
   const parseConfidence = estimateParseConfidence({
@@ -266,18 +402,79 @@ export async function parseDocumentInput(input: ParseDocumentInput): Promise<Par
     ocrUsed: Boolean(ocrStats)
   });
 
-  return {
+  const parsed: ParsedDocumentV1 = {
     schemaVersion: "1.0.0",
     analysisId: input.analysisId,
     detectedFormat,
     primaryLanguage,
     rawText: boundedText,
     sections,
+    outline,
     tables,
     evidenceMap,
+    pageIndex,
     parseConfidence,
     ocrStats,
     parserProvenance,
     warnings
   };
+  return email ? withEmailAttachments(parsed, email, input) : parsed;
+}
+
+/**
+ * Parses the attachments of an email and merges them after the message, so an RFP sent
+ * as an attachment is analyzed together with the dates written in the email around it.
+ * Attachments that cannot be parsed are skipped with a warning rather than failing the upload.
+ */
+async function withEmailAttachments(
+  message: ParsedDocumentV1,
+  email: ParsedEmail,
+  input: ParseDocumentInput
+): Promise<ParsedDocumentV1> {
+  const metadata: EmailMetadataV1 = {
+    subject: email.subject,
+    from: email.from,
+    senderOrganization: email.senderOrganization,
+    sentAt: email.sentAt
+  };
+  const depth = input.attachmentDepth ?? 0;
+  const attached = email.attachments.filter((attachment) => !attachment.inline);
+  const warnings: string[] = [];
+  if (attached.length > 0 && depth >= MAX_ATTACHMENT_DEPTH) {
+    warnings.push(`Email attachments nested more than ${MAX_ATTACHMENT_DEPTH} messages deep were skipped.`);
+  }
+  if (attached.length > MAX_EMAIL_ATTACHMENTS) {
+    warnings.push(`Only the first ${MAX_EMAIL_ATTACHMENTS} of ${attached.length} email attachments were parsed.`);
+  }
+
+  const parts: ParsedBundlePart[] = [{ role: "main", fileName: input.fileName, parsed: message }];
+  for (const attachment of depth >= MAX_ATTACHMENT_DEPTH ? [] : attached.slice(0, MAX_EMAIL_ATTACHMENTS)) {
+    try {
+      const parsed = await parseDocumentInput({
+        analysisId: input.analysisId,
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        fileBytes: attachment.bytes,
+        ocrProvider: input.ocrProvider,
+        attachmentDepth: depth + 1
+      });
+      // A forwarded message keeps its own parts, but only the outer message is the main document.
+      const sourceDocuments = parsed.sourceDocuments?.map((document) => ({
+        ...document,
+        role: document.role === "main" ? ("annex" as const) : document.role
+      }));
+      parts.push({ role: "annex", fileName: attachment.fileName, parsed: { ...parsed, sourceDocuments } });
+    } catch (error: unknown) {
+      if (!(error instanceof ApiError) || error.shape.code === "server_misconfigured") {
+        throw error;
+      }
+      warnings.push(`Attachment ${attachment.fileName} skipped: ${error.shape.message}`);
+    }
+  }
+
+  if (parts.length === 1) {
+    return { ...message, email: metadata, warnings: [...message.warnings, ...warnings] };
+  }
+  const merged = mergeParsedDocuments(input.analysisId, parts);
+  return { ...merged, email: metadata, warnings: [...merged.warnings, ...warnings] };
 }
@@ -0,0 +1,420 @@
+import { loadPdfFont, type PdfFont } from "@/lib/parsing/pdf-fonts";
+import {
+  isName,
+  isOperator,
+  isPdfString,
+  isStream,
+  PdfLexer,
+  type PdfDict,
+  type PdfDocument,
+  type PdfStream,
+  type PdfValue
+} from "@/lib/parsing/pdf-objects";
+import type { PositionedLine } from "@/lib/parsing/table-extraction";
+
+const MAX_FORM_DEPTH = 6;
+// Horizontal gap between fragments, as a share of the font size, that reads as a word break.
+const WORD_GAP_RATIO = 0.2;
+// A gap this many font sizes wide separates table cells rather than words.
+const CELL_GAP_RATIO = 1;
+
+const RTL_CHARS = "\\u0590-\\u08FF\\uFB1D-\\uFDFF\\uFE70-\\uFEFF";
+const LTR_CHARS = "A-Za-z0-9\\u0660-\\u0669\\u06F0-\\u06F9";
+const rtlCharPattern = new RegExp(`[${RTL_CHARS}]`);
+const arabicLetterPattern = /[؀-ۿ]/g;
+const latinLetterPattern = /[A-Za-z]/g;
+// Runs that keep left-to-right order inside an RTL line (numbers, Latin words, dates).
+const ltrRunPattern = new RegExp(`[${LTR_CHARS}](?:[${LTR_CHARS}.,:/%@_\\-]*[${LTR_CHARS}%])?`, "g");
+const rtlRunPattern = new RegExp(`[${RTL_CHARS}](?:[${RTL_CHARS}\\s]*[${RTL_CHARS}])?`, "g");
+
+export interface ContentTextResult {
+  text: string;
+  missingUnicodeFonts: Set<string>;
+  /** Images painted by the stream (image XObjects and inline images), forms included. */
+  imageCount: number;
+  /** Lines split into cells at wide gaps, for table detection. */
+  lines: PositionedLine[];
+}
+
+interface TextFragment {
+  text: string;
+  /** Decoded text of each glyph; a ligature glyph ("لا", "fi") is one entry. */
+  glyphs: string[];
+  x: number;
+  endX: number;
+  y: number;
+  size: number;
+}
+
+interface TextLine {
+  y: number;
+  size: number;
+  fragments: TextFragment[];
+}
+
+/** Reverses the order of the glyphs in each run `pattern` matches, keeping every glyph's text intact. */
+function reverseRuns(glyphs: string[], pattern: RegExp): string[] {
+  const owner: number[] = [];
+  glyphs.forEach((glyph, index) => {
+    for (let i = 0; i < glyph.length; i += 1) {
+      owner.push(index);
+    }
+  });
+
+  const output: string[] = [];
+  let next = 0;
+  for (const match of glyphs.join("").matchAll(pattern)) {
+    const first = owner[match.index];
+    const last = owner[match.index + match[0].length - 1];
+    if (first < next) {
+      continue;
+    }
+    output.push(...glyphs.slice(next, first), ...glyphs.slice(first, last + 1).reverse());
+    next = last + 1;
+  }
+  output.push(...glyphs.slice(next));
+  return output;
+}
+
+/**
+ * Glyphs in a PDF string always advance to the right, so Arabic comes out of the
+ * content stream in visual order. Convert a visual line back to logical order:
+ * RTL-dominant lines are reversed as a whole with number/Latin runs restored,
+ * LTR-dominant lines only have their embedded RTL runs reversed. Reordering moves
+ * whole glyphs, so a ligature's text ("لا") keeps its logical order; a plain string
+ * is read one code point per glyph.
+ */
+export function visualToLogical(line: string | string[]): string {
+  const glyphs = typeof line === "string" ? Array.from(line) : line;
+  const text = glyphs.join("");
+  if (!rtlCharPattern.test(text)) {
+    return text;
+  }
+
+  const arabicCount = (text.match(arabicLetterPattern) ?? []).length;
+  const latinCount = (text.match(latinLetterPattern) ?? []).length;
+
+  if (arabicCount >= latinCount) {
+    return reverseRuns([...glyphs].reverse(), ltrRunPattern).join("");
+  }
+
+  return reverseRuns(glyphs, rtlRunPattern).join("");
+}
+
+// Word-generated Arabic PDFs often map heh and yeh to their Persian code points.
+function normalizeArabicVariants(line: string): string {
+  if (!/[؀-ۿ]/.test(line) || /[پچژگ]/.test(line)) {
+    return line;
+  }
+  return line.replace(/ھ/g, "ه").replace(/ی/g, "ي");
+}
+
+class TextCollector {
+  private readonly lines: TextLine[] = [];
+
+  add(fragment: TextFragment): void {
+    if (fragment.text.length === 0) {
+      return;
+    }
+
+    const current = this.lines[this.lines.length - 1];
+    const tolerance = Math.max(1, Math.min(current?.size ?? fragment.size, fragment.size) * 0.5);
+    if (current && Math.abs(current.y - fragment.y) <= tolerance) {
+      current.fragments.push(fragment);
+      return;
+    }
+
+    this.lines.push({ y: fragment.y, size: fragment.size, fragments: [fragment] });
+  }
+
+  toString(): string {
+    return this.lines
+      .map((line) => readFragments([...line.fragments].sort((a, b) => a.x - b.x)))
+      .filter((line) => line.length > 0)
+      .join("\n");
+  }
+
+  positionedLines(): PositionedLine[] {
+    return this.lines
+      .map((line) => {
+        const fragments = [...line.fragments].sort((a, b) => a.x - b.x);
+        const groups: TextFragment[][] = [];
+        fragments.forEach((fragment, index) => {
+          const previous = fragments[index - 1];
+          if (!previous || fragment.x - previous.endX > Math.min(previous.size, fragment.size) * CELL_GAP_RATIO) {
+            groups.push([fragment]);
+          } else {
+            groups[groups.length - 1].push(fragment);
+          }
+        });
+        const cells = groups
+          .map((group) => ({ text: readFragments(group), x: group[0].x, endX: group[group.length - 1].endX }))
+          .filter((cell) => cell.text.length > 0);
+        return { y: line.y, size: line.size, cells };
+      })
+      .filter((line) => line.cells.length > 0);
+  }
+}
+
+/** Joins fragments sorted by x into one logical-order string, spacing word gaps. */
+function readFragments(fragments: TextFragment[]): string {
+  const visual: string[] = [];
+  let previous: TextFragment | null = null;
+
+  for (const fragment of fragments) {
+    if (
+      previous &&
+      fragment.x - previous.endX > Math.min(previous.size, fragment.size) * WORD_GAP_RATIO &&
+      !visual.at(-1)?.endsWith(" ") &&
+      !fragment.text.startsWith(" ")
+    ) {
+      visual.push(" ");
+    }
+    visual.push(...fragment.glyphs);
+    previous = fragment;
+  }
+
+  // Cleaned glyph by glyph: NFKC turns a ligature code point (U+FEFB) into its letters ("لا").
+  const cleaned: string[] = [];
+  for (const glyph of visual) {
+    const text = glyph
+      .normalize("NFKC")
+      .replace(/[\u0000-\u0008\u000b-\u001f]/g, "")
+      .replace(/[ \t ]+/g, " ");
+    if (text === " ") {
+      if (cleaned.length > 0 && !cleaned[cleaned.length - 1].endsWith(" ")) {
+        cleaned.push(text);
+      }
+    } else if (text.length > 0) {
+      cleaned.push(text);
+    }
+  }
+  if (cleaned.length > 0) {
+    cleaned[0] = cleaned[0].trimStart();
+    cleaned[cleaned.length - 1] = cleaned[cleaned.length - 1].trimEnd();
+  }
+  return normalizeArabicVariants(visualToLogical(cleaned.filter((glyph) => glyph.length > 0)));
+}
+
+interface TextState {
+  font: PdfFont | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  // Text line matrix: scale and translation only; rotation does not matter for reading order.
+  scaleX: number;
+  scaleY: number;
+  lineX: number;
+  lineY: number;
+  // Advance along the current line, in unscaled text space units.
+  advance: number;
+}
+
+function toNumber(value: PdfValue | undefined, fallback = 0): number {
+  return typeof value === "number" ? value : fallback;
+}
+
+/**
+ * Interprets the text operators of a content stream (BT/ET, Tf, Tc/Tw/Tz/TL,
+ * Td/TD/Tm/T*, Tj/TJ/'/") using font widths to place every string, then lays the
+ * fragments out line by line in reading order. Form XObjects are followed so text
+ * inside reusable forms (headers, tables) is kept.
+ */
+export function extractContentText(
+  doc: PdfDocument,
+  content: Buffer,
+  resources: PdfDict | undefined
+): ContentTextResult {
+  const collector = new TextCollector();
+  const missingUnicodeFonts = new Set<string>();
+  let imageCount = 0;
+  const visitedForms = new Set<PdfStream>();
+
+  const run = (data: Buffer, res: PdfDict | undefined, depth: number) => {
+    const fonts = new Map<string, PdfFont>();
+    const fontDict = doc.getDict(res, "Font");
+    const xobjects = doc.getDict(res, "XObject");
+    const state: TextState = {
+      font: null,
+      fontSize: 12,
+      charSpacing: 0,
+      wordSpacing: 0,
+      horizontalScale: 1,
+      leading: 0,
+      scaleX: 1,
+      scaleY: 1,
+      lineX: 0,
+      lineY: 0,
+      advance: 0
+    };
+    const lexer = new PdfLexer(data);
+    const operands: PdfValue[] = [];
+
+    const fontFor = (name: string): PdfFont | null => {
+      if (!fonts.has(name)) {
+        const font = loadPdfFont(doc, fontDict?.entries.get(name));
+        if (!font.hasUnicode) {
+          missingUnicodeFonts.add(name);
+        }
+        fonts.set(name, font);
+      }
+      return fonts.get(name) ?? null;
+    };
+
+    const showText = (value: PdfValue | undefined) => {
+      if (!isPdfString(value) || !state.font) {
+        return;
+      }
+
+      const startX = state.lineX + state.advance * state.scaleX;
+      const glyphs: string[] = [];
+      for (const glyph of state.font.glyphs(value.bytes)) {
+        glyphs.push(glyph.text);
+        const wordSpacing = glyph.byteLength === 1 && glyph.code === 32 ? state.wordSpacing : 0;
+        state.advance += ((glyph.width / 1000) * state.fontSize + state.charSpacing + wordSpacing) * state.horizontalScale;
+      }
+
+      collector.add({
+        text: glyphs.join(""),
+        glyphs,
+        x: startX,
+        endX: state.lineX + state.advance * state.scaleX,
+        y: state.lineY,
+        size: Math.abs(state.fontSize * state.scaleY)
+      });
+    };
+
+    const moveLine = (tx: number, ty: number) => {
+      state.lineX += tx * state.scaleX;
+      state.lineY += ty * state.scaleY;
+      state.advance = 0;
+    };
+
+    const nextLine = () => moveLine(0, -state.leading);
+
+    while (lexer.pos < lexer.length) {
+      const token = lexer.next();
+      if (token === undefined) {
+        break;
+      }
+      if (!isOperator(token)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.value) {
+        case "BT":
+          state.scaleX = 1;
+          state.scaleY = 1;
+          state.lineX = 0;
+          state.lineY = 0;
+          state.advance = 0;
+          break;
+        case "Tf": {
+          const name = operands[operands.length - 2];
+          state.fontSize = toNumber(operands[operands.length - 1], 12);
+          state.font = isName(name) ? fontFor(name.value) : null;
+          break;
+        }
+        case "Tc":
+          state.charSpacing = toNumber(operands[0]);
+          break;
+        case "Tw":
+          state.wordSpacing = toNumber(operands[0]);
+          break;
+        case "Tz":
+          state.horizontalScale = toNumber(operands[0], 100) / 100;
+          break;
+        case "TL":
+          state.leading = toNumber(operands[0]);
+          break;
+        case "Td":
+          moveLine(toNumber(operands[0]), toNumber(operands[1]));
+          break;
+        case "TD":
+          state.leading = -toNumber(operands[1]);
+          moveLine(toNumber(operands[0]), toNumber(operands[1]));
+          break;
+        case "Tm":
+          state.scaleX = toNumber(operands[0], 1) || 1;
+          state.scaleY = toNumber(operands[3], 1) || 1;
+          state.lineX = toNumber(operands[4]);
+          state.lineY = toNumber(operands[5]);
+          state.advance = 0;
+          break;
+        case "T*":
+          nextLine();
+          break;
+        case "Tj":
+          showText(operands[0]);
+          break;
+        case "'":
+          nextLine();
+          showText(operands[0]);
+          break;
+        case "\"":
+          state.wordSpacing = toNumber(operands[0]);
+          state.charSpacing = toNumber(operands[1]);
+          nextLine();
+          showText(operands[2]);
+          break;
+        case "TJ": {
+          const items = operands[0];
+          if (Array.isArray(items)) {
+            for (const item of items) {
+              if (typeof item === "number") {
+                state.advance -= (item / 1000) * state.fontSize * state.horizontalScale;
+              } else {
+                showText(item);
+              }
+            }
+          }
+          break;
+        }
+        case "Do": {
+          const name = operands[0];
+          const xobject = isName(name) ? doc.get(xobjects, name.value) : undefined;
+          if (isStream(xobject) && isName(doc.get(xobject.dict, "Subtype"), "Image")) {
+            imageCount += 1;
+          }
+          if (
+            isStream(xobject) &&
+            isName(doc.get(xobject.dict, "Subtype"), "Form") &&
+            depth < MAX_FORM_DEPTH &&
+            !visitedForms.has(xobject)
+          ) {
+            visitedForms.add(xobject);
+            const formData = doc.decodeStream(xobject);
+            if (formData) {
+              run(formData, doc.getDict(xobject.dict, "Resources") ?? res, depth + 1);
+            }
+          }
+          break;
+        }
+        case "ID": {
+          // Inline image data is binary; skip to the EI that ends it.
+          imageCount += 1;
+          const rest = data.subarray(lexer.pos);
+          const end = rest.toString("latin1").search(/\sEI(\s|$)/);
+          lexer.pos = end === -1 ? data.length : lexer.pos + end + 3;
+          break;
+        }
+        default:
+          break;
+      }
+
+      operands.length = 0;
+    }
+  };
+
+  run(content, resources, 0);
+
+  return {
+    text: collector.toString(),
+    missingUnicodeFonts,
+    imageCount,
+    lines: collector.positionedLines()
+  };
+}
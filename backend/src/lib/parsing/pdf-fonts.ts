@@ -0,0 +1,303 @@
+import { isDict, isName, isStream, type PdfDict, type PdfDocument, type PdfValue } from "@/lib/parsing/pdf-objects";
+
+interface CodespaceRange {
+  bytes: number;
+  low: number;
+  high: number;
+}
+
+export interface ToUnicodeCMap {
+  codespace: CodespaceRange[];
+  mappings: Map<string, string>;
+}
+
+export interface PdfGlyph {
+  code: number;
+  byteLength: number;
+  text: string;
+  /** Advance width in thousandths of an em. */
+  width: number;
+}
+
+export interface PdfFont {
+  /** True when glyph codes map to Unicode through ToUnicode or a known encoding. */
+  hasUnicode: boolean;
+  glyphs(bytes: Buffer): PdfGlyph[];
+}
+
+const DEFAULT_SIMPLE_WIDTH = 500;
+const DEFAULT_CID_WIDTH = 1000;
+
+function hexToNumber(hex: string): number {
+  return hex.length === 0 ? 0 : parseInt(hex, 16);
+}
+
+function utf16HexToString(hex: string): string {
+  const padded = hex.length % 4 === 0 ? hex : hex.padEnd(hex.length + (4 - (hex.length % 4)), "0");
+  const units: number[] = [];
+  for (let i = 0; i < padded.length; i += 4) {
+    units.push(parseInt(padded.slice(i, i + 4), 16));
+  }
+  return String.fromCharCode(...units);
+}
+
+function mappingKey(bytes: number, code: number): string {
+  return `${bytes}:${code}`;
+}
+
+/** Parses the bfchar / bfrange / codespacerange sections of a ToUnicode CMap. */
+export function parseToUnicodeCMap(source: string): ToUnicodeCMap {
+  const codespace: CodespaceRange[] = [];
+  const mappings = new Map<string, string>();
+
+  for (const block of source.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    for (const range of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      codespace.push({
+        bytes: Math.ceil(range[1].length / 2),
+        low: hexToNumber(range[1]),
+        high: hexToNumber(range[2])
+      });
+    }
+  }
+
+  for (const block of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      mappings.set(mappingKey(Math.ceil(entry[1].length / 2), hexToNumber(entry[1])), utf16HexToString(entry[2]));
+    }
+  }
+
+  for (const block of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const bytes = Math.ceil(entry[1].length / 2);
+      const low = hexToNumber(entry[1]);
+      const high = Math.min(hexToNumber(entry[2]), low + 0xffff);
+      const target = entry[3];
+
+      if (target.startsWith("[")) {
+        const items = Array.from(target.matchAll(/<([0-9a-fA-F]*)>/g), (item) => item[1]);
+        items.forEach((hex, index) => {
+          if (low + index <= high) {
+            mappings.set(mappingKey(bytes, low + index), utf16HexToString(hex));
+          }
+        });
+        continue;
+      }
+
+      const base = target.slice(1, -1);
+      const prefix = utf16HexToString(base).slice(0, -1);
+      const lastUnit = base.length >= 4 ? parseInt(base.slice(-4), 16) : hexToNumber(base);
+      for (let code = low; code <= high; code += 1) {
+        mappings.set(mappingKey(bytes, code), prefix + String.fromCharCode(lastUnit + (code - low)));
+      }
+    }
+  }
+
+  return { codespace, mappings };
+}
+
+function splitCodes(cmap: ToUnicodeCMap | null, bytes: Buffer, defaultByteLength: number): Array<{ code: number; byteLength: number }> {
+  const codespace = cmap?.codespace ?? [];
+  const lengths = codespace.length > 0
+    ? Array.from(new Set(codespace.map((range) => range.bytes))).sort((a, b) => a - b)
+    : [defaultByteLength];
+  const codes: Array<{ code: number; byteLength: number }> = [];
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    let matched = false;
+    for (const length of lengths) {
+      if (pos + length > bytes.length) {
+        continue;
+      }
+      const code = bytes.readUIntBE(pos, length);
+      const inRange = codespace.length === 0 ||
+        codespace.some((range) => range.bytes === length && code >= range.low && code <= range.high);
+      if (!inRange) {
+        continue;
+      }
+      codes.push({ code, byteLength: length });
+      pos += length;
+      matched = true;
+      break;
+    }
+    if (!matched) {
+      codes.push({ code: bytes[pos], byteLength: 1 });
+      pos += 1;
+    }
+  }
+
+  return codes;
+}
+
+// Adobe glyph names that show up in /Differences arrays of RFP-style documents.
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ", exclam: "!", quotedbl: "\"", numbersign: "#", dollar: "$", percent: "%", ampersand: "&",
+  quotesingle: "'", quoteright: "’", quoteleft: "‘", quotedblleft: "“", quotedblright: "”",
+  parenleft: "(", parenright: ")", asterisk: "*", plus: "+", comma: ",", hyphen: "-", minus: "-", period: ".",
+  slash: "/", colon: ":", semicolon: ";", less: "<", equal: "=", greater: ">", question: "?", at: "@",
+  bracketleft: "[", backslash: "\\", bracketright: "]", underscore: "_", braceleft: "{", bar: "|", braceright: "}",
+  endash: "–", emdash: "—", bullet: "•", ellipsis: "…", fi: "fi", fl: "fl", ff: "ff",
+  ffi: "ffi", ffl: "ffl", trademark: "™", copyright: "©", registered: "®", degree: "°",
+  zero: "0", one: "1", two: "2", three: "3", four: "4", five: "5", six: "6", seven: "7", eight: "8", nine: "9"
+};
+
+function glyphNameToUnicode(name: string): string | undefined {
+  if (GLYPH_NAMES[name] !== undefined) {
+    return GLYPH_NAMES[name];
+  }
+  if (/^[A-Za-z]$/.test(name)) {
+    return name;
+  }
+  const uni = /^uni([0-9A-Fa-f]{4})+$/.exec(name);
+  if (uni) {
+    return utf16HexToString(name.slice(3));
+  }
+  const u = /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (u) {
+    return String.fromCodePoint(parseInt(u[1], 16));
+  }
+  return undefined;
+}
+
+const windows1252 = new TextDecoder("windows-1252");
+
+function simpleEncodingTable(doc: PdfDocument, font: PdfDict): string[] {
+  const table = Array.from({ length: 256 }, (_, code) => windows1252.decode(Uint8Array.of(code)));
+  const encoding = doc.get(font, "Encoding");
+  if (!isDict(encoding)) {
+    return table;
+  }
+
+  const differences = doc.get(encoding, "Differences");
+  if (!Array.isArray(differences)) {
+    return table;
+  }
+
+  let code = 0;
+  for (const item of differences) {
+    if (typeof item === "number") {
+      code = item;
+    } else if (isName(item)) {
+      const mapped = glyphNameToUnicode(item.value);
+      if (mapped !== undefined && code < 256) {
+        table[code] = mapped;
+      }
+      code += 1;
+    }
+  }
+  return table;
+}
+
+function simpleWidths(doc: PdfDocument, font: PdfDict): (code: number) => number {
+  const firstChar = doc.get(font, "FirstChar");
+  const widths = doc.get(font, "Widths");
+  const descriptor = doc.getDict(font, "FontDescriptor");
+  const missing = doc.get(descriptor, "MissingWidth");
+  const fallback = typeof missing === "number" && missing > 0 ? missing : DEFAULT_SIMPLE_WIDTH;
+
+  if (typeof firstChar !== "number" || !Array.isArray(widths)) {
+    return () => fallback;
+  }
+
+  return (code) => {
+    const width = doc.resolve(widths[code - firstChar]);
+    return typeof width === "number" ? width : fallback;
+  };
+}
+
+/** Reads the CIDFont /W array: `c [w1 w2 ...]` and `cFirst cLast w` entries. */
+function cidWidths(doc: PdfDocument, font: PdfDict): (code: number) => number {
+  const descendants = doc.get(font, "DescendantFonts");
+  const cidFont = Array.isArray(descendants) ? doc.resolve(descendants[0]) : undefined;
+  if (!isDict(cidFont)) {
+    return () => DEFAULT_CID_WIDTH;
+  }
+
+  const dw = doc.get(cidFont, "DW");
+  const fallback = typeof dw === "number" ? dw : DEFAULT_CID_WIDTH;
+  const table = new Map<number, number>();
+  const w = doc.get(cidFont, "W");
+
+  if (Array.isArray(w)) {
+    let i = 0;
+    while (i < w.length) {
+      const first = doc.resolve(w[i]);
+      const next = doc.resolve(w[i + 1]);
+      if (typeof first !== "number") {
+        break;
+      }
+      if (Array.isArray(next)) {
+        next.forEach((value, offset) => {
+          const width = doc.resolve(value);
+          if (typeof width === "number") {
+            table.set(first + offset, width);
+          }
+        });
+        i += 2;
+      } else {
+        const width = doc.resolve(w[i + 2]);
+        if (typeof next === "number" && typeof width === "number" && next - first <= 0xffff) {
+          for (let code = first; code <= next; code += 1) {
+            table.set(code, width);
+          }
+        }
+        i += 3;
+      }
+    }
+  }
+
+  return (code) => table.get(code) ?? fallback;
+}
+
+export function loadPdfFont(doc: PdfDocument, value: PdfValue | undefined): PdfFont {
+  const font = doc.resolve(value);
+  if (!isDict(font)) {
+    return {
+      hasUnicode: false,
+      glyphs: (bytes) =>
+        Array.from(bytes, (code) => ({ code, byteLength: 1, text: String.fromCharCode(code), width: DEFAULT_SIMPLE_WIDTH }))
+    };
+  }
+
+  const composite = isName(doc.get(font, "Subtype"), "Type0");
+  const widthOf = composite ? cidWidths(doc, font) : simpleWidths(doc, font);
+
+  let cmap: ToUnicodeCMap | null = null;
+  const toUnicode = doc.get(font, "ToUnicode");
+  if (isStream(toUnicode)) {
+    const data = doc.decodeStream(toUnicode);
+    if (data) {
+      const parsed = parseToUnicodeCMap(data.toString("latin1"));
+      cmap = parsed.mappings.size > 0 ? parsed : null;
+    }
+  }
+
+  if (cmap) {
+    const mappings = cmap.mappings;
+    return {
+      hasUnicode: true,
+      glyphs: (bytes) =>
+        splitCodes(cmap, bytes, composite ? 2 : 1).map(({ code, byteLength }) => ({
+          code,
+          byteLength,
+          text: mappings.get(mappingKey(byteLength, code)) ?? "",
+          width: widthOf(code)
+        }))
+    };
+  }
+
+  if (composite) {
+    // Identity-encoded CID fonts without ToUnicode carry glyph ids, not characters.
+    return {
+      hasUnicode: false,
+      glyphs: (bytes) =>
+        splitCodes(null, bytes, 2).map(({ code, byteLength }) => ({ code, byteLength, text: "", width: widthOf(code) }))
+    };
+  }
+
+  const table = simpleEncodingTable(doc, font);
+  return {
+    hasUnicode: true,
+    glyphs: (bytes) => Array.from(bytes, (code) => ({ code, byteLength: 1, text: table[code], width: widthOf(code) }))
+  };
+}
@@ -0,0 +1,588 @@
+import zlib from "node:zlib";
+
+export interface PdfName {
+  kind: "name";
+  value: string;
+}
+
+export interface PdfString {
+  kind: "string";
+  bytes: Buffer;
+}
+
+export interface PdfRef {
+  kind: "ref";
+  num: number;
+  gen: number;
+}
+
+export interface PdfDict {
+  kind: "dict";
+  entries: Map<string, PdfValue>;
+}
+
+export interface PdfStream {
+  kind: "stream";
+  dict: PdfDict;
+  raw: Buffer;
+}
+
+export interface PdfOperator {
+  kind: "op";
+  value: string;
+}
+
+export type PdfValue = null | boolean | number | PdfName | PdfString | PdfRef | PdfDict | PdfStream | PdfValue[];
+
+export type PdfToken = PdfValue | PdfOperator;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+function isRegular(byte: number): boolean {
+  return !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+}
+
+function hexValue(byte: number): number {
+  if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+  if (byte >= 0x41 && byte <= 0x46) return byte - 0x37;
+  if (byte >= 0x61 && byte <= 0x66) return byte - 0x57;
+  return -1;
+}
+
+export function isName(value: PdfValue | undefined, name?: string): value is PdfName {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "name" && (name === undefined || value.value === name);
+}
+
+export function isDict(value: PdfValue | undefined): value is PdfDict {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "dict";
+}
+
+export function isStream(value: PdfValue | undefined): value is PdfStream {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "stream";
+}
+
+export function isRef(value: PdfValue | undefined): value is PdfRef {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "ref";
+}
+
+export function isPdfString(value: PdfValue | undefined): value is PdfString {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "string";
+}
+
+/**
+ * Tokenizer shared by the object layer and the content-stream interpreter. Bare
+ * keywords (content operators, `obj`, `stream`, ...) come back as PdfOperator.
+ */
+export class PdfLexer {
+  public pos: number;
+
+  constructor(
+    private readonly data: Buffer,
+    start = 0
+  ) {
+    this.pos = start;
+  }
+
+  get length(): number {
+    return this.data.length;
+  }
+
+  skipWhitespace(): void {
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos += 1;
+      } else if (byte === 0x25) {
+        while (this.pos < this.data.length && this.data[this.pos] !== 0x0a && this.data[this.pos] !== 0x0d) {
+          this.pos += 1;
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  /** Returns the next token, or undefined at end of input. */
+  next(): PdfToken | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.data.length) {
+      return undefined;
+    }
+
+    const byte = this.data[this.pos];
+
+    if (byte === 0x2f) {
+      return this.readName();
+    }
+    if (byte === 0x28) {
+      return this.readLiteralString();
+    }
+    if (byte === 0x3c) {
+      if (this.data[this.pos + 1] === 0x3c) {
+        this.pos += 2;
+        return this.readDict();
+      }
+      return this.readHexString();
+    }
+    if (byte === 0x5b) {
+      this.pos += 1;
+      return this.readArray();
+    }
+    if (byte === 0x5d || byte === 0x3e || byte === 0x7b || byte === 0x7d || byte === 0x29) {
+      // Stray closing delimiter: surface as an operator so callers can stop.
+      this.pos += byte === 0x3e && this.data[this.pos + 1] === 0x3e ? 2 : 1;
+      return { kind: "op", value: byte === 0x3e ? ">>" : String.fromCharCode(byte) };
+    }
+
+    const start = this.pos;
+    while (this.pos < this.data.length && isRegular(this.data[this.pos])) {
+      this.pos += 1;
+    }
+    if (this.pos === start) {
+      this.pos += 1;
+      return { kind: "op", value: String.fromCharCode(byte) };
+    }
+
+    const word = this.data.toString("latin1", start, this.pos);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return Number(word);
+    }
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    return { kind: "op", value: word };
+  }
+
+  /** Reads a value, folding `num gen R` into a reference. */
+  readValue(): PdfToken | undefined {
+    const token = this.next();
+    if (typeof token !== "number" || !Number.isInteger(token) || token < 0) {
+      return token;
+    }
+
+    const save = this.pos;
+    const gen = this.next();
+    if (typeof gen === "number" && Number.isInteger(gen) && gen >= 0) {
+      const keyword = this.next();
+      if (typeof keyword === "object" && keyword !== null && !Array.isArray(keyword) && keyword.kind === "op" && keyword.value === "R") {
+        return { kind: "ref", num: token, gen };
+      }
+    }
+    this.pos = save;
+    return token;
+  }
+
+  private readName(): PdfName {
+    this.pos += 1;
+    const bytes: number[] = [];
+    while (this.pos < this.data.length && isRegular(this.data[this.pos])) {
+      const byte = this.data[this.pos];
+      if (byte === 0x23) {
+        const hi = hexValue(this.data[this.pos + 1]);
+        const lo = hexValue(this.data[this.pos + 2]);
+        if (hi >= 0 && lo >= 0) {
+          bytes.push(hi * 16 + lo);
+          this.pos += 3;
+          continue;
+        }
+      }
+      bytes.push(byte);
+      this.pos += 1;
+    }
+    return { kind: "name", value: Buffer.from(bytes).toString("latin1") };
+  }
+
+  private readLiteralString(): PdfString {
+    this.pos += 1;
+    const bytes: number[] = [];
+    let depth = 1;
+
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos];
+      this.pos += 1;
+
+      if (byte === 0x5c) {
+        const escaped = this.data[this.pos];
+        this.pos += 1;
+        switch (escaped) {
+          case 0x6e: bytes.push(0x0a); break;
+          case 0x72: bytes.push(0x0d); break;
+          case 0x74: bytes.push(0x09); break;
+          case 0x62: bytes.push(0x08); break;
+          case 0x66: bytes.push(0x0c); break;
+          case 0x0d:
+            if (this.data[this.pos] === 0x0a) this.pos += 1;
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (escaped >= 0x30 && escaped <= 0x37) {
+              let octal = escaped - 0x30;
+              for (let i = 0; i < 2; i += 1) {
+                const digit = this.data[this.pos];
+                if (digit >= 0x30 && digit <= 0x37) {
+                  octal = octal * 8 + (digit - 0x30);
+                  this.pos += 1;
+                } else {
+                  break;
+                }
+              }
+              bytes.push(octal & 0xff);
+            } else if (escaped !== undefined) {
+              bytes.push(escaped);
+            }
+        }
+        continue;
+      }
+
+      if (byte === 0x28) {
+        depth += 1;
+      } else if (byte === 0x29) {
+        depth -= 1;
+        if (depth === 0) {
+          break;
+        }
+      }
+      bytes.push(byte);
+    }
+
+    return { kind: "string", bytes: Buffer.from(bytes) };
+  }
+
+  private readHexString(): PdfString {
+    this.pos += 1;
+    const nibbles: number[] = [];
+    while (this.pos < this.data.length && this.data[this.pos] !== 0x3e) {
+      const value = hexValue(this.data[this.pos]);
+      if (value >= 0) {
+        nibbles.push(value);
+      }
+      this.pos += 1;
+    }
+    this.pos += 1;
+    if (nibbles.length % 2 === 1) {
+      nibbles.push(0);
+    }
+    const bytes = Buffer.alloc(nibbles.length / 2);
+    for (let i = 0; i < bytes.length; i += 1) {
+      bytes[i] = nibbles[i * 2] * 16 + nibbles[i * 2 + 1];
+    }
+    return { kind: "string", bytes };
+  }
+
+  private readArray(): PdfValue[] {
+    const items: PdfValue[] = [];
+    while (this.pos < this.data.length) {
+      const token = this.readValue();
+      if (token === undefined) {
+        break;
+      }
+      if (isOperator(token)) {
+        if (token.value === "]") {
+          break;
+        }
+        continue;
+      }
+      items.push(token);
+    }
+    return items;
+  }
+
+  private readDict(): PdfDict {
+    const entries = new Map<string, PdfValue>();
+    while (this.pos < this.data.length) {
+      const key = this.next();
+      if (key === undefined || (isOperator(key) && key.value === ">>")) {
+        break;
+      }
+      if (!isName(key as PdfValue)) {
+        continue;
+      }
+      const value = this.readValue();
+      if (value === undefined) {
+        break;
+      }
+      if (isOperator(value)) {
+        if (value.value === ">>") {
+          break;
+        }
+        continue;
+      }
+      entries.set((key as PdfName).value, value);
+    }
+    return { kind: "dict", entries };
+  }
+}
+
+export function isOperator(token: PdfToken | undefined): token is PdfOperator {
+  return typeof token === "object" && token !== null && !Array.isArray(token) && token.kind === "op";
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// A few kilobytes of Flate data can expand to gigabytes; no real content stream comes close.
+const MAX_STREAM_BYTES = 64 * 1024 * 1024;
+const MAX_DOCUMENT_DECODED_BYTES = 256 * 1024 * 1024;
+
+function isOutputLimit(error: unknown): boolean {
+  return error instanceof RangeError && (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE";
+}
+
+function inflate(data: Buffer, maxOutputLength: number): Buffer {
+  try {
+    return zlib.inflateSync(data, { maxOutputLength });
+  } catch (error) {
+    if (isOutputLimit(error)) {
+      throw error;
+    }
+    // Truncated or slightly corrupt streams are common; keep whatever inflates.
+    return zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength });
+  }
+}
+
+function asciiHexDecode(data: Buffer): Buffer {
+  const text = data.toString("latin1").replace(/>.*$/s, "").replace(/[^0-9a-fA-F]/g, "");
+  return Buffer.from(text.length % 2 === 1 ? `${text}0` : text, "hex");
+}
+
+function ascii85Decode(data: Buffer): Buffer {
+  const text = data.toString("latin1").replace(/^<~/, "").replace(/~>.*$/s, "").replace(/\s+/g, "");
+  const out: number[] = [];
+  let group: number[] = [];
+
+  const flush = (chars: number[], count: number) => {
+    let value = 0;
+    for (const char of chars) {
+      value = value * 85 + (char - 33);
+    }
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    out.push(...bytes.slice(0, count));
+  };
+
+  for (const char of text) {
+    if (char === "z" && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0));
+    if (group.length === 5) {
+      flush(group, 4);
+      group = [];
+    }
+  }
+
+  if (group.length > 0) {
+    const count = group.length - 1;
+    while (group.length < 5) group.push(117);
+    flush(group, count);
+  }
+
+  return Buffer.from(out);
+}
+
+/**
+ * Index of every indirect object in a PDF file, including objects packed into
+ * object streams. Objects are located by scanning for `N G obj` rather than by
+ * trusting the xref table, which is often stale after incremental saves.
+ */
+export class PdfDocument {
+  private readonly objects = new Map<number, PdfValue>();
+  private readonly decodedStreams = new WeakMap<PdfStream, Buffer | null>();
+  private decodedBytes = 0;
+  public readonly unsupportedFilters = new Set<string>();
+  /** Streams left undecoded because they expand beyond the per-stream or per-document limit. */
+  public oversizedStreams = 0;
+
+  constructor(private readonly bytes: Buffer) {
+    this.indexObjects();
+    this.indexObjectStreams();
+  }
+
+  get objectCount(): number {
+    return this.objects.size;
+  }
+
+  get encrypted(): boolean {
+    for (const value of this.objects.values()) {
+      if (isDict(value) && isName(value.entries.get("Type"), "XRef") && value.entries.has("Encrypt")) {
+        return true;
+      }
+      if (isStream(value) && isName(value.dict.entries.get("Type"), "XRef") && value.dict.entries.has("Encrypt")) {
+        return true;
+      }
+    }
+    return /trailer[\s\S]*?\/Encrypt\b/.test(this.bytes.toString("latin1"));
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (isRef(value) && depth < 16) {
+      return this.resolve(this.objects.get(value.num), depth + 1);
+    }
+    return value;
+  }
+
+  get(dict: PdfDict | undefined, key: string): PdfValue | undefined {
+    return dict ? this.resolve(dict.entries.get(key)) : undefined;
+  }
+
+  getDict(dict: PdfDict | undefined, key: string): PdfDict | undefined {
+    const value = this.get(dict, key);
+    if (isDict(value)) return value;
+    if (isStream(value)) return value.dict;
+    return undefined;
+  }
+
+  allObjects(): IterableIterator<PdfValue> {
+    return this.objects.values();
+  }
+
+  /** Decoded stream bytes, or null when a filter is not supported (e.g. images) or the output is too large. */
+  decodeStream(stream: PdfStream): Buffer | null {
+    if (this.decodedStreams.has(stream)) {
+      return this.decodedStreams.get(stream) ?? null;
+    }
+
+    let data: Buffer | null = stream.raw;
+    const filters = asArray(this.resolve(stream.dict.entries.get("Filter")) as PdfValue | PdfValue[] | undefined);
+    const maxOutputLength = Math.max(Math.min(MAX_STREAM_BYTES, MAX_DOCUMENT_DECODED_BYTES - this.decodedBytes), 1);
+
+    for (const filter of filters) {
+      if (!data || !isName(filter)) {
+        break;
+      }
+      try {
+        switch (filter.value) {
+          case "FlateDecode":
+          case "Fl":
+            data = inflate(data, maxOutputLength);
+            break;
+          case "ASCIIHexDecode":
+          case "AHx":
+            data = asciiHexDecode(data);
+            break;
+          case "ASCII85Decode":
+          case "A85":
+            data = ascii85Decode(data);
+            break;
+          default:
+            this.unsupportedFilters.add(filter.value);
+            data = null;
+        }
+      } catch (error) {
+        if (isOutputLimit(error)) {
+          this.oversizedStreams += 1;
+        }
+        data = null;
+      }
+    }
+
+    if (data && this.decodedBytes + data.length > MAX_DOCUMENT_DECODED_BYTES) {
+      this.oversizedStreams += 1;
+      data = null;
+    }
+    this.decodedBytes += data?.length ?? 0;
+    this.decodedStreams.set(stream, data);
+    return data;
+  }
+
+  private indexObjects(): void {
+    const text = this.bytes.toString("latin1");
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(text)) !== null) {
+      const num = Number(match[1]);
+      const lexer = new PdfLexer(this.bytes, match.index + match[0].length);
+
+      try {
+        const value = lexer.readValue();
+        if (value === undefined || isOperator(value)) {
+          continue;
+        }
+
+        const save = lexer.pos;
+        const keyword = lexer.next();
+        if (isDict(value) && isOperator(keyword) && keyword.value === "stream") {
+          const stream = this.readStream(value, lexer.pos, text);
+          this.objects.set(num, stream.value);
+          header.lastIndex = Math.max(header.lastIndex, stream.end);
+        } else {
+          lexer.pos = save;
+          this.objects.set(num, value);
+        }
+      } catch {
+        // Skip objects we cannot tokenize; the rest of the file is still usable.
+      }
+    }
+  }
+
+  private readStream(dict: PdfDict, afterKeyword: number, text: string): { value: PdfStream; end: number } {
+    let start = afterKeyword;
+    if (this.bytes[start] === 0x0d) start += 1;
+    if (this.bytes[start] === 0x0a) start += 1;
+
+    const declaredLength = this.resolve(dict.entries.get("Length"));
+    if (typeof declaredLength === "number" && declaredLength >= 0 && start + declaredLength <= this.bytes.length) {
+      const tail = text.slice(start + declaredLength, start + declaredLength + 32);
+      if (/^\s*endstream/.test(tail)) {
+        return {
+          value: { kind: "stream", dict, raw: this.bytes.subarray(start, start + declaredLength) },
+          end: start + declaredLength
+        };
+      }
+    }
+
+    const endIndex = text.indexOf("endstream", start);
+    let end = endIndex === -1 ? this.bytes.length : endIndex;
+    if (this.bytes[end - 1] === 0x0a) end -= 1;
+    if (this.bytes[end - 1] === 0x0d) end -= 1;
+    return {
+      value: { kind: "stream", dict, raw: this.bytes.subarray(start, Math.max(start, end)) },
+      end: Math.max(start, end)
+    };
+  }
+
+  private indexObjectStreams(): void {
+    const containers = Array.from(this.objects.values()).filter(
+      (value): value is PdfStream => isStream(value) && isName(value.dict.entries.get("Type"), "ObjStm")
+    );
+
+    for (const container of containers) {
+      const data = this.decodeStream(container);
+      const count = this.resolve(container.dict.entries.get("N"));
+      const first = this.resolve(container.dict.entries.get("First"));
+      if (!data || typeof count !== "number" || typeof first !== "number") {
+        continue;
+      }
+
+      const headerLexer = new PdfLexer(data);
+      const offsets: Array<{ num: number; offset: number }> = [];
+      for (let i = 0; i < count; i += 1) {
+        const num = headerLexer.next();
+        const offset = headerLexer.next();
+        if (typeof num !== "number" || typeof offset !== "number") {
+          break;
+        }
+        offsets.push({ num, offset });
+      }
+
+      for (const { num, offset } of offsets) {
+        if (this.objects.has(num)) {
+          continue;
+        }
+        try {
+          const value = new PdfLexer(data, first + offset).readValue();
+          if (value !== undefined && !isOperator(value)) {
+            this.objects.set(num, value);
+          }
+        } catch {
+          // Ignore individual compressed objects that fail to parse.
+        }
+      }
+    }
+  }
+}
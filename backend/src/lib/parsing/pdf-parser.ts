@@ -1,12 +1,43 @@
 import { makeError } from "@/lib/api/errors";
+import { extractContentText } from "@/lib/parsing/pdf-content";
+import { isDict, isName, isStream, PdfDocument, type PdfDict, type PdfValue } from "@/lib/parsing/pdf-objects";
+import { tablesFromAlignedLines, type ExtractedTable } from "@/lib/parsing/table-extraction";
+
+export interface PdfPageText {
+  page: number;
+  text: string;
+  charStart: number;
+  charEnd: number;
+}
 
 export interface PdfParseResult {
   text: string;
   pageCount: number;
+  pages: PdfPageText[];
   warnings: string[];
   needsOcr: boolean;
+  /**
+   * Pages that look scanned and should be OCR'd on their own; empty when page layout is
+   * unknown, in which case `needsOcr` asks for the whole document.
+   */
+  ocrPages: number[];
+  /** Tables recovered from column-aligned text on each page. */
+  tables: ExtractedTable[];
 }
 
+type DecodedPdf = Omit<PdfParseResult, "needsOcr" | "ocrPages"> & {
+  /** Pages that paint at least one image. */
+  imagePages: Set<number>;
+};
+
+const PAGE_SEPARATOR = "\n\n";
+// A scanned page often still has a text layer line (a page number, a stamp); below this
+// many non-space characters the page is treated as an image of text.
+const LOW_TEXT_PAGE_CHARS = 100;
+const LOW_TEXT_DOCUMENT_CHARS = 500;
+const MAX_PAGE_TREE_DEPTH = 32;
+const IMAGE_FILTERS = new Set(["DCTDecode", "DCT", "JPXDecode", "CCITTFaxDecode", "CCF", "JBIG2Decode"]);
+
 const printableChunkRegex = /[\u0600-\u06FFA-Za-z0-9][\u0600-\u06FFA-Za-z0-9\s,.;:%()\-_/]{2,}/g;
 
 function extractPrintableText(raw: string): string {
@@ -18,6 +49,199 @@ function extractPrintableText(raw: string): string {
   return Array.from(new Set(cleaned)).join("\n");
 }
 
+interface PageNode {
+  dict: PdfDict;
+  resources: PdfDict | undefined;
+}
+
+function collectPages(doc: PdfDocument): PageNode[] {
+  const pages: PageNode[] = [];
+  const seen = new Set<PdfDict>();
+
+  const walk = (node: PdfValue | undefined, inherited: PdfDict | undefined, depth: number) => {
+    const dict = doc.resolve(node);
+    if (!isDict(dict) || seen.has(dict) || depth > MAX_PAGE_TREE_DEPTH) {
+      return;
+    }
+    seen.add(dict);
+
+    const resources = doc.getDict(dict, "Resources") ?? inherited;
+    const kids = doc.get(dict, "Kids");
+    if (Array.isArray(kids)) {
+      for (const kid of kids) {
+        walk(kid, resources, depth + 1);
+      }
+      return;
+    }
+    if (isName(doc.get(dict, "Type"), "Page") || dict.entries.has("Contents")) {
+      pages.push({ dict, resources });
+    }
+  };
+
+  // Incremental saves can leave older catalogs behind; the last one wins.
+  let catalog: PdfDict | undefined;
+  for (const value of doc.allObjects()) {
+    if (isDict(value) && isName(value.entries.get("Type"), "Catalog")) {
+      catalog = value;
+    }
+  }
+  if (catalog) {
+    walk(catalog.entries.get("Pages"), undefined, 0);
+  }
+
+  if (pages.length > 0) {
+    return pages;
+  }
+
+  // No usable page tree (damaged or minimal files): fall back to file order.
+  for (const value of doc.allObjects()) {
+    if (isDict(value) && isName(value.entries.get("Type"), "Page")) {
+      pages.push({ dict: value, resources: doc.getDict(value, "Resources") });
+    }
+  }
+  return pages;
+}
+
+function pageContent(doc: PdfDocument, page: PdfDict): Buffer {
+  const contents = doc.get(page, "Contents");
+  const parts = Array.isArray(contents) ? contents.map((item) => doc.resolve(item)) : [contents];
+  const buffers: Buffer[] = [];
+
+  for (const part of parts) {
+    if (isStream(part)) {
+      const decoded = doc.decodeStream(part);
+      if (decoded) {
+        buffers.push(decoded, Buffer.from("\n"));
+      }
+    }
+  }
+
+  return Buffer.concat(buffers);
+}
+
+/** Joins page texts with blank lines, recording where each page starts and ends. */
+export function layoutPages(pageTexts: string[]): { text: string; pages: PdfPageText[] } {
+  const pages: PdfPageText[] = [];
+  let text = "";
+
+  pageTexts.forEach((pageText, index) => {
+    if (index > 0) {
+      text += PAGE_SEPARATOR;
+    }
+    const charStart = text.length;
+    text += pageText;
+    pages.push({ page: index + 1, text: pageText, charStart, charEnd: text.length });
+  });
+
+  return { text, pages };
+}
+
+function legacyScan(raw: string, warnings: string[], reason: string): DecodedPdf {
+  warnings.push(`${reason}; used raw byte scan, page numbers unavailable.`);
+  return {
+    text: extractPrintableText(raw).trim(),
+    pageCount: Math.max((raw.match(/\/Type\s*\/Page\b/g) ?? []).length, 1),
+    pages: [],
+    warnings,
+    tables: [],
+    imagePages: new Set()
+  };
+}
+
+function decodePages(fileBytes: Buffer, raw: string): DecodedPdf {
+  const warnings: string[] = [];
+  let doc: PdfDocument;
+  try {
+    doc = new PdfDocument(fileBytes);
+  } catch {
+    return legacyScan(raw, warnings, "PDF object structure could not be read");
+  }
+
+  if (doc.encrypted) {
+    // Strings and streams are ciphertext; a byte scan would only return noise.
+    warnings.push("PDF is encrypted; its text cannot be read directly and the pages need OCR.");
+    return {
+      text: "",
+      pageCount: Math.max(collectPages(doc).length, 1),
+      pages: [],
+      warnings,
+      tables: [],
+      imagePages: new Set()
+    };
+  }
+
+  const pageNodes = collectPages(doc);
+  if (pageNodes.length === 0) {
+    return legacyScan(raw, warnings, "PDF page tree not found");
+  }
+
+  const missingUnicodeFonts = new Set<string>();
+  const imagePages = new Set<number>();
+  const tables: ExtractedTable[] = [];
+  const pageTexts = pageNodes.map((node, index) => {
+    try {
+      const result = extractContentText(doc, pageContent(doc, node.dict), node.resources);
+      result.missingUnicodeFonts.forEach((font) => missingUnicodeFonts.add(font));
+      if (result.imageCount > 0) {
+        imagePages.add(index + 1);
+      }
+      tables.push(...tablesFromAlignedLines(result.lines, index + 1));
+      return result.text;
+    } catch {
+      return "";
+    }
+  });
+
+  const { text, pages } = layoutPages(pageTexts);
+
+  if (missingUnicodeFonts.size > 0) {
+    warnings.push(
+      `PDF fonts without a Unicode mapping (${Array.from(missingUnicodeFonts).join(", ")}); some text could not be decoded.`
+    );
+  }
+
+  if (doc.oversizedStreams > 0) {
+    warnings.push(`PDF streams expand beyond the decoding limit (${doc.oversizedStreams}); their content was skipped.`);
+  }
+
+  const unsupported = Array.from(doc.unsupportedFilters).filter((filter) => !IMAGE_FILTERS.has(filter));
+  if (unsupported.length > 0) {
+    warnings.push(`PDF streams use unsupported filters: ${unsupported.join(", ")}.`);
+  }
+
+  const emptyPages = pages.filter((page) => page.text.trim().length === 0).map((page) => page.page);
+  if (emptyPages.length > 0 && emptyPages.length < pages.length) {
+    warnings.push(`PDF pages without extractable text: ${emptyPages.join(", ")}.`);
+  }
+
+  return {
+    text,
+    pageCount: pages.length,
+    pages,
+    warnings,
+    tables,
+    imagePages
+  };
+}
+
+/**
+ * Low-text pages that paint an image are scans. When the document has almost no text
+ * and no images were seen (text drawn as outlines, images inside unsupported streams),
+ * every low-text page is a candidate.
+ */
+function pagesNeedingOcr(pages: PdfPageText[], imagePages: Set<number>, textLength: number): number[] {
+  const lowText = pages.filter((page) => page.text.replace(/\s+/g, "").length < LOW_TEXT_PAGE_CHARS).map((page) => page.page);
+  if (imagePages.size === 0 && textLength < LOW_TEXT_DOCUMENT_CHARS) {
+    return lowText;
+  }
+  return lowText.filter((page) => imagePages.has(page));
+}
+
+/**
+ * Decodes PDF content streams page by page (Flate/ASCII filters, object streams,
+ * ToUnicode CMaps) and returns the text with exact per-page character offsets.
+ * Falls back to the old printable-byte scan when the file structure is unreadable.
+ */
 export function parsePdfBuffer(fileBytes: Buffer): PdfParseResult {
   const raw = fileBytes.toString("latin1");
 
@@ -27,24 +251,28 @@ export function parsePdfBuffer(fileBytes: Buffer): PdfParseResult {
     });
   }
 
-  const pageCount = Math.max((raw.match(/\/Type\s*\/Page\b/g) ?? []).length, 1);
-  const text = extractPrintableText(raw).trim();
-  const warnings: string[] = [];
-  let needsOcr = false;
+  const { text, pageCount, pages, warnings, tables, imagePages } = decodePages(fileBytes, raw);
+  const textLength = text.trim().length;
+  const ocrPages = pagesNeedingOcr(pages, imagePages, textLength);
+  const needsOcr = pages.length > 0 ? ocrPages.length > 0 : textLength < LOW_TEXT_DOCUMENT_CHARS;
 
-  if (text.length < 500) {
-    needsOcr = true;
+  if (needsOcr && (pages.length === 0 || ocrPages.length === pages.length)) {
     warnings.push("PDF text extraction appears limited; OCR fallback recommended.");
+  } else if (needsOcr) {
+    warnings.push(`PDF pages look scanned (${ocrPages.join(", ")}); OCR recommended for those pages.`);
   }
 
-  if (text.length === 0) {
+  if (text.trim().length === 0) {
     warnings.push("No direct text extracted from PDF content stream.");
   }
 
   return {
     text,
     pageCount,
+    pages,
     warnings,
-    needsOcr
+    needsOcr,
+    ocrPages,
+    tables
   };
 }
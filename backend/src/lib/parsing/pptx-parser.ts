@@ -0,0 +1,131 @@
+import { posix } from "node:path";
+import { makeError } from "@/lib/api/errors";
+import type { PageBoundary } from "@/lib/parsing/normalization";
+import { decodeXmlEntities, xmlElements } from "@/lib/parsing/xml-text";
+import { openZipArchive, type ZipArchive } from "@/lib/parsing/zip-archive";
+
+export interface PptxParseResult {
+  text: string;
+  /** One boundary per visible slide, numbered by its position in the deck. */
+  pages: PageBoundary[];
+  warnings: string[];
+}
+
+function readPart(archive: ZipArchive, path: string): string | null {
+  return archive.read(path)?.toString("utf8") ?? null;
+}
+
+/** Relationship id to package path, resolved against the directory of `partPath`. */
+function readRelationships(archive: ZipArchive, partPath: string): Map<string, { type: string; path: string }> {
+  const directory = posix.dirname(partPath);
+  const xml = readPart(archive, posix.join(directory, "_rels", `${posix.basename(partPath)}.rels`)) ?? "";
+  return new Map(
+    xmlElements(xml, "Relationship").map((relationship) => {
+      const target = relationship.attributes.Target ?? "";
+      const path = target.startsWith("/") ? target.slice(1) : posix.normalize(posix.join(directory, target));
+      return [relationship.attributes.Id, { type: relationship.attributes.Type ?? "", path }];
+    })
+  );
+}
+
+/** Text of one DrawingML paragraph: runs, fields and line breaks. */
+function paragraphText(paragraph: string): string {
+  return Array.from(paragraph.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g), (match) =>
+    match[1] === undefined ? "\n" : decodeXmlEntities(match[1])
+  ).join("");
+}
+
+function textBodyLines(xml: string): string[] {
+  return xmlElements(xml, "p")
+    .map((paragraph) => paragraphText(paragraph.inner).trim())
+    .filter(Boolean);
+}
+
+/**
+ * Shape text in document order; tables become pipe-separated rows so they read like
+ * the spreadsheet and PDF table text the extractor already handles.
+ */
+function slideLines(xml: string): string[] {
+  const lines: string[] = [];
+  let cursor = 0;
+  for (const table of xml.matchAll(/<a:tbl>([\s\S]*?)<\/a:tbl>/g)) {
+    lines.push(...textBodyLines(xml.slice(cursor, table.index)));
+    for (const row of xmlElements(table[1], "tr")) {
+      const cells = xmlElements(row.inner, "tc").map((cell) => textBodyLines(cell.inner).join(" "));
+      if (cells.some(Boolean)) {
+        lines.push(cells.join(" | "));
+      }
+    }
+    cursor = (table.index ?? 0) + table[0].length;
+  }
+  lines.push(...textBodyLines(xml.slice(cursor)));
+  return lines;
+}
+
+/** Speaker notes without the slide-number and slide-image placeholders PowerPoint adds. */
+function notesLines(xml: string): string[] {
+  return xmlElements(xml, "sp")
+    .filter((shape) => !/<p:ph\b[^>]*type="(?:sldNum|sldImg|hdr|ftr|dt)"/.test(shape.inner))
+    .flatMap((shape) => textBodyLines(shape.inner));
+}
+
+/**
+ * Reads the slides of a .pptx deck in presentation order. Each visible slide becomes
+ * one page holding its shape and table text followed by its speaker notes.
+ */
+export function parsePptxBuffer(fileBytes: Buffer): PptxParseResult {
+  const archive = openZipArchive(fileBytes);
+  const presentation = readPart(archive, "ppt/presentation.xml");
+  if (!presentation) {
+    throw makeError(400, "validation_error", "PPTX file has no presentation part", "parse-document", {
+      retryable: false
+    });
+  }
+
+  const slideTargets = readRelationships(archive, "ppt/presentation.xml");
+  const parts: string[] = [];
+  const pages: PageBoundary[] = [];
+  const hidden: number[] = [];
+  let offset = 0;
+
+  xmlElements(presentation, "sldId").forEach((slideId, index) => {
+    const slideNumber = index + 1;
+    const slidePath = slideTargets.get(slideId.attributes["r:id"] ?? "")?.path;
+    const slide = slidePath ? readPart(archive, slidePath) : null;
+    if (!slidePath || !slide) {
+      return;
+    }
+    if (/<p:sld\b[^>]*\sshow="(?:0|false)"/.test(slide)) {
+      hidden.push(slideNumber);
+      return;
+    }
+
+    const notesPath = Array.from(readRelationships(archive, slidePath).values()).find((relationship) =>
+      relationship.type.endsWith("/notesSlide")
+    )?.path;
+    const notes = notesPath ? notesLines(readPart(archive, notesPath) ?? "") : [];
+    const lines = [`Slide ${slideNumber}`, ...slideLines(slide)];
+    if (notes.length > 0) {
+      lines.push(`Notes: ${notes.join("\n")}`);
+    }
+
+    const separator = parts.length === 0 ? "" : "\n\n";
+    const text = lines.join("\n");
+    const charStart = offset + separator.length;
+    parts.push(separator, text);
+    pages.push({ page: slideNumber, charStart, charEnd: charStart + text.length });
+    offset = charStart + text.length;
+  });
+
+  const warnings: string[] = [];
+  if (hidden.length > 0) {
+    warnings.push(`PPTX hidden slides skipped: ${hidden.join(", ")}.`);
+  }
+  const text = parts.join("");
+  if (pages.length === 0 || text.replace(/^Slide \d+$/gm, "").trim().length === 0) {
+    throw makeError(400, "validation_error", "PPTX file contains no readable slide text", "parse-document", {
+      retryable: false
+    });
+  }
+  return { text, pages, warnings };
+}
@@ -0,0 +1,259 @@
+import { makeError } from "@/lib/api/errors";
+import { pageBoundariesFromBreaks, type PageBoundary } from "@/lib/parsing/normalization";
+
+export interface RtfParseResult {
+  text: string;
+  pages: PageBoundary[];
+  warnings: string[];
+}
+
+/** Destinations whose content is formatting, metadata or binary data rather than document text. */
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "info",
+  "pict",
+  "fldinst",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "xmlnstbl",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles"
+]);
+
+// \fcharset values (RTF 1.9.1) to the Windows code page their \'hh bytes are written in.
+const CHARSET_CODE_PAGES: Record<number, number> = {
+  0: 1252,
+  128: 932,
+  129: 949,
+  134: 936,
+  136: 950,
+  161: 1253,
+  162: 1254,
+  177: 1255,
+  178: 1256,
+  186: 1257,
+  204: 1251,
+  222: 874,
+  238: 1250
+};
+
+const SYMBOL_WORDS: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  sect: "\n",
+  tab: "\t",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+  emspace: " ",
+  enspace: " ",
+  qmspace: " "
+};
+
+interface GroupState {
+  skip: boolean;
+  font: number | null;
+  /** Characters that follow a \uN escape as its fallback for older readers (\ucN). */
+  unicodeSkip: number;
+}
+
+const DOUBLE_BYTE_ENCODINGS: Record<number, string> = { 932: "shift_jis", 936: "gbk", 949: "euc-kr", 950: "big5" };
+
+function decoderFor(codePage: number): TextDecoder {
+  try {
+    return new TextDecoder(DOUBLE_BYTE_ENCODINGS[codePage] ?? `windows-${codePage}`);
+  } catch {
+    return new TextDecoder("windows-1252");
+  }
+}
+
+/**
+ * Converts RTF to plain text: paragraphs and rows end in newlines, table cells are
+ * pipe-separated, and \page marks page breaks. Hex escapes are decoded in the code
+ * page of the current font's charset (falling back to \ansicpg), so Arabic documents
+ * saved by older Word versions read correctly.
+ */
+export function parseRtfBuffer(fileBytes: Buffer): RtfParseResult {
+  const source = fileBytes.toString("latin1");
+  if (!source.trimStart().startsWith("{\\rtf")) {
+    throw makeError(400, "validation_error", "RTF file does not start with an RTF header", "parse-document", {
+      retryable: false
+    });
+  }
+
+  const fontCharsets = new Map<number, number>();
+  const pageBreaks: number[] = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, font: null, unicodeSkip: 1 };
+  let defaultCodePage = 1252;
+  let inFontTable = false;
+  let definingFont: number | null = null;
+  let out = "";
+  let pendingBytes: number[] = [];
+  let fallbackToSkip = 0;
+  let groupJustOpened = false;
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) {
+      return;
+    }
+    const charset = state.font === null ? undefined : fontCharsets.get(state.font);
+    const codePage = charset === undefined || charset === 0 ? defaultCodePage : CHARSET_CODE_PAGES[charset] ?? defaultCodePage;
+    out += decoderFor(codePage).decode(Uint8Array.from(pendingBytes));
+    pendingBytes = [];
+  };
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) {
+      out += text;
+    }
+  };
+
+  for (let index = 0; index < source.length; ) {
+    const char = source[index];
+    const opensGroup = char === "{";
+
+    if (char === "{") {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      index += 1;
+    } else if (char === "}") {
+      flushBytes();
+      if (inFontTable && state.skip && stack[stack.length - 1] && !stack[stack.length - 1].skip) {
+        inFontTable = false;
+      }
+      state = stack.pop() ?? state;
+      index += 1;
+    } else if (char === "\\") {
+      const word = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(source.slice(index, index + 48));
+      if (word) {
+        index += word[0].length;
+        const name = word[1];
+        const parameter = word[2] === undefined ? null : Number(word[2]);
+
+        if (fallbackToSkip > 0 && name !== "u") {
+          // Fallback text is plain characters or \'hh escapes; any other control word ends it.
+          fallbackToSkip = 0;
+        }
+
+        if (groupJustOpened && SKIPPED_DESTINATIONS.has(name)) {
+          flushBytes();
+          state.skip = true;
+          if (name === "fonttbl") {
+            inFontTable = true;
+          }
+        } else if (name === "ansicpg" && parameter !== null) {
+          defaultCodePage = parameter;
+        } else if (name === "f" && parameter !== null) {
+          flushBytes();
+          if (inFontTable) {
+            definingFont = parameter;
+          } else {
+            state.font = parameter;
+          }
+        } else if (name === "fcharset" && parameter !== null && definingFont !== null) {
+          fontCharsets.set(definingFont, parameter);
+        } else if (name === "uc" && parameter !== null) {
+          state.unicodeSkip = parameter;
+        } else if (name === "u" && parameter !== null) {
+          emit(String.fromCharCode(parameter < 0 ? parameter + 65_536 : parameter));
+          fallbackToSkip = state.unicodeSkip;
+        } else if (name === "bin" && parameter !== null) {
+          index += parameter;
+        } else if (name === "cell" || name === "nestcell") {
+          emit(" | ");
+        } else if (name === "row" || name === "nestrow") {
+          flushBytes();
+          if (!state.skip) {
+            out = `${out.replace(/ \| $/, "")}\n`;
+          }
+        } else if (name === "page") {
+          emit("\n");
+          if (!state.skip) {
+            pageBreaks.push(out.length);
+          }
+        } else if (SYMBOL_WORDS[name] !== undefined) {
+          emit(SYMBOL_WORDS[name]);
+        }
+      } else {
+        const symbol = source[index + 1] ?? "";
+        if (symbol === "'") {
+          const byte = Number.parseInt(source.slice(index + 2, index + 4), 16);
+          index += 4;
+          if (fallbackToSkip > 0) {
+            fallbackToSkip -= 1;
+          } else if (!state.skip && Number.isFinite(byte)) {
+            pendingBytes.push(byte);
+          }
+          groupJustOpened = false;
+          continue;
+        }
+        index += 2;
+        if (symbol === "*" && groupJustOpened) {
+          state.skip = true;
+        } else if (symbol === "\\" || symbol === "{" || symbol === "}") {
+          emit(symbol);
+        } else if (symbol === "~") {
+          emit(" ");
+        } else if (symbol === "_") {
+          emit("-");
+        } else if (symbol === "\n" || symbol === "\r") {
+          emit("\n");
+        }
+        groupJustOpened = symbol === "*" && groupJustOpened;
+        continue;
+      }
+    } else if (char === "\n" || char === "\r") {
+      index += 1;
+      continue;
+    } else {
+      index += 1;
+      if (fallbackToSkip > 0) {
+        fallbackToSkip -= 1;
+      } else if (inFontTable && char === ";") {
+        definingFont = null;
+      } else {
+        emit(char);
+      }
+    }
+
+    groupJustOpened = opensGroup;
+  }
+  flushBytes();
+
+  const trimmed = out.trim();
+  if (trimmed.length === 0) {
+    throw makeError(400, "validation_error", "RTF file contains no readable text", "parse-document", {
+      retryable: false
+    });
+  }
+
+  const leadingTrim = out.length - out.trimStart().length;
+  return {
+    text: trimmed,
+    pages: pageBoundariesFromBreaks(
+      trimmed.length,
+      pageBreaks.map((offset) => offset - leadingTrim)
+    ),
+    warnings: []
+  };
+}
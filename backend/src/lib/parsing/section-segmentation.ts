@@ -0,0 +1,362 @@
+import { detectSections, type SectionSpan } from "@/lib/parsing/normalization";
+
+export type SectionType =
+  | "introduction"
+  | "scope_of_work"
+  | "evaluation_criteria"
+  | "important_dates"
+  | "submission_requirements"
+  | "commercial_terms"
+  | "eligibility"
+  | "contact"
+  | "appendix";
+
+/** A heading and everything under it, up to the next heading of the same or a higher level. */
+export interface OutlineNode {
+  title: string;
+  /** Heading number as written (`2.1`, `B`, `أولاً`); null for unnumbered headings. */
+  number: string | null;
+  /** 1 for top-level headings. */
+  level: number;
+  sectionType: SectionType | null;
+  /** Start of the heading line in rawText. */
+  startOffset: number;
+  /** End of the section, subsections included. */
+  endOffset: number;
+  children: OutlineNode[];
+}
+
+export interface SegmentationResult {
+  outline: OutlineNode[];
+  sections: SectionSpan[];
+}
+
+interface Heading {
+  startOffset: number;
+  /** End of the heading line; the section body starts after it. */
+  lineEnd: number;
+  title: string;
+  number: string | null;
+  level: number;
+  sectionType: SectionType | null;
+}
+
+type BuiltNode = Omit<OutlineNode, "children"> & { lineEnd: number; children: BuiltNode[] };
+
+// Checked in order against the heading title only, so broad words are safe here; the
+// first match wins ("Submission deadline" is a submission section, not a date list).
+const SECTION_TYPE_PATTERNS: Array<{ type: SectionType; patterns: RegExp[] }> = [
+  { type: "appendix", patterns: [/^(?:appendix|annex(?:ure)?|attachment)\b/i, /^(?:ال)?ملحق/, /^الملاحق/] },
+  {
+    type: "evaluation_criteria",
+    patterns: [/\bevaluation\b/i, /\bscoring\b/i, /\baward criteria\b/i, /معايير\s+(?:التقييم|المفاضلة)/, /التقييم/]
+  },
+  {
+    type: "submission_requirements",
+    patterns: [
+      /\bsubmission\b/i,
+      /\binstructions? to (?:bidders|tenderers|offerors|proposers)\b/i,
+      /\bproposal (?:format|structure|contents?)\b/i,
+      /\bhow to (?:submit|apply)\b/i,
+      /متطلبات\s+التقديم/,
+      /تقديم\s+العروض/
+    ]
+  },
+  {
+    type: "commercial_terms",
+    patterns: [
+      /\bcommercial\b/i,
+      /\bpayments?\b/i,
+      /\bbudget\b/i,
+      /\bpricing\b/i,
+      /\b(?:contract(?:ual)?|general|special)\s+(?:terms|conditions)\b/i,
+      /\bterms\s+(?:and|&)\s+conditions\b/i,
+      /\bpenalt(?:y|ies)\b/i,
+      /العرض\s+المالي/,
+      /الدفعات/,
+      /الشروط/,
+      /الميزانية/
+    ]
+  },
+  {
+    type: "important_dates",
+    patterns: [/\btimeline\b/i, /\bschedule\b/i, /\b(?:key|important)\s+dates\b/i, /\bdeadlines?\b/i, /الجدول\s+الزمني/, /المواعيد/, /التواريخ/]
+  },
+  {
+    type: "eligibility",
+    patterns: [/\beligibility\b/i, /\b(?:pre-?)?qualifications?\b/i, /\bbidder requirements\b/i, /الأهلية/, /المؤهلات/]
+  },
+  {
+    type: "scope_of_work",
+    patterns: [
+      /\bscope\b/i,
+      /\bdeliverables\b/i,
+      /\bstatement of work\b/i,
+      /\bterms of reference\b/i,
+      /\btechnical requirements\b/i,
+      /نطاق\s+(?:العمل|الأعمال)/,
+      /المخرجات/,
+      /الأعمال\s+المطلوبة/
+    ]
+  },
+  { type: "contact", patterns: [/\bcontact\b/i, /\b(?:enquiries|inquiries)\b/i, /للتواصل/, /الاستفسارات/] },
+  {
+    type: "introduction",
+    patterns: [/\bintroduction\b/i, /\bbackground\b/i, /\boverview\b/i, /\babout\s+(?:us|the)\b/i, /\bobjectives?\b/i, /مقدمة/, /نبذة/, /خلفية/, /الأهداف/]
+  }
+];
+
+const MAX_HEADING_CHARS = 120;
+const MAX_HEADING_WORDS = 12;
+const MAX_KEYWORD_HEADING_WORDS = 6;
+const MAX_CAPS_HEADING_WORDS = 10;
+
+const NUMBER_PART = "(?:\\d{1,3}|[\\u0660-\\u0669]{1,3})";
+const numberedPattern = new RegExp(`^(${NUMBER_PART}(?:\\.${NUMBER_PART}){0,3})(?:[.)]|\\s*[-\\u2013])?\\s+(\\S.*)$`);
+const prefixedPattern = /^(part|chapter|section|article)\s+(\d{1,3}(?:\.\d{1,3}){0,3}|[A-Z]|[IVXLC]{1,6})\b\s*[:.\-–]?\s*(.*)$/i;
+const arabicPrefixedPattern = /^(الباب|الفصل|القسم|المادة|البند)\s+(\(?[^\s:()]+\)?)\s*[:\-–]?\s*(.*)$/;
+const arabicOrdinalPattern = /^((?:أول|ثاني|ثالث|رابع|خامس|سادس|سابع|ثامن|تاسع|عاشر)(?:اً|ًا|ا)?)\s*[:\-–.)]\s*(.+)$/;
+// Headings open with a capital or an Arabic letter; "1.5 million" or "3 days" do not.
+const headingStartPattern = /^[A-Z؀-ۿ"“(]/;
+// "15 January 2026 ..." and "1 محرم 1447 ..." are dated lines, not heading 15 or 1.
+const dateTitlePattern = new RegExp(
+  [
+    "^(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?(?![A-Za-z])",
+    "^(?:يناير|فبراير|مارس|أبريل|ابريل|إبريل|مايو|يونيو|يونيه|يوليو|يوليه|أغسطس|اغسطس|سبتمبر|أكتوبر|اكتوبر|نوفمبر|ديسمبر)(?![\\u0600-\\u06FF])",
+    "^(?:كانون|تشرين|شباط|آذار|نيسان|أيار|حزيران|تموز|آب|أيلول)(?![\\u0600-\\u06FF])",
+    "^(?:محرم|صفر|ربيع|جمادى|رجب|شعبان|رمضان|شوال|ذو\\s+القعدة|ذو\\s+الحجة|ذي\\s+القعدة|ذي\\s+الحجة)(?![\\u0600-\\u06FF])",
+    "^(?:\\d{4}|[\\u0660-\\u0669]{4})(?![\\d\\u0660-\\u0669])"
+  ].join("|"),
+  "i"
+);
+
+export function classifySectionType(title: string): SectionType | null {
+  return SECTION_TYPE_PATTERNS.find((entry) => entry.patterns.some((pattern) => pattern.test(title)))?.type ?? null;
+}
+
+function wordCount(value: string): number {
+  return value.split(/\s+/).filter(Boolean).length;
+}
+
+function isAllCaps(value: string): boolean {
+  const letters = value.replace(/[^A-Za-z]/g, "");
+  return letters.length >= 4 && letters === letters.toUpperCase() && !/[؀-ۿ]/.test(value);
+}
+
+function cleanTitle(value: string): string {
+  return value.replace(/\s*[:–-]\s*$/, "").trim();
+}
+
+/** Lines that cannot be headings: table rows, sentences, `Label: value` pairs, TOC dot leaders. */
+function isHeadingShaped(line: string): boolean {
+  return (
+    line.length <= MAX_HEADING_CHARS &&
+    !/[|\t]/.test(line) &&
+    !/[.,;،؛]$/.test(line) &&
+    !/\.{3,}|…/.test(line)
+  );
+}
+
+function numberLevel(number: string): number {
+  return number.split(".").length;
+}
+
+function numberValue(number: string): number {
+  return Number(number.replace(/[\u0660-\u0669]/g, (digit) => String(digit.charCodeAt(0) - 0x0660)));
+}
+
+/**
+ * Every heading-looking line. Single-level numbers ("3. ...") also number list items, so
+ * they count as headings only when the title names a known section, is in capitals, or
+ * the document has "3.x" subsections and the number continues the top-level sequence.
+ */
+function findHeadings(text: string, headingOffsets: Set<number>): Heading[] {
+  const lines: Array<{ text: string; start: number; end: number }> = [];
+  let lineStart = 0;
+  for (const raw of text.split("\n")) {
+    const leading = raw.length - raw.trimStart().length;
+    lines.push({ text: raw.trim(), start: lineStart + leading, end: lineStart + raw.trimEnd().length });
+    lineStart += raw.length + 1;
+  }
+
+  const subsectionParents = new Set<string>();
+  for (const line of lines) {
+    const number = numberedPattern.exec(line.text)?.[1];
+    if (number?.includes(".")) {
+      subsectionParents.add(number.split(".")[0]);
+    }
+  }
+
+  const headings: Heading[] = [];
+  // Level of the last numbered heading; unnumbered keyword headings nest under it.
+  let numberedLevel = 0;
+  let lastTopNumber = 0;
+  const push = (line: (typeof lines)[number], title: string, number: string | null, level: number) => {
+    const cleaned = cleanTitle(title);
+    headings.push({
+      startOffset: line.start,
+      lineEnd: line.end,
+      title: cleaned,
+      number,
+      level,
+      sectionType: classifySectionType(cleaned)
+    });
+  };
+
+  for (const line of lines) {
+    const hinted = headingOffsets.has(line.start) && line.text.length > 0 && line.text.length <= MAX_HEADING_CHARS * 2;
+    if (!line.text || (!hinted && !isHeadingShaped(line.text))) {
+      continue;
+    }
+
+    const prefixed = prefixedPattern.exec(line.text) ?? arabicPrefixedPattern.exec(line.text);
+    if (prefixed && wordCount(prefixed[3]) <= MAX_HEADING_WORDS) {
+      numberedLevel = /^\d/.test(prefixed[2]) ? numberLevel(prefixed[2]) : 1;
+      push(line, prefixed[3] || line.text, prefixed[2], numberedLevel);
+      continue;
+    }
+
+    const ordinal = arabicOrdinalPattern.exec(line.text);
+    if (ordinal && wordCount(ordinal[2]) <= MAX_HEADING_WORDS) {
+      numberedLevel = 1;
+      push(line, ordinal[2], ordinal[1], 1);
+      continue;
+    }
+
+    const numbered = numberedPattern.exec(line.text);
+    if (numbered) {
+      const [, number, title] = numbered;
+      const level = numberLevel(number);
+      const namesSection = classifySectionType(cleanTitle(title)) !== null || isAllCaps(title);
+      const continuesSequence = subsectionParents.has(number) && numberValue(number) > lastTopNumber;
+      const accepted =
+        headingStartPattern.test(title) &&
+        !dateTitlePattern.test(title) &&
+        wordCount(title) <= MAX_HEADING_WORDS &&
+        !/:\s*\S/.test(title) &&
+        (level > 1 || hinted || namesSection || continuesSequence);
+      if (accepted) {
+        numberedLevel = level;
+        lastTopNumber = level === 1 ? numberValue(number) : lastTopNumber;
+        push(line, title, number, level);
+      }
+      continue;
+    }
+
+    if (/:\s*\S/.test(line.text) && !hinted) {
+      continue;
+    }
+    if (isAllCaps(line.text) && wordCount(line.text) <= MAX_CAPS_HEADING_WORDS) {
+      numberedLevel = 0;
+      push(line, line.text, null, 1);
+      continue;
+    }
+    const keyword = wordCount(line.text) <= MAX_KEYWORD_HEADING_WORDS && classifySectionType(cleanTitle(line.text)) !== null;
+    if ((keyword && headingStartPattern.test(line.text)) || hinted) {
+      push(line, line.text, null, numberedLevel + 1);
+    }
+  }
+
+  return headings;
+}
+
+function trimmedEnd(text: string, start: number, end: number): number {
+  let cursor = end;
+  while (cursor > start && /\s/.test(text[cursor - 1])) {
+    cursor -= 1;
+  }
+  return cursor;
+}
+
+function buildOutline(text: string, headings: Heading[]): BuiltNode[] {
+  const roots: BuiltNode[] = [];
+  const stack: BuiltNode[] = [];
+
+  for (const heading of headings) {
+    const node: BuiltNode = { ...heading, endOffset: text.length, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+      stack.pop()!.endOffset = node.startOffset;
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+
+  const finish = (nodes: BuiltNode[]) => {
+    for (const node of nodes) {
+      node.endOffset = trimmedEnd(text, node.startOffset, node.endOffset);
+      finish(node.children);
+    }
+  };
+  finish(roots);
+  return roots;
+}
+
+/**
+ * One span per classified heading, skipping headings inside a section of the same type
+ * and headings with no body (table of contents entries). Adjacent spans of one type, such
+ * as "Scope of Work" followed by "Deliverables", are joined.
+ */
+function outlineSections(text: string, roots: BuiltNode[]): SectionSpan[] {
+  const spans: SectionSpan[] = [];
+  const visit = (node: BuiltNode, inherited: SectionType | null) => {
+    const hasBody = node.children.length > 0 || text.slice(node.lineEnd, node.endOffset).trim().length > 0;
+    if (node.sectionType && node.sectionType !== inherited && hasBody) {
+      spans.push({ name: node.sectionType, startOffset: node.startOffset, endOffset: node.endOffset });
+    }
+    const type = hasBody ? node.sectionType ?? inherited : inherited;
+    node.children.forEach((child) => visit(child, type));
+  };
+  roots.forEach((root) => visit(root, null));
+
+  spans.sort((a, b) => a.startOffset - b.startOffset);
+  const merged: SectionSpan[] = [];
+  for (const span of spans) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.name === span.name && text.slice(previous.endOffset, span.startOffset).trim() === "") {
+      previous.endOffset = Math.max(previous.endOffset, span.endOffset);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+function toOutline(nodes: BuiltNode[]): OutlineNode[] {
+  return nodes.map(({ title, number, level, sectionType, startOffset, endOffset, children }) => ({
+    title,
+    number,
+    level,
+    sectionType,
+    startOffset,
+    endOffset,
+    children: toOutline(children)
+  }));
+}
+
+/**
+ * Segments document text into a heading tree and canonical section spans that run to the
+ * next heading of the same level. Section types no heading names fall back to the
+ * keyword hits of detectSections, so unstructured text still gets sections.
+ * `headingOffsets` are line starts known to be headings (Unstructured `Title` elements).
+ */
+export function segmentSections(text: string, options: { headingOffsets?: number[] } = {}): SegmentationResult {
+  const roots = buildOutline(text, findHeadings(text, new Set(options.headingOffsets ?? [])));
+  const sections = outlineSections(text, roots);
+  const covered = new Set(sections.map((section) => section.name));
+  const fallback = detectSections(text).filter((section) => !covered.has(section.name));
+
+  return {
+    outline: toOutline(roots),
+    sections: [...sections, ...fallback].sort((a, b) => a.startOffset - b.startOffset)
+  };
+}
+
+/** Moves every node of an outline by `delta` characters, e.g. when documents are concatenated. */
+export function shiftOutline(nodes: OutlineNode[], delta: number): OutlineNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    startOffset: node.startOffset + delta,
+    endOffset: node.endOffset + delta,
+    children: shiftOutline(node.children, delta)
+  }));
+}
@@ -0,0 +1,453 @@
+import { pageForOffset, type PageBoundary } from "@/lib/parsing/normalization";
+import { decodeXmlEntities } from "@/lib/parsing/xml-text";
+
+/** A cell spanning several rows or columns; `row` counts header rows first, then body rows. */
+export interface MergedCell {
+  row: number;
+  column: number;
+  rowSpan: number;
+  columnSpan: number;
+}
+
+export interface ExtractedTable {
+  title: string;
+  /** One label per column; with several header rows, the distinct labels above the column joined by " / ". */
+  headers: string[];
+  rows: string[][];
+  pages: number[];
+  confidence: number;
+  /** Every header row, when the header spans more than one row. */
+  headerRows?: string[][];
+  /** Merged cells; their text is repeated in every grid position they cover. */
+  mergedCells?: MergedCell[];
+}
+
+/** Where a table was read from; structured sources are trusted more than layout guesses. */
+export type TableSource = "docx" | "unstructured" | "pdf_layout" | "text";
+
+/** A text line with its gap-separated cells in visual left-to-right order (see pdf-content). */
+export interface PositionedLine {
+  y: number;
+  size: number;
+  cells: Array<{ text: string; x: number; endX: number }>;
+}
+
+interface GridCell {
+  text: string;
+  rowSpan: number;
+  columnSpan: number;
+  header?: boolean;
+}
+
+interface GridRow {
+  cells: GridCell[];
+  header: boolean;
+}
+
+const MAX_TABLE_ROWS = 1_000;
+const MAX_TITLE_CHARS = 120;
+const SOURCE_CONFIDENCE: Record<TableSource, number> = {
+  docx: 0.92,
+  unstructured: 0.85,
+  pdf_layout: 0.72,
+  text: 0.65
+};
+// Column gaps are at least this many font sizes wide; narrower gaps are word spacing.
+const COLUMN_ALIGN_TOLERANCE = 1;
+// Cells of a real table are short; two-column prose has long "cells".
+const MAX_MEAN_CELL_CHARS = 40;
+const MIN_LAYOUT_ROWS = 3;
+
+function isNumeric(cell: string): boolean {
+  return /^[-+]?[\d,.\s%٪٠-٩]+$/.test(cell) && /[\d٠-٩]/.test(cell);
+}
+
+function collapse(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Lays rows out on a grid the way HTML does: spanning cells occupy every position they
+ * cover, later cells shift right past positions taken by row spans from above.
+ */
+function expandGrid(rows: GridRow[]): { grid: string[][]; merged: MergedCell[] } {
+  const grid: string[][] = rows.map(() => []);
+  const merged: MergedCell[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    let column = 0;
+    for (const cell of row.cells) {
+      while (grid[rowIndex][column] !== undefined) {
+        column += 1;
+      }
+      const rowSpan = Math.max(1, Math.min(cell.rowSpan, rows.length - rowIndex));
+      const columnSpan = Math.max(1, cell.columnSpan);
+      for (let r = rowIndex; r < rowIndex + rowSpan; r += 1) {
+        for (let c = column; c < column + columnSpan; c += 1) {
+          grid[r][c] = cell.text;
+        }
+      }
+      if (rowSpan > 1 || columnSpan > 1) {
+        merged.push({ row: rowIndex, column, rowSpan, columnSpan });
+      }
+      column += columnSpan;
+    }
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  return {
+    grid: grid.map((row) => Array.from({ length: width }, (_, index) => row[index] ?? "")),
+    merged
+  };
+}
+
+/** Share of filled cells, with a penalty for tables that are barely more than a header. */
+export function tableConfidence(source: TableSource, headers: string[], rows: string[][]): number {
+  const cells = rows.flat();
+  const filled = cells.length > 0 ? cells.filter(Boolean).length / cells.length : 0;
+  const labelled = headers.length > 0 ? headers.filter(Boolean).length / headers.length : 0;
+  const shortPenalty = rows.length < 2 ? 0.1 : 0;
+  const score = SOURCE_CONFIDENCE[source] * (0.6 + 0.25 * filled + 0.15 * labelled) - shortPenalty;
+  return Math.round(Math.max(0, Math.min(1, score)) * 100) / 100;
+}
+
+/**
+ * Builds the table from grid rows. `headerRowCount` leading rows are headers; each
+ * column's label joins the distinct header texts above it.
+ */
+function buildTable(params: {
+  title: string;
+  rows: GridRow[];
+  headerRowCount: number;
+  pages: number[];
+  source: TableSource;
+}): ExtractedTable | null {
+  const { grid, merged } = expandGrid(params.rows);
+  const headerRowCount = Math.min(params.headerRowCount, grid.length - 1);
+  if (grid.length < 2 || (grid[0]?.length ?? 0) < 2 || headerRowCount < 1) {
+    return null;
+  }
+
+  const headerRows = grid.slice(0, headerRowCount);
+  const headers = grid[0].map((_, column) =>
+    headerRows
+      .map((row) => row[column])
+      .filter((label, index, labels) => label && labels.indexOf(label) === index)
+      .join(" / ")
+  );
+  const rows = grid.slice(headerRowCount, headerRowCount + MAX_TABLE_ROWS).filter((row) => row.some(Boolean));
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return {
+    title: params.title,
+    headers,
+    rows,
+    pages: params.pages,
+    confidence: tableConfidence(params.source, headers, rows),
+    ...(headerRowCount > 1 ? { headerRows } : {}),
+    ...(merged.length > 0 ? { mergedCells: merged } : {})
+  };
+}
+
+/** Without marked header rows, a first row with a spanning cell heads a two-row header. */
+function inferredHeaderRows(rows: GridRow[]): number {
+  const marked = rows.findIndex((row) => !row.header);
+  if (marked > 0) {
+    return marked;
+  }
+  const spanning = rows[0]?.cells.some((cell) => cell.columnSpan > 1) ?? false;
+  const secondIsLabels = rows[1]?.cells.every((cell) => !isNumeric(cell.text)) ?? false;
+  return spanning && secondIsLabels ? 2 : 1;
+}
+
+function htmlText(fragment: string): string {
+  return collapse(
+    decodeXmlEntities(
+      fragment
+        .replace(/<br\s*\/?>|<\/(?:p|div|li|h[1-6])>/gi, " ")
+        .replace(/<[^>]+>/g, "")
+        .replace(/&nbsp;/gi, " ")
+    )
+  );
+}
+
+function lastTextLine(fragment: string): string {
+  const lines = fragment
+    .replace(/<\/(?:p|div|li|h[1-6])>|<br\s*\/?>/gi, "\n")
+    .split("\n")
+    .map(htmlText)
+    .filter(Boolean);
+  const last = lines[lines.length - 1] ?? "";
+  return last.length <= MAX_TITLE_CHARS ? last : "";
+}
+
+function spanAttribute(attributes: string, name: string): number {
+  const value = Number(new RegExp(`\\b${name}\\s*=\\s*["']?(\\d+)`, "i").exec(attributes)?.[1] ?? 1);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, 100) : 1;
+}
+
+/**
+ * Every top-level `<table>` in an HTML fragment (mammoth DOCX output, Unstructured
+ * `text_as_html`). `<thead>` / all-`<th>` rows are headers, colspan and rowspan become
+ * merged cells, and the title is the `<caption>` or the last line of text before the table.
+ */
+export function tablesFromHtml(html: string, options: { source: TableSource; pages: (index: number) => number[] }): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  const tagPattern = /<(\/?)(table|thead|tr|td|th|caption)\b([^>]*)>/gi;
+  let depth = 0;
+  let tableStart = 0;
+  let previousEnd = 0;
+  let inHead = false;
+  let caption = "";
+  let captionStart = -1;
+  let rows: GridRow[] = [];
+  let row: GridRow | null = null;
+  let cell: { start: number; rowSpan: number; columnSpan: number; header: boolean } | null = null;
+
+  for (const match of html.matchAll(tagPattern)) {
+    const [tag, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+    const index = match.index ?? 0;
+
+    if (name === "table") {
+      if (!closing) {
+        depth += 1;
+        if (depth === 1) {
+          tableStart = index;
+          rows = [];
+          caption = "";
+        }
+        continue;
+      }
+      depth -= 1;
+      if (depth === 0) {
+        const table = buildTable({
+          title: caption || lastTextLine(html.slice(previousEnd, tableStart)) || `Table ${tables.length + 1}`,
+          rows,
+          headerRowCount: inferredHeaderRows(rows),
+          pages: options.pages(tables.length),
+          source: options.source
+        });
+        if (table) {
+          tables.push(table);
+        }
+        previousEnd = index + tag.length;
+      }
+      continue;
+    }
+    if (depth !== 1) {
+      continue;
+    }
+
+    if (name === "caption") {
+      if (closing && captionStart >= 0) {
+        caption = htmlText(html.slice(captionStart, index));
+      }
+      captionStart = closing ? -1 : index + tag.length;
+    } else if (name === "thead") {
+      inHead = !closing;
+    } else if (name === "tr") {
+      if (!closing) {
+        row = { cells: [], header: inHead };
+      } else if (row) {
+        row.header = row.header || (row.cells.length > 0 && row.cells.every((item) => item.header));
+        rows.push(row);
+        row = null;
+      }
+    } else if (!closing) {
+      cell = {
+        start: index + tag.length,
+        rowSpan: spanAttribute(attributes, "rowspan"),
+        columnSpan: spanAttribute(attributes, "colspan"),
+        header: name === "th"
+      };
+    } else if (cell && row) {
+      row.cells.push({
+        text: htmlText(html.slice(cell.start, index)),
+        rowSpan: cell.rowSpan,
+        columnSpan: cell.columnSpan,
+        header: cell.header
+      });
+      cell = null;
+    }
+  }
+
+  return tables;
+}
+
+function splitTextRow(line: string): string[] {
+  if (line.includes("|")) {
+    return line
+      .replace(/^\|/, "")
+      .replace(/\|$/, "")
+      .split("|")
+      .map(collapse);
+  }
+  return line.split("\t").map(collapse);
+}
+
+/**
+ * Tables written as text: every run of two or more consecutive lines with pipe- or
+ * tab-separated cells (PPTX and RTF tables, emails, pasted markdown). Markdown rule
+ * rows are skipped; the line just above the run, if short, is the title.
+ */
+export function tablesFromText(text: string, pageBoundaries: PageBoundary[]): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  const lines: Array<{ text: string; start: number }> = [];
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    lines.push({ text: line.trim(), start: offset });
+    offset += line.length + 1;
+  }
+
+  const isRow = (line: string) => /\S\s*\|\s*\S|\S\t+\S/.test(line);
+  const isRule = (line: string) => /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/.test(line);
+
+  let index = 0;
+  while (index < lines.length) {
+    if (!isRow(lines[index].text)) {
+      index += 1;
+      continue;
+    }
+    const first = index;
+    while (index < lines.length && (isRow(lines[index].text) || isRule(lines[index].text))) {
+      index += 1;
+    }
+    const block = lines.slice(first, index).filter((line) => !isRule(line.text));
+    if (block.length < 2) {
+      continue;
+    }
+
+    const above = lines[first - 1]?.text ?? "";
+    const title = above && !isRow(above) && above.length <= MAX_TITLE_CHARS ? above.replace(/:$/, "") : `Table ${tables.length + 1}`;
+    const pages = Array.from(new Set(block.map((line) => pageForOffset(pageBoundaries, line.start))));
+    const table = buildTable({
+      title,
+      rows: block.map((line) => ({
+        cells: splitTextRow(line.text).map((cellText) => ({ text: cellText, rowSpan: 1, columnSpan: 1 })),
+        header: false
+      })),
+      headerRowCount: 1,
+      pages,
+      source: "text"
+    });
+    if (table) {
+      tables.push(table);
+    }
+  }
+
+  return tables;
+}
+
+/** Groups cell start positions into column anchors `tolerance` apart. */
+function columnAnchors(starts: number[], tolerance: number): number[] {
+  const anchors: Array<{ sum: number; count: number; last: number }> = [];
+  for (const x of [...starts].sort((a, b) => a - b)) {
+    const current = anchors[anchors.length - 1];
+    if (current && x - current.last <= tolerance) {
+      current.sum += x;
+      current.count += 1;
+      current.last = x;
+    } else {
+      anchors.push({ sum: x, count: 1, last: x });
+    }
+  }
+  // A column needs cells in at least two rows; strays join the column to their left.
+  return anchors.filter((anchor) => anchor.count >= 2).map((anchor) => anchor.sum / anchor.count);
+}
+
+function columnFor(anchors: number[], x: number, tolerance: number): number {
+  let best = 0;
+  for (let index = 0; index < anchors.length; index += 1) {
+    if (anchors[index] - tolerance <= x) {
+      best = index;
+    }
+  }
+  return best;
+}
+
+function layoutTable(block: PositionedLine[], title: string, page: number): ExtractedTable | null {
+  const size = Math.max(...block.map((line) => line.size));
+  const tolerance = size * COLUMN_ALIGN_TOLERANCE;
+  // Header cells spanning several columns do not start on a column; anchor on the body.
+  const anchors = columnAnchors(block.slice(1).flatMap((line) => line.cells.map((cell) => cell.x)), tolerance);
+  if (anchors.length < 2) {
+    return null;
+  }
+
+  const cellTexts = block.flatMap((line) => line.cells.map((cell) => cell.text));
+  if (cellTexts.reduce((sum, text) => sum + text.length, 0) / cellTexts.length > MAX_MEAN_CELL_CHARS) {
+    return null;
+  }
+
+  const toRow = (line: PositionedLine, spanning: boolean): GridRow => {
+    const cells: GridCell[] = [];
+    let nextColumn = 0;
+    for (const cell of line.cells) {
+      const column = Math.max(columnFor(anchors, cell.x, tolerance), nextColumn);
+      const lastColumn = spanning ? Math.max(column, columnFor(anchors, cell.endX, tolerance)) : column;
+      while (nextColumn < column) {
+        cells.push({ text: "", rowSpan: 1, columnSpan: 1 });
+        nextColumn += 1;
+      }
+      if (column < nextColumn && cells.length > 0) {
+        cells[cells.length - 1].text = collapse(`${cells[cells.length - 1].text} ${cell.text}`);
+        continue;
+      }
+      cells.push({ text: cell.text, rowSpan: 1, columnSpan: lastColumn - column + 1 });
+      nextColumn = lastColumn + 1;
+    }
+    while (nextColumn < anchors.length) {
+      cells.push({ text: "", rowSpan: 1, columnSpan: 1 });
+      nextColumn += 1;
+    }
+    return { cells, header: false };
+  };
+
+  const firstRow = toRow(block[0], true);
+  const secondIsLabels = block[1].cells.every((cell) => !isNumeric(cell.text));
+  const twoRowHeader = firstRow.cells.some((cell) => cell.columnSpan > 1) && secondIsLabels && block.length > MIN_LAYOUT_ROWS;
+  let rows = [firstRow, ...block.slice(1).map((line) => toRow(line, twoRowHeader && line === block[1]))];
+
+  // Arabic tables read right to left: the rightmost column comes first.
+  const arabicCells = cellTexts.filter((text) => /[؀-ۿ]/.test(text)).length;
+  if (arabicCells > cellTexts.length / 2) {
+    rows = rows.map((row) => ({ ...row, cells: [...row.cells].reverse() }));
+  }
+
+  return buildTable({ title, rows, headerRowCount: twoRowHeader ? 2 : 1, pages: [page], source: "pdf_layout" });
+}
+
+/**
+ * Tables recovered from PDF text layout: runs of consecutive lines that split into two or
+ * more cells at wide gaps, with cell starts lining up in columns. A first row whose cells
+ * straddle several columns is read as a spanning header over a second header row.
+ */
+export function tablesFromAlignedLines(lines: PositionedLine[], page: number): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].cells.length < 2) {
+      index += 1;
+      continue;
+    }
+    const first = index;
+    while (index < lines.length && lines[index].cells.length >= 2) {
+      index += 1;
+    }
+    const block = lines.slice(first, index);
+    if (block.length < MIN_LAYOUT_ROWS) {
+      continue;
+    }
+    const above = lines[first - 1];
+    const aboveText = above?.cells.length === 1 ? above.cells[0].text : "";
+    const title = aboveText && aboveText.length <= MAX_TITLE_CHARS && !/[.،]$/.test(aboveText) ? aboveText.replace(/:$/, "") : `Table on page ${page}`;
+    const table = layoutTable(block, title, page);
+    if (table) {
+      tables.push(table);
+    }
+  }
+  return tables;
+}
@@ -0,0 +1,100 @@
+import type { PageBoundary } from "@/lib/parsing/normalization";
+import type { ExtractedTable } from "@/lib/parsing/table-extraction";
+
+/** One worksheet (or a whole CSV file) as a grid of cell text. */
+export interface SheetGrid {
+  name: string;
+  rows: string[][];
+}
+
+export interface TabularParseResult {
+  text: string;
+  /** One page per non-empty sheet. */
+  pages: PageBoundary[];
+  tables: ExtractedTable[];
+  warnings: string[];
+}
+
+const MAX_TABLE_ROWS = 1_000;
+
+function isNumeric(cell: string): boolean {
+  return /^[-+]?[\d,.\s%]+$/.test(cell) && /\d/.test(cell);
+}
+
+/**
+ * The header is the first row with at least two filled cells that are mostly labels;
+ * title lines and blank banner rows above it are kept as text only.
+ */
+function headerRowIndex(rows: string[][]): number {
+  return rows.findIndex((row) => {
+    const filled = row.filter(Boolean);
+    return filled.length >= 2 && filled.filter((cell) => !isNumeric(cell)).length >= Math.ceil(filled.length / 2);
+  });
+}
+
+function trimRow(row: string[]): string[] {
+  const cells = row.map((cell) => cell.replace(/\s+/g, " ").trim());
+  while (cells.length > 0 && !cells[cells.length - 1]) {
+    cells.pop();
+  }
+  return cells;
+}
+
+/**
+ * Renders sheets as pipe-separated text (so extraction and evidence quoting see the
+ * cells) and returns each sheet's table with its real header row.
+ */
+export function tabularDocument(sheets: SheetGrid[], format: string): TabularParseResult {
+  const parts: string[] = [];
+  const pages: PageBoundary[] = [];
+  const tables: ExtractedTable[] = [];
+  const warnings: string[] = [];
+  let offset = 0;
+
+  for (const sheet of sheets) {
+    const rows = sheet.rows.map(trimRow).filter((row) => row.length > 0);
+    if (rows.length === 0) {
+      continue;
+    }
+
+    const page = pages.length + 1;
+    const headerIndex = headerRowIndex(rows);
+    const lines = [`Sheet: ${sheet.name}`, ...rows.map((row) => row.join(" | "))];
+
+    if (headerIndex >= 0) {
+      const headers = rows[headerIndex];
+      const body = rows.slice(headerIndex + 1).map((row) => {
+        const cells = row.slice(0, Math.max(headers.length, row.length));
+        while (cells.length < headers.length) {
+          cells.push("");
+        }
+        return cells;
+      });
+      if (body.length > MAX_TABLE_ROWS) {
+        warnings.push(`${format.toUpperCase()} sheet "${sheet.name}" has ${body.length} rows; only the first ${MAX_TABLE_ROWS} are kept as table rows.`);
+      }
+      if (body.length > 0) {
+        tables.push({
+          title: sheet.name,
+          headers,
+          rows: body.slice(0, MAX_TABLE_ROWS),
+          pages: [page],
+          confidence: 0.95
+        });
+      }
+    }
+
+    const separator = parts.length === 0 ? "" : "\n\n";
+    const text = lines.join("\n");
+    const charStart = offset + separator.length;
+    parts.push(separator, text);
+    pages.push({ page, charStart, charEnd: charStart + text.length });
+    offset = charStart + text.length;
+  }
+
+  if (tables.length === 0 && pages.length > 0) {
+    warnings.push(`${format.toUpperCase()} file has no header row; cells were kept as text only.`);
+  }
+
+  return { text: parts.join(""), pages, tables, warnings };
+}
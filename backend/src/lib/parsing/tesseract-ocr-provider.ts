@@ -0,0 +1,127 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { OcrPageResult, OcrProvider, OcrRequest, OcrResult } from "@/lib/parsing/ocr-provider";
+
+/** Runs a command and resolves with its stdout; rejects on a non-zero exit or timeout. */
+export type CommandRunner = (command: string, args: string[], options: { timeoutMs: number }) => Promise<string>;
+
+export interface TesseractOcrOptions {
+  tesseractPath: string;
+  pdftoppmPath: string;
+  /** Tesseract language codes joined with `+`, e.g. `eng+ara`. */
+  languages: string;
+  dpi: number;
+  /** Per command, so a single slow page cannot stall the whole document. */
+  timeoutMs: number;
+  run?: CommandRunner;
+}
+
+const runCommand: CommandRunner = (command, args, options) =>
+  new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: options.timeoutMs, maxBuffer: 32 * 1024 * 1024 }, (error, stdout) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+
+function isMissingBinary(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === "ENOENT";
+}
+
+/**
+ * Reads `tesseract ... tsv` output: one row per layout element, words at level 5. Words are
+ * joined into lines, lines of a block with newlines, and blocks with blank lines; confidence
+ * is the mean word confidence (Tesseract reports 0-100, -1 for non-word rows).
+ */
+export function readTesseractTsv(tsv: string): { text: string; confidence: number } {
+  const blocks = new Map<string, Map<string, string[]>>();
+  const confidences: number[] = [];
+
+  for (const row of tsv.split(/\r?\n/).slice(1)) {
+    const columns = row.split("\t");
+    if (columns.length < 12 || columns[0] !== "5") {
+      continue;
+    }
+    const word = columns.slice(11).join("\t").trim();
+    const confidence = Number(columns[10]);
+    if (!word || confidence < 0) {
+      continue;
+    }
+    const block = columns[2];
+    const line = `${columns[3]}:${columns[4]}`;
+    const lines = blocks.get(block) ?? new Map<string, string[]>();
+    lines.set(line, [...(lines.get(line) ?? []), word]);
+    blocks.set(block, lines);
+    confidences.push(confidence);
+  }
+
+  const text = [...blocks.values()]
+    .map((lines) => [...lines.values()].map((words) => words.join(" ")).join("\n"))
+    .join("\n\n");
+  const mean = confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : 0;
+  return { text, confidence: Math.round(mean) / 100 };
+}
+
+/**
+ * Offline OCR with the Tesseract CLI: each requested page is rendered to PNG with
+ * `pdftoppm` (poppler) and recognized on its own, so a page that fails is reported
+ * and skipped while the rest of the document is still read.
+ */
+export class TesseractOcrProvider implements OcrProvider {
+  private readonly run: CommandRunner;
+
+  constructor(private readonly options: TesseractOcrOptions) {
+    this.run = options.run ?? runCommand;
+  }
+
+  async performOcr(input: OcrRequest): Promise<OcrResult> {
+    const requested = input.pages ?? Array.from({ length: input.pagesHint }, (_, index) => index + 1);
+    const workDir = await mkdtemp(path.join(os.tmpdir(), "angle-rfp-ocr-"));
+    const pdfPath = path.join(workDir, "document.pdf");
+    const pages: OcrPageResult[] = [];
+    const warnings: string[] = [];
+
+    try {
+      await writeFile(pdfPath, input.fileBytes);
+      for (const page of requested) {
+        const imagePrefix = path.join(workDir, `page-${page}`);
+        try {
+          await this.run(
+            this.options.pdftoppmPath,
+            ["-r", String(this.options.dpi), "-f", String(page), "-l", String(page), "-png", "-singlefile", pdfPath, imagePrefix],
+            { timeoutMs: this.options.timeoutMs }
+          );
+          const tsv = await this.run(
+            this.options.tesseractPath,
+            [`${imagePrefix}.png`, "stdout", "-l", this.options.languages, "tsv"],
+            { timeoutMs: this.options.timeoutMs }
+          );
+          pages.push({ page, ...readTesseractTsv(tsv) });
+        } catch (error: unknown) {
+          if (isMissingBinary(error)) {
+            warnings.push(
+              `OCR fallback requested for ${input.fileName}, but Tesseract or pdftoppm is not installed (set TESSERACT_PATH / PDFTOPPM_PATH).`
+            );
+            break;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          warnings.push(`Tesseract OCR failed on page ${page} of ${input.fileName}: ${message}`);
+        }
+      }
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+
+    return {
+      text: pages.map((page) => page.text).filter(Boolean).join("\n\n"),
+      pagesOcred: pages.length,
+      pages,
+      warnings
+    };
+  }
+}
@@ -1,7 +1,15 @@
 import { fetchWithRetry } from "@/lib/ops/retriable-fetch";
+import type { PageBoundary } from "@/lib/parsing/normalization";
+import { tablesFromHtml, type ExtractedTable } from "@/lib/parsing/table-extraction";
 
 export interface UnstructuredParseResult {
   text: string;
+  /** Built from element `metadata.page_number`; empty when the API sent no page numbers. */
+  pages: PageBoundary[];
+  /** Start offsets of lines that came from `Title` elements, used as heading hints. */
+  titleOffsets: number[];
+  /** Parsed from `Table` elements' `metadata.text_as_html`. */
+  tables: ExtractedTable[];
   warnings: string[];
 }
 
@@ -10,6 +18,7 @@ interface UnstructuredElement {
   text?: string;
   metadata?: {
     page_number?: number;
+    text_as_html?: string;
   };
 }
 
@@ -17,12 +26,18 @@ function normalizeWhitespace(value: string): string {
   return value.replace(/\s+/g, " ").trim();
 }
 
-function dedupeLines(lines: string[]): string[] {
+interface ElementLine {
+  text: string;
+  page: number | null;
+  isTitle: boolean;
+}
+
+function dedupeLines(elements: UnstructuredElement[]): ElementLine[] {
   const seen = new Set<string>();
-  const output: string[] = [];
+  const output: ElementLine[] = [];
 
-  for (const line of lines) {
-    const normalized = normalizeWhitespace(line);
+  for (const element of elements) {
+    const normalized = normalizeWhitespace(element.text ?? "");
     if (!normalized) {
       continue;
     }
@@ -30,12 +45,84 @@ function dedupeLines(lines: string[]): string[] {
       continue;
     }
     seen.add(normalized);
-    output.push(normalized);
+    const page = element.metadata?.page_number;
+    output.push({
+      text: normalized,
+      page: typeof page === "number" && page >= 1 ? Math.floor(page) : null,
+      isTitle: element.type === "Title"
+    });
   }
 
   return output;
 }
 
+/**
+ * Joins element lines with newlines and groups consecutive lines of the same page
+ * into one boundary. Elements without a page number stay on the previous page.
+ */
+function layoutLines(lines: ElementLine[]): { text: string; pages: PageBoundary[]; titleOffsets: number[] } {
+  const pages: PageBoundary[] = [];
+  const titleOffsets: number[] = [];
+  let text = "";
+  let currentPage: number | null = null;
+
+  lines.forEach((line, index) => {
+    if (index > 0) {
+      text += "\n";
+    }
+    const charStart = text.length;
+    text += line.text;
+    if (line.isTitle) {
+      titleOffsets.push(charStart);
+    }
+
+    const page = line.page ?? currentPage;
+    if (page === null) {
+      return;
+    }
+    const last = pages[pages.length - 1];
+    if (last && last.page === page) {
+      last.charEnd = text.length;
+    } else {
+      pages.push({ page, charStart, charEnd: text.length });
+    }
+    currentPage = page;
+  });
+
+  return { text, pages, titleOffsets };
+}
+
+/**
+ * One table per `Table` element with HTML; the nearest preceding `Title` element, or a
+ * short line right before the table, names it.
+ */
+function tablesFromElements(elements: UnstructuredElement[]): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  let title = "";
+
+  for (const element of elements) {
+    const html = element.metadata?.text_as_html;
+    if (element.type === "Table" && html) {
+      const page = element.metadata?.page_number;
+      const parsed = tablesFromHtml(html, {
+        source: "unstructured",
+        pages: () => [typeof page === "number" && page >= 1 ? Math.floor(page) : 1]
+      });
+      tables.push(...parsed.map((table) => (title ? { ...table, title } : table)));
+      title = "";
+      continue;
+    }
+    const text = normalizeWhitespace(element.text ?? "");
+    if (text && (element.type === "Title" || text.length <= 80)) {
+      title = text.replace(/:$/, "");
+    } else if (text) {
+      title = "";
+    }
+  }
+
+  return tables;
+}
+
 function toBlob(fileBytes: Buffer): Blob {
   return new Blob([new Uint8Array(fileBytes)]);
 }
@@ -87,18 +174,23 @@ export async function parseWithUnstructured(input: {
   }
 
   const payload = (await response.json()) as UnstructuredElement[];
-  const textLines = dedupeLines(payload.map((item) => item.text ?? ""));
-  const text = textLines.join("\n");
+  const { text, pages, titleOffsets } = layoutLines(dedupeLines(payload));
 
   if (text.length < 40) {
     return {
       text: "",
+      pages: [],
+      titleOffsets: [],
+      tables: [],
       warnings: ["Unstructured parser returned limited text; ignored result."]
     };
   }
 
   return {
     text,
+    pages,
+    titleOffsets,
+    tables: tablesFromElements(payload),
     warnings: ["Unstructured parser path used for high-fidelity extraction."]
   };
 }
@@ -0,0 +1,119 @@
+import { fetchWithRetry } from "@/lib/ops/retriable-fetch";
+import type { OcrPageResult, OcrProvider, OcrRequest, OcrResult } from "@/lib/parsing/ocr-provider";
+
+export interface VisionOcrOptions {
+  apiKey: string;
+  endpoint: string;
+  /** BCP-47 hints passed to Vision, e.g. `["ar", "en"]`. */
+  languageHints: string[];
+  timeoutMs: number;
+  fetchFn?: typeof fetch;
+}
+
+interface VisionPageResponse {
+  fullTextAnnotation?: {
+    text?: string;
+    pages?: Array<{ confidence?: number }>;
+  };
+  context?: { pageNumber?: number };
+  error?: { message?: string };
+}
+
+interface VisionAnnotateResponse {
+  responses?: Array<{ responses?: VisionPageResponse[] }>;
+}
+
+// files:annotate accepts at most five pages of a PDF per synchronous request.
+const PAGES_PER_REQUEST = 5;
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < values.length; index += size) {
+    chunks.push(values.slice(index, index + size));
+  }
+  return chunks;
+}
+
+function pageConfidence(annotation: VisionPageResponse["fullTextAnnotation"]): number {
+  const values = (annotation?.pages ?? []).map((page) => page.confidence).filter((value): value is number => typeof value === "number");
+  return values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100 : 0;
+}
+
+/**
+ * Google Cloud Vision document text detection over the PDF itself (no rendering step),
+ * five pages per request. Every page Vision returns is billed, so `pagesOcred` counts
+ * returned pages, including ones that came back empty.
+ */
+export class GoogleVisionOcrProvider implements OcrProvider {
+  constructor(private readonly options: VisionOcrOptions) {}
+
+  async performOcr(input: OcrRequest): Promise<OcrResult> {
+    const requested = input.pages ?? Array.from({ length: input.pagesHint }, (_, index) => index + 1);
+    const content = input.fileBytes.toString("base64");
+    const pages: OcrPageResult[] = [];
+    const warnings: string[] = [];
+
+    for (const batch of chunk(requested, PAGES_PER_REQUEST)) {
+      const range = batch.length > 1 ? `pages ${batch[0]}-${batch[batch.length - 1]}` : `page ${batch[0]}`;
+      try {
+        const response = await fetchWithRetry({
+          url: this.options.endpoint,
+          operationName: "Google Vision OCR",
+          fetchFn: this.options.fetchFn ?? fetch,
+          timeoutMs: this.options.timeoutMs,
+          maxAttempts: 2,
+          baseDelayMs: 750,
+          maxDelayMs: 4_000,
+          retryOnStatusCodes: [408, 429, 500, 502, 503, 504],
+          buildInit: () => ({
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "X-Goog-Api-Key": this.options.apiKey
+            },
+            body: JSON.stringify({
+              requests: [
+                {
+                  inputConfig: { content, mimeType: "application/pdf" },
+                  features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+                  imageContext: { languageHints: this.options.languageHints },
+                  pages: batch
+                }
+              ]
+            })
+          })
+        });
+
+        if (!response.ok) {
+          warnings.push(`Google Vision OCR failed for ${range} of ${input.fileName}: HTTP ${response.status}`);
+          continue;
+        }
+
+        const payload = (await response.json()) as VisionAnnotateResponse;
+        const results = payload.responses?.[0]?.responses ?? [];
+        results.forEach((result, index) => {
+          const page = result.context?.pageNumber ?? batch[index];
+          if (result.error?.message) {
+            warnings.push(`Google Vision OCR failed on page ${page} of ${input.fileName}: ${result.error.message}`);
+            return;
+          }
+          pages.push({
+            page,
+            text: result.fullTextAnnotation?.text?.trim() ?? "",
+            confidence: pageConfidence(result.fullTextAnnotation)
+          });
+        });
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push(`Google Vision OCR failed for ${range} of ${input.fileName}: ${message}`);
+      }
+    }
+
+    return {
+      text: pages.map((page) => page.text).filter(Boolean).join("\n\n"),
+      pagesOcred: pages.length,
+      pages,
+      warnings
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { makeError } from "@/lib/api/errors";
+import { tabularDocument, type SheetGrid, type TabularParseResult } from "@/lib/parsing/tabular";
+import { decodeXmlEntities, xmlElements, xmlTextRuns } from "@/lib/parsing/xml-text";
+import { openZipArchive, type ZipArchive } from "@/lib/parsing/zip-archive";
+
+type NumberStyle = "general" | "date" | "percent";
+
+// Built-in SpreadsheetML number formats (ECMA-376 18.8.30) that render dates, times and percentages.
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+const BUILT_IN_PERCENT_FORMATS = new Set([9, 10]);
+const MS_PER_DAY = 86_400_000;
+
+function readPart(archive: ZipArchive, path: string): string | null {
+  return archive.read(path)?.toString("utf8") ?? null;
+}
+
+function styleOfFormatCode(code: string): NumberStyle {
+  const bare = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  if (bare.includes("%")) {
+    return "percent";
+  }
+  return /[dy]|h+:m|m+:s/i.test(bare) ? "date" : "general";
+}
+
+/** Number style of each cell style index (the `s` attribute), from styles.xml cellXfs. */
+function readCellStyles(archive: ZipArchive): NumberStyle[] {
+  const styles = readPart(archive, "xl/styles.xml");
+  if (!styles) {
+    return [];
+  }
+
+  const customFormats = new Map(
+    xmlElements(styles, "numFmt").map((format) => [Number(format.attributes.numFmtId), format.attributes.formatCode ?? ""])
+  );
+  const cellXfs = /<(?:\w+:)?cellXfs\b[^>]*>([\s\S]*?)<\/(?:\w+:)?cellXfs>/.exec(styles)?.[1] ?? "";
+  return xmlElements(cellXfs, "xf").map((xf) => {
+    const id = Number(xf.attributes.numFmtId ?? 0);
+    if (BUILT_IN_DATE_FORMATS.has(id)) {
+      return "date";
+    }
+    if (BUILT_IN_PERCENT_FORMATS.has(id)) {
+      return "percent";
+    }
+    const custom = customFormats.get(id);
+    return custom ? styleOfFormatCode(custom) : "general";
+  });
+}
+
+function formatNumber(raw: string, style: NumberStyle, date1904: boolean): string {
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    return raw;
+  }
+  if (style === "percent") {
+    return `${Number((value * 100).toPrecision(12))}%`;
+  }
+  if (style === "date") {
+    // Serial day numbers count from 1899-12-30 (Excel's leap-year bug included) or 1904-01-01.
+    const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+    const iso = new Date(epoch + Math.round(value * MS_PER_DAY)).toISOString();
+    return Number.isInteger(value) ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+  }
+  return String(Number(value.toPrecision(15)));
+}
+
+/** Zero-based column index of a cell reference such as "C12". */
+function columnIndex(reference: string | undefined): number | null {
+  const letters = /^([A-Z]+)\d*$/i.exec(reference ?? "")?.[1];
+  if (!letters) {
+    return null;
+  }
+  return [...letters.toUpperCase()].reduce((sum, letter) => sum * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+}
+
+function readSheetRows(xml: string, sharedStrings: string[], styles: NumberStyle[], date1904: boolean): string[][] {
+  return xmlElements(xml, "row").map((row) => {
+    const cells: string[] = [];
+    for (const cell of xmlElements(row.inner, "c")) {
+      const type = cell.attributes.t ?? "n";
+      const value = decodeXmlEntities(xmlElements(cell.inner, "v")[0]?.inner ?? "");
+      let text: string;
+      if (type === "s") {
+        text = sharedStrings[Number(value)] ?? "";
+      } else if (type === "inlineStr") {
+        text = xmlTextRuns(cell.inner);
+      } else if (type === "b") {
+        text = value === "1" ? "TRUE" : "FALSE";
+      } else if (type === "n" && value !== "") {
+        text = formatNumber(value, styles[Number(cell.attributes.s ?? 0)] ?? "general", date1904);
+      } else {
+        text = value;
+      }
+
+      const column = columnIndex(cell.attributes.r) ?? cells.length;
+      while (cells.length < column) {
+        cells.push("");
+      }
+      cells[column] = text;
+    }
+    return cells;
+  });
+}
+
+function resolveTarget(target: string): string {
+  return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+}
+
+/**
+ * Reads every visible worksheet of an .xlsx workbook as a grid of formatted cell text:
+ * shared and inline strings, numbers, percentages and dates (as YYYY-MM-DD).
+ */
+export function parseXlsxBuffer(fileBytes: Buffer): TabularParseResult {
+  const archive = openZipArchive(fileBytes);
+  const workbook = readPart(archive, "xl/workbook.xml");
+  const relationships = readPart(archive, "xl/_rels/workbook.xml.rels");
+  if (!workbook || !relationships) {
+    throw makeError(400, "validation_error", "XLSX file has no workbook part", "parse-document", {
+      retryable: false
+    });
+  }
+
+  const targets = new Map(
+    xmlElements(relationships, "Relationship").map((relationship) => [
+      relationship.attributes.Id,
+      resolveTarget(relationship.attributes.Target ?? "")
+    ])
+  );
+  const sharedStringsXml = readPart(archive, "xl/sharedStrings.xml") ?? "";
+  // Phonetic runs (rPh) annotate East Asian text and are not part of the cell value.
+  const sharedStrings = xmlElements(sharedStringsXml, "si").map((item) =>
+    xmlTextRuns(item.inner.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, ""))
+  );
+  const styles = readCellStyles(archive);
+  const date1904 = /date1904\s*=\s*["'](?:1|true)["']/.test(workbook);
+
+  const sheets: SheetGrid[] = [];
+  const hidden: string[] = [];
+  for (const sheet of xmlElements(workbook, "sheet")) {
+    const name = sheet.attributes.name ?? `Sheet${sheets.length + 1}`;
+    if (sheet.attributes.state === "hidden" || sheet.attributes.state === "veryHidden") {
+      hidden.push(name);
+      continue;
+    }
+    const path = targets.get(sheet.attributes["r:id"] ?? "");
+    const xml = path ? readPart(archive, path) : null;
+    if (xml) {
+      sheets.push({ name, rows: readSheetRows(xml, sharedStrings, styles, date1904) });
+    }
+  }
+
+  const result = tabularDocument(sheets, "xlsx");
+  if (hidden.length > 0) {
+    result.warnings.push(`XLSX hidden sheets skipped: ${hidden.join(", ")}.`);
+  }
+  if (result.text.trim().length === 0) {
+    throw makeError(400, "validation_error", "XLSX file contains no readable cells", "parse-document", {
+      retryable: false
+    });
+  }
+  return result;
+}
@@ -0,0 +1,52 @@
+export interface XmlElement {
+  attributes: Record<string, string>;
+  /** Raw markup between the tags; empty for self-closing elements. */
+  inner: string;
+}
+
+const namedEntities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'"
+};
+
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body.startsWith("#x") || body.startsWith("#X")) {
+      return String.fromCodePoint(Number.parseInt(body.slice(2), 16));
+    }
+    if (body.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(body.slice(1), 10));
+    }
+    return namedEntities[body.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Every `<tag>` element in `xml`, with or without a namespace prefix. Elements of the
+ * same name must not nest, which holds for the Office Open XML parts read here.
+ */
+export function xmlElements(xml: string, tag: string): XmlElement[] {
+  const pattern = new RegExp(`<(?:[\\w.-]+:)?${tag}(?=[\\s/>])([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${tag}>)`, "g");
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    attributes: parseAttributes(match[1] ?? ""),
+    inner: match[2] ?? ""
+  }));
+}
+
+/** Concatenated text of every `<t>` run, the text element of spreadsheet and drawing markup. */
+export function xmlTextRuns(xml: string, tag = "t"): string {
+  return xmlElements(xml, tag)
+    .map((element) => decodeXmlEntities(element.inner))
+    .join("");
+}
@@ -0,0 +1,111 @@
+import { inflateRawSync } from "node:zlib";
+import { makeError } from "@/lib/api/errors";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Caps inflated output so a small archive cannot expand into gigabytes (zip bomb).
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[];
+  /** Inflated bytes of `name`, or null when the archive has no such entry. */
+  read(name: string): Buffer | null;
+}
+
+function corrupt(message: string): never {
+  throw makeError(400, "validation_error", `Archive is not a readable ZIP file: ${message}`, "parse-document", {
+    retryable: false
+  });
+}
+
+function findEndOfCentralDirectory(bytes: Buffer): number {
+  // The record is 22 bytes plus a comment of at most 65535 bytes.
+  const earliest = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let offset = bytes.length - 22; offset >= earliest; offset -= 1) {
+    if (bytes.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return corrupt("end of central directory not found");
+}
+
+/**
+ * Reads the central directory of a ZIP container (XLSX, DOCX, PPTX). Only stored and
+ * deflated entries are supported, which covers what Office and LibreOffice write.
+ */
+export function openZipArchive(bytes: Buffer): ZipArchive {
+  if (bytes.length < 22) {
+    corrupt("file is too small");
+  }
+
+  const end = findEndOfCentralDirectory(bytes);
+  const entryCount = bytes.readUInt16LE(end + 10);
+  let offset = bytes.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + 46 > bytes.length || bytes.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      corrupt("central directory is truncated");
+    }
+    const nameLength = bytes.readUInt16LE(offset + 28);
+    const extraLength = bytes.readUInt16LE(offset + 30);
+    const commentLength = bytes.readUInt16LE(offset + 32);
+    entries.push({
+      name: bytes.toString("utf8", offset + 46, offset + 46 + nameLength),
+      method: bytes.readUInt16LE(offset + 10),
+      compressedSize: bytes.readUInt32LE(offset + 20),
+      uncompressedSize: bytes.readUInt32LE(offset + 24),
+      localHeaderOffset: bytes.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const byName = new Map(entries.map((entry) => [entry.name, entry]));
+
+  return {
+    entries,
+    read(name: string): Buffer | null {
+      const entry = byName.get(name);
+      if (!entry) {
+        return null;
+      }
+
+      const header = entry.localHeaderOffset;
+      if (header + 30 > bytes.length || bytes.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+        corrupt(`local header for ${name} is missing`);
+      }
+      const dataStart = header + 30 + bytes.readUInt16LE(header + 26) + bytes.readUInt16LE(header + 28);
+      const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+      if (entry.uncompressedSize > MAX_ENTRY_BYTES) {
+        throw makeError(413, "file_too_large", `Archive entry ${name} expands beyond ${MAX_ENTRY_BYTES} bytes`, "parse-document", {
+          retryable: false,
+          details: { entry: name, maxBytes: MAX_ENTRY_BYTES }
+        });
+      }
+      if (entry.method === METHOD_STORED) {
+        return data;
+      }
+      if (entry.method === METHOD_DEFLATE) {
+        try {
+          return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES });
+        } catch {
+          return corrupt(`entry ${name} could not be inflated`);
+        }
+      }
+      return corrupt(`entry ${name} uses unsupported compression method ${entry.method}`);
+    }
+  };
+}
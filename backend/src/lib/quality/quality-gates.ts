@@ -5,7 +5,8 @@ interface ExtractedRfpLike {
   missingInformation?: Array<{ field?: string }>;
   evidence?: Array<{ field?: string }>;
   requiredDeliverables?: Array<unknown>;
-  importantDates?: Array<unknown>;
+  importantDates?: Array<{ status?: string }>;
+  quality?: { groundingRate?: number };
 }
 
 interface ScopeAnalysisLike {
@@ -86,12 +87,15 @@ export function evaluateQualityGate(input: EvaluateQualityGateInput): QualityAss
   const qualityFlags = new Set((input.extractedRfp.qualityFlags ?? []).map((item) => item.toLowerCase()));
 
   const evidenceDensity = evidenceDensityScore(input.extractedRfp);
+  // Older payloads predate provenance; treat them as fully grounded rather than penalizing.
+  const groundingRate = clamp(input.extractedRfp.quality?.groundingRate ?? 1);
   const extractionScore = clamp(
     0.55 +
       (qualityFlags.has("incomplete_extraction") ? -0.2 : 0) +
       (qualityFlags.has("conflicts_detected") ? -0.1 : 0) +
       (qualityFlags.has("low_evidence_density") ? -0.2 : 0) +
-      evidenceDensity * 0.35
+      evidenceDensity * 0.35 -
+      (1 - groundingRate) * 0.2
   );
 
   const scopeMatches = input.scopeAnalysis.matches ?? [];
@@ -127,11 +131,16 @@ export function evaluateQualityGate(input: EvaluateQualityGateInput): QualityAss
     blockReasons.push("Evidence density is below minimum threshold for high-confidence recommendation.");
   }
 
+  if (groundingRate < 0.5) {
+    blockReasons.push("Most extracted values are inferred rather than quoted from the RFP.");
+  }
+
   if ((input.extractedRfp.requiredDeliverables?.length ?? 0) === 0) {
     blockReasons.push("Deliverable extraction is incomplete.");
   }
 
-  if ((input.extractedRfp.importantDates?.length ?? 0) === 0) {
+  // "unknown" placeholders do not count; older artifacts without a status do.
+  if (!(input.extractedRfp.importantDates ?? []).some((date) => date.status !== "unknown")) {
     blockReasons.push("Important dates were not extracted with sufficient certainty.");
   }
 
@@ -16,6 +16,7 @@ import {
 import { resolveClaims } from "@/lib/research/trust-resolver";
 import { runWithClaudeHaikuModel } from "@/lib/ai/model-resolver";
 import { parseJsonFromModelText } from "@/lib/ai/json-response";
+import { emitProviderResult, type AnalysisProgressListener } from "@/lib/analysis/progress";
 
 export interface ResearchClientInput {
   analysisId: string;
@@ -31,13 +32,17 @@ export interface ResearchClientInput {
   };
 }
 
-interface ProviderSet {
+export interface ResearchProviderSet {
   brave?: typeof queryBrave;
   tavily?: typeof queryTavily;
   exa?: typeof queryExa;
   firecrawl?: typeof queryFirecrawl;
 }
 
+export interface ResearchClientOptions {
+  onProgress?: AnalysisProgressListener;
+}
+
 type ProviderName = RoutedProviderName;
 type AnalysisProfile = "high_assurance" | "balanced" | "fast";
 
@@ -384,7 +389,8 @@ function inferRetries(error: unknown): number {
 
 export async function researchClientInput(
   input: ResearchClientInput,
-  providers?: ProviderSet
+  providers?: ResearchProviderSet,
+  options: ResearchClientOptions = {}
 ): Promise<ClientResearchV1> {
   if (!input.analysisId || !input.clientName) {
     throw makeError(400, "validation_error", "analysisId and clientName are required", "research-client", {
@@ -392,6 +398,7 @@ export async function researchClientInput(
     });
   }
 
+  const { onProgress } = options;
   const p = {
     brave: providers?.brave ?? queryBrave,
     tavily: providers?.tavily ?? queryTavily,
@@ -438,6 +445,13 @@ export async function researchClientInput(
           latencyMs: latency,
           rateLimited: false
         });
+        emitProviderResult(onProgress, {
+          provider,
+          status: "succeeded",
+          latencyMs: latency,
+          documentCount: result.docs.length,
+          target: query
+        });
 
         if (result.warning) {
           queryWarnings.push(result.warning);
@@ -469,6 +483,13 @@ export async function researchClientInput(
           statusCode: statusCode ?? undefined,
           rateLimited
         });
+        emitProviderResult(onProgress, {
+          provider,
+          status: "failed",
+          latencyMs: latency,
+          documentCount: 0,
+          target: query
+        });
       }
     }
 
@@ -508,6 +529,13 @@ export async function researchClientInput(
         latencyMs: latency,
         rateLimited: false
       });
+      emitProviderResult(onProgress, {
+        provider: "firecrawl",
+        status: "succeeded",
+        latencyMs: latency,
+        documentCount: result.docs.length,
+        target: url
+      });
       docs.push(...result.docs);
       if (result.warning) {
         warnings.push(result.warning);
@@ -529,6 +557,13 @@ export async function researchClientInput(
         statusCode: statusCode ?? undefined,
         rateLimited
       });
+      emitProviderResult(onProgress, {
+        provider: "firecrawl",
+        status: "failed",
+        latencyMs: latency,
+        documentCount: 0,
+        target: url
+      });
     }
   }
 
@@ -7,13 +7,15 @@ import {
   taxonomySupportsMarketResearch
 } from "@/lib/scope/matcher";
 import { matchScopeWithClaude } from "@/lib/scope/claude-matcher";
-import { classifyOutputTypes, parseOutputQuantities } from "@/lib/scope/quantity-parser";
+import { classifyOutputTypes, parseOutputQuantities, type QuantityTable } from "@/lib/scope/quantity-parser";
 import { loadAgencyTaxonomy, taxonomyVersionFromServices } from "@/lib/scope/taxonomy-loader";
 
 export interface AnalyzeScopeInput {
   analysisId: string;
   scopeOfWork: string;
   language: "arabic" | "english" | "mixed";
+  /** Parsed document tables; quantity columns (e.g. a bill of quantities) add to outputQuantities. */
+  tables?: QuantityTable[];
 }
 
 export interface ScopeAnalysisV1 {
@@ -187,7 +189,7 @@ export async function analyzeScopeInput(input: AnalyzeScopeInput): Promise<Scope
   const agencyServicePercentage = roundToOneDecimalAsRatio((fullCount + 0.5 * partialCount) / classifiedTotal);
   const outsourcingPercentage = roundToOneDecimalAsRatio(1 - agencyServicePercentage);
 
-  const outputQuantities = parseOutputQuantities(input.scopeOfWork);
+  const outputQuantities = parseOutputQuantities(input.scopeOfWork, input.tables);
   const outputTypes = classifyOutputTypes(outputQuantities, input.scopeOfWork);
 
   if (scopeItems.length === 0) {
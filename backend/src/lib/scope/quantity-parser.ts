@@ -1,3 +1,5 @@
+import { normalizeDigits } from "@/lib/extraction/dates";
+
 export interface OutputQuantities {
   videoProduction: number | null;
   motionGraphics: number | null;
@@ -43,7 +45,53 @@ function extractMaxCount(text: string, patterns: RegExp[]): number | null {
   return max;
 }
 
-export function parseOutputQuantities(scopeOfWork: string): OutputQuantities {
+/** A parsed table such as a bill of quantities; see ParsedDocumentV1.tables. */
+export interface QuantityTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const QUANTITY_HEADER = /\b(?:qty|quantity|quantities|count|no\.\s*of|number\s+of)\b|الكمية|العدد/i;
+// "Item" columns usually hold serial numbers, so descriptive columns are preferred.
+const DESCRIPTION_HEADER = /\b(?:description|deliverables?|outputs?|services?|assets?|scope)\b|الوصف|المخرجات|البند/i;
+
+// Motion is checked before video so "motion graphics video" counts once, as motion.
+const ROW_CATEGORIES: Array<[keyof OutputQuantities, RegExp]> = [
+  ["motionGraphics", /motion|animat|موشن|متحرك/i],
+  ["videoProduction", /video|film|فيديو|فيلم/i],
+  ["visualDesign", /design|visual|illustration|banner|poster|infographic|تصميم|تصاميم/i],
+  ["contentOnly", /content|posts?\b|article|cop(?:y|ies)|report|caption|script|محتوى|منشور|مقال/i]
+];
+
+/** Sums quantity-column values per output type across the rows of quantity tables. */
+function tableQuantities(tables: QuantityTable[]): Partial<Record<keyof OutputQuantities, number>> {
+  const totals: Partial<Record<keyof OutputQuantities, number>> = {};
+
+  for (const table of tables) {
+    const quantityColumn = table.headers.findIndex((header) => QUANTITY_HEADER.test(header));
+    if (quantityColumn < 0) {
+      continue;
+    }
+    const itemColumn = table.headers.findIndex((header, index) => index !== quantityColumn && DESCRIPTION_HEADER.test(header));
+
+    for (const row of table.rows) {
+      const quantity = parseCandidateValue(normalizeDigits(row[quantityColumn] ?? "").replace(/[,\s]/g, ""));
+      const item = itemColumn >= 0 ? row[itemColumn] : row.filter((_, index) => index !== quantityColumn).join(" ");
+      const category = ROW_CATEGORIES.find(([, pattern]) => pattern.test(item ?? ""))?.[0];
+      if (quantity !== null && category) {
+        totals[category] = (totals[category] ?? 0) + quantity;
+      }
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Output counts stated in the scope text, raised to the per-type totals of any quantity
+ * tables (bills of quantities, deliverable schedules) when those are higher.
+ */
+export function parseOutputQuantities(scopeOfWork: string, tables: QuantityTable[] = []): OutputQuantities {
   const lowered = scopeOfWork.toLowerCase();
 
   const video = extractMaxCount(lowered, [
@@ -78,11 +126,15 @@ export function parseOutputQuantities(scopeOfWork: string): OutputQuantities {
     /(?:content\s+pieces?|posts?|articles?|copies|reports?)\s*[:\-]?\s*(\d{1,3})/gi
   ]);
 
+  const fromTables = tableQuantities(tables);
+  const larger = (text: number | null, table: number | undefined) =>
+    table === undefined ? text : Math.max(text ?? 0, table);
+
   return {
-    videoProduction: video,
-    motionGraphics: motion,
-    visualDesign: visuals,
-    contentOnly: content
+    videoProduction: larger(video, fromTables.videoProduction),
+    motionGraphics: larger(motion, fromTables.motionGraphics),
+    visualDesign: larger(visuals, fromTables.visualDesign),
+    contentOnly: larger(content, fromTables.contentOnly)
   };
 }
 
@@ -12,7 +12,15 @@ interface ExtractedRfpLike {
   missingInformation?: Array<{ field?: string; suggestedQuestion?: string }>;
   evidence?: Array<{ field?: string }>;
   requiredDeliverables?: Array<string | { item?: string }>;
-  importantDates?: Array<{ date?: string }>;
+  importantDates?: Array<{ date?: string | null; status?: string }>;
+  commercialTerms?: {
+    estimatedBudget?: { min?: number | null; max?: number | null; currency?: string | null } | null;
+    contractDuration?: { months?: number } | null;
+  };
+  structuredEvaluationCriteria?: {
+    technicalWeightPercent?: number | null;
+    financialWeightPercent?: number | null;
+  };
 }
 
 interface ScopeAnalysisLike {
@@ -88,6 +96,9 @@ export function recommendationBandForScore(finalScore: number): FinancialScoreV1
   return "LOW";
 }
 
+// Evaluations that give price at least this share of the total are won on cost rather than quality.
+const PRICE_LED_FINANCIAL_WEIGHT = 50;
+
 function rationaleForBand(
   band: FinancialScoreV1["recommendationBand"],
   factors: FactorBreakdownItem[],
@@ -155,6 +166,11 @@ export async function calculateScoreInput(input: CalculateScoreInput): Promise<C
     warnings.push("completenessScore missing; maximum completeness penalty applied.");
   }
 
+  const financialWeight = input.extractedRfp.structuredEvaluationCriteria?.financialWeightPercent;
+  if (typeof financialWeight === "number" && financialWeight >= PRICE_LED_FINANCIAL_WEIGHT) {
+    warnings.push(`Price-led evaluation: financial criteria carry ${financialWeight}% of the total weight.`);
+  }
+
   if (quality.blocked) {
     finalScore = Math.min(finalScore, 49);
     recommendationBand = "LOW";
@@ -39,8 +39,12 @@ interface ScopeAnalysisLike {
 
 interface ExtractedRfpLike {
   requiredDeliverables?: Array<string | { item?: string }>;
-  importantDates?: Array<{ date?: string }>;
+  importantDates?: Array<{ date?: string | null; status?: string }>;
   redFlags?: Array<{ severity?: string }>;
+  commercialTerms?: {
+    estimatedBudget?: { min?: number | null; max?: number | null; currency?: string | null } | null;
+    contractDuration?: { months?: number } | null;
+  };
 }
 
 interface ClientResearchLike {
@@ -108,7 +112,7 @@ function parseDate(value: string): Date | null {
   return parsed;
 }
 
-function inferTimelineMonths(importantDates: Array<{ date?: string }> | undefined): number | null {
+function inferTimelineMonths(importantDates: Array<{ date?: string | null }> | undefined): number | null {
   if (!importantDates || importantDates.length < 2) {
     return null;
   }
@@ -128,6 +132,23 @@ function inferTimelineMonths(importantDates: Array<{ date?: string }> | undefine
   return diffDays / 30;
 }
 
+// SAR per unit of currency; USD and AED are pegged. Unlabelled amounts are taken as SAR.
+const SAR_EXCHANGE_RATES: Record<string, number> = {
+  SAR: 1,
+  USD: 3.75,
+  AED: 1.02
+};
+
+function budgetInSar(commercialTerms: ExtractedRfpLike["commercialTerms"]): number | null {
+  const budget = commercialTerms?.estimatedBudget;
+  const amount = budget?.max ?? budget?.min ?? null;
+  if (typeof amount !== "number" || amount <= 0) {
+    return null;
+  }
+  const rate = SAR_EXCHANGE_RATES[budget?.currency ?? "SAR"];
+  return rate === undefined ? null : amount * rate;
+}
+
 function toNumber(value: unknown): number | null {
   if (typeof value === "number" && Number.isFinite(value)) {
     return value;
@@ -181,21 +202,40 @@ export function buildFactorBreakdown(input: BuildFactorsInput): BuildFactorsResu
   const factors: FactorBreakdownItem[] = [];
 
   const deliverableCount = input.extractedRfp.requiredDeliverables?.length ?? 0;
-  const timelineMonths = inferTimelineMonths(input.extractedRfp.importantDates);
+  const contractMonths = input.extractedRfp.commercialTerms?.contractDuration?.months;
+  const timelineMonths =
+    typeof contractMonths === "number" && contractMonths > 0
+      ? contractMonths
+      : inferTimelineMonths(input.extractedRfp.importantDates);
+  const budgetSar = budgetInSar(input.extractedRfp.commercialTerms);
   let scopePoints = 2;
-  if (deliverableCount >= 20 || (timelineMonths ?? 0) >= 6) {
+  if (budgetSar !== null) {
+    // A stated budget is the most direct measure of size; volume and timeline only break ties.
+    if (budgetSar >= 10_000_000) {
+      scopePoints = 17;
+    } else if (budgetSar >= 3_000_000) {
+      scopePoints = 12;
+    } else if (budgetSar >= 500_000) {
+      scopePoints = 7;
+    }
+    if (scopePoints < 17 && (deliverableCount >= 20 || (timelineMonths ?? 0) >= 12)) {
+      scopePoints += 1;
+    }
+  } else if (deliverableCount >= 20 || (timelineMonths ?? 0) >= 6) {
     scopePoints = 17;
   } else if (deliverableCount >= 10 || (timelineMonths ?? 0) >= 3) {
     scopePoints = 12;
   } else if (deliverableCount >= 5 || (timelineMonths ?? 0) >= 1) {
     scopePoints = 7;
   }
+  const timelineSource = typeof contractMonths === "number" && contractMonths > 0 ? "Contract duration" : "Timeline estimate";
   factors.push(
     factorItem("projectScopeMagnitude", "Project Scope Magnitude", scopePoints, [
       `Deliverables counted: ${deliverableCount}`,
       timelineMonths === null
         ? "Timeline duration unavailable; using deliverable volume."
-        : `Timeline estimate: ${roundToTwo(timelineMonths)} months`
+        : `${timelineSource}: ${roundToTwo(timelineMonths)} months`,
+      ...(budgetSar === null ? [] : [`Estimated budget: SAR ${Math.round(budgetSar).toLocaleString("en-US")}`])
     ])
   );
 
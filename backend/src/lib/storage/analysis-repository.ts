@@ -0,0 +1,310 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { makeError } from "@/lib/api/errors";
+import type { AnalysisReportV1 } from "@/lib/analysis/run-analysis";
+import type { ExtractedRfpDataV1 } from "@/lib/extraction/analyze-rfp";
+import type { ParsedDocumentV1 } from "@/lib/parsing/parse-document";
+import type { ClientResearchV1 } from "@/lib/research/research-client";
+import type { ScopeAnalysisV1 } from "@/lib/scope/analyze-scope";
+import type { FinancialScoreV1 } from "@/lib/scoring/calculate-score";
+
+export interface StoredAnalysisArtifacts {
+  parsedDocument: ParsedDocumentV1;
+  extractedRfp: ExtractedRfpDataV1;
+  scopeAnalysis: ScopeAnalysisV1;
+  clientResearch: ClientResearchV1;
+  financialScore: FinancialScoreV1;
+  report: AnalysisReportV1;
+}
+
+export type StoredArtifactName = keyof StoredAnalysisArtifacts;
+
+export const STORED_ARTIFACT_NAMES: StoredArtifactName[] = [
+  "parsedDocument",
+  "extractedRfp",
+  "scopeAnalysis",
+  "clientResearch",
+  "financialScore",
+  "report"
+];
+
+export interface AnalysisRecordSummary {
+  analysisId: string;
+  createdAt: string;
+  updatedAt: string;
+  clientName: string | null;
+  projectName: string | null;
+  finalScore: number | null;
+  recommendationBand: string | null;
+  artifacts: StoredArtifactName[];
+}
+
+export interface StoredAnalysis {
+  summary: AnalysisRecordSummary;
+  artifacts: Partial<StoredAnalysisArtifacts>;
+}
+
+export interface AnalysisRepository {
+  saveArtifact<K extends StoredArtifactName>(
+    analysisId: string,
+    name: K,
+    value: StoredAnalysisArtifacts[K]
+  ): Promise<void>;
+  get(analysisId: string): Promise<StoredAnalysis | null>;
+  list(options?: { limit?: number; offset?: number }): Promise<{ analyses: AnalysisRecordSummary[]; total: number }>;
+  delete(analysisId: string): Promise<boolean>;
+}
+
+// Analysis ids name store directories, and "." or ".." pass through encodeURIComponent
+// unchanged, so only plain id characters are accepted.
+const ANALYSIS_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/** Rejects analysis ids that could not safely key a stored analysis. */
+export function assertValidAnalysisId(analysisId: unknown, stage: string): asserts analysisId is string {
+  if (typeof analysisId !== "string" || !ANALYSIS_ID_PATTERN.test(analysisId)) {
+    throw makeError(400, "validation_error", "analysisId must be 1-128 letters, digits, hyphens or underscores", stage, {
+      retryable: false,
+      details: { field: "analysisId" }
+    });
+  }
+}
+
+function emptySummary(analysisId: string, now: string): AnalysisRecordSummary {
+  return {
+    analysisId,
+    createdAt: now,
+    updatedAt: now,
+    clientName: null,
+    projectName: null,
+    finalScore: null,
+    recommendationBand: null,
+    artifacts: []
+  };
+}
+
+function applyArtifactToSummary<K extends StoredArtifactName>(
+  summary: AnalysisRecordSummary,
+  name: K,
+  value: StoredAnalysisArtifacts[K],
+  now: string
+): AnalysisRecordSummary {
+  const next: AnalysisRecordSummary = {
+    ...summary,
+    updatedAt: now,
+    artifacts: STORED_ARTIFACT_NAMES.filter((item) => item === name || summary.artifacts.includes(item))
+  };
+
+  if (name === "extractedRfp") {
+    const extracted = value as ExtractedRfpDataV1;
+    next.clientName = extracted.clientName;
+    next.projectName = extracted.projectName;
+  } else if (name === "financialScore") {
+    const score = value as FinancialScoreV1;
+    next.finalScore = score.finalScore;
+    next.recommendationBand = score.recommendationBand;
+  } else if (name === "report") {
+    const report = value as AnalysisReportV1;
+    next.clientName = report.extractedRfp.clientName;
+    next.projectName = report.extractedRfp.projectName;
+    next.finalScore = report.financialScore.finalScore;
+    next.recommendationBand = report.financialScore.recommendationBand;
+  }
+
+  return next;
+}
+
+function paginate(
+  summaries: AnalysisRecordSummary[],
+  options: { limit?: number; offset?: number } = {}
+): { analyses: AnalysisRecordSummary[]; total: number } {
+  const sorted = [...summaries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const offset = Math.max(0, options.offset ?? 0);
+  const limit = Math.max(0, options.limit ?? sorted.length);
+  return {
+    analyses: sorted.slice(offset, offset + limit),
+    total: sorted.length
+  };
+}
+
+export class InMemoryAnalysisRepository implements AnalysisRepository {
+  private readonly records = new Map<string, StoredAnalysis>();
+
+  async saveArtifact<K extends StoredArtifactName>(
+    analysisId: string,
+    name: K,
+    value: StoredAnalysisArtifacts[K]
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const existing = this.records.get(analysisId) ?? { summary: emptySummary(analysisId, now), artifacts: {} };
+    this.records.set(analysisId, {
+      summary: applyArtifactToSummary(existing.summary, name, value, now),
+      artifacts: { ...existing.artifacts, [name]: structuredClone(value) }
+    });
+  }
+
+  async get(analysisId: string): Promise<StoredAnalysis | null> {
+    const record = this.records.get(analysisId);
+    return record ? structuredClone(record) : null;
+  }
+
+  async list(options?: { limit?: number; offset?: number }) {
+    return paginate(
+      Array.from(this.records.values(), (record) => record.summary),
+      options
+    );
+  }
+
+  async delete(analysisId: string): Promise<boolean> {
+    return this.records.delete(analysisId);
+  }
+}
+
+/**
+ * One directory per analysis: `summary.json` plus one JSON file per artifact.
+ * Writes for the same analysis are serialized so parallel stages (scope and
+ * research) cannot clobber each other's summary update.
+ */
+export class FileAnalysisRepository implements AnalysisRepository {
+  private readonly writeChains = new Map<string, Promise<void>>();
+
+  constructor(private readonly dir: string) {}
+
+  private analysisDir(analysisId: string): string {
+    assertValidAnalysisId(analysisId, "analyses");
+    return path.join(this.dir, analysisId);
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8")) as T;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async writeJson(filePath: string, value: unknown): Promise<void> {
+    const tmp = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value), "utf8");
+    await fs.rename(tmp, filePath);
+  }
+
+  async saveArtifact<K extends StoredArtifactName>(
+    analysisId: string,
+    name: K,
+    value: StoredAnalysisArtifacts[K]
+  ): Promise<void> {
+    const write = async () => {
+      const dir = this.analysisDir(analysisId);
+      await fs.mkdir(dir, { recursive: true });
+      const now = new Date().toISOString();
+      const summaryPath = path.join(dir, "summary.json");
+      const summary = (await this.readJson<AnalysisRecordSummary>(summaryPath)) ?? emptySummary(analysisId, now);
+      await this.writeJson(path.join(dir, `${name}.json`), value);
+      await this.writeJson(summaryPath, applyArtifactToSummary(summary, name, value, now));
+    };
+
+    const previous = this.writeChains.get(analysisId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+    this.writeChains.set(analysisId, next);
+    try {
+      await next;
+    } finally {
+      if (this.writeChains.get(analysisId) === next) {
+        this.writeChains.delete(analysisId);
+      }
+    }
+  }
+
+  async get(analysisId: string): Promise<StoredAnalysis | null> {
+    const dir = this.analysisDir(analysisId);
+    const summary = await this.readJson<AnalysisRecordSummary>(path.join(dir, "summary.json"));
+    if (!summary) {
+      return null;
+    }
+
+    const artifacts: Partial<StoredAnalysisArtifacts> = {};
+    for (const name of summary.artifacts) {
+      const value = await this.readJson<StoredAnalysisArtifacts[typeof name]>(path.join(dir, `${name}.json`));
+      if (value) {
+        Object.assign(artifacts, { [name]: value });
+      }
+    }
+
+    return { summary, artifacts };
+  }
+
+  async list(options?: { limit?: number; offset?: number }) {
+    let entries: string[] = [];
+    try {
+      entries = await fs.readdir(this.dir);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    const summaries: AnalysisRecordSummary[] = [];
+    for (const entry of entries) {
+      const summary = await this.readJson<AnalysisRecordSummary>(path.join(this.dir, entry, "summary.json"));
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+
+    return paginate(summaries, options);
+  }
+
+  async delete(analysisId: string): Promise<boolean> {
+    const dir = this.analysisDir(analysisId);
+    const exists = await fs
+      .stat(dir)
+      .then(() => true)
+      .catch(() => false);
+    await fs.rm(dir, { recursive: true, force: true });
+    return exists;
+  }
+}
+
+let defaultRepository: AnalysisRepository | null = null;
+
+export function getAnalysisRepository(): AnalysisRepository {
+  if (defaultRepository) {
+    return defaultRepository;
+  }
+
+  if (process.env.ANALYSIS_STORE === "memory") {
+    defaultRepository = new InMemoryAnalysisRepository();
+  } else {
+    const dir = process.env.ANALYSIS_STORE_DIR || path.join(os.tmpdir(), "angle-rfp-analyses");
+    defaultRepository = new FileAnalysisRepository(dir);
+  }
+
+  return defaultRepository;
+}
+
+export function setAnalysisRepository(repository: AnalysisRepository | null): void {
+  defaultRepository = repository;
+}
+
+/**
+ * Best-effort save used by the pipeline and the per-stage routes. Storage problems
+ * degrade to a warning so a full disk never throws away a paid-for analysis result.
+ */
+export async function persistAnalysisArtifact<K extends StoredArtifactName>(
+  analysisId: string,
+  name: K,
+  value: StoredAnalysisArtifacts[K],
+  repository: AnalysisRepository = getAnalysisRepository()
+): Promise<string[]> {
+  try {
+    await repository.saveArtifact(analysisId, name, value);
+    return [];
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [`Analysis ${name} could not be saved: ${message}`];
+  }
+}
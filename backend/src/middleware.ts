@@ -8,17 +8,29 @@ import { assertIdempotencyKey } from "@/lib/security/idempotency";
 import { assertWithinRateLimit } from "@/lib/ops/rate-limit";
 
 const POST_ONLY_GUARDED = /^\/api\//;
+// Analysis reads expose client documents, so they need a bearer token too.
+const READ_GUARDED = /^\/api\/analyses(\/|$)/;
 
 export function middleware(request: NextRequest): NextResponse {
   if (!POST_ONLY_GUARDED.test(request.nextUrl.pathname)) {
     return NextResponse.next();
   }
 
+  const context = buildRequestContext(request);
+
   if (request.method !== "POST") {
-    return NextResponse.next();
-  }
+    if (!READ_GUARDED.test(request.nextUrl.pathname)) {
+      return NextResponse.next();
+    }
 
-  const context = buildRequestContext(request);
+    try {
+      assertAuthorized(request);
+      return NextResponse.next();
+    } catch (error: unknown) {
+      const normalized = normalizeUnknownError(error, "middleware");
+      return errorEnvelope(context, normalized);
+    }
+  }
 
   try {
     assertAuthorized(request);
@@ -0,0 +1,143 @@
+import { describe, expect, test } from "vitest";
+import { diffAnalyses, reanalyzeWithDocument } from "@/lib/analysis/analysis-diff";
+import { runAnalysisPipeline } from "@/lib/analysis/run-analysis";
+import { analyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import type { ResearchProviderSet } from "@/lib/research/research-client";
+import { InMemoryAnalysisRepository } from "@/lib/storage/analysis-repository";
+
+const baseAnalysisId = "0b0d3f0e-4c55-4b3c-9d55-4f5f0e3c7a11";
+
+const baseRfp = `
+Client: Example Authority
+Project Name: Awareness Campaign
+
+Scope of Work:
+Develop campaign strategy and produce 6 videos.
+
+Evaluation Criteria:
+Technical proposal 70%
+Financial proposal 30%
+
+Submission Requirements:
+Send proposal to procurement@example.com in PDF format.
+Submission deadline: 15/03/2026
+`;
+
+const addendum = `Addendum 1
+The submission deadline is extended to 22/03/2026.
+Evaluation Criteria:
+Technical proposal 60%
+Financial proposal 40%
+The agency shall bear unlimited liability for any losses arising from the services.`;
+
+const researchProviders: ResearchProviderSet = {
+  brave: async () => [],
+  tavily: async () => [],
+  firecrawl: async () => []
+};
+
+async function extract(analysisId: string, rawText: string) {
+  return analyzeRfpInput({
+    analysisId,
+    parsedDocument: {
+      schemaVersion: "1.0.0",
+      analysisId,
+      primaryLanguage: "english",
+      rawText,
+      sections: [],
+      tables: [],
+      evidenceMap: []
+    }
+  });
+}
+
+describe("diffAnalyses", () => {
+  test("reports moved dates, weight changes, new red flags and the score delta", async () => {
+    const revisedId = "10aa1a1d-0c3f-4fa0-918c-ac65f5a6c8fd";
+    const base = { analysisId: baseAnalysisId, extractedRfp: await extract(baseAnalysisId, baseRfp) };
+    const revised = {
+      analysisId: revisedId,
+      extractedRfp: await extract(
+        revisedId,
+        baseRfp
+          .replace("15/03/2026", "22/03/2026 at 1:00 PM")
+          .replace("Technical proposal 70%", "Technical proposal 60%")
+          .replace("Financial proposal 30%", "Financial proposal 40%")
+          .concat("The agency shall bear unlimited liability for any losses arising from the services.\n")
+      )
+    };
+
+    const diff = await diffAnalyses(base, revised);
+
+    expect(diff.changedDates).toEqual([
+      expect.objectContaining({
+        type: "submission_deadline",
+        change: "changed",
+        before: { date: "2026-03-15", time: null },
+        after: { date: "2026-03-22", time: "13:00" }
+      })
+    ]);
+    expect(diff.evaluationWeights).toEqual(
+      expect.arrayContaining([
+        { criterion: "Technical", kind: "technical_total", before: 70, after: 60 },
+        { criterion: "Technical proposal", kind: "criterion", before: 70, after: 60 }
+      ])
+    );
+    expect(diff.redFlags.added.map((flag) => flag.ruleId)).toEqual(["unlimited_liability"]);
+    expect(diff.redFlags.resolved).toEqual([]);
+    expect(diff.score.delta).toBeLessThan(0);
+    expect(diff.score.delta).toBe(Math.round((diff.score.after - diff.score.before) * 100) / 100);
+    expect(diff.summary).toContain("Submission deadline moved from 2026-03-15 to 2026-03-22 13:00.");
+    expect(diff.warnings[0]).toContain("required deliverables");
+  });
+});
+
+describe("reanalyzeWithDocument", () => {
+  test("applies an addendum to the stored document and diffs against the base analysis", async () => {
+    const repository = new InMemoryAnalysisRepository();
+    await runAnalysisPipeline({
+      analysisId: baseAnalysisId,
+      fileName: "rfp.txt",
+      mimeType: "text/plain",
+      fileBytes: Buffer.from(baseRfp, "utf8"),
+      researchProviders,
+      repository
+    });
+
+    const result = await reanalyzeWithDocument({
+      baseAnalysisId,
+      fileName: "addendum-1.txt",
+      mimeType: "text/plain",
+      fileBytes: Buffer.from(addendum, "utf8"),
+      role: "addendum",
+      repository
+    });
+
+    expect(result.diff.baseAnalysisId).toBe(baseAnalysisId);
+    expect(result.diff.changedDates.map((change) => [change.change, change.before?.date, change.after?.date])).toEqual([
+      ["changed", "2026-03-15", "2026-03-22"]
+    ]);
+    expect(result.diff.evaluationWeights).toEqual([
+      { criterion: "Technical", kind: "technical_total", before: 70, after: 60 },
+      { criterion: "Financial", kind: "financial_total", before: 30, after: 40 }
+    ]);
+    expect(result.diff.redFlags.added).toEqual([expect.objectContaining({ ruleId: "unlimited_liability", severity: "HIGH" })]);
+    expect(result.diff.score.after).toBeLessThan(result.diff.score.before);
+    expect(result.revisedExtractedRfp.conflicts).toEqual(
+      expect.arrayContaining([expect.objectContaining({ field: "submission_deadline", resolvedBy: "amendment" })])
+    );
+  });
+
+  test("needs the stored document to apply an addendum", async () => {
+    await expect(
+      reanalyzeWithDocument({
+        baseAnalysisId,
+        fileName: "addendum-1.txt",
+        mimeType: "text/plain",
+        fileBytes: Buffer.from(addendum, "utf8"),
+        role: "addendum",
+        repository: new InMemoryAnalysisRepository()
+      })
+    ).rejects.toMatchObject({ shape: { code: "validation_error" } });
+  });
+});
@@ -0,0 +1,194 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { describe, expect, test, vi } from "vitest";
+import { getAnalysisJob, runAnalysisJob, submitAnalysisJob } from "@/lib/analysis/analysis-jobs";
+import { subscribeAnalysisEvents, type AnalysisStreamEvent } from "@/lib/analysis/event-bus";
+import {
+  FileAnalysisJobStore,
+  InMemoryAnalysisJobStore,
+  canQueueAnalysisJobs,
+  setAnalysisJobStore
+} from "@/lib/analysis/job-store";
+import type { AnalysisProgressEvent } from "@/lib/analysis/progress";
+import type { ResearchProviderSet } from "@/lib/research/research-client";
+
+const sampleRfp = `
+Client: Saudi Aramco
+Project Name: Brand Refresh Campaign 2026
+
+Scope of Work:
+Develop campaign strategy, produce 6 videos and 40 visual design assets.
+
+Evaluation Criteria:
+Creative quality 60%
+Cost efficiency 40%
+
+Submission deadline: 15/03/2026
+`;
+
+const researchProviders: ResearchProviderSet = {
+  brave: async () => [],
+  tavily: async () => [],
+  firecrawl: async () => []
+};
+
+function jobInput(analysisId: string) {
+  return {
+    analysisId,
+    fileName: "rfp.txt",
+    mimeType: "text/plain",
+    fileBytes: Buffer.from(sampleRfp, "utf8"),
+    researchProviders
+  };
+}
+
+// Outside a request there is no after() scope; let the run float like it would after the response.
+const detached = (task: Promise<unknown>) => void task;
+
+async function waitForTerminal(store: InMemoryAnalysisJobStore, jobId: string) {
+  for (let attempt = 0; attempt < 200; attempt += 1) {
+    const job = await store.get(jobId);
+    if (job && (job.status === "succeeded" || job.status === "failed")) {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error("job did not finish");
+}
+
+describe("analysis jobs", () => {
+  test("submit returns a queued job and the runner completes it", async () => {
+    const store = new InMemoryAnalysisJobStore();
+    const analysisId = "4a7b2f7e-2d0c-4b41-8a0e-6a3c1c1f9001";
+
+    const queued = await submitAnalysisJob(jobInput(analysisId), store, detached);
+    expect(queued.jobId).toBe(analysisId);
+    expect(queued.status).toBe("queued");
+    expect(queued.percentComplete).toBe(0);
+
+    const done = await waitForTerminal(store, analysisId);
+    expect(done.status).toBe("succeeded");
+    expect(done.percentComplete).toBe(100);
+    expect(done.stages.every((stage) => stage.status === "completed")).toBe(true);
+    expect(Object.keys(done.artifacts).sort()).toEqual(
+      ["clientResearch", "extractedRfp", "financialScore", "parsedDocument", "scopeAnalysis"]
+    );
+    expect(done.report?.analysisId).toBe(analysisId);
+  });
+
+  test("reports stages in pipeline order with growing percent complete", async () => {
+    const store = new InMemoryAnalysisJobStore();
+    const analysisId = "4a7b2f7e-2d0c-4b41-8a0e-6a3c1c1f9002";
+    const started: string[] = [];
+    const percents: number[] = [];
+
+    await runAnalysisJob(
+      {
+        ...jobInput(analysisId),
+        onProgress: (event: AnalysisProgressEvent) => {
+          if (event.type === "stage" && event.status === "started") {
+            started.push(event.stage);
+          }
+        }
+      },
+      {
+        save: async (job) => {
+          percents.push(job.percentComplete);
+          await store.save(job);
+        },
+        get: (jobId) => store.get(jobId),
+        delete: (jobId) => store.delete(jobId)
+      }
+    );
+
+    expect(started.slice(0, 8)).toEqual([
+      "parse",
+      "extract_pass1",
+      "extract_pass2",
+      "extract_pass3",
+      "extract_pass4",
+      "extract_pass5",
+      "extract_pass6",
+      "beautify"
+    ]);
+    expect(started.slice(8).sort()).toEqual(["research", "scope", "score"].sort());
+    expect(percents).toEqual([...percents].sort((a, b) => a - b));
+    expect(percents.at(-1)).toBe(100);
+  });
+
+  test("records failures on the job and rejects duplicate in-flight submissions", async () => {
+    const store = new InMemoryAnalysisJobStore();
+    const analysisId = "4a7b2f7e-2d0c-4b41-8a0e-6a3c1c1f9003";
+
+    await submitAnalysisJob({ ...jobInput(analysisId), fileName: "deck.key", mimeType: "application/x-iwork-keynote" }, store, detached);
+    await expect(submitAnalysisJob(jobInput(analysisId), store, detached)).rejects.toMatchObject({ statusCode: 409 });
+
+    const failed = await waitForTerminal(store, analysisId);
+    expect(failed.status).toBe("failed");
+    expect(failed.error).toMatchObject({ code: "unsupported_format", stage: "parse-document" });
+    expect(failed.stages.find((stage) => stage.stage === "parse")?.status).toBe("failed");
+    await expect(getAnalysisJob("missing-job", store)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  test("publishes the terminal event and records the job as failed when the final save fails", async () => {
+    const store = new InMemoryAnalysisJobStore();
+    const analysisId = "4a7b2f7e-2d0c-4b41-8a0e-6a3c1c1f9005";
+    const events: AnalysisStreamEvent[] = [];
+    const unsubscribe = subscribeAnalysisEvents(analysisId, (event) => events.push(event));
+
+    try {
+      const job = await runAnalysisJob(jobInput(analysisId), {
+        save: async (record) => {
+          if (record.status === "succeeded") {
+            throw new Error("job record too large");
+          }
+          await store.save(record);
+        },
+        get: (jobId) => store.get(jobId),
+        delete: (jobId) => store.delete(jobId)
+      });
+
+      expect(job.status).toBe("failed");
+      expect(events.at(-1)).toMatchObject({ type: "job", status: "failed" });
+      expect(await store.get(analysisId)).toMatchObject({ status: "failed", report: null });
+      await expect(submitAnalysisJob(jobInput(analysisId), store, detached)).resolves.toMatchObject({ status: "queued" });
+      await waitForTerminal(store, analysisId);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  test("queues async jobs on the memory store only outside production", () => {
+    try {
+      vi.stubEnv("ANALYSIS_JOB_STORE", "memory");
+      setAnalysisJobStore(null);
+      expect(canQueueAnalysisJobs()).toBe(true);
+
+      vi.stubEnv("NODE_ENV", "production");
+      expect(canQueueAnalysisJobs()).toBe(false);
+
+      vi.stubEnv("ANALYSIS_JOB_STORE", "file");
+      setAnalysisJobStore(null);
+      expect(canQueueAnalysisJobs()).toBe(true);
+    } finally {
+      vi.unstubAllEnvs();
+      setAnalysisJobStore(null);
+    }
+  });
+
+  test("file store round-trips job records", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "angle-rfp-jobs-test-"));
+    const store = new FileAnalysisJobStore(dir);
+    const analysisId = "4a7b2f7e-2d0c-4b41-8a0e-6a3c1c1f9004";
+
+    try {
+      const job = await runAnalysisJob(jobInput(analysisId), store);
+      expect(await store.get(analysisId)).toEqual(job);
+      await store.delete(analysisId);
+      expect(await store.get(analysisId)).toBeNull();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { describe, expect, test } from "vitest";
+import { deleteAnalysis, getAnalysisReport, listAnalyses } from "@/lib/analysis/analysis-history";
+import { InMemoryAnalysisJobStore } from "@/lib/analysis/job-store";
+import { runAnalysisPipeline } from "@/lib/analysis/run-analysis";
+import type { ResearchProviderSet } from "@/lib/research/research-client";
+import {
+  FileAnalysisRepository,
+  InMemoryAnalysisRepository,
+  persistAnalysisArtifact,
+  type AnalysisRepository
+} from "@/lib/storage/analysis-repository";
+
+const sampleRfp = `
+Client: Saudi Aramco
+Project Name: Brand Refresh Campaign 2026
+
+Scope of Work:
+Develop campaign strategy and produce 6 videos.
+
+Evaluation Criteria:
+Creative quality 60%
+Cost efficiency 40%
+
+Submission deadline: 15/03/2026
+`;
+
+const researchProviders: ResearchProviderSet = {
+  brave: async () => [],
+  tavily: async () => [
+    {
+      key: "marketSignal",
+      value: "High campaign activity in region",
+      source: "Reuters",
+      tier: 2,
+      sourceDate: "2026-02-09",
+      category: "news"
+    }
+  ],
+  exa: async () => [],
+  firecrawl: async () => []
+};
+
+async function runInto(repository: AnalysisRepository, analysisId: string) {
+  return runAnalysisPipeline({
+    analysisId,
+    fileName: "rfp.txt",
+    mimeType: "text/plain",
+    fileBytes: Buffer.from(sampleRfp, "utf8"),
+    researchProviders,
+    repository
+  });
+}
+
+describe("analysis repository", () => {
+  test("pipeline persists every artifact and the report", async () => {
+    const repository = new InMemoryAnalysisRepository();
+    const analysisId = "5e2f1c3a-8d6b-4f0e-9a1c-0b2d3e4f5a01";
+    const result = await runInto(repository, analysisId);
+
+    const stored = await repository.get(analysisId);
+    expect(stored?.summary.artifacts).toEqual([
+      "parsedDocument",
+      "extractedRfp",
+      "scopeAnalysis",
+      "clientResearch",
+      "financialScore",
+      "report"
+    ]);
+    expect(stored?.summary.clientName).toBe(result.report.extractedRfp.clientName);
+    expect(stored?.summary.finalScore).toBe(result.report.financialScore.finalScore);
+    expect(await getAnalysisReport(analysisId, repository)).toEqual(result.report);
+  });
+
+  test("file repository lists newest first, assembles reports from stage artifacts and deletes", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "angle-rfp-analyses-test-"));
+    const repository = new FileAnalysisRepository(dir);
+    const jobStore = new InMemoryAnalysisJobStore();
+
+    try {
+      const first = await runInto(repository, "5e2f1c3a-8d6b-4f0e-9a1c-0b2d3e4f5a02");
+      const { report } = first;
+      const stageOnlyId = "5e2f1c3a-8d6b-4f0e-9a1c-0b2d3e4f5a03";
+      await persistAnalysisArtifact(stageOnlyId, "parsedDocument", first.parsedDocument, repository);
+      await persistAnalysisArtifact(stageOnlyId, "extractedRfp", report.extractedRfp, repository);
+      await Promise.all([
+        persistAnalysisArtifact(stageOnlyId, "scopeAnalysis", report.scopeAnalysis, repository),
+        persistAnalysisArtifact(stageOnlyId, "clientResearch", report.clientResearch, repository)
+      ]);
+
+      await expect(getAnalysisReport(stageOnlyId, repository)).rejects.toMatchObject({
+        statusCode: 404,
+        shape: { details: { missingArtifacts: ["financialScore"] } }
+      });
+
+      await persistAnalysisArtifact(stageOnlyId, "financialScore", report.financialScore, repository);
+      const assembled = await getAnalysisReport(stageOnlyId, repository);
+      expect(assembled.analysisId).toBe(stageOnlyId);
+      expect(assembled.summary.score).toBe(report.financialScore.finalScore);
+      expect(report.stageWarnings?.score.length).toBeGreaterThan(0);
+      expect(assembled.stageWarnings).toEqual(report.stageWarnings);
+      expect(assembled.warnings).toEqual(report.warnings);
+
+      const page = await listAnalyses({ limit: "1", offset: null }, repository);
+      expect(page.total).toBe(2);
+      expect(page.analyses.map((item) => item.analysisId)).toEqual([stageOnlyId]);
+
+      await deleteAnalysis(stageOnlyId, repository, jobStore);
+      expect(await repository.get(stageOnlyId)).toBeNull();
+      await expect(deleteAnalysis(stageOnlyId, repository, jobStore)).rejects.toMatchObject({ statusCode: 404 });
+      await expect(listAnalyses({ limit: "-1", offset: null }, repository)).rejects.toMatchObject({ statusCode: 400 });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("file repository rejects analysis ids that would leave the store directory", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "angle-rfp-analyses-test-"));
+    const dir = path.join(root, "store");
+    const repository = new FileAnalysisRepository(dir);
+
+    try {
+      await fs.mkdir(dir);
+      await fs.writeFile(path.join(root, "keep.txt"), "outside");
+      await fs.writeFile(path.join(dir, "keep.txt"), "store root");
+      const { report } = await runInto(new InMemoryAnalysisRepository(), "5e2f1c3a-8d6b-4f0e-9a1c-0b2d3e4f5a05");
+
+      for (const analysisId of [".", "..", "../x"]) {
+        await expect(repository.saveArtifact(analysisId, "report", report)).rejects.toMatchObject({
+          statusCode: 400,
+          shape: { code: "validation_error", details: { field: "analysisId" } }
+        });
+        await expect(repository.get(analysisId)).rejects.toMatchObject({ statusCode: 400 });
+        await expect(repository.delete(analysisId)).rejects.toMatchObject({ statusCode: 400 });
+      }
+
+      expect(await fs.readFile(path.join(root, "keep.txt"), "utf8")).toBe("outside");
+      expect(await fs.readFile(path.join(dir, "keep.txt"), "utf8")).toBe("store root");
+      expect((await fs.readdir(root)).sort()).toEqual(["keep.txt", "store"]);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+
+  test("storage failures degrade to warnings", async () => {
+    const failing: AnalysisRepository = {
+      saveArtifact: async () => {
+        throw new Error("disk full");
+      },
+      get: async () => null,
+      list: async () => ({ analyses: [], total: 0 }),
+      delete: async () => false
+    };
+
+    const result = await runInto(failing, "5e2f1c3a-8d6b-4f0e-9a1c-0b2d3e4f5a04");
+    expect(result.warnings).toContain("Analysis report could not be saved: disk full");
+    expect(result.partialResult).toBe(true);
+  });
+});
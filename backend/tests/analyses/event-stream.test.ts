@@ -0,0 +1,118 @@
+import { describe, expect, test } from "vitest";
+import { runAnalysisJob, submitAnalysisJob } from "@/lib/analysis/analysis-jobs";
+import { openAnalysisEventStream } from "@/lib/analysis/event-stream";
+import { InMemoryAnalysisJobStore } from "@/lib/analysis/job-store";
+import type { ResearchProviderSet } from "@/lib/research/research-client";
+
+const sampleRfp = `
+Client: Saudi Aramco
+Project Name: Brand Refresh Campaign 2026
+
+Scope of Work:
+Develop campaign strategy and produce 6 videos.
+
+Evaluation Criteria:
+Creative quality 60%
+Cost efficiency 40%
+
+Submission deadline: 15/03/2026
+`;
+
+const researchProviders: ResearchProviderSet = {
+  brave: async () => [],
+  tavily: async () => [
+    {
+      key: "marketSignal",
+      value: "High campaign activity in region",
+      source: "Reuters",
+      tier: 2,
+      sourceDate: "2026-02-09",
+      category: "news"
+    }
+  ],
+  exa: async () => [],
+  firecrawl: async () => []
+};
+
+function jobInput(analysisId: string) {
+  return {
+    analysisId,
+    fileName: "rfp.txt",
+    mimeType: "text/plain",
+    fileBytes: Buffer.from(sampleRfp, "utf8"),
+    researchProviders
+  };
+}
+
+// Outside a request there is no after() scope; let the run float like it would after the response.
+const detached = (task: Promise<unknown>) => void task;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Follows `path` through nested event payloads; undefined once a step is not an object. */
+function field(value: unknown, ...path: string[]): unknown {
+  return path.reduce<unknown>((current, key) => (isRecord(current) ? current[key] : undefined), value);
+}
+
+async function readEvents(stream: ReadableStream<Uint8Array>): Promise<Array<{ event: string; data: unknown }>> {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n\n")
+    .filter((block) => block.includes("event: "))
+    .map((block) => {
+      const event = /^event: (.+)$/m.exec(block)?.[1] ?? "";
+      const data: unknown = JSON.parse(/^data: (.+)$/m.exec(block)?.[1] ?? "null");
+      return { event, data };
+    });
+}
+
+describe("analysis event stream", () => {
+  test("streams a snapshot, pass and provider results, and closes on completion", async () => {
+    const store = new InMemoryAnalysisJobStore();
+    const analysisId = "7c1d4e0a-9b7e-4c8e-a3f0-2f61b7e0a001";
+
+    await submitAnalysisJob(jobInput(analysisId), store, detached);
+    const events = await readEvents(await openAnalysisEventStream(analysisId, { store }));
+
+    expect(events[0]?.event).toBe("snapshot");
+    expect(events.at(-1)).toMatchObject({ event: "job", data: { status: "succeeded" } });
+
+    const passStages = events.filter((item) => item.event === "pass_result").map((item) => field(item.data, "stage"));
+    expect(passStages).toEqual([
+      "extract_pass1",
+      "extract_pass2",
+      "extract_pass3",
+      "extract_pass4",
+      "extract_pass5",
+      "extract_pass6",
+      "beautify"
+    ]);
+    const pass1 = events.find((item) => item.event === "pass_result" && field(item.data, "stage") === "extract_pass1");
+    expect(field(pass1?.data, "data", "clientName")).toBeTruthy();
+    const pass3 = events.find((item) => item.event === "pass_result" && field(item.data, "stage") === "extract_pass3");
+    expect(Array.isArray(field(pass3?.data, "data", "redFlags"))).toBe(true);
+
+    const providers = events.filter((item) => item.event === "provider_result").map((item) => item.data).filter(isRecord);
+    expect(providers.some((item) => item.provider === "tavily" && item.status === "succeeded" && item.documentCount === 1)).toBe(true);
+    expect(providers.every((item) => typeof item.latencyMs === "number")).toBe(true);
+  });
+
+  test("finished jobs replay only the snapshot and terminal event", async () => {
+    const store = new InMemoryAnalysisJobStore();
+    const analysisId = "7c1d4e0a-9b7e-4c8e-a3f0-2f61b7e0a002";
+
+    await runAnalysisJob(jobInput(analysisId), store);
+    const events = await readEvents(await openAnalysisEventStream(analysisId, { store }));
+
+    expect(events.map((item) => item.event)).toEqual(["snapshot", "job"]);
+    expect(field(events[0]?.data, "report", "analysisId")).toBe(analysisId);
+  });
+
+  test("unknown jobs fail before streaming", async () => {
+    await expect(
+      openAnalysisEventStream("missing-job", { store: new InMemoryAnalysisJobStore() })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "vitest";
+import { runAnalysisPipeline } from "@/lib/analysis/run-analysis";
+import type { ResearchProviderSet } from "@/lib/research/research-client";
+
+const analysisId = "0b0d3f0e-4c55-4b3c-9d55-4f5f0e3c7a11";
+
+const sampleRfp = `
+Client: Saudi Aramco
+Project Name: Brand Refresh Campaign 2026
+
+Scope of Work:
+Develop campaign strategy, produce 6 videos, 14 motion graphics assets, and 40 visual design assets.
+Coordinate with media buying supervision and bilingual campaign operations.
+
+Evaluation Criteria:
+Creative quality 40%
+Team capability 30%
+Cost efficiency 30%
+
+Submission Requirements:
+Send proposal to procurement@example.com in PDF format.
+Submission deadline: 15/03/2026
+`;
+
+const researchProviders: ResearchProviderSet = {
+  brave: async () => [
+    {
+      key: "officialSignal",
+      value: "Public company listed on exchange",
+      source: "Tadawul",
+      tier: 1,
+      sourceDate: "2026-02-10",
+      category: "official"
+    }
+  ],
+  tavily: async () => [
+    {
+      key: "marketSignal",
+      value: "High campaign activity in region",
+      source: "Reuters",
+      tier: 2,
+      sourceDate: "2026-02-09",
+      category: "news"
+    }
+  ],
+  firecrawl: async () => []
+};
+
+describe("runAnalysisPipeline", () => {
+  test("assembles an analysis report from a single upload", async () => {
+    const result = await runAnalysisPipeline({
+      analysisId,
+      fileName: "rfp.txt",
+      mimeType: "text/plain",
+      fileBytes: Buffer.from(sampleRfp, "utf8"),
+      researchProviders
+    });
+
+    const { report } = result;
+    expect(report.schemaVersion).toBe("1.0.0");
+    expect(report.analysisId).toBe(analysisId);
+    expect(report.extractedRfp.analysisId).toBe(analysisId);
+    expect(report.scopeAnalysis.analysisId).toBe(analysisId);
+    expect(report.clientResearch.companyName).toBe(report.extractedRfp.clientName);
+    expect(report.financialScore.factorBreakdown).toHaveLength(11);
+    expect(report.summary.score).toBe(report.financialScore.finalScore);
+    expect(report.summary.recommendation).toBe(report.financialScore.recommendationBand);
+    expect(result.parsedDocument.detectedFormat).toBe("txt");
+  });
+
+  test("keeps per-stage warnings and flags partial results", async () => {
+    const result = await runAnalysisPipeline({
+      analysisId,
+      fileName: "rfp.txt",
+      mimeType: "text/plain",
+      fileBytes: Buffer.from(sampleRfp, "utf8"),
+      researchProviders
+    });
+
+    const stageWarnings = result.report.stageWarnings;
+    expect(stageWarnings).toBeDefined();
+    expect(Object.keys(stageWarnings ?? {})).toEqual(["parse", "extract", "scope", "research", "score"]);
+    expect(stageWarnings?.extract).toEqual(result.report.extractedRfp.warnings);
+    expect(result.warnings).toEqual(Object.values(stageWarnings ?? {}).flat());
+    expect(result.partialResult).toBe(result.warnings.length > 0);
+  });
+
+  test("tags stage failures with the failing stage", async () => {
+    await expect(
+      runAnalysisPipeline({
+        analysisId,
+        fileName: "deck.key",
+        mimeType: "application/x-iwork-keynote",
+        fileBytes: Buffer.from("binary", "utf8"),
+        researchProviders
+      })
+    ).rejects.toMatchObject({
+      shape: { code: "unsupported_format", stage: "parse-document" }
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "vitest";
+import { isValidSourceSpan } from "@/lib/extraction/evidence-locator";
+import { runPass6CommercialTerms } from "@/lib/extraction/passes/pass6-commercial";
+
+function inputFor(rawText: string) {
+  return {
+    analysisId: "f7df722f-9968-4c17-980a-fcb53aaf56d1",
+    parsedDocument: {
+      schemaVersion: "1.0.0",
+      analysisId: "f7df722f-9968-4c17-980a-fcb53aaf56d1",
+      primaryLanguage: "english" as const,
+      rawText,
+      sections: [],
+      tables: [],
+      evidenceMap: [],
+      pageIndex: [
+        { page: 1, charStart: 0, charEnd: 120 },
+        { page: 2, charStart: 120, charEnd: rawText.length }
+      ]
+    }
+  };
+}
+
+describe("runPass6CommercialTerms", () => {
+  test("extracts budget, payment, guarantee, penalty and duration terms with source spans", () => {
+    const rawText = [
+      "Commercial Terms",
+      "The estimated budget for this engagement is SAR 1,500,000 - 2,000,000 excluding VAT.",
+      "Payment terms: 30% advance payment upon contract signing, 70% on delivery. Invoices are paid within 60 days.",
+      "Bidders must submit a bid bond of 2% of the bid value.",
+      "The winning bidder shall provide a performance guarantee of 5% of the contract value.",
+      "A delay penalty of 0.5% per day applies, up to a maximum of 10% of the contract value.",
+      "Contract duration: twelve (12) months from the date of award."
+    ].join("\n");
+
+    const { commercialTerms, warnings } = runPass6CommercialTerms(inputFor(rawText));
+
+    expect(commercialTerms.estimatedBudget).toMatchObject({ min: 1_500_000, max: 2_000_000, currency: "SAR" });
+    expect(commercialTerms.paymentTerms.map((term) => [term.percentages, term.paymentDays])).toEqual([
+      [[30, 70], null],
+      [[], 60]
+    ]);
+    expect(commercialTerms.bidBond).toMatchObject({ percent: 2, amount: null });
+    expect(commercialTerms.performanceGuarantee).toMatchObject({ percent: 5 });
+    expect(commercialTerms.penalties).toEqual([
+      expect.objectContaining({ ratePercent: 0.5, per: "day", capPercent: 10 })
+    ]);
+    expect(commercialTerms.contractDuration).toMatchObject({ value: 12, unit: "months", months: 12 });
+    expect(warnings).toEqual([]);
+
+    const spans = [
+      commercialTerms.estimatedBudget?.sourceSpan,
+      ...commercialTerms.paymentTerms.map((term) => term.sourceSpan),
+      commercialTerms.bidBond?.sourceSpan,
+      commercialTerms.contractDuration?.sourceSpan
+    ];
+    expect(spans.every((span) => span !== undefined && isValidSourceSpan(span, rawText))).toBe(true);
+    expect(commercialTerms.estimatedBudget?.sourceSpan.page).toBe(1);
+    expect(commercialTerms.contractDuration?.sourceSpan.page).toBe(2);
+  });
+
+  test("reads Arabic terms with Arabic-Indic digits and scale words", () => {
+    const { commercialTerms } = runPass6CommercialTerms(
+      inputFor(["الميزانية التقديرية: لا تتجاوز ٣ مليون ريال", "مدة العقد ٦ أشهر", "الضمان الابتدائي ١٪ من قيمة العرض"].join("\n"))
+    );
+
+    expect(commercialTerms.estimatedBudget).toMatchObject({ min: null, max: 3_000_000, currency: "SAR" });
+    expect(commercialTerms.contractDuration).toMatchObject({ value: 6, unit: "months", months: 6 });
+    expect(commercialTerms.bidBond?.percent).toBe(1);
+  });
+
+  test("reads a budget stated on the line after its label and converts scale suffixes", () => {
+    const { commercialTerms } = runPass6CommercialTerms(inputFor("Estimated contract value:\nUSD 2.5M\nDuration TBD"));
+
+    expect(commercialTerms.estimatedBudget).toMatchObject({ min: 2_500_000, max: 2_500_000, currency: "USD" });
+    expect(commercialTerms.estimatedBudget?.sourceSpan.quote).toBe("USD 2.5M");
+  });
+
+  test("leaves terms empty when the RFP states none and flags uncapped penalties", () => {
+    const { commercialTerms, warnings } = runPass6CommercialTerms(
+      inputFor("No budget specified.\nLate delivery incurs a penalty of 1% per week.")
+    );
+
+    expect(commercialTerms.estimatedBudget).toBeNull();
+    expect(commercialTerms.contractDuration).toBeNull();
+    expect(commercialTerms.penalties).toEqual([
+      expect.objectContaining({ ratePercent: 1, per: "week", capPercent: null })
+    ]);
+    expect(warnings).toContain("Penalty clauses found with no stated cap.");
+  });
+});
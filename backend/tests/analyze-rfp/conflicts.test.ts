@@ -0,0 +1,156 @@
+import { describe, expect, test } from "vitest";
+import { isValidSourceSpan } from "@/lib/extraction/evidence-locator";
+import { applyAmendments, runPass5Conflicts } from "@/lib/extraction/passes/pass5-conflicts";
+
+function conflictsIn(lines: string[], extracted: Parameters<typeof runPass5Conflicts>[1] = { importantDates: [] }) {
+  const rawText = lines.join("\n");
+  const result = runPass5Conflicts(
+    {
+      analysisId: "5b0e7c1a-3f2d-4c8e-9a61-2d4f8b7e6c30",
+      parsedDocument: {
+        schemaVersion: "1.0.0",
+        analysisId: "5b0e7c1a-3f2d-4c8e-9a61-2d4f8b7e6c30",
+        primaryLanguage: "english",
+        rawText,
+        sections: [],
+        tables: [],
+        evidenceMap: []
+      }
+    },
+    extracted
+  );
+  return { rawText, ...result };
+}
+
+describe("runPass5Conflicts", () => {
+  test("resolves a deadline to its amendment and quotes both clauses", () => {
+    const { rawText, conflicts, warnings } = conflictsIn([
+      "Submission deadline: 15/03/2026 at 2:00 PM",
+      "Questions deadline: 2026-03-01; submission deadline 2026-03-15",
+      "Addendum 1: the submission deadline is extended from 15/03/2026 to 22/03/2026."
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      field: "submission_deadline",
+      candidates: ["2026-03-15", "2026-03-22"],
+      resolvedValue: "2026-03-22",
+      resolvedBy: "amendment"
+    });
+    expect(conflicts[0].resolution).toContain("amends the earlier value");
+    expect(conflicts[0].sources.map((source) => [source.value, source.sourceSpan.quote])).toEqual([
+      ["2026-03-15", "Submission deadline: 15/03/2026 at 2:00 PM"],
+      ["2026-03-15", "submission deadline 2026-03-15"],
+      ["2026-03-22", "Addendum 1: the submission deadline is extended from 15/03/2026 to 22/03/2026."]
+    ]);
+    expect(conflicts[0].sources.every((source) => isValidSourceSpan(source.sourceSpan, rawText))).toBe(true);
+    expect(warnings).toEqual(["Conflicting submission deadline values detected."]);
+  });
+
+  test("compares copies, evaluation weights, contract duration and submission email", () => {
+    const { conflicts } = conflictsIn([
+      "Technical Approach 30%",
+      "Technical proposal 70%, Financial proposal 30%",
+      "Minimum technical score 65%",
+      "The technical evaluation carries 60%.",
+      "Submit 3 hard copies of the proposal to procurement@example.com.",
+      "Bidders shall submit two (2) hard copies of the proposal to tenders@example.com.",
+      "Contract duration: 12 months.",
+      "The project duration is 1 year."
+    ]);
+
+    expect(conflicts.map((conflict) => [conflict.field, conflict.candidates, conflict.resolvedBy])).toEqual([
+      ["submission_email", ["procurement@example.com", "tenders@example.com"], "first_occurrence"],
+      ["copies", ["3", "2"], "first_occurrence"],
+      ["technical_weight", ["70%", "60%"], "first_occurrence"]
+    ]);
+  });
+
+  test("prefers the most-stated value, then the extracted one", () => {
+    const { conflicts } = conflictsIn(
+      [
+        "Proposals must be submitted via the Etimad portal.",
+        "Submit proposals by email to bids@example.com.",
+        "Contract duration: 12 months.",
+        "Duration of the contract: 18 months",
+        "The project duration is 1 year."
+      ],
+      {
+        importantDates: [],
+        submissionRequirements: {
+          method: "Email",
+          email: "bids@example.com",
+          physicalAddress: null,
+          format: "PDF",
+          copies: null,
+          otherRequirements: []
+        }
+      }
+    );
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({ field: "submission_method", resolvedValue: "Email", resolvedBy: "extracted_value" }),
+      expect.objectContaining({
+        field: "contract_duration",
+        candidates: ["12 months", "18 months"],
+        resolvedValue: "12 months",
+        resolvedBy: "majority"
+      })
+    ]);
+  });
+
+  test("treats name variants and separate envelopes as consistent", () => {
+    expect(
+      conflictsIn([
+        "Client: Ministry of Culture",
+        "Issuing Entity: MoC",
+        "العميل: وزارة الثقافة",
+        "Technical Proposal Submission Deadline: January 28, 2026",
+        "Financial Proposal Submission Deadline: February 4, 2026"
+      ]).conflicts
+    ).toEqual([]);
+
+    const { conflicts } = conflictsIn(["Client: Ministry of Culture", "Issuing Entity: Ministry of Tourism"]);
+    expect(conflicts).toEqual([
+      expect.objectContaining({ field: "client_name", candidates: ["Ministry of Culture", "Ministry of Tourism"] })
+    ]);
+  });
+
+  test("replaces the superseded deadline instead of relabelling its date", () => {
+    const { conflicts } = conflictsIn([
+      "Proposal submission deadline: 15/11/2026 at 2:00 PM",
+      "Addendum 1: the proposal submission deadline is extended to 29/11/2026."
+    ]);
+    const original = {
+      title: "Proposal submission deadline: 15/11/2026 at 2:00 PM",
+      date: "2026-11-15",
+      status: "stated" as const,
+      time: "14:00",
+      type: "submission_deadline",
+      isCritical: true
+    };
+    const addendum = {
+      title: "Addendum 1: the proposal submission deadline is extended to 29/11/2026.",
+      date: "2026-11-29",
+      status: "stated" as const,
+      type: "submission_deadline",
+      isCritical: true
+    };
+    const submissionRequirements = { method: "email", format: "PDF", otherRequirements: [] };
+
+    expect(applyAmendments({ importantDates: [original, addendum], submissionRequirements }, conflicts).importantDates).toEqual([
+      addendum
+    ]);
+    expect(applyAmendments({ importantDates: [original], submissionRequirements }, conflicts).importantDates).toEqual([
+      {
+        title: "Addendum 1: the proposal submission deadline is extended to 29/11/2026.",
+        date: "2026-11-29",
+        dateOriginal: "29/11/2026",
+        calendar: "gregorian",
+        status: "stated",
+        type: "submission_deadline",
+        isCritical: true
+      }
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "vitest";
+import { analyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { findDates, hijriToGregorian, parseDate } from "@/lib/extraction/dates";
+
+describe("parseDate", () => {
+  test("converts Umm al-Qura dates, including month-length edges", () => {
+    expect(hijriToGregorian(1447, 3, 15)).toBe("2025-09-07");
+    expect(hijriToGregorian(1447, 9, 1)).toBe("2026-02-18");
+    expect(hijriToGregorian(1446, 12, 10)).toBe("2025-06-06");
+    // Safar 1447 has 29 days.
+    expect(hijriToGregorian(1447, 2, 30)).toBeNull();
+  });
+
+  test("reads Hijri dates in Arabic-Indic digits and keeps the original text", () => {
+    const parsed = parseDate("آخر موعد لتقديم العروض ١٤٤٧/٠٣/١٥ هـ الساعة ١٠ صباحاً بتوقيت الرياض");
+
+    expect(parsed).toEqual({
+      date: "2025-09-07",
+      calendar: "hijri",
+      original: "١٤٤٧/٠٣/١٥ هـ",
+      index: 23,
+      time: "10:00",
+      timezone: "Asia/Riyadh"
+    });
+    expect(parseDate("١٥ ربيع الأول ١٤٤٧هـ")).toMatchObject({ date: "2025-09-07", calendar: "hijri" });
+    expect(parseDate("Dhul Hijjah 10, 1446 AH")).toMatchObject({ date: "2025-06-06", calendar: "hijri" });
+  });
+
+  test("reads written English and Arabic month names with times", () => {
+    expect(parseDate("Submission deadline: 15 March 2026 at 2:00 PM AST")).toMatchObject({
+      date: "2026-03-15",
+      calendar: "gregorian",
+      original: "15 March 2026",
+      time: "14:00",
+      timezone: "Asia/Riyadh"
+    });
+    expect(parseDate("Questions due March 1st, 2026 before 23:59")).toMatchObject({ date: "2026-03-01", time: "23:59" });
+    expect(parseDate("تاريخ التقديم 15 مارس 2026م الساعة 10:30 م")).toMatchObject({
+      date: "2026-03-15",
+      original: "15 مارس 2026م",
+      time: "22:30"
+    });
+  });
+
+  test("reads stated timezones and offsets and keeps unrecognized zones as written", () => {
+    expect(parseDate("Proposals due 15 March 2026, 5:00 PM EST")).toMatchObject({ time: "17:00", timezone: "UTC-05:00" });
+    expect(parseDate("Closing: 2026-06-01 at 12:00 EDT")).toMatchObject({ timezone: "UTC-04:00" });
+    expect(parseDate("Deadline 1 April 2026 10:00 AM GST")).toMatchObject({ timezone: "Asia/Dubai" });
+    expect(parseDate("Deadline 1 April 2026 10:00 AM Asia/Dubai")).toMatchObject({ timezone: "Asia/Dubai" });
+    expect(parseDate("Deadline 1 April 2026 at 14:00 (GMT+4)")).toMatchObject({ timezone: "UTC+04:00" });
+    expect(parseDate("Deadline 1 April 2026 at 14:00 UTC−5:30")).toMatchObject({ timezone: "UTC-05:30" });
+    expect(parseDate("Deadline 1 April 2026 at 14:00 GMT")).toMatchObject({ timezone: "UTC" });
+    expect(parseDate("الموعد النهائي 1 أبريل 2026 الساعة 2:00 مساءً بتوقيت دبي")).toMatchObject({ timezone: "Asia/Dubai" });
+
+    expect(parseDate("Deadline 1 April 2026 at 5:00 PM MSK")).toMatchObject({ time: "17:00", timezone: "MSK" });
+    expect(parseDate("Deadline 1 April 2026 at 5:00 PM Moscow time")).toMatchObject({ timezone: "Moscow time" });
+    expect(parseDate("Deadline 1 April 2026 at 5:00 PM NEXT to the lobby")?.timezone).toBeUndefined();
+    expect(parseDate("Deadline 1 April 2026 at 5:00 PM")?.timezone).toBeUndefined();
+  });
+
+  test("reads numeric Gregorian dates and rejects impossible ones", () => {
+    expect(parseDate("Deadline 15/03/2026")?.date).toBe("2026-03-15");
+    expect(parseDate("Deadline 03/15/2026")?.date).toBe("2026-03-15");
+    expect(parseDate("Deadline 31/02/2026")).toBeNull();
+    expect(parseDate("Version 10 amendments 2024")).toBeNull();
+    expect(findDates("Open 2026-03-01, close ٢٠٢٦-٠٣-١٥").map((date) => date.date)).toEqual(["2026-03-01", "2026-03-15"]);
+  });
+
+  test("skips dotted version numbers", () => {
+    expect(parseDate("Version 1.2.2026")).toBeNull();
+    expect(parseDate("Template v2.1.2025")).toBeNull();
+    expect(parseDate("RFP Rev. 3.1.2024 issued for comment")).toBeNull();
+    expect(parseDate("الإصدار ١.٢.٢٠٢٦")).toBeNull();
+    expect(findDates("Version 1.2.2026, submit by 15.03.2026").map((date) => date.date)).toEqual(["2026-03-15"]);
+  });
+});
+
+describe("importantDates", () => {
+  test("carry the original and normalized value for Hijri deadlines", async () => {
+    const rawText = [
+      "Client: Example Authority",
+      "Project Name: Awareness Campaign",
+      "Scope of Work",
+      "The agency will produce a national awareness campaign.",
+      "آخر موعد لتقديم العروض ١٤٤٧/٠٣/١٥ هـ الساعة ١٠ صباحاً"
+    ].join("\n");
+
+    const result = await analyzeRfpInput({
+      analysisId: "8f1f8c2e-2b9f-4d1a-9f44-0d6f9b6f4a21",
+      parsedDocument: {
+        schemaVersion: "1.0.0",
+        analysisId: "8f1f8c2e-2b9f-4d1a-9f44-0d6f9b6f4a21",
+        primaryLanguage: "mixed" as const,
+        rawText,
+        sections: [],
+        tables: [],
+        evidenceMap: []
+      }
+    });
+
+    expect(result.importantDates[0]).toMatchObject({
+      date: "2025-09-07",
+      dateOriginal: "١٤٤٧/٠٣/١٥ هـ",
+      calendar: "hijri",
+      time: "10:00",
+      type: "submission_deadline",
+      isCritical: true,
+      source: "verbatim"
+    });
+  });
+});
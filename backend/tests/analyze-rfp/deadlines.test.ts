@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { analyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { businessDaysBetween, isSaudiBusinessDay, saudiPublicHolidays, scheduleDeadline } from "@/lib/extraction/deadlines";
+
+function documentWith(lines: string[]) {
+  const rawText = [
+    "Client: Example Authority",
+    "Project Name: Awareness Campaign",
+    "Scope of Work",
+    "The agency will produce a national awareness campaign.",
+    ...lines
+  ].join("\n");
+  return {
+    analysisId: "3c0d3f4e-8a8b-4f0e-b9a5-5c1f2a7d9e10",
+    parsedDocument: {
+      schemaVersion: "1.0.0",
+      analysisId: "3c0d3f4e-8a8b-4f0e-b9a5-5c1f2a7d9e10",
+      primaryLanguage: "english" as const,
+      rawText,
+      sections: [],
+      tables: [],
+      evidenceMap: []
+    }
+  };
+}
+
+describe("Saudi business days", () => {
+  test("skips the Friday-Saturday weekend and public holidays", () => {
+    expect(isSaudiBusinessDay("2026-03-12")).toBe(true); // Thursday
+    expect(isSaudiBusinessDay("2026-03-13")).toBe(false); // Friday
+    expect(isSaudiBusinessDay("2026-02-22")).toBe(false); // Founding Day
+    expect(Array.from(saudiPublicHolidays(2025))).toEqual(
+      expect.arrayContaining(["2025-03-30", "2025-04-02", "2025-06-05", "2025-06-08", "2025-09-23"])
+    );
+    // Eid al-Fitr 1447 starts on Friday 20 March 2026 and runs to Monday 23 March.
+    expect(businessDaysBetween("2026-03-19", "2026-03-26")).toBe(3);
+  });
+
+  test("counts down to a deadline in Riyadh time", () => {
+    // 01:30 on Friday 13 March in Riyadh.
+    const analyzedAt = new Date("2026-03-12T22:30:00Z");
+
+    expect(scheduleDeadline({ date: "2026-03-19", time: "14:00" }, analyzedAt)).toEqual({
+      deadlineAt: "2026-03-19T14:00:00+03:00",
+      daysRemaining: 6,
+      businessDaysRemaining: 5
+    });
+    expect(scheduleDeadline({ date: "2026-03-01" }, analyzedAt)).toEqual({ daysRemaining: -12, businessDaysRemaining: 0 });
+  });
+
+  test("places deadlines in the stated zone or offset and leaves unrecognized zones unplaced", () => {
+    const analyzedAt = new Date("2026-03-12T22:30:00Z");
+
+    expect(scheduleDeadline({ date: "2026-03-19", time: "17:00", timezone: "UTC-05:00" }, analyzedAt).deadlineAt).toBe(
+      "2026-03-19T17:00:00-05:00"
+    );
+    expect(scheduleDeadline({ date: "2026-03-19", time: "10:00", timezone: "Asia/Dubai" }, analyzedAt).deadlineAt).toBe(
+      "2026-03-19T10:00:00+04:00"
+    );
+    // 17:30 on 12 March in New York (EDT from 8 March), so one day more remains than in Riyadh.
+    expect(scheduleDeadline({ date: "2026-03-19", time: "09:00", timezone: "America/New_York" }, analyzedAt)).toEqual({
+      deadlineAt: "2026-03-19T09:00:00-04:00",
+      daysRemaining: 7,
+      businessDaysRemaining: 5
+    });
+    expect(scheduleDeadline({ date: "2026-03-19", time: "17:00", timezone: "MSK" }, analyzedAt)).toEqual({
+      daysRemaining: 6,
+      businessDaysRemaining: 5
+    });
+  });
+});
+
+describe("importantDates", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("carry the deadline time and countdown relative to the analysis", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-02-10T12:00:00Z"));
+
+    const result = await analyzeRfpInput(documentWith(["Submission deadline: 15 March 2026 at 2:00 PM AST"]));
+
+    expect(result.extractionDate).toBe("2026-02-10T12:00:00.000Z");
+    expect(result.importantDates[0]).toMatchObject({
+      date: "2026-03-15",
+      status: "stated",
+      time: "14:00",
+      timezone: "Asia/Riyadh",
+      deadlineAt: "2026-03-15T14:00:00+03:00",
+      daysRemaining: 33,
+      businessDaysRemaining: 22
+    });
+  });
+
+  test("convert a stated US Eastern deadline and warn about an unrecognized zone", async () => {
+    const eastern = await analyzeRfpInput(documentWith(["Submission deadline: 15 March 2026 at 5:00 PM EST"]));
+    expect(eastern.importantDates[0]).toMatchObject({ timezone: "UTC-05:00", deadlineAt: "2026-03-15T17:00:00-05:00" });
+
+    const unknown = await analyzeRfpInput(documentWith(["Submission deadline: 15 March 2026 at 5:00 PM MSK"]));
+    expect(unknown.importantDates[0]).toMatchObject({ time: "17:00", timezone: "MSK" });
+    expect(unknown.importantDates[0]).not.toHaveProperty("deadlineAt");
+    expect(unknown.warnings).toContain('Deadline timezone "MSK" is not recognized; the exact deadline time was left unset.');
+  });
+
+  test("mark a document without dates as unknown instead of using a placeholder date", async () => {
+    const result = await analyzeRfpInput(documentWith(["Submit via email procurement@example.com in PDF format"]));
+
+    expect(result.importantDates).toEqual([
+      expect.objectContaining({ date: null, status: "unknown", title: "Date not explicitly extracted" })
+    ]);
+    expect(result.importantDates[0]).not.toHaveProperty("daysRemaining");
+    expect(result.missingInformation.some((item) => item.field === "important_dates")).toBe(true);
+  });
+});
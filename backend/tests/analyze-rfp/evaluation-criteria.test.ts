@@ -0,0 +1,188 @@
+import { describe, expect, test } from "vitest";
+import { structureEvaluationCriteria } from "@/lib/extraction/evaluation-criteria";
+import { createSourceLocator, isValidSourceSpan } from "@/lib/extraction/evidence-locator";
+
+function structure(evaluationCriteria: string, rawText = evaluationCriteria, tables: Array<{ headers: string[]; rows: string[][] }> = []) {
+  return structureEvaluationCriteria(
+    evaluationCriteria,
+    { rawText, sections: [], tables: tables.map((table) => ({ title: "", pages: [1], confidence: 1, ...table })) },
+    createSourceLocator({ rawText })
+  );
+}
+
+describe("structureEvaluationCriteria", () => {
+  test("reads numbered criteria with bulleted sub-criteria and locates them in the source", () => {
+    const text = [
+      "Evaluation Criteria",
+      "1. Technical approach (40%)",
+      "- Methodology 25%",
+      "- Work plan 15%",
+      "2. Team experience 20%",
+      "3. Financial offer 40%"
+    ].join("\n");
+
+    const result = structure(text);
+
+    expect(result.criteria.map((criterion) => [criterion.name, criterion.weightPercent, criterion.category])).toEqual([
+      ["Technical approach", 40, "technical"],
+      ["Team experience", 20, "technical"],
+      ["Financial offer", 40, "financial"]
+    ]);
+    expect(result.criteria[0].subCriteria).toEqual([
+      expect.objectContaining({ name: "Methodology", weightPercent: 25 }),
+      expect.objectContaining({ name: "Work plan", weightPercent: 15 })
+    ]);
+    expect(result.statedWeightTotal).toBe(100);
+    expect(result.weightsNormalized).toBe(false);
+    expect(result.technicalWeightPercent).toBe(60);
+    expect(result.financialWeightPercent).toBe(40);
+
+    const span = result.criteria[2].sourceSpan;
+    expect(span?.quote).toBe("3. Financial offer 40%");
+    expect(span && isValidSourceSpan(span, text)).toBe(true);
+  });
+
+  test("rescales weights that do not add up to 100", () => {
+    const result = structure("Creative concept 30 points\nStrategy 30 points\nPrice 20 points");
+
+    expect(result.statedWeightTotal).toBe(80);
+    expect(result.weightsNormalized).toBe(true);
+    expect(result.criteria.map((criterion) => criterion.normalizedWeightPercent)).toEqual([37.5, 37.5, 25]);
+    expect(result.technicalWeightPercent).toBe(75);
+    expect(result.financialWeightPercent).toBe(25);
+  });
+
+  test("folds criteria under technical and financial group headings", () => {
+    const result = structure(
+      [
+        "Technical evaluation 70%",
+        "Understanding of the brief 30%",
+        "Creative approach 40%",
+        "Financial evaluation 30%",
+        "Total cost 30%"
+      ].join("\n")
+    );
+
+    expect(result.criteria).toHaveLength(2);
+    expect(result.criteria[0]).toMatchObject({ name: "Technical evaluation", weightPercent: 70, category: "technical" });
+    expect(result.criteria[0].subCriteria.map((sub) => sub.name)).toEqual(["Understanding of the brief", "Creative approach"]);
+    expect(result.criteria[1]).toMatchObject({ name: "Financial evaluation", weightPercent: 30, category: "financial" });
+    expect(result.technicalWeightPercent).toBe(70);
+    expect(result.financialWeightPercent).toBe(30);
+  });
+
+  test("handles Arabic criteria with Arabic-Indic digits and the Arabic percent sign", () => {
+    const result = structure("العرض الفني ٧٠٪\nالعرض المالي ٣٠٪");
+
+    expect(result.criteria.map((criterion) => [criterion.name, criterion.weightPercent, criterion.category])).toEqual([
+      ["العرض الفني", 70, "technical"],
+      ["العرض المالي", 30, "financial"]
+    ]);
+    expect(result.financialWeightPercent).toBe(30);
+  });
+
+  test("falls back to a criteria table when the text carries no weights", () => {
+    const result = structure("Proposals are evaluated as per the table below.", "", [
+      {
+        headers: ["Criteria", "Weight"],
+        rows: [
+          ["Technical proposal", "60"],
+          ["Commercial proposal", "40%"]
+        ]
+      }
+    ]);
+
+    expect(result.criteria.map((criterion) => [criterion.name, criterion.weightPercent, criterion.category])).toEqual([
+      ["Technical proposal", 60, "technical"],
+      ["Commercial proposal", 40, "financial"]
+    ]);
+    expect(result.criteria.every((criterion) => criterion.sourceSpan === null)).toBe(true);
+  });
+
+  test("leaves the split unknown when some criteria are unweighted", () => {
+    const result = structure("1. Quality of proposal\n2. Price 40%");
+
+    expect(result.criteria).toHaveLength(2);
+    expect(result.weightsNormalized).toBe(false);
+    expect(result.technicalWeightPercent).toBeNull();
+    expect(result.financialWeightPercent).toBeNull();
+  });
+
+  test("keeps a partial list of percentages as stated and leaves the split unknown", () => {
+    const single = structure("Technical Approach and Methodology (30%)");
+
+    expect(single.criteria).toEqual([
+      expect.objectContaining({ name: "Technical Approach and Methodology", weightPercent: 30, normalizedWeightPercent: 30 })
+    ]);
+    expect(single.weightsNormalized).toBe(false);
+    expect(single.technicalWeightPercent).toBeNull();
+    expect(single.financialWeightPercent).toBeNull();
+
+    const short = structure("Creative concept 40%\nPrice 30%");
+    expect(short.statedWeightTotal).toBe(70);
+    expect(short.criteria.map((criterion) => criterion.normalizedWeightPercent)).toEqual([40, 30]);
+    expect(short.financialWeightPercent).toBeNull();
+
+    const rounded = structure("Creative concept 33%\nStrategy 33%\nPrice 33%");
+    expect(rounded.weightsNormalized).toBe(true);
+    expect(rounded.financialWeightPercent).toBe(33.33);
+  });
+
+  test("reads the evaluation criteria section of the document over the shortened extracted text", () => {
+    const rawText = [
+      "Scope of Work",
+      "Produce the campaign.",
+      "Evaluation Criteria",
+      "1. Technical approach 40%",
+      "2. Team experience 20%",
+      "3. Financial offer 40%",
+      "Submission",
+      "Submit by email."
+    ].join("\n");
+    const start = rawText.indexOf("Evaluation Criteria");
+    const end = rawText.indexOf("Submission");
+
+    const result = structureEvaluationCriteria(
+      "Technical approach 40%",
+      { rawText, sections: [{ name: "evaluation_criteria", startOffset: start, endOffset: end }], tables: [] },
+      createSourceLocator({ rawText })
+    );
+
+    expect(result.criteria.map((criterion) => criterion.name)).toEqual(["Technical approach", "Team experience", "Financial offer"]);
+    expect(result.technicalWeightPercent).toBe(60);
+    expect(result.financialWeightPercent).toBe(40);
+    expect(result.criteria[1].sourceSpan?.quote).toBe("2. Team experience 20%");
+  });
+
+  test("skips total lines and total table rows", () => {
+    const text = structure("1. Methodology 40%\n2. Team experience 30%\n3. Price 30%\nTotal: 100%");
+
+    expect(text.criteria.map((criterion) => [criterion.name, criterion.subCriteria.length])).toEqual([
+      ["Methodology", 0],
+      ["Team experience", 0],
+      ["Price", 0]
+    ]);
+    expect(text.statedWeightTotal).toBe(100);
+    expect(text.technicalWeightPercent).toBe(70);
+    expect(text.financialWeightPercent).toBe(30);
+
+    const table = structure("", "", [
+      {
+        headers: ["Criteria", "Weight"],
+        rows: [
+          ["Methodology", "40"],
+          ["Team experience", "30"],
+          ["Price", "30"],
+          ["Total", "100"]
+        ]
+      }
+    ]);
+    expect(table.criteria.map((criterion) => criterion.name)).toEqual(["Methodology", "Team experience", "Price"]);
+    expect(table.technicalWeightPercent).toBe(70);
+    expect(table.financialWeightPercent).toBe(30);
+
+    const arabic = structure("المنهجية ٦٠٪\nالسعر ٤٠٪\nالمجموع ١٠٠٪");
+    expect(arabic.criteria.map((criterion) => criterion.name)).toEqual(["المنهجية", "السعر"]);
+    expect(arabic.financialWeightPercent).toBe(40);
+  });
+});
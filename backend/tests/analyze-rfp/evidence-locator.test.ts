@@ -0,0 +1,85 @@
+import { describe, expect, test } from "vitest";
+import { evidencedFieldCount, locateFieldEvidence } from "@/lib/extraction/evidence-locator";
+import type { Pass1Output } from "@/lib/extraction/passes/pass1-extract";
+
+const page1 = ["Client: Example Holdings", "Project Name: KSA Launch Campaign"].join("\n");
+const page2 = [
+  "Scope of Work",
+  "The agency will develop brand strategy and create 5 hero videos.",
+  "Submit via email procurement@example.com in PDF format",
+  "نطاق العمل: إنتاج حملة توعوية"
+].join("\n");
+const rawText = `${page1}\n\n${page2}`;
+
+const parsedDocument = {
+  schemaVersion: "1.0.0",
+  analysisId: "f7df722f-9968-4c17-980a-fcb53aaf56d1",
+  primaryLanguage: "english" as const,
+  rawText,
+  sections: [{ name: "scope_of_work", startOffset: page1.length + 2, endOffset: rawText.length }],
+  tables: [],
+  evidenceMap: [],
+  pageIndex: [
+    { page: 1, charStart: 0, charEnd: page1.length },
+    { page: 2, charStart: page1.length + 2, charEnd: rawText.length }
+  ]
+};
+
+function pass1(overrides: Partial<Pass1Output> = {}): Pass1Output {
+  return {
+    clientName: "Example Holdings",
+    clientNameArabic: null,
+    projectName: "KSA Launch Campaign",
+    projectNameOriginal: null,
+    projectDescription: "A launch campaign.",
+    scopeOfWork: "The agency will develop brand strategy and create 5 hero videos.",
+    evaluationCriteria: "Evaluation criteria not explicitly found.",
+    requiredDeliverables: [{ item: "انتاج حملة توعوية", source: "verbatim" }],
+    deliverableRequirements: { technical: [], commercial: [], strategicCreative: [] },
+    importantDates: [],
+    submissionRequirements: {
+      method: "Email",
+      email: "procurement@example.com",
+      physicalAddress: null,
+      format: "PDF",
+      copies: null,
+      otherRequirements: []
+    },
+    warnings: [],
+    evidence: [],
+    confidenceScores: { overall: 0.8 },
+    ...overrides
+  };
+}
+
+describe("locateFieldEvidence", () => {
+  test("points each located field at its page and rawText offsets", () => {
+    const evidence = locateFieldEvidence(pass1(), parsedDocument);
+    const byField = new Map(evidence.map((entry) => [entry.field, entry]));
+
+    expect(byField.get("clientName")?.page).toBe(1);
+    const scope = byField.get("scopeOfWork");
+    expect(scope?.page).toBe(2);
+    expect(rawText.slice(scope?.charStart, scope?.charEnd)).toBe(
+      "The agency will develop brand strategy and create 5 hero videos."
+    );
+    expect(byField.get("submissionRequirements.email")?.excerpt).toBe("procurement@example.com");
+    // Hamza on alef is folded away when matching Arabic.
+    expect(byField.get("requiredDeliverables[0]")?.excerpt).toBe("إنتاج حملة توعوية");
+    expect(byField.has("evaluationCriteria")).toBe(false);
+    expect(evidencedFieldCount(evidence)).toBe(5);
+  });
+
+  test("keeps unlocated pass-1 excerpts on the page of their section", () => {
+    const evidence = locateFieldEvidence(
+      pass1({ scopeOfWork: "Summarized scope", evidence: [{ field: "scopeOfWork", page: 1, excerpt: "Summarized scope" }] }),
+      parsedDocument
+    );
+
+    expect(evidence.find((entry) => entry.field === "scopeOfWork")).toEqual({
+      field: "scopeOfWork",
+      page: 2,
+      excerpt: "Summarized scope"
+    });
+  });
+});
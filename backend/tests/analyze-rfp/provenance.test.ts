@@ -0,0 +1,105 @@
+import { describe, expect, test } from "vitest";
+import { analyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { createSourceLocator, isValidSourceSpan } from "@/lib/extraction/evidence-locator";
+import type { Pass1Output } from "@/lib/extraction/passes/pass1-extract";
+import { groundExtractedValues, groundingRate } from "@/lib/extraction/provenance";
+
+const rawText = [
+  "Client: Example Holdings",
+  "Project Name: KSA Launch Campaign",
+  "Scope of Work",
+  "The agency will develop brand strategy and create 5 hero videos.",
+  "Evaluation Criteria",
+  "Technical Approach 30%",
+  "Commercial 70%",
+  "Submission deadline: 2026-03-15",
+  "All work becomes client property upon delivery."
+].join("\n");
+
+const parsedDocument = {
+  schemaVersion: "1.0.0",
+  analysisId: "f7df722f-9968-4c17-980a-fcb53aaf56d1",
+  primaryLanguage: "english" as const,
+  rawText,
+  sections: [],
+  tables: [],
+  evidenceMap: []
+};
+
+const pass1: Pass1Output = {
+  clientName: "Example Holdings",
+  clientNameArabic: null,
+  projectName: "KSA Launch Campaign",
+  projectNameOriginal: null,
+  projectDescription: "A bold national campaign to grow brand awareness.",
+  scopeOfWork: "The agency will develop brand strategy and create 5 hero videos.",
+  evaluationCriteria: "- Technical Approach 30%\n- Commercial 70%",
+  requiredDeliverables: [
+    { item: "5 hero videos", source: "verbatim" },
+    { item: "Influencer program", source: "verbatim" }
+  ],
+  deliverableRequirements: { technical: [], commercial: [], strategicCreative: [] },
+  importantDates: [{ title: "Submission deadline", date: "2026-03-15", type: "submission_deadline", isCritical: true }],
+  submissionRequirements: {
+    method: "Unknown",
+    email: null,
+    physicalAddress: null,
+    format: "Unspecified",
+    copies: null,
+    otherRequirements: []
+  },
+  warnings: [],
+  evidence: [],
+  confidenceScores: { overall: 0.8 }
+};
+
+describe("groundExtractedValues", () => {
+  test("attaches validated source spans and marks ungrounded values as inferred", () => {
+    const grounded = groundExtractedValues(
+      {
+        pass1,
+        redFlags: [{ title: "IP Ownership Risk", sourceText: "All work becomes client property" }]
+      },
+      parsedDocument,
+      createSourceLocator(parsedDocument)
+    );
+
+    expect(grounded.requiredDeliverables[0].source).toBe("verbatim");
+    expect(grounded.requiredDeliverables[0].sources[0].quote).toBe("5 hero videos");
+    expect(grounded.requiredDeliverables[1]).toMatchObject({ source: "inferred", sources: [] });
+    expect(grounded.importantDates[0].source).toBe("verbatim");
+    expect(grounded.redFlags[0].sources[0].quote).toBe("All work becomes client property");
+    expect(grounded.fieldProvenance.evaluationCriteria.sources.map((span) => span.quote)).toEqual([
+      "Technical Approach 30%",
+      "Commercial 70%"
+    ]);
+    expect(grounded.fieldProvenance.projectDescription.source).toBe("inferred");
+    expect(grounded.fieldProvenance.submissionRequirements.source).toBe("inferred");
+    expect(grounded.summary).toEqual({ groundedValues: 7, inferredValues: 3 });
+    expect(groundingRate(grounded.summary)).toBeCloseTo(0.7);
+  });
+
+  test("rejects spans whose quote does not match rawText", () => {
+    expect(isValidSourceSpan({ page: 1, charStart: 0, charEnd: 6, quote: "Client" }, rawText)).toBe(true);
+    expect(isValidSourceSpan({ page: 1, charStart: 1, charEnd: 7, quote: "Client" }, rawText)).toBe(false);
+    expect(isValidSourceSpan({ page: 1, charStart: 5, charEnd: 5, quote: "" }, rawText)).toBe(false);
+  });
+});
+
+describe("analyzeRfpInput provenance", () => {
+  test("every span in the output points at its quote in rawText", async () => {
+    const result = await analyzeRfpInput({ analysisId: parsedDocument.analysisId, parsedDocument });
+
+    const spans = [
+      ...result.requiredDeliverables.flatMap((item) => item.sources ?? []),
+      ...result.importantDates.flatMap((item) => item.sources ?? []),
+      ...result.redFlags.flatMap((item) => item.sources ?? []),
+      ...Object.values(result.fieldProvenance ?? {}).flatMap((item) => item.sources)
+    ];
+
+    expect(spans.length).toBeGreaterThan(0);
+    expect(spans.every((span) => isValidSourceSpan(span, rawText))).toBe(true);
+    expect(result.quality.groundingRate).toBeGreaterThan(0);
+    expect(result.quality.inferredValueCount).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,125 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { ApiError } from "@/lib/api/errors";
+import { runPass3RedFlags } from "@/lib/extraction/passes/pass3-redflags";
+import { checkRuleExamples, loadRedFlagRules } from "@/lib/extraction/red-flag-rules";
+import type { RedFlagReviewer } from "@/lib/extraction/red-flag-reviewer";
+
+const noModel: RedFlagReviewer = { review: async () => [] };
+
+const rawText = [
+  "Submission Requirements",
+  "Late proposals will be rejected without review.",
+  "Contract Terms",
+  "Proposals received late will be rejected by the committee."
+].join("\n");
+
+const input = {
+  analysisId: "0b8f8ad4-4a3e-4c55-9f5e-3c7c4d0f6a11",
+  parsedDocument: {
+    schemaVersion: "1.0.0",
+    analysisId: "0b8f8ad4-4a3e-4c55-9f5e-3c7c4d0f6a11",
+    primaryLanguage: "english" as const,
+    rawText,
+    sections: [{ name: "commercial_terms", startOffset: rawText.indexOf("Contract Terms"), endOffset: rawText.length }],
+    tables: [],
+    evidenceMap: []
+  }
+};
+
+function ruleFile(version: string, overrides: Record<string, unknown> = {}) {
+  return {
+    version,
+    rules: [
+      {
+        id: "late_rejection",
+        type: "process",
+        severity: "LOW",
+        title: "Late Submissions Rejected",
+        description: "Late proposals are not considered.",
+        patterns: { en: ["rejected"], ar: ["يستبعد"] },
+        sections: ["commercial_terms"],
+        recommendation: "Plan submission a day early.",
+        examples: { match: ["Late bids will be rejected."], noMatch: ["Late bids are accepted."] },
+        ...overrides
+      }
+    ]
+  };
+}
+
+describe("red-flag rule file", () => {
+  let dir: string;
+  let filePath: string;
+  let tick = 0;
+
+  async function writeRules(content: unknown): Promise<void> {
+    await fs.writeFile(filePath, JSON.stringify(content), "utf8");
+    // Distinct mtimes so the loader sees each rewrite.
+    tick += 1;
+    const stamp = new Date(Date.UTC(2026, 0, 1, 0, 0, tick));
+    await fs.utimes(filePath, stamp, stamp);
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "red-flag-rules-"));
+    filePath = path.join(dir, "rules.json");
+    process.env.RED_FLAG_RULES_PATH = filePath;
+  });
+
+  afterEach(async () => {
+    delete process.env.RED_FLAG_RULES_PATH;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("the bundled rules are versioned and every example snippet behaves as declared", async () => {
+    delete process.env.RED_FLAG_RULES_PATH;
+    const ruleSet = await loadRedFlagRules();
+
+    expect(ruleSet.version).toMatch(/\S/);
+    expect(ruleSet.rules.length).toBeGreaterThan(0);
+    expect(checkRuleExamples(ruleSet)).toEqual([]);
+  });
+
+  test("applies rules from the configured file within their section scope and stamps the version", async () => {
+    await writeRules(ruleFile("2026.11.0"));
+
+    const first = await runPass3RedFlags(input, noModel);
+    expect(first.rulesVersion).toBe("2026.11.0");
+    expect(first.redFlags).toEqual([
+      expect.objectContaining({
+        ruleId: "late_rejection",
+        sourceText: "Proposals received late will be rejected by the committee."
+      })
+    ]);
+
+    await writeRules(ruleFile("2026.11.1", { severity: "HIGH", sections: undefined }));
+
+    const second = await runPass3RedFlags(input, noModel);
+    expect(second.rulesVersion).toBe("2026.11.1");
+    expect(second.redFlags[0]).toMatchObject({
+      severity: "HIGH",
+      sourceText: "Late proposals will be rejected without review."
+    });
+  });
+
+  test("reports examples that do not behave as declared", async () => {
+    await writeRules(ruleFile("1", { examples: { match: ["Late bids are accepted."], noMatch: ["Bids will be rejected."] } }));
+
+    expect(checkRuleExamples(await loadRedFlagRules())).toEqual([
+      'late_rejection: expected a match for "Late bids are accepted."',
+      'late_rejection: expected no match for "Bids will be rejected."'
+    ]);
+  });
+
+  test("fails as server_misconfigured on an invalid pattern or schema violation", async () => {
+    await writeRules(ruleFile("1", { patterns: { en: ["(unclosed"] } }));
+    await expect(loadRedFlagRules()).rejects.toSatisfy(
+      (error: unknown) => error instanceof ApiError && error.shape.code === "server_misconfigured"
+    );
+
+    await writeRules(ruleFile("2", { severity: "CRITICAL" }));
+    await expect(loadRedFlagRules()).rejects.toThrow("Red-flag rule file is invalid");
+  });
+});
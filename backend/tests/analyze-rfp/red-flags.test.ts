@@ -0,0 +1,150 @@
+import { describe, expect, test } from "vitest";
+import { isValidSourceSpan } from "@/lib/extraction/evidence-locator";
+import { runPass3RedFlags } from "@/lib/extraction/passes/pass3-redflags";
+import type { RedFlagFinding, RedFlagReviewer, ReviewClause } from "@/lib/extraction/red-flag-reviewer";
+
+const rawText = [
+  "Project Overview",
+  "The agency will deliver a national awareness campaign across digital channels.",
+  "Proposal Requirements",
+  "Bidders shall submit at least two creative concepts with the proposal. Proposals are prepared at the bidder's own cost.",
+  "Contract Terms",
+  "The agency's liability shall not be limited under this agreement.",
+  "Invoices will be paid within 90 days of approval.",
+  "A delay penalty of 1% per day applies.",
+  "The agency must not work for any competitor during the contract term.",
+  "Bidders must comply with local content requirements of at least 30%.",
+  "The client may terminate the contract at any time with 7 days notice."
+].join("\n");
+
+const input = {
+  analysisId: "f7df722f-9968-4c17-980a-fcb53aaf56d1",
+  parsedDocument: {
+    schemaVersion: "1.0.0",
+    analysisId: "f7df722f-9968-4c17-980a-fcb53aaf56d1",
+    primaryLanguage: "english" as const,
+    rawText,
+    sections: [],
+    tables: [],
+    evidenceMap: []
+  }
+};
+
+const noModel: RedFlagReviewer = { review: async () => [] };
+
+function reviewerReturning(build: (clauses: ReviewClause[]) => RedFlagFinding[]): RedFlagReviewer & { seen: ReviewClause[] } {
+  const reviewer = {
+    seen: [] as ReviewClause[],
+    async review(clauses: ReviewClause[]) {
+      reviewer.seen = clauses;
+      return build(clauses);
+    }
+  };
+  return reviewer;
+}
+
+function clauseId(clauses: ReviewClause[], fragment: string): number {
+  const clause = clauses.find((item) => item.text.includes(fragment));
+  if (!clause) {
+    throw new Error(`No reviewed clause contains "${fragment}"`);
+  }
+  return clause.id;
+}
+
+describe("runPass3RedFlags", () => {
+  test("quotes the matched clause with offsets for each catalogue rule", async () => {
+    const { redFlags, warnings } = await runPass3RedFlags(input, noModel);
+
+    expect(redFlags.map((flag) => flag.ruleId).sort()).toEqual(
+      [
+        "exclusivity",
+        "local_content",
+        "long_payment_terms",
+        "penalty_clauses",
+        "pitch_without_fee",
+        "spec_work",
+        "termination_for_convenience",
+        "unlimited_liability"
+      ].sort()
+    );
+    const liability = redFlags.find((flag) => flag.ruleId === "unlimited_liability");
+    expect(liability?.sourceText).toBe("The agency's liability shall not be limited under this agreement.");
+    expect(redFlags.every((flag) => isValidSourceSpan(flag.sourceSpan, rawText) && flag.sourceSpan.quote === flag.sourceText)).toBe(
+      true
+    );
+    expect(redFlags.every((flag) => flag.detectedBy === "rule")).toBe(true);
+    // HIGH severity first.
+    expect(redFlags[0].ruleId).toBe("unlimited_liability");
+    // "within 90 days" in a payment clause is a payment term, not a delivery timeline.
+    expect(redFlags.some((flag) => flag.ruleId === "unrealistic_timeline")).toBe(false);
+    expect(warnings).toContain("8 red flag(s) detected.");
+  });
+
+  test("merges model findings with rule flags and keeps new ones quoted from their clause", async () => {
+    const reviewer = reviewerReturning((clauses) => [
+      {
+        clauseId: clauseId(clauses, "liability shall not be limited"),
+        category: "unlimited_liability",
+        type: "contractual",
+        severity: "HIGH",
+        title: "Uncapped liability",
+        description: "Liability is not limited.",
+        recommendation: "Cap liability."
+      },
+      {
+        clauseId: clauseId(clauses, "delay penalty"),
+        category: "other",
+        type: "contractual",
+        severity: "MEDIUM",
+        title: "Daily delay penalty",
+        description: "Penalty accrues daily.",
+        recommendation: "Negotiate a cap."
+      },
+      {
+        clauseId: clauseId(clauses, "7 days notice"),
+        category: "other",
+        type: "feasibility",
+        severity: "LOW",
+        title: "Short termination notice",
+        description: "Seven days notice leaves no time to wind down production.",
+        recommendation: "Ask for 30 days notice."
+      },
+      {
+        clauseId: 0,
+        category: "other",
+        type: "process",
+        severity: "LOW",
+        title: "Not a reviewed clause",
+        description: "",
+        recommendation: ""
+      }
+    ]);
+
+    const { redFlags } = await runPass3RedFlags(input, reviewer);
+
+    expect(reviewer.seen.some((clause) => clause.text.startsWith("Project Overview"))).toBe(false);
+    expect(redFlags.find((flag) => flag.ruleId === "unlimited_liability")?.detectedBy).toBe("rule+model");
+    expect(redFlags.find((flag) => flag.ruleId === "penalty_clauses")?.detectedBy).toBe("rule+model");
+    expect(redFlags.filter((flag) => flag.detectedBy === "model")).toEqual([
+      expect.objectContaining({
+        ruleId: "other",
+        title: "Short termination notice",
+        sourceText: "The client may terminate the contract at any time with 7 days notice."
+      })
+    ]);
+    expect(redFlags.some((flag) => flag.title === "Not a reviewed clause")).toBe(false);
+  });
+
+  test("falls back to rule matches when the model review fails", async () => {
+    const failing: RedFlagReviewer = {
+      review: async () => {
+        throw new Error("upstream timeout");
+      }
+    };
+
+    const { redFlags, warnings } = await runPass3RedFlags(input, failing);
+
+    expect(redFlags).toHaveLength(8);
+    expect(warnings).toContain("Red-flag model review unavailable; rule matches only.");
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "vitest";
+import { analyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { criteriaFromTables, datesFromTables, deliverablesFromTables } from "@/lib/extraction/table-fields";
+
+function table(title: string, headers: string[], rows: string[][], pages = [3]) {
+  return { title, headers, rows, pages, confidence: 0.9 };
+}
+
+// A DOCX-style document: every figure sits in a table, and the text holds each cell as its own paragraph.
+const rawText = [
+  "Client: Example Holdings",
+  "Project Name: National Day Campaign",
+  "Scope of Work",
+  "The agency will plan and produce the national day campaign described in the tables below.",
+  "Evaluation Criteria",
+  "Proposals are evaluated against the criteria in the table below.",
+  "Criterion",
+  "Weight",
+  "Creative concept",
+  "40",
+  "Team experience",
+  "20",
+  "Financial offer",
+  "40",
+  "Key Dates",
+  "Milestone",
+  "Date",
+  "Clarification questions",
+  "2026-04-05",
+  "Proposal submission",
+  "2026-04-20",
+  "Deliverables",
+  "Deliverable",
+  "Quantity",
+  "Hero film",
+  "1",
+  "Social media cutdowns",
+  "12"
+].join("\n");
+
+const tables = [
+  table("Evaluation Criteria", ["Criterion", "Weight"], [
+    ["Creative concept", "40"],
+    ["Team experience", "20"],
+    ["Financial offer", "40"]
+  ]),
+  table("Key Dates", ["Milestone", "Date"], [
+    ["Clarification questions", "2026-04-05"],
+    ["Proposal submission", "2026-04-20"]
+  ], [4]),
+  table("Deliverables", ["Deliverable", "Quantity"], [
+    ["Hero film", "1"],
+    ["Social media cutdowns", "12"]
+  ], [5])
+];
+
+describe("table-aware extraction", () => {
+  test("fills criteria weights, dates and deliverables stated only in tables, with table_cell evidence", async () => {
+    const result = await analyzeRfpInput({
+      analysisId: "2c8e4f1a-7b6d-4a39-9e05-d1f3a8c6b274",
+      parsedDocument: {
+        schemaVersion: "1.0.0",
+        analysisId: "2c8e4f1a-7b6d-4a39-9e05-d1f3a8c6b274",
+        primaryLanguage: "english",
+        rawText,
+        sections: [],
+        tables,
+        evidenceMap: []
+      }
+    });
+
+    expect(result.evaluationCriteria).toBe("Creative concept 40%\nTeam experience 20%\nFinancial offer 40%");
+    expect(result.structuredEvaluationCriteria?.financialWeightPercent).toBe(40);
+    expect(result.importantDates).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ title: "Clarification questions", date: "2026-04-05", type: "qa_deadline" }),
+        expect.objectContaining({ title: "Proposal submission", date: "2026-04-20", type: "submission_deadline", isCritical: true })
+      ])
+    );
+    expect(result.requiredDeliverables.map((deliverable) => deliverable.item)).toEqual(
+      expect.arrayContaining(["Hero film", "Social media cutdowns"])
+    );
+
+    const tableEvidence = result.evidence.filter((entry) => entry.sourceType === "table_cell");
+    expect(tableEvidence.find((entry) => entry.field === "evaluationCriteria")).toMatchObject({ page: 3 });
+    const submissionIndex = result.importantDates.findIndex((date) => date.title === "Proposal submission");
+    const submission = tableEvidence.find((entry) => entry.field === `importantDates[${submissionIndex}]`);
+    expect(submission).toMatchObject({ page: 4, excerpt: "Proposal submission | 2026-04-20" });
+    expect(rawText.slice(submission?.charStart, submission?.charEnd)).toBe("Proposal submission");
+    const filmIndex = result.requiredDeliverables.findIndex((deliverable) => deliverable.item === "Hero film");
+    expect(tableEvidence.find((entry) => entry.field === `requiredDeliverables[${filmIndex}]`)).toMatchObject({ page: 5 });
+  });
+
+  test("reads Arabic timeline, quantity and criteria tables and skips total rows", () => {
+    const arabic = [
+      table("الجدول الزمني", ["المرحلة", "التاريخ"], [
+        ["تقديم العروض", "15/05/2026"],
+        ["الترسية", "يحدد لاحقاً"]
+      ]),
+      table("جدول الكميات", ["البند", "الكمية"], [
+        ["فيلم رئيسي", "2"],
+        ["الإجمالي", "2"]
+      ]),
+      table("معايير التقييم", ["المعيار", "الوزن"], [
+        ["المنهجية", "70"],
+        ["العرض المالي", "30"],
+        ["المجموع", "100"]
+      ])
+    ];
+
+    expect(datesFromTables(arabic).map((date) => [date.title, date.parsed.date])).toEqual([["تقديم العروض", "2026-05-15"]]);
+    expect(deliverablesFromTables(arabic).map((deliverable) => deliverable.item)).toEqual(["فيلم رئيسي"]);
+    expect(criteriaFromTables(arabic).map((criterion) => [criterion.name, criterion.weight])).toEqual([
+      ["المنهجية", "70%"],
+      ["العرض المالي", "30%"]
+    ]);
+  });
+});
@@ -97,6 +97,67 @@ describe("calculateScoreInput", () => {
     expect(result.warnings.some((warning) => warning.includes("completenessScore"))).toBe(true);
   });
 
+  test("sizes project scope from the stated budget and contract duration when present", async () => {
+    const scopeFactor = (result: Awaited<ReturnType<typeof calculateScoreInput>>) =>
+      result.score.factorBreakdown.find((factor) => factor.factor === "Project Scope Magnitude");
+
+    const large = await calculateScoreInput({
+      ...baseInput,
+      extractedRfp: {
+        ...baseInput.extractedRfp,
+        commercialTerms: {
+          estimatedBudget: { min: 2_000_000, max: 3_000_000, currency: "USD" },
+          contractDuration: { months: 12 }
+        }
+      }
+    });
+    const small = await calculateScoreInput({
+      ...baseInput,
+      extractedRfp: {
+        ...baseInput.extractedRfp,
+        commercialTerms: { estimatedBudget: { min: null, max: 250_000, currency: "SAR" }, contractDuration: null }
+      }
+    });
+
+    expect(scopeFactor(large)?.contribution).toBe(17);
+    expect(scopeFactor(large)?.evidence).toContain("Contract duration: 12 months");
+    expect(scopeFactor(large)?.evidence).toContain("Estimated budget: SAR 11,250,000");
+    // Six months between the listed dates would score 17 without a stated budget.
+    expect(scopeFactor(small)?.contribution).toBe(2);
+  });
+
+  test("warns when the evaluation is price-led", async () => {
+    const priceLed = await calculateScoreInput({
+      ...baseInput,
+      extractedRfp: {
+        ...baseInput.extractedRfp,
+        structuredEvaluationCriteria: { technicalWeightPercent: 40, financialWeightPercent: 60 }
+      }
+    });
+    const qualityLed = await calculateScoreInput({
+      ...baseInput,
+      extractedRfp: {
+        ...baseInput.extractedRfp,
+        structuredEvaluationCriteria: { technicalWeightPercent: 70, financialWeightPercent: 30 }
+      }
+    });
+
+    expect(priceLed.warnings).toContain("Price-led evaluation: financial criteria carry 60% of the total weight.");
+    expect(qualityLed.warnings.some((warning) => warning.startsWith("Price-led"))).toBe(false);
+  });
+
+  test("does not count an unknown-date placeholder as extracted dates", async () => {
+    const result = await calculateScoreInput({
+      ...baseInput,
+      extractedRfp: {
+        ...baseInput.extractedRfp,
+        importantDates: [{ date: null, status: "unknown" }]
+      }
+    });
+
+    expect(result.score.quality.blockReasons).toContain("Important dates were not extracted with sufficient certainty.");
+  });
+
   test("marks holding-group factor as unavailable when profile is unknown", async () => {
     const result = await calculateScoreInput({
       ...baseInput,
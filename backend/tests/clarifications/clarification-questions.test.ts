@@ -0,0 +1,143 @@
+import { describe, expect, test } from "vitest";
+import { renderClarificationLetter } from "@/lib/clarifications/clarification-letter";
+import { buildClarificationQuestions, type ClarificationSource } from "@/lib/clarifications/clarification-questions";
+import { exportAnalysis } from "@/lib/export/export-service";
+
+const liabilityClause = "The agency shall bear unlimited liability for any losses arising from the services.";
+
+function redFlag(title: string, severity: "HIGH" | "MEDIUM" | "LOW", ruleId: string) {
+  return {
+    type: "contractual" as const,
+    severity,
+    title,
+    description: `${title} detected`,
+    sourceText: liabilityClause,
+    recommendation: "Negotiate before bidding",
+    ruleId
+  };
+}
+
+const source: ClarificationSource = {
+  extractedRfp: {
+    missingInformation: [
+      { field: "budget", suggestedQuestion: "What is the budget?" },
+      { field: "submission_format", suggestedQuestion: "What format is required?" }
+    ],
+    redFlags: [
+      redFlag("Unlimited liability", "HIGH", "unlimited_liability"),
+      redFlag("Uncapped indemnity", "MEDIUM", "uncapped_indemnity")
+    ],
+    importantDates: [
+      {
+        title: "Questions deadline",
+        date: "2026-03-01",
+        type: "qa_deadline",
+        isCritical: true,
+        time: "12:00",
+        deadlineAt: "2026-03-01T12:00:00+03:00",
+        daysRemaining: 19
+      },
+      { title: "Submission deadline", date: "2026-03-15", type: "submission_deadline", isCritical: true }
+    ],
+    conflicts: [
+      {
+        field: "submission_deadline",
+        candidates: ["2026-03-15", "2026-03-22"],
+        sources: [],
+        resolvedValue: "2026-03-15",
+        resolvedBy: "first_occurrence",
+        resolution: "Resolved to 2026-03-15: the first value stated, on page 1; confirm with the client."
+      }
+    ]
+  },
+  scopeAnalysis: { uncertainItems: ["Media buying across regional outlets", "media buying across regional outlets!"] }
+};
+
+describe("buildClarificationQuestions", () => {
+  test("merges duplicates and orders bilingual questions by priority", () => {
+    const result = buildClarificationQuestions(source);
+
+    expect(result.questions.map((question) => [question.id, question.priority, question.topic])).toEqual([
+      ["Q1", "high", "conflict:submission_deadline"],
+      ["Q2", "high", "red_flag:unlimited_liability"],
+      ["Q3", "medium", "budget"],
+      ["Q4", "medium", "scope:media buying across regional outlets"],
+      ["Q5", "low", "submission_format"]
+    ]);
+    expect(result.questions[1]).toMatchObject({
+      origins: ["red_flag"],
+      reference: liabilityClause,
+      question: { en: expect.stringContaining("unlimited liability and uncapped indemnity") }
+    });
+    expect(result.questions.every((question) => question.question.ar.length > 0)).toBe(true);
+    expect(result.questions[0]?.question.en).toContain("2026-03-15 / 2026-03-22");
+    expect(result.qaDeadline).toEqual({
+      date: "2026-03-01",
+      time: "12:00",
+      deadlineAt: "2026-03-01T12:00:00+03:00",
+      daysRemaining: 19
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("warns when the Q&A window is unknown or already closed", () => {
+    const noDeadline = buildClarificationQuestions({
+      extractedRfp: { ...source.extractedRfp, importantDates: [] }
+    });
+    expect(noDeadline.qaDeadline).toBeNull();
+    expect(noDeadline.warnings[0]).toContain("No Q&A deadline");
+
+    const passed = buildClarificationQuestions({
+      extractedRfp: {
+        ...source.extractedRfp,
+        importantDates: [{ title: "Questions", date: "2026-01-01", type: "qa_deadline", isCritical: true, daysRemaining: -5 }]
+      }
+    });
+    expect(passed.warnings[0]).toContain("has passed");
+  });
+});
+
+describe("clarification letter", () => {
+  test("renders a numbered English and Arabic request letter", () => {
+    const clarifications = buildClarificationQuestions(source);
+    const base = { clarifications, clientName: "Example Authority", projectName: "Awareness Campaign" };
+
+    const english = renderClarificationLetter({ ...base, language: "en", issuedAt: new Date("2026-02-10T09:00:00Z") });
+    expect(english.subject).toBe("Request for Clarification - Awareness Campaign");
+    expect(english.body).toContain("Date: 2026-02-10");
+    expect(english.body).toContain("clarification deadline of 2026-03-01 at 12:00");
+    expect(english.body).toContain(`5. ${clarifications.questions[4]?.question.en}`);
+    expect(english.sendBefore).toBe("2026-03-01T12:00:00+03:00");
+    expect(english.questionCount).toBe(5);
+
+    const arabic = renderClarificationLetter({ ...base, language: "ar", clientName: "الهيئة" });
+    expect(arabic.subject).toBe("طلب استيضاح - Awareness Campaign");
+    expect(arabic.body).toContain("السادة/ الهيئة المحترمين");
+    expect(arabic.body).toContain(`1. ${clarifications.questions[0]?.question.ar}`);
+    expect(arabic.body).toContain("2026-03-01 الساعة 12:00");
+  });
+
+  test("is available as an export format", async () => {
+    const result = await exportAnalysis({
+      analysisId: "e6c1c93e-6f43-4f16-bbe0-30761998a4db",
+      report: {
+        analysisId: "e6c1c93e-6f43-4f16-bbe0-30761998a4db",
+        extractedRfp: {
+          ...source.extractedRfp,
+          clientName: "Example Authority",
+          clientNameArabic: "الهيئة",
+          projectName: "Awareness Campaign"
+        }
+      },
+      format: "clarification_letter",
+      language: "ar"
+    });
+
+    expect(result.artifact).toMatchObject({ type: "clarification_letter", language: "ar", questionCount: 4 });
+    expect(String(result.artifact.body)).toContain("إلى: الهيئة");
+
+    await expect(
+      exportAnalysis({ analysisId: "e6c1c93e-6f43-4f16-bbe0-30761998a4db", report: {}, format: "clarification_letter" })
+    ).rejects.toMatchObject({ shape: { code: "validation_error" } });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "vitest";
+import { analyzeRfpInput } from "@/lib/extraction/analyze-rfp";
+import { parseDocumentBundle, type BundleDocumentInput } from "@/lib/parsing/document-bundle";
+
+const analysisId = "a4c7e2d1-6b3f-4e8a-9c15-7d2e0f4b8a63";
+
+function txt(role: BundleDocumentInput["role"], fileName: string, lines: string[]): BundleDocumentInput {
+  return { role, fileName, mimeType: "text/plain", fileBytes: Buffer.from(lines.join("\n"), "utf8") };
+}
+
+const mainRfp = txt("main", "rfp.txt", [
+  "Client: Example Authority",
+  "Project Name: Awareness Campaign",
+  "Scope of Work",
+  "The agency will produce a national awareness campaign.",
+  "Submission deadline: 15 March 2026",
+  "Submit proposals by email to procurement@example.com"
+]);
+const boq = txt("annex", "boq.txt", ["Bill of Quantities", "Item | Quantity", "Hero video | 5"]);
+const addendum = txt("addendum", "addendum-1.txt", ["The submission deadline is now 22 March 2026 at 1:00 PM."]);
+
+describe("parseDocumentBundle", () => {
+  test("merges files in role order with per-document ranges and pages", async () => {
+    const parsed = await parseDocumentBundle({ analysisId, documents: [addendum, mainRfp, boq] });
+
+    expect(parsed.sourceDocuments?.map((document) => [document.documentId, document.role, document.fileName])).toEqual([
+      ["doc-1", "main", "rfp.txt"],
+      ["doc-2", "annex", "boq.txt"],
+      ["doc-3", "addendum", "addendum-1.txt"]
+    ]);
+    expect(parsed.pageIndex?.map((boundary) => boundary.page)).toEqual([1, 2, 3]);
+
+    const [main, annex, amendment] = parsed.sourceDocuments ?? [];
+    expect(parsed.rawText.slice(main.charStart, main.charEnd)).toMatch(/^=== Main RFP rfp\.txt ===\nClient: Example Authority/);
+    expect(parsed.rawText.slice(annex.charStart, annex.charEnd)).toContain("Hero video | 5");
+    expect(parsed.rawText.slice(amendment.charStart, amendment.charEnd)).toContain("22 March 2026");
+    expect(amendment).toMatchObject({ pageStart: 3, pageEnd: 3, detectedFormat: "txt" });
+    for (const section of parsed.sections) {
+      expect(section.startOffset).toBeGreaterThanOrEqual(main.charStart);
+      expect(section.endOffset).toBeLessThanOrEqual(parsed.rawText.length);
+    }
+    expect(parsed.tables[0]?.pages).toEqual([2]);
+  });
+
+  test("needs exactly one main document", async () => {
+    await expect(parseDocumentBundle({ analysisId, documents: [boq, addendum] })).rejects.toMatchObject({
+      shape: { code: "validation_error" }
+    });
+  });
+
+  test("lets a later addendum override the main RFP and records the override", async () => {
+    const parsedDocument = await parseDocumentBundle({ analysisId, documents: [mainRfp, addendum] });
+    const result = await analyzeRfpInput({ analysisId, parsedDocument });
+
+    expect(result.importantDates.find((entry) => entry.type === "submission_deadline")).toMatchObject({
+      date: "2026-03-22",
+      dateOriginal: "22 March 2026",
+      time: "13:00"
+    });
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({
+        field: "submission_deadline",
+        candidates: ["2026-03-15", "2026-03-22"],
+        resolvedValue: "2026-03-22",
+        resolvedBy: "amendment",
+        sources: [
+          expect.objectContaining({ value: "2026-03-15", documentId: "doc-1" }),
+          expect.objectContaining({ value: "2026-03-22", documentId: "doc-2" })
+        ]
+      })
+    ]);
+    expect(result.conflicts?.[0].resolution).toContain("Addendum addendum-1.txt, page 2 amends the earlier value");
+  });
+
+  test("does not block a complete bundle whose only conflict an addendum settles", async () => {
+    const completeRfp = txt("main", "rfp.txt", [
+      "Client: Example Authority",
+      "Project Name: Awareness Campaign",
+      "Scope of Work",
+      "The agency will produce a national awareness campaign with 6 hero videos and 40 social media posts.",
+      "Deliverables",
+      "- Technical proposal with methodology and team CVs",
+      "- Commercial proposal with pricing and payment terms",
+      "Evaluation Criteria",
+      "Technical approach 70%",
+      "Financial offer 30%",
+      "Proposal submission deadline: 15 November 2026",
+      "Submit proposals by email to procurement@example.com in PDF format"
+    ]);
+    const extension = txt("addendum", "addendum-1.txt", [
+      "Addendum 1: the proposal submission deadline is extended to 29 November 2026."
+    ]);
+    const parsedDocument = await parseDocumentBundle({ analysisId, documents: [completeRfp, extension] });
+    const result = await analyzeRfpInput({ analysisId, parsedDocument });
+
+    expect(result.conflicts?.map((conflict) => conflict.resolvedBy)).toEqual(["amendment"]);
+    expect(result.qualityFlags).toContain("amendments_applied");
+    expect(result.qualityFlags).not.toContain("conflicts_detected");
+    expect(result.quality).toMatchObject({ blocked: false, blockReasons: [] });
+    expect(result.quality.status).not.toBe("blocked");
+  });
+});
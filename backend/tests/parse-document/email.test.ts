@@ -0,0 +1,163 @@
+import { describe, expect, test } from "vitest";
+import { senderOrganization } from "@/lib/parsing/email-message";
+import { parseDocumentInput } from "@/lib/parsing/parse-document";
+import { cfbOf } from "./office-fixtures";
+
+const analysisId = "c2a7e9d4-5f18-4b3e-9a06-8d1f4e7b2c95";
+
+const base64 = (text: string) => Buffer.from(text, "utf8").toString("base64");
+
+const eml = [
+  `From: =?UTF-8?B?${base64("وزارة الصحة")}?= <tenders@moh.gov.sa>`,
+  "To: bids@agency.example",
+  "Subject: =?UTF-8?Q?RFP_invitation_=E2=80=93?=",
+  " =?UTF-8?Q?_campaign?=",
+  "Date: Sun, 1 Mar 2026 09:30:00 +0300",
+  "Organization: Ministry of Health",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/mixed; boundary="outer"',
+  "",
+  "--outer",
+  'Content-Type: multipart/alternative; boundary="alt"',
+  "",
+  "--alt",
+  "Content-Type: text/plain; charset=utf-8",
+  "Content-Transfer-Encoding: quoted-printable",
+  "",
+  "Dear bidders,",
+  "Proposals are due by 15 March 2026 at 14:00.=",
+  " Questions by 5 March.",
+  "--alt",
+  "Content-Type: text/html; charset=utf-8",
+  "",
+  "<p>HTML version</p>",
+  "--alt--",
+  "--outer",
+  'Content-Type: text/plain; name="scope.txt"',
+  "Content-Disposition: attachment; filename*=UTF-8''%D9%86%D8%B7%D8%A7%D9%82.txt",
+  "Content-Transfer-Encoding: base64",
+  "",
+  base64("Scope of work: six hero videos and forty social posts."),
+  "--outer",
+  "Content-Type: image/png",
+  "Content-ID: <logo>",
+  'Content-Disposition: inline; filename="logo.png"',
+  "Content-Transfer-Encoding: base64",
+  "",
+  "iVBORw0KGgo=",
+  "--outer",
+  'Content-Type: application/zip; name="drawings.zip"',
+  'Content-Disposition: attachment; filename="drawings.zip"',
+  "Content-Transfer-Encoding: base64",
+  "",
+  "UEsFBgAAAAAAAAAAAAAAAAAAAAAAAA==",
+  "--outer",
+  "Content-Type: message/rfc822",
+  "",
+  "From: colleague@agency.example",
+  "Subject: Fwd: budget",
+  "Content-Type: text/plain",
+  "",
+  "Budget ceiling is SAR 2,000,000.",
+  "--outer--",
+  ""
+].join("\r\n");
+
+const utf16 = (text: string) => Buffer.from(`${text}\0`, "utf16le");
+
+function fixedProperties(headerSize: number, properties: Array<[number, Buffer]>): Buffer {
+  const stream = Buffer.alloc(headerSize + properties.length * 16);
+  properties.forEach(([tag, value], index) => {
+    stream.writeUInt32LE(tag, headerSize + index * 16);
+    value.copy(stream, headerSize + index * 16 + 8);
+  });
+  return stream;
+}
+
+function filetime(iso: string): Buffer {
+  const value = Buffer.alloc(8);
+  value.writeBigUInt64LE((BigInt(Date.parse(iso)) + 11_644_473_600_000n) * 10_000n);
+  return value;
+}
+
+const attachMethodEmbedded = Buffer.alloc(8);
+attachMethodEmbedded.writeUInt32LE(5);
+
+const msg = cfbOf({
+  "__substg1.0_0037001F": utf16("Invitation to tender"),
+  "__substg1.0_1000001F": utf16("Please find the RFP attached.\r\nSite visit on 10 March 2026."),
+  "__substg1.0_0C1A001F": utf16("Tenders Committee"),
+  "__substg1.0_5D01001F": utf16("tenders@rcrc.gov.sa"),
+  "__properties_version1.0": fixedProperties(32, [[0x00390040, filetime("2026-03-02T08:00:00Z")]]),
+  "__attach_version1.0_#00000000": {
+    "__substg1.0_3707001F": utf16("brief.txt"),
+    "__substg1.0_37010102": Buffer.from("Brief: launch campaign for the new service, two phases.", "utf8"),
+    "__properties_version1.0": fixedProperties(8, [])
+  },
+  "__attach_version1.0_#00000001": {
+    "__substg1.0_3707001F": utf16("signature.png"),
+    "__substg1.0_370E001F": utf16("image/png"),
+    "__substg1.0_3712001F": utf16("sig@01"),
+    "__substg1.0_37010102": Buffer.from([0x89, 0x50, 0x4e, 0x47])
+  },
+  "__attach_version1.0_#00000002": {
+    "__substg1.0_3707001F": utf16("Original.msg"),
+    "__properties_version1.0": fixedProperties(8, [[0x37050003, attachMethodEmbedded]])
+  }
+});
+
+describe("email ingestion", () => {
+  test("merges an EML body with its parsed attachments and keeps per-part provenance", async () => {
+    const parsed = await parseDocumentInput({
+      analysisId,
+      fileName: "invitation.eml",
+      mimeType: "message/rfc822",
+      fileBytes: Buffer.from(eml, "utf8")
+    });
+
+    expect(parsed.detectedFormat).toBe("eml");
+    expect(parsed.email).toEqual({
+      subject: "RFP invitation – campaign",
+      from: "وزارة الصحة <tenders@moh.gov.sa>",
+      senderOrganization: "Ministry of Health",
+      sentAt: "2026-03-01T06:30:00.000Z"
+    });
+    expect(parsed.rawText).toContain(
+      "Subject: RFP invitation – campaign\nFrom: وزارة الصحة <tenders@moh.gov.sa>\nOrganization: Ministry of Health\nSent: 2026-03-01 06:30 UTC\n\n" +
+        "Dear bidders,\nProposals are due by 15 March 2026 at 14:00. Questions by 5 March."
+    );
+    expect(parsed.rawText).not.toContain("HTML version");
+    expect(parsed.rawText).toContain("Scope of work: six hero videos");
+    expect(parsed.rawText).toContain("Budget ceiling is SAR 2,000,000.");
+    expect(parsed.sourceDocuments?.map(({ role, fileName, detectedFormat }) => [role, fileName, detectedFormat])).toEqual([
+      ["main", "invitation.eml", "eml"],
+      ["annex", "نطاق.txt", "txt"],
+      ["annex", "Fwd budget.eml", "eml"]
+    ]);
+    expect(parsed.parserProvenance).toEqual(["eml_local", "txt_local"]);
+    expect(parsed.warnings).toContain("Attachment drawings.zip skipped: Unsupported document format: application/zip");
+    expect(parsed.warnings.join(" ")).not.toContain("logo.png");
+  });
+
+  test("reads an Outlook MSG: sender, submit time, body and attachments stored by value", async () => {
+    const parsed = await parseDocumentInput({ analysisId, fileName: "invitation.msg", mimeType: "", fileBytes: msg });
+
+    expect(parsed.detectedFormat).toBe("msg");
+    expect(parsed.email).toEqual({
+      subject: "Invitation to tender",
+      from: "Tenders Committee <tenders@rcrc.gov.sa>",
+      senderOrganization: "rcrc.gov.sa",
+      sentAt: "2026-03-02T08:00:00.000Z"
+    });
+    expect(parsed.rawText).toContain("Please find the RFP attached.\nSite visit on 10 March 2026.");
+    expect(parsed.sourceDocuments?.map((document) => document.fileName)).toEqual(["invitation.msg", "brief.txt"]);
+    expect(parsed.evidenceMap[0].sourceType).toBe("email");
+    expect(parsed.warnings).toContain("invitation.msg: MSG embedded message Original.msg skipped; forward it as a separate file.");
+  });
+
+  test("names the sender organization from the mail domain unless it is webmail", () => {
+    expect(senderOrganization(null, "Procurement <tenders@mail.moh.gov.sa>")).toBe("moh.gov.sa");
+    expect(senderOrganization(null, "someone@gmail.com")).toBeNull();
+    expect(senderOrganization(" Riyadh Season ", "a@gmail.com")).toBe("Riyadh Season");
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, test } from "vitest";
+import { parseDocumentInput } from "@/lib/parsing/parse-document";
+import { cfbOf, zipOf } from "./office-fixtures";
+
+const analysisId = "4b1e8f27-9c3d-4a65-b8e0-2d7f6a1c9e53";
+
+const drawing = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const relationshipType = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+function shape(...paragraphs: string[]): string {
+  return `<p:sp><p:txBody>${paragraphs.map((text) => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`).join("")}</p:txBody></p:sp>`;
+}
+
+const deck = zipOf({
+  "ppt/presentation.xml": `<p:presentation ${drawing} xmlns:r="${relationshipType}"><p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId3"/><p:sldId id="258" r:id="rId4"/></p:sldIdLst></p:presentation>`,
+  "ppt/_rels/presentation.xml.rels": `<Relationships><Relationship Id="rId2" Type="${relationshipType}/slide" Target="slides/slide1.xml"/><Relationship Id="rId3" Type="${relationshipType}/slide" Target="slides/slide2.xml"/><Relationship Id="rId4" Type="${relationshipType}/slide" Target="slides/slide3.xml"/></Relationships>`,
+  "ppt/slides/slide1.xml": `<p:sld ${drawing}><p:cSld><p:spTree>${shape("Campaign brief", "Launch &amp; awareness")}</p:spTree></p:cSld></p:sld>`,
+  "ppt/slides/_rels/slide1.xml.rels": `<Relationships><Relationship Id="rId1" Type="${relationshipType}/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>`,
+  "ppt/notesSlides/notesSlide1.xml": `<p:notes ${drawing}><p:cSld><p:spTree><p:sp><p:nvSpPr><p:nvPr><p:ph type="sldNum"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>1</a:t></a:r></a:p></p:txBody></p:sp>${shape("Client prefers a bilingual launch film.")}</p:spTree></p:cSld></p:notes>`,
+  "ppt/slides/slide2.xml": `<p:sld ${drawing} show="0"><p:cSld><p:spTree>${shape("Internal pricing")}</p:spTree></p:cSld></p:sld>`,
+  "ppt/slides/slide3.xml": `<p:sld ${drawing}><p:cSld><p:spTree>${shape("Deliverables")}<p:graphicFrame><a:graphic><a:graphicData><a:tbl><a:tr><a:tc><a:txBody><a:p><a:r><a:t>Item</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>Qty</a:t></a:r></a:p></a:txBody></a:tc></a:tr><a:tr><a:tc><a:txBody><a:p><a:r><a:t>Hero video</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>2</a:t></a:r></a:p></a:txBody></a:tc></a:tr></a:tbl></a:graphicData></a:graphic></p:graphicFrame>${shape("Deadline: 15 March 2026")}</p:spTree></p:cSld></p:sld>`
+});
+
+/** A Word 97 document: one compressed (cp1252) piece, then one UTF-16 piece with a footnote after the main story. */
+function wordDocument(options: { encrypted?: boolean } = {}): Buffer {
+  const english = 'Request for Proposal\rScope\x07Qty\x07\x07Video\x076\x07\x07Submit via \x13 HYPERLINK "https://x" \x14the portal\x15.\x0c';
+  const arabic = "الموعد النهائي\r";
+  const footnote = "Footnote text\r";
+
+  const document = Buffer.alloc(4096);
+  document.writeUInt16LE(0xa5ec, 0);
+  document.writeUInt16LE(0xc1, 2);
+  document.writeUInt16LE(options.encrypted ? 0x0300 : 0x0200, 0x0a);
+  document.writeUInt16LE(14, 32);
+  document.writeUInt16LE(22, 62);
+  document.writeInt32LE(english.length + arabic.length, 64 + 3 * 4);
+  document.writeUInt16LE(93, 152);
+  document.write(english, 2048, "latin1");
+  document.write(arabic + footnote, 3072, "utf16le");
+
+  const cps = [0, english.length, english.length + arabic.length + footnote.length];
+  const clx = Buffer.alloc(3 + 2 + 5 + cps.length * 4 + 2 * 8);
+  clx.writeUInt8(0x01, 0);
+  clx.writeUInt16LE(2, 1);
+  clx.writeUInt8(0x02, 5);
+  clx.writeUInt32LE(cps.length * 4 + 2 * 8, 6);
+  cps.forEach((cp, index) => clx.writeUInt32LE(cp, 10 + index * 4));
+  clx.writeUInt32LE((2048 * 2) | 0x40000000, 10 + cps.length * 4 + 2);
+  clx.writeUInt32LE(3072, 10 + cps.length * 4 + 8 + 2);
+  document.writeUInt32LE(0, 154 + 33 * 8);
+  document.writeUInt32LE(clx.length, 154 + 33 * 8 + 4);
+
+  return cfbOf({ WordDocument: document, "1Table": clx });
+}
+
+describe("legacy and presentation formats", () => {
+  test("reads PPTX slides in order with tables and notes, one page per slide", async () => {
+    const parsed = await parseDocumentInput({ analysisId, fileName: "brief.pptx", mimeType: "", fileBytes: deck });
+
+    expect(parsed.detectedFormat).toBe("pptx");
+    expect(parsed.rawText).toBe(
+      "Slide 1\nCampaign brief\nLaunch & awareness\nNotes: Client prefers a bilingual launch film.\n\n" +
+        "Slide 3\nDeliverables\nItem | Qty\nHero video | 2\nDeadline: 15 March 2026"
+    );
+    expect(parsed.pageIndex?.map((page) => page.page)).toEqual([1, 3]);
+    expect(parsed.rawText.slice(parsed.pageIndex?.[1].charStart, parsed.pageIndex?.[1].charEnd)).toMatch(/^Slide 3/);
+    expect(parsed.evidenceMap.every((entry) => entry.sourceType === "pptx")).toBe(true);
+    expect(parsed.parserProvenance).toEqual(["pptx_local"]);
+    expect(parsed.warnings).toContain("PPTX hidden slides skipped: 2.");
+  });
+
+  test("decodes RTF code-page escapes, unicode escapes, tables and page breaks", async () => {
+    const rtf = [
+      "{\\rtf1\\ansi\\ansicpg1252\\deff0{\\fonttbl{\\f0\\fswiss Arial;}{\\f1\\fnil\\fcharset178 Simplified Arabic;}}",
+      "{\\*\\generator Riched20;}{\\info{\\title Internal}}",
+      "\\pard Scope of Work\\par",
+      "\\trowd\\intbl Item\\cell Qty\\cell\\row\\intbl Video\\cell 3\\cell\\row",
+      "{\\f1 \\'da\\'d1\\'d6} \\uc1\\u1601?\\u1606?\\u1610? {\\field{\\*\\fldinst HYPERLINK \"https://x\"}{\\fldrslt portal}}\\page",
+      "Caf\\'e9 \\{draft\\}\\par}"
+    ].join("\n");
+
+    const parsed = await parseDocumentInput({
+      analysisId,
+      fileName: "brief.rtf",
+      mimeType: "application/rtf",
+      fileBytes: Buffer.from(rtf, "latin1")
+    });
+
+    expect(parsed.detectedFormat).toBe("rtf");
+    expect(parsed.rawText).toBe("Scope of Work\nItem | Qty\nVideo | 3\nعرض فني portal\nCafé {draft}");
+    expect(parsed.pageIndex).toEqual([
+      { page: 1, charStart: 0, charEnd: 50 },
+      { page: 2, charStart: 50, charEnd: 62 }
+    ]);
+    expect(parsed.parserProvenance).toEqual(["rtf_local"]);
+  });
+
+  test("reads Word 97 main text through the piece table and rejects encrypted files", async () => {
+    const parsed = await parseDocumentInput({
+      analysisId,
+      fileName: "rfp.doc",
+      mimeType: "application/msword",
+      fileBytes: wordDocument()
+    });
+
+    expect(parsed.detectedFormat).toBe("doc");
+    expect(parsed.rawText).toBe("Request for Proposal\nScope | Qty\nVideo | 6\nSubmit via the portal.\nالموعد النهائي");
+    expect(parsed.rawText).not.toContain("Footnote");
+    expect(parsed.pageIndex?.map((page) => page.page)).toEqual([1, 2]);
+    expect(parsed.evidenceMap[0].sourceType).toBe("doc");
+    expect(parsed.parserProvenance).toEqual(["doc_local"]);
+
+    await expect(
+      parseDocumentInput({ analysisId, fileName: "locked.doc", mimeType: "", fileBytes: wordDocument({ encrypted: true }) })
+    ).rejects.toMatchObject({ shape: { code: "validation_error", message: "DOC file is password-protected" } });
+  });
+});
@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { createOcrProvider, resolveOcrProviderName } from "@/lib/parsing/ocr-provider";
+import { parseDocumentInput } from "@/lib/parsing/parse-document";
+import { TesseractOcrProvider, type CommandRunner } from "@/lib/parsing/tesseract-ocr-provider";
+import { GoogleVisionOcrProvider } from "@/lib/parsing/vision-ocr-provider";
+
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+const scannedPdf = Buffer.from("%PDF-1.7\n1 0 obj\n<< /Type /Page >>\nendobj\n%%EOF", "latin1");
+
+function tsv(words: Array<[block: number, line: number, confidence: number, text: string]>): string {
+  const header = "level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext";
+  const rows = words.map(([block, line, confidence, text], index) =>
+    ["5", "1", block, "1", line, index + 1, "0", "0", "10", "10", confidence, text].join("\t")
+  );
+  return [header, "1\t1\t0\t0\t0\t0\t0\t0\t2480\t3508\t-1\t", ...rows].join("\n");
+}
+
+describe("OCR providers", () => {
+  test("Tesseract renders and reads each requested page and reports per-page confidence", async () => {
+    const calls: string[][] = [];
+    const run: CommandRunner = async (command, args) => {
+      calls.push([command, ...args]);
+      if (command === "pdftoppm" && args.includes("3")) {
+        throw new Error("Syntax Error: page 3 is damaged");
+      }
+      if (command === "tesseract") {
+        return args[0].endsWith("page-1.png")
+          ? tsv([
+              [1, 1, 96, "Request"],
+              [1, 1, 94, "for"],
+              [1, 1, 92, "Proposal"],
+              [2, 1, 90, "نطاق"],
+              [2, 1, 88, "العمل"]
+            ])
+          : tsv([[1, 1, 41, "Budget:"], [1, 1, 39, "SAR 2,000,000"]]);
+      }
+      return "";
+    };
+    const provider = new TesseractOcrProvider({
+      tesseractPath: "tesseract",
+      pdftoppmPath: "pdftoppm",
+      languages: "eng+ara",
+      dpi: 300,
+      timeoutMs: 1_000,
+      run
+    });
+
+    const result = await provider.performOcr({ fileBytes: scannedPdf, fileName: "scan.pdf", pagesHint: 3 });
+
+    expect(result.pages).toEqual([
+      { page: 1, text: "Request for Proposal\n\nنطاق العمل", confidence: 0.92 },
+      { page: 2, text: "Budget: SAR 2,000,000", confidence: 0.4 }
+    ]);
+    expect(result.pagesOcred).toBe(2);
+    expect(result.warnings).toEqual(["Tesseract OCR failed on page 3 of scan.pdf: Syntax Error: page 3 is damaged"]);
+    expect(calls[0]).toEqual(expect.arrayContaining(["-r", "300", "-f", "1", "-l", "1", "-png"]));
+    expect(calls[1]).toEqual(expect.arrayContaining(["stdout", "-l", "eng+ara", "tsv"]));
+  });
+
+  test("Tesseract reports a missing binary once instead of failing the parse", async () => {
+    const run: CommandRunner = async () => {
+      throw Object.assign(new Error("spawn pdftoppm ENOENT"), { code: "ENOENT" });
+    };
+    const provider = new TesseractOcrProvider({
+      tesseractPath: "tesseract",
+      pdftoppmPath: "pdftoppm",
+      languages: "eng+ara",
+      dpi: 300,
+      timeoutMs: 1_000,
+      run
+    });
+
+    const result = await provider.performOcr({ fileBytes: scannedPdf, fileName: "scan.pdf", pagesHint: 4 });
+
+    expect(result.pagesOcred).toBe(0);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toContain("Tesseract or pdftoppm is not installed");
+  });
+
+  test("Google Vision sends five pages per request and counts the pages it returned", async () => {
+    const requests: Array<{ pages: number[]; languageHints: string[] }> = [];
+    const fetchFn = (async (_url: string | URL | Request, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body));
+      const request = body.requests[0];
+      requests.push({ pages: request.pages, languageHints: request.imageContext.languageHints });
+      return new Response(
+        JSON.stringify({
+          responses: [
+            {
+              responses: request.pages.map((page: number) =>
+                page === 7
+                  ? { context: { pageNumber: page }, error: { message: "Page could not be rendered" } }
+                  : {
+                      context: { pageNumber: page },
+                      fullTextAnnotation: { text: `Page ${page} text\n`, pages: [{ confidence: page === 6 ? 0.5 : 0.97 }] }
+                    }
+              )
+            }
+          ]
+        }),
+        { status: 200 }
+      );
+    }) as typeof fetch;
+    const provider = new GoogleVisionOcrProvider({
+      apiKey: "test-key",
+      endpoint: "https://vision.example/v1/files:annotate",
+      languageHints: ["ar", "en"],
+      timeoutMs: 1_000,
+      fetchFn
+    });
+
+    const result = await provider.performOcr({ fileBytes: scannedPdf, fileName: "scan.pdf", pagesHint: 7 });
+
+    expect(requests).toEqual([
+      { pages: [1, 2, 3, 4, 5], languageHints: ["ar", "en"] },
+      { pages: [6, 7], languageHints: ["ar", "en"] }
+    ]);
+    expect(result.pagesOcred).toBe(6);
+    expect(result.pages?.[5]).toEqual({ page: 6, text: "Page 6 text", confidence: 0.5 });
+    expect(result.text.startsWith("Page 1 text\n\nPage 2 text")).toBe(true);
+    expect(result.warnings).toEqual(["Google Vision OCR failed on page 7 of scan.pdf: Page could not be rendered"]);
+  });
+
+  test("picks the provider from OCR_PROVIDER, defaulting to Vision only when it has a key", () => {
+    delete process.env.OCR_PROVIDER;
+    delete process.env.GOOGLE_VISION_API_KEY;
+    expect(resolveOcrProviderName()).toBe("tesseract");
+    expect(createOcrProvider()).toBeInstanceOf(TesseractOcrProvider);
+
+    process.env.GOOGLE_VISION_API_KEY = "key";
+    expect(createOcrProvider()).toBeInstanceOf(GoogleVisionOcrProvider);
+
+    process.env.OCR_PROVIDER = "none";
+    expect(resolveOcrProviderName()).toBe("none");
+
+    process.env.OCR_PROVIDER = "abbyy";
+    expect(() => createOcrProvider()).toThrowError(/Unknown OCR_PROVIDER/);
+  });
+
+  test("records per-page confidence on the parsed document and warns about weak pages", async () => {
+    const parsed = await parseDocumentInput({
+      analysisId: "0d7f3b2a-6c41-4e8b-9f15-2a9c8e6d4b70",
+      fileName: "scan.pdf",
+      mimeType: "application/pdf",
+      fileBytes: scannedPdf,
+      ocrProvider: {
+        async performOcr() {
+          return {
+            text: "Scope of work: brand campaign\n\nBudget SAR 2,000,000",
+            pagesOcred: 2,
+            pages: [
+              { page: 1, text: "Scope of work: brand campaign", confidence: 0.93 },
+              { page: 2, text: "Budget SAR 2,000,000", confidence: 0.42 }
+            ],
+            warnings: []
+          };
+        }
+      }
+    });
+
+    expect(parsed.ocrStats).toEqual({
+      used: true,
+      pagesOcred: 2,
+      pageConfidence: [
+        { page: 1, confidence: 0.93 },
+        { page: 2, confidence: 0.42 }
+      ]
+    });
+    expect(parsed.warnings).toContain("OCR confidence is low on page(s) 2; check quoted figures against the original.");
+  });
+});
@@ -0,0 +1,190 @@
+import { crc32, deflateRawSync } from "node:zlib";
+
+/** A minimal ZIP writer: every entry deflated, no extra fields or comments. */
+export function zipOf(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content, "utf8");
+    const data = deflateRawSync(raw);
+    const nameBytes = Buffer.from(name, "utf8");
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const SECTOR = 512;
+const MINI_SECTOR = 64;
+const MINI_STREAM_CUTOFF = 4096;
+const END_OF_CHAIN = 0xfffffffe;
+const FAT_SECTOR = 0xfffffffd;
+const NO_STREAM = 0xffffffff;
+
+/** Streams by name; a nested object is a storage holding more streams. */
+export interface CompoundTree {
+  [name: string]: Buffer | CompoundTree;
+}
+
+interface CompoundEntry {
+  name: string;
+  type: number;
+  data: Buffer | null;
+  children: number[];
+  start: number;
+  size: number;
+}
+
+function padTo(data: Buffer, size: number): Buffer {
+  const padded = Buffer.alloc(Math.ceil(Math.max(data.length, 1) / size) * size);
+  data.copy(padded);
+  return padded;
+}
+
+/**
+ * A minimal OLE2 compound file (version 3, 512-byte sectors). Streams under 4096 bytes
+ * go into the mini stream like Office writes them; storages list children as a chain of
+ * right siblings instead of a balanced tree.
+ */
+export function cfbOf(tree: CompoundTree): Buffer {
+  const entries: CompoundEntry[] = [{ name: "Root Entry", type: 5, data: null, children: [], start: END_OF_CHAIN, size: 0 }];
+  const add = (parent: number, node: CompoundTree) => {
+    for (const [name, value] of Object.entries(node)) {
+      const index = entries.length;
+      entries[parent].children.push(index);
+      const isStream = Buffer.isBuffer(value);
+      entries.push({ name, type: isStream ? 2 : 1, data: isStream ? value : null, children: [], start: END_OF_CHAIN, size: 0 });
+      if (!isStream) {
+        add(index, value);
+      }
+    }
+  };
+  add(0, tree);
+
+  const sectors: Buffer[] = [];
+  const fat: number[] = [];
+  const allocate = (data: Buffer) => {
+    const start = sectors.length;
+    const padded = padTo(data, SECTOR);
+    for (let offset = 0; offset < padded.length; offset += SECTOR) {
+      sectors.push(padded.subarray(offset, offset + SECTOR));
+      fat.push(offset + SECTOR < padded.length ? sectors.length : END_OF_CHAIN);
+    }
+    return start;
+  };
+
+  const directory = Buffer.alloc(Math.ceil(entries.length / 4) * SECTOR);
+  const firstDirectorySector = allocate(directory);
+
+  const miniChunks: Buffer[] = [];
+  const miniFat: number[] = [];
+  for (const entry of entries) {
+    if (!entry.data) {
+      continue;
+    }
+    entry.size = entry.data.length;
+    if (entry.data.length < MINI_STREAM_CUTOFF) {
+      const padded = padTo(entry.data, MINI_SECTOR);
+      entry.start = miniFat.length;
+      for (let offset = 0; offset < padded.length; offset += MINI_SECTOR) {
+        miniFat.push(offset + MINI_SECTOR < padded.length ? miniFat.length + 1 : END_OF_CHAIN);
+      }
+      miniChunks.push(padded);
+    } else {
+      entry.start = allocate(entry.data);
+    }
+  }
+  const miniStream = Buffer.concat(miniChunks);
+  let firstMiniFatSector = END_OF_CHAIN;
+  if (miniStream.length > 0) {
+    entries[0].start = allocate(miniStream);
+    entries[0].size = miniStream.length;
+    const miniFatBytes = Buffer.alloc(miniFat.length * 4);
+    miniFat.forEach((value, index) => miniFatBytes.writeUInt32LE(value, index * 4));
+    firstMiniFatSector = allocate(miniFatBytes);
+  }
+
+  entries.forEach((entry, index) => {
+    const offset = index * 128;
+    const parent = entries.find((candidate) => candidate.children.includes(index));
+    const siblings = parent?.children ?? [];
+    const next = siblings[siblings.indexOf(index) + 1];
+    directory.write(entry.name, offset, "utf16le");
+    directory.writeUInt16LE((entry.name.length + 1) * 2, offset + 64);
+    directory.writeUInt8(entry.type, offset + 66);
+    directory.writeUInt8(1, offset + 67);
+    directory.writeUInt32LE(NO_STREAM, offset + 68);
+    directory.writeUInt32LE(next ?? NO_STREAM, offset + 72);
+    directory.writeUInt32LE(entry.children[0] ?? NO_STREAM, offset + 76);
+    directory.writeUInt32LE(entry.start, offset + 116);
+    directory.writeUInt32LE(entry.size, offset + 120);
+  });
+  // The directory sectors were reserved before any start sector was known; fill them in now.
+  for (let index = 0; index < directory.length / SECTOR; index += 1) {
+    sectors[firstDirectorySector + index] = directory.subarray(index * SECTOR, (index + 1) * SECTOR);
+  }
+
+  // FAT sectors go last so every other sector number is known before the FAT is sized.
+  let fatSectors = 1;
+  while (fatSectors * (SECTOR / 4) < sectors.length + fatSectors) {
+    fatSectors += 1;
+  }
+  const firstFatSector = sectors.length;
+  for (let index = 0; index < fatSectors; index += 1) {
+    fat.push(FAT_SECTOR);
+  }
+  const fatBytes = Buffer.alloc(fatSectors * SECTOR, 0xff);
+  fat.forEach((value, index) => fatBytes.writeUInt32LE(value, index * 4));
+
+  const header = Buffer.alloc(SECTOR);
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(header);
+  header.writeUInt16LE(0x3e, 0x18);
+  header.writeUInt16LE(3, 0x1a);
+  header.writeUInt16LE(0xfffe, 0x1c);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt16LE(6, 0x20);
+  header.writeUInt32LE(fatSectors, 0x2c);
+  header.writeUInt32LE(firstDirectorySector, 0x30);
+  header.writeUInt32LE(MINI_STREAM_CUTOFF, 0x38);
+  header.writeUInt32LE(firstMiniFatSector, 0x3c);
+  header.writeUInt32LE(firstMiniFatSector === END_OF_CHAIN ? 0 : Math.ceil((miniFat.length * 4) / SECTOR), 0x40);
+  header.writeUInt32LE(END_OF_CHAIN, 0x44);
+  for (let index = 0; index < 109; index += 1) {
+    header.writeUInt32LE(index < fatSectors ? firstFatSector + index : NO_STREAM, 0x4c + index * 4);
+  }
+
+  return Buffer.concat([header, ...sectors, fatBytes]);
+}
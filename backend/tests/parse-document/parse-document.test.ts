@@ -1,4 +1,5 @@
 import { describe, expect, test } from "vitest";
+import { pageBoundariesFromBreaks, shiftPageBoundaries } from "@/lib/parsing/normalization";
 import { parseDocumentInput } from "@/lib/parsing/parse-document";
 
 function uuid(): string {
@@ -95,3 +96,18 @@ describe("parseDocumentInput", () => {
     ).rejects.toThrowError(/exceeds/);
   });
 });
+
+describe("page boundaries", () => {
+  test("splits text at page breaks and re-bases after trimming", () => {
+    const pages = pageBoundariesFromBreaks(30, [10, 20]);
+    expect(pages).toEqual([
+      { page: 1, charStart: 0, charEnd: 10 },
+      { page: 2, charStart: 10, charEnd: 20 },
+      { page: 3, charStart: 20, charEnd: 30 }
+    ]);
+    expect(shiftPageBoundaries(pages, 12, 15)).toEqual([
+      { page: 2, charStart: 0, charEnd: 8 },
+      { page: 3, charStart: 8, charEnd: 15 }
+    ]);
+  });
+});
@@ -0,0 +1,309 @@
+import zlib from "node:zlib";
+import { describe, expect, test } from "vitest";
+import { parseDocumentInput } from "@/lib/parsing/parse-document";
+import { visualToLogical } from "@/lib/parsing/pdf-content";
+import { parsePdfBuffer } from "@/lib/parsing/pdf-parser";
+
+type PdfObject = { num: number; body: string; stream?: Buffer };
+
+function buildPdf(objects: PdfObject[]): Buffer {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  for (const object of objects) {
+    if (object.stream) {
+      parts.push(Buffer.from(`${object.num} 0 obj\n${object.body.replace("LENGTH", String(object.stream.length))}\nstream\n`, "latin1"));
+      parts.push(object.stream);
+      parts.push(Buffer.from("\nendstream\nendobj\n", "latin1"));
+    } else {
+      parts.push(Buffer.from(`${object.num} 0 obj\n${object.body}\nendobj\n`, "latin1"));
+    }
+  }
+  parts.push(Buffer.from("trailer\n<< /Root 1 0 R >>\n%%EOF\n", "latin1"));
+  return Buffer.concat(parts);
+}
+
+function flate(content: string): Buffer {
+  return zlib.deflateSync(Buffer.from(content, "latin1"));
+}
+
+const page1Lines = [
+  "Request for Proposal: Brand Refresh Campaign",
+  "Client: Saudi Aramco",
+  "Scope of Work",
+  "Develop campaign strategy and produce 6 videos for the national launch."
+];
+const page2Lines = [
+  "Evaluation Criteria",
+  "Technical approach 60% and commercial offer 40% weighted by the committee.",
+  "Submission deadline: 15/03/2026"
+];
+
+function textContent(lines: string[]): string {
+  const body = lines.map((line) => `(${line.replace(/[()\\]/g, "\\$&")}) Tj T*`).join("\n");
+  return `BT /F1 11 Tf 14 TL 72 720 Td\n${body}\nET`;
+}
+
+function twoPagePdf(): Buffer {
+  return buildPdf([
+    { num: 1, body: "<< /Type /Catalog /Pages 2 0 R >>" },
+    { num: 2, body: "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 7 0 R >> >> >>" },
+    { num: 3, body: "<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>" },
+    { num: 4, body: "<< /Type /Page /Parent 2 0 R /Contents [6 0 R] >>" },
+    { num: 5, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(textContent(page1Lines)) },
+    { num: 6, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(textContent(page2Lines)) },
+    { num: 7, body: "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>" }
+  ]);
+}
+
+// Page 1 is digital, page 2 is a scanned image, page 3 a scan with a printed page number
+// (inline image plus a short text layer) and page 4 is blank.
+function mixedScanPdf(): Buffer {
+  const scan = "q 612 0 0 792 0 0 cm /Im1 Do Q";
+  const stampedScan = `q 612 0 0 792 0 0 cm BI /W 1 /H 1 /BPC 8 /CS /G ID \x80 EI Q\n${textContent(["Page 3"])}`;
+  return buildPdf([
+    { num: 1, body: "<< /Type /Catalog /Pages 2 0 R >>" },
+    {
+      num: 2,
+      body: "<< /Type /Pages /Kids [3 0 R 4 0 R 5 0 R 6 0 R] /Count 4 /Resources << /Font << /F1 7 0 R >> /XObject << /Im1 8 0 R >> >> >>"
+    },
+    { num: 3, body: "<< /Type /Page /Parent 2 0 R /Contents 9 0 R >>" },
+    { num: 4, body: "<< /Type /Page /Parent 2 0 R /Contents 10 0 R >>" },
+    { num: 5, body: "<< /Type /Page /Parent 2 0 R /Contents 11 0 R >>" },
+    { num: 6, body: "<< /Type /Page /Parent 2 0 R /Contents 12 0 R >>" },
+    { num: 7, body: "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>" },
+    {
+      num: 8,
+      body: "<< /Type /XObject /Subtype /Image /Width 1 /Height 1 /BitsPerComponent 8 /ColorSpace /DeviceGray /Length LENGTH >>",
+      stream: Buffer.from([0x80])
+    },
+    { num: 9, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(textContent(page1Lines)) },
+    { num: 10, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(scan) },
+    { num: 11, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(stampedScan) },
+    { num: 12, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate("") }
+  ]);
+}
+
+describe("parsePdfBuffer", () => {
+  test("decodes FlateDecode content streams with exact page boundaries", () => {
+    const result = parsePdfBuffer(twoPagePdf());
+
+    expect(result.pageCount).toBe(2);
+    expect(result.pages.map((page) => page.text)).toEqual([page1Lines.join("\n"), page2Lines.join("\n")]);
+    for (const page of result.pages) {
+      expect(result.text.slice(page.charStart, page.charEnd)).toBe(page.text);
+    }
+    expect(result.pages[1].charStart).toBeGreaterThan(result.pages[0].charEnd);
+  });
+
+  test("maps Type0 glyph codes through ToUnicode CMaps and restores logical order for Arabic", () => {
+    const cmap = [
+      "/CIDInit /ProcSet findresource begin",
+      "begincmap",
+      "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+      "3 beginbfchar",
+      "<0001> <FE8D>",
+      "<0002> <FEDF>",
+      "<0003> <0020>",
+      "endbfchar",
+      "1 beginbfrange",
+      "<0010> <0012> [<FEE3> <FEE8> <FEEE>]",
+      "endbfrange",
+      "endcmap"
+    ].join("\n");
+    // Glyphs are shown left to right, i.e. "ال منو" in visual order.
+    const content = "BT /F1 12 Tf 100 700 Td [<001200110010> -50 <0003> <00020001>] TJ ET";
+
+    const result = parsePdfBuffer(
+      buildPdf([
+        { num: 1, body: "<< /Type /Catalog /Pages 2 0 R >>" },
+        { num: 2, body: "<< /Type /Pages /Kids [3 0 R] /Count 1 >>" },
+        { num: 3, body: "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>" },
+        { num: 4, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(content) },
+        { num: 5, body: "<< /Type /Font /Subtype /Type0 /BaseFont /Arial /Encoding /Identity-H /ToUnicode 6 0 R >>" },
+        { num: 6, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(cmap) }
+      ])
+    );
+
+    expect(result.pages[0].text).toBe("ال منو");
+  });
+
+  test("keeps lam-alef ligatures in logical order when reversing Arabic", () => {
+    const cmap = [
+      "/CIDInit /ProcSet findresource begin",
+      "begincmap",
+      "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+      "5 beginbfchar",
+      "<0010> <0645>",
+      "<0011> <06440627>",
+      "<0012> <0633>",
+      "<0013> <0646>",
+      "<0014> <FEF7>",
+      "endbfchar",
+      "endcmap"
+    ].join("\n");
+    // "سلام لأن" in visual order; glyph 0011 is one lam-alef glyph mapped to two letters,
+    // glyph 0014 the lam-alef-hamza presentation form.
+    const content = "BT /F1 12 Tf 100 700 Td [<001000110012> -400 <00130014>] TJ ET";
+
+    const result = parsePdfBuffer(
+      buildPdf([
+        { num: 1, body: "<< /Type /Catalog /Pages 2 0 R >>" },
+        { num: 2, body: "<< /Type /Pages /Kids [3 0 R] /Count 1 >>" },
+        { num: 3, body: "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>" },
+        { num: 4, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(content) },
+        { num: 5, body: "<< /Type /Font /Subtype /Type0 /BaseFont /Arial /Encoding /Identity-H /ToUnicode 6 0 R >>" },
+        { num: 6, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(cmap) }
+      ])
+    );
+
+    expect(result.pages[0].text).toBe("لأن سلام");
+  });
+
+  test("reads pages stored inside compressed object streams", () => {
+    const pageObject = "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 6 0 R >> >> /Contents 5 0 R >>";
+    const header = `3 0 `;
+    const objStm = flate(`${header}${pageObject}`);
+
+    const result = parsePdfBuffer(
+      buildPdf([
+        { num: 1, body: "<< /Type /Catalog /Pages 2 0 R >>" },
+        { num: 2, body: "<< /Type /Pages /Kids [3 0 R] /Count 1 >>" },
+        { num: 4, body: `<< /Type /ObjStm /N 1 /First ${header.length} /Length LENGTH /Filter /FlateDecode >>`, stream: objStm },
+        { num: 5, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(textContent(["Packed page text"])) },
+        { num: 6, body: "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>" }
+      ])
+    );
+
+    expect(result.pageCount).toBe(1);
+    expect(result.text).toBe("Packed page text");
+  });
+
+  test("marks only low-text pages that paint an image for OCR", () => {
+    const result = parsePdfBuffer(mixedScanPdf());
+
+    expect(result.pageCount).toBe(4);
+    expect(result.needsOcr).toBe(true);
+    expect(result.ocrPages).toEqual([2, 3]);
+    expect(result.warnings).toContain("PDF pages look scanned (2, 3); OCR recommended for those pages.");
+    expect(parsePdfBuffer(twoPagePdf()).ocrPages).toEqual([]);
+  });
+
+  test("skips a stream that inflates beyond the decoding limit", () => {
+    const bomb = zlib.deflateSync(Buffer.alloc(65 * 1024 * 1024, 0x20), { level: 9 });
+    const pdf = buildPdf([
+      { num: 1, body: "<< /Type /Catalog /Pages 2 0 R >>" },
+      { num: 2, body: "<< /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /Font << /F1 6 0 R >> >> >>" },
+      { num: 3, body: "<< /Type /Page /Parent 2 0 R /Contents [4 0 R 5 0 R] >>" },
+      { num: 4, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: flate(textContent(page1Lines)) },
+      { num: 5, body: "<< /Length LENGTH /Filter /FlateDecode >>", stream: bomb },
+      { num: 6, body: "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>" }
+    ]);
+
+    const result = parsePdfBuffer(pdf);
+
+    expect(bomb.length).toBeLessThan(1024 * 1024);
+    expect(result.text).toContain("Client: Saudi Aramco");
+    expect(result.warnings).toContain("PDF streams expand beyond the decoding limit (1); their content was skipped.");
+  });
+
+  test("sends encrypted PDFs to OCR instead of scanning their ciphertext", () => {
+    const pdf = buildPdf([
+      { num: 1, body: "<< /Type /Catalog /Pages 2 0 R >>" },
+      { num: 2, body: "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>" },
+      { num: 3, body: "<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>" },
+      { num: 4, body: "<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>" },
+      { num: 5, body: "<< /Length LENGTH >>", stream: Buffer.from("Qx7vLmZ2 pR9tWs0 ciphertext Kd8eYh3 looks like words", "latin1") },
+      { num: 6, body: "<< /Filter /Standard /V 2 /R 3 /O <00> /U <00> /P -4 >>" }
+    ]);
+    const encrypted = Buffer.from(
+      pdf.toString("latin1").replace("<< /Root 1 0 R >>", "<< /Root 1 0 R /Encrypt 6 0 R >>"),
+      "latin1"
+    );
+
+    const result = parsePdfBuffer(encrypted);
+
+    expect(result.text).toBe("");
+    expect(result.pageCount).toBe(2);
+    expect(result.needsOcr).toBe(true);
+    expect(result.warnings).toContain("PDF is encrypted; its text cannot be read directly and the pages need OCR.");
+    expect(result.warnings.some((warning) => /raw byte scan/.test(warning))).toBe(false);
+  });
+
+  test("falls back to the raw byte scan when no page tree exists", () => {
+    const result = parsePdfBuffer(Buffer.from("%PDF-1.4\nsome legacy text content here\n%%EOF", "latin1"));
+
+    expect(result.pages).toEqual([]);
+    expect(result.text).toContain("some legacy text content here");
+    expect(result.warnings.some((warning) => /raw byte scan/.test(warning))).toBe(true);
+  });
+});
+
+describe("parseDocumentInput with PDF pages", () => {
+  test("evidence entries carry the page their section starts on", async () => {
+    const parsed = await parseDocumentInput({
+      analysisId: "5b92d2fe-77be-4f15-9b89-cb7ddf0fe4f2",
+      fileName: "rfp.pdf",
+      mimeType: "application/pdf",
+      fileBytes: twoPagePdf(),
+      ocrProvider: {
+        async performOcr() {
+          return { text: "", pagesOcred: 0, warnings: [] };
+        }
+      }
+    });
+
+    const evaluation = parsed.evidenceMap.find((entry) => entry.excerpt.startsWith("Evaluation Criteria"));
+    const scope = parsed.evidenceMap.find((entry) => entry.excerpt.startsWith("Scope of Work"));
+    expect(scope?.page).toBe(1);
+    expect(evaluation?.page).toBe(2);
+    expect(parsed.pageIndex?.map((entry) => entry.page)).toEqual([1, 2]);
+    expect(parsed.rawText.slice(parsed.pageIndex?.[1].charStart)).toMatch(/^Evaluation Criteria/);
+  });
+});
+
+describe("parseDocumentInput with scanned pages", () => {
+  test("OCRs only the scanned pages and splices their text into page order", async () => {
+    const requestedPages: Array<number[] | undefined> = [];
+    const parsed = await parseDocumentInput({
+      analysisId: "5b92d2fe-77be-4f15-9b89-cb7ddf0fe4f2",
+      fileName: "mixed.pdf",
+      mimeType: "application/pdf",
+      fileBytes: mixedScanPdf(),
+      ocrProvider: {
+        async performOcr(input) {
+          requestedPages.push(input.pages);
+          const pages = [
+            { page: 2, text: page2Lines.slice(0, 2).join("\n"), confidence: 0.91 },
+            { page: 3, text: "Page 3\nSubmission deadline: 15/03/2026", confidence: 0.88 }
+          ];
+          return { text: pages.map((page) => page.text).join("\n\n"), pagesOcred: pages.length, pages, warnings: [] };
+        }
+      }
+    });
+
+    expect(requestedPages).toEqual([[2, 3]]);
+    expect(parsed.ocrStats?.pagesOcred).toBe(2);
+    expect(parsed.pageIndex?.map((entry) => entry.page)).toEqual([1, 2, 3]);
+    const pageText = (page: number) => {
+      const boundary = parsed.pageIndex?.find((entry) => entry.page === page);
+      return parsed.rawText.slice(boundary?.charStart, boundary?.charEnd);
+    };
+    expect(pageText(1)).toBe(page1Lines.join("\n"));
+    expect(pageText(2)).toMatch(/^Evaluation Criteria\nTechnical approach 60%/);
+    expect(pageText(3)).toBe("Page 3\nSubmission deadline: 15/03/2026");
+    expect(parsed.evidenceMap.map((entry) => [entry.page, entry.sourceType])).toEqual([
+      [1, "pdf_text"],
+      [2, "ocr"],
+      [3, "ocr"],
+      [3, "ocr"]
+    ]);
+  });
+});
+
+describe("visualToLogical", () => {
+  test("reverses RTL lines but keeps numbers and Latin runs left to right", () => {
+    expect(visualToLogical("2025/03/01 ةسفانملا دعوم")).toBe("موعد المنافسة 2025/03/01");
+    expect(visualToLogical("ةماعلا ةسسؤملا 2024")).toBe("2024 المؤسسة العامة");
+    expect(visualToLogical("Contact ةرازولا for details")).toBe("Contact الوزارة for details");
+    expect(visualToLogical(["م", "لا", "س", " ", "2026"])).toBe("2026 سلام");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "vitest";
+import { segmentSections, type OutlineNode } from "@/lib/parsing/section-segmentation";
+
+const filler = "The agency shall coordinate every activity with the client communications team.\n".repeat(8);
+
+const englishRfp = [
+  "REQUEST FOR PROPOSAL",
+  "Table of Contents",
+  "1. Introduction ........ 2",
+  "2. Scope of Work ........ 3",
+  "1. Introduction",
+  "The Ministry seeks a creative agency for its national campaign.",
+  "2. Scope of Work",
+  "2.1 Campaign Strategy",
+  filler,
+  "2.2 Deliverables",
+  "1. Six hero videos",
+  "2. Forty social media posts",
+  "3. Evaluation Criteria",
+  "Technical 70% and financial 30%.",
+  "4. Submission Instructions",
+  "Proposals are due on 15 March 2026."
+].join("\n");
+
+function shape(nodes: OutlineNode[]): unknown[] {
+  return nodes.map((node) => [node.number, node.title, node.sectionType, shape(node.children)]);
+}
+
+describe("segmentSections", () => {
+  test("builds a numbered heading tree and runs each section to the next heading of its level", () => {
+    const { outline, sections } = segmentSections(englishRfp);
+
+    expect(shape(outline)).toEqual([
+      [null, "REQUEST FOR PROPOSAL", null, []],
+      ["1", "Introduction", "introduction", []],
+      [
+        "2",
+        "Scope of Work",
+        "scope_of_work",
+        [
+          ["2.1", "Campaign Strategy", null, []],
+          ["2.2", "Deliverables", "scope_of_work", []]
+        ]
+      ],
+      ["3", "Evaluation Criteria", "evaluation_criteria", []],
+      ["4", "Submission Instructions", "submission_requirements", []]
+    ]);
+
+    const scope = sections.find((section) => section.name === "scope_of_work")!;
+    const scopeText = englishRfp.slice(scope.startOffset, scope.endOffset);
+    expect(scopeText.startsWith("2. Scope of Work")).toBe(true);
+    expect(scopeText.endsWith("2. Forty social media posts")).toBe(true);
+    expect(scopeText.length).toBeGreaterThan(400);
+    expect(sections.map((section) => section.name)).toEqual([
+      "introduction",
+      "scope_of_work",
+      "evaluation_criteria",
+      "submission_requirements"
+    ]);
+  });
+
+  test("recognizes Arabic ordinal and chapter headings", () => {
+    const text = [
+      "الباب الأول: الأحكام العامة",
+      "أولاً: مقدمة",
+      "تسعى الهيئة إلى إطلاق حملة توعوية.",
+      "ثانياً: نطاق العمل",
+      "إنتاج ستة أفلام قصيرة.",
+      "ثالثاً: معايير التقييم",
+      "العرض الفني 70% والعرض المالي 30%."
+    ].join("\n");
+
+    const { outline, sections } = segmentSections(text);
+
+    expect(shape(outline)).toEqual([
+      ["الأول", "الأحكام العامة", null, []],
+      ["أولاً", "مقدمة", "introduction", []],
+      ["ثانياً", "نطاق العمل", "scope_of_work", []],
+      ["ثالثاً", "معايير التقييم", "evaluation_criteria", []]
+    ]);
+    const scope = sections.find((section) => section.name === "scope_of_work")!;
+    expect(text.slice(scope.startOffset, scope.endOffset)).toBe("ثانياً: نطاق العمل\nإنتاج ستة أفلام قصيرة.");
+  });
+
+  test("does not read day numbers of dated lines as headings", () => {
+    const text = [
+      "1. Introduction",
+      "The Ministry seeks a creative agency.",
+      "2. Key Dates",
+      "15 January 2026 Proposal submission deadline",
+      "20 Feb 2026 Evaluation and award",
+      "1 محرم 1447 آخر موعد لتقديم العروض",
+      "3 2026 Budget Review"
+    ].join("\n");
+
+    const { outline } = segmentSections(text);
+
+    expect(shape(outline)).toEqual([
+      ["1", "Introduction", "introduction", []],
+      ["2", "Key Dates", "important_dates", []]
+    ]);
+  });
+
+  test("takes Unstructured titles as headings and keeps keyword sections for unstructured text", () => {
+    const text = "Our Approach\nWe will run three phases.\nPricing\nLump sum of SAR 900,000.";
+    const { outline } = segmentSections(text, { headingOffsets: [0] });
+    expect(shape(outline)).toEqual([
+      [null, "Our Approach", null, []],
+      [null, "Pricing", "commercial_terms", []]
+    ]);
+
+    const plain = segmentSections("The scope includes six videos and a launch event for the client.");
+    expect(plain.outline).toEqual([]);
+    expect(plain.sections).toEqual([{ name: "scope_of_work", startOffset: 4, endOffset: 64 }]);
+  });
+});
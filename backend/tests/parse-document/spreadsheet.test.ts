@@ -0,0 +1,93 @@
+import { describe, expect, test } from "vitest";
+import { parseCsvRows } from "@/lib/parsing/csv-parser";
+import { parseDocumentInput } from "@/lib/parsing/parse-document";
+import { parseOutputQuantities } from "@/lib/scope/quantity-parser";
+import { zipOf } from "./office-fixtures";
+
+const analysisId = "7d3c9a51-2e84-4b6f-a0c7-93f1e5d2b846";
+
+const ns = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+
+const workbook = zipOf({
+  "xl/workbook.xml": `<?xml version="1.0"?><workbook ${ns} xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="BOQ" sheetId="1" r:id="rId1"/><sheet name="Evaluation" sheetId="2" r:id="rId2"/><sheet name="Lookups" sheetId="3" state="hidden" r:id="rId3"/></sheets></workbook>`,
+  "xl/_rels/workbook.xml.rels": `<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/><Relationship Id="rId3" Target="worksheets/sheet3.xml"/></Relationships>`,
+  "xl/sharedStrings.xml": `<sst ${ns}><si><t>Bill of Quantities</t></si><si><t>Item</t></si><si><t>Description</t></si><si><t>Qty</t></si><si><r><t>Hero </t></r><r><t>video &amp; cutdowns</t></r></si><si><t>Motion graphics</t></si><si><t>Deadline</t></si><si><t>Criterion</t></si><si><t>Weight</t></si></sst>`,
+  "xl/styles.xml": `<styleSheet ${ns}><numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts><cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="9"/></cellXfs></styleSheet>`,
+  "xl/worksheets/sheet1.xml": `<worksheet ${ns}><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c></row>
+    <row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" t="s"><v>2</v></c><c r="C3" t="s"><v>3</v></c><c r="D3" t="s"><v>6</v></c></row>
+    <row r="4"><c r="A4"><v>1</v></c><c r="B4" t="s"><v>4</v></c><c r="C4"><v>6</v></c><c r="D4" s="1"><v>46096</v></c></row>
+    <row r="5"><c r="A5"><v>2</v></c><c r="B5" t="s"><v>5</v></c><c r="C5"><v>14</v></c></row>
+    <row r="6"><c r="A6"><v>3</v></c><c r="B6" t="inlineStr"><is><t>Social media posts</t></is></c><c r="C6"><v>40</v></c></row>
+  </sheetData></worksheet>`,
+  "xl/worksheets/sheet2.xml": `<worksheet ${ns}><sheetData>
+    <row r="1"><c r="A1" t="s"><v>7</v></c><c r="B1" t="s"><v>8</v></c></row>
+    <row r="2"><c r="A2" t="inlineStr"><is><t>Technical</t></is></c><c r="B2" s="2"><v>0.7</v></c></row>
+    <row r="3"><c r="A3" t="inlineStr"><is><t>Financial</t></is></c><c r="B3" s="2"><v>0.3</v></c></row>
+  </sheetData></worksheet>`,
+  "xl/worksheets/sheet3.xml": `<worksheet ${ns}><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>internal</t></is></c></row></sheetData></worksheet>`
+});
+
+describe("spreadsheet ingestion", () => {
+  test("turns each visible XLSX sheet into a table with its real header row", async () => {
+    const parsed = await parseDocumentInput({
+      analysisId,
+      fileName: "boq.xlsx",
+      mimeType: "application/octet-stream",
+      fileBytes: workbook
+    });
+
+    expect(parsed.detectedFormat).toBe("xlsx");
+    expect(parsed.tables).toEqual([
+      {
+        title: "BOQ",
+        headers: ["Item", "Description", "Qty", "Deadline"],
+        rows: [
+          ["1", "Hero video & cutdowns", "6", "2026-03-15"],
+          ["2", "Motion graphics", "14", ""],
+          ["3", "Social media posts", "40", ""]
+        ],
+        pages: [1],
+        confidence: 0.95
+      },
+      { title: "Evaluation", headers: ["Criterion", "Weight"], rows: [["Technical", "70%"], ["Financial", "30%"]], pages: [2], confidence: 0.95 }
+    ]);
+    expect(parsed.rawText).toContain("Sheet: BOQ\nBill of Quantities\nItem | Description | Qty | Deadline\n1 | Hero video & cutdowns | 6 | 2026-03-15");
+    expect(parsed.rawText).not.toContain("internal");
+    expect(parsed.pageIndex?.map((page) => page.page)).toEqual([1, 2]);
+    expect(parsed.rawText.slice(parsed.pageIndex?.[1].charStart, parsed.pageIndex?.[1].charEnd)).toMatch(/^Sheet: Evaluation/);
+    expect(parsed.evidenceMap.every((entry) => entry.sourceType === "table_cell")).toBe(true);
+    expect(parsed.warnings).toContain("XLSX hidden sheets skipped: Lookups.");
+    expect(parseOutputQuantities("Produce 4 videos.", parsed.tables)).toEqual({
+      videoProduction: 6,
+      motionGraphics: 14,
+      visualDesign: null,
+      contentOnly: 40
+    });
+  });
+
+  test("reads quoted CSV fields and detects the delimiter", async () => {
+    expect(parseCsvRows('Item;Qty\n"Video; 60 seconds";3\r\n"Say ""hello""\nto all";1\n')).toEqual([
+      ["Item", "Qty"],
+      ["Video; 60 seconds", "3"],
+      ['Say "hello"\nto all', "1"]
+    ]);
+
+    const parsed = await parseDocumentInput({
+      analysisId,
+      fileName: "deliverables.csv",
+      mimeType: "text/csv",
+      fileBytes: Buffer.from("\uFEFFالبند,الكمية\nفيديو تعريفي,٣\nتصاميم ثابتة,12\n", "utf8")
+    });
+
+    expect(parsed.detectedFormat).toBe("csv");
+    expect(parsed.tables[0]).toMatchObject({ title: "deliverables", headers: ["البند", "الكمية"] });
+    expect(parseOutputQuantities("", parsed.tables)).toMatchObject({ videoProduction: 3, visualDesign: 12 });
+  });
+
+  test("rejects a file that is not a ZIP container", async () => {
+    await expect(
+      parseDocumentInput({ analysisId, fileName: "broken.xlsx", mimeType: "", fileBytes: Buffer.from("not a workbook") })
+    ).rejects.toMatchObject({ shape: { code: "validation_error" } });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "vitest";
+import { parseDocumentInput } from "@/lib/parsing/parse-document";
+import { tablesFromAlignedLines, tablesFromHtml, tablesFromText, type PositionedLine } from "@/lib/parsing/table-extraction";
+import { zipOf } from "./office-fixtures";
+
+function cell(text: string, extra = ""): string {
+  return `<w:tc><w:tcPr>${extra}</w:tcPr><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:tc>`;
+}
+
+function paragraph(text: string): string {
+  return `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`;
+}
+
+// Page 2 holds an evaluation table with a two-row header: "Score" spans two columns and
+// "Criterion" spans both header rows.
+const docx = zipOf({
+  "[Content_Types].xml":
+    '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>',
+  "_rels/.rels":
+    '<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>',
+  "word/document.xml": `<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraph(
+    "Request for Proposal"
+  )}<w:p><w:r><w:br w:type="page"/></w:r></w:p>${paragraph("Evaluation Criteria")}<w:tbl><w:tr>${cell(
+    "Criterion",
+    '<w:vMerge w:val="restart"/>'
+  )}${cell("Score", '<w:gridSpan w:val="2"/>')}</w:tr><w:tr>${cell("", "<w:vMerge/>")}${cell("Weight")}${cell("Minimum")}</w:tr><w:tr>${cell(
+    "Technical approach"
+  )}${cell("70%")}${cell("60")}</w:tr><w:tr>${cell("Financial offer")}${cell("30%")}${cell("-")}</w:tr></w:tbl></w:body></w:document>`
+});
+
+describe("table extraction", () => {
+  test("reads DOCX tables with their page, merged cells and two-row header", async () => {
+    const parsed = await parseDocumentInput({
+      analysisId: "6f1c2a9e-8b3d-4c57-a1e0-93d7b5f2c481",
+      fileName: "rfp.docx",
+      mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      fileBytes: docx
+    });
+
+    expect(parsed.tables).toHaveLength(1);
+    const [table] = parsed.tables;
+    expect(table.title).toBe("Evaluation Criteria");
+    expect(table.pages).toEqual([2]);
+    expect(table.headers).toEqual(["Criterion", "Score / Weight", "Score / Minimum"]);
+    expect(table.headerRows).toEqual([
+      ["Criterion", "Score", "Score"],
+      ["Criterion", "Weight", "Minimum"]
+    ]);
+    expect(table.rows).toEqual([
+      ["Technical approach", "70%", "60"],
+      ["Financial offer", "30%", "-"]
+    ]);
+    expect(table.mergedCells).toEqual([
+      { row: 0, column: 0, rowSpan: 2, columnSpan: 1 },
+      { row: 0, column: 1, rowSpan: 1, columnSpan: 2 }
+    ]);
+    expect(table.confidence).toBeGreaterThan(0.85);
+  });
+
+  test("keeps every HTML table, its caption and row spans in body rows", () => {
+    const html = [
+      "<p>Milestones</p>",
+      "<table><tr><th>Phase</th><th>Deliverable</th><th>Week</th></tr>",
+      '<tr><td rowspan="2">Launch</td><td>Hero film</td><td>4</td></tr>',
+      "<tr><td>Teasers &amp; cutdowns</td><td>5</td></tr></table>",
+      "<table><caption>Payment schedule</caption><thead><tr><td>Milestone</td><td>Share</td></tr></thead>",
+      "<tbody><tr><td>Signature</td><td>20%</td></tr><tr><td>Delivery</td><td>80%</td></tr></tbody></table>"
+    ].join("");
+
+    const tables = tablesFromHtml(html, { source: "unstructured", pages: (index) => [index + 3] });
+
+    expect(tables.map((table) => [table.title, table.pages, table.headers])).toEqual([
+      ["Milestones", [3], ["Phase", "Deliverable", "Week"]],
+      ["Payment schedule", [4], ["Milestone", "Share"]]
+    ]);
+    expect(tables[0].rows).toEqual([
+      ["Launch", "Hero film", "4"],
+      ["Launch", "Teasers & cutdowns", "5"]
+    ]);
+    expect(tables[0].mergedCells).toEqual([{ row: 1, column: 0, rowSpan: 2, columnSpan: 1 }]);
+    expect(tables[1].mergedCells).toBeUndefined();
+  });
+
+  test("finds each pipe or tab table in text with its title and page", () => {
+    const rows = Array.from({ length: 14 }, (_, index) => `Post ${index + 1} | 1`).join("\n");
+    const text = `Bill of Quantities\n| Item | Qty |\n| --- | --- |\n${rows}\n\nNotes follow here.\n\fTimeline:\nPhase\tWeeks\nDiscovery\t2\nProduction\t6`;
+    const pageBreak = text.indexOf("\f");
+
+    const tables = tablesFromText(text, [
+      { page: 1, charStart: 0, charEnd: pageBreak },
+      { page: 2, charStart: pageBreak, charEnd: text.length }
+    ]);
+
+    expect(tables.map((table) => [table.title, table.pages, table.headers, table.rows.length])).toEqual([
+      ["Bill of Quantities", [1], ["Item", "Qty"], 14],
+      ["Timeline", [2], ["Phase", "Weeks"], 2]
+    ]);
+    expect(tables[1].confidence).toBeLessThan(0.7);
+  });
+
+  test("recovers column-aligned PDF tables, spanning headers and right-to-left columns", () => {
+    const line = (y: number, cells: Array<[string, number, number]>): PositionedLine => ({
+      y,
+      size: 10,
+      cells: cells.map(([text, x, endX]) => ({ text, x, endX }))
+    });
+    const lines = [
+      line(720, [["Deliverables schedule", 72, 180]]),
+      line(700, [["Output", 72, 110], ["Quantity", 200, 330]]),
+      line(686, [["Videos", 200, 230], ["Posts", 300, 325]]),
+      line(672, [["Launch", 72, 104], ["6", 200, 206], ["40", 300, 310]]),
+      line(658, [["Sustain", 72, 108], ["2", 200, 206], ["120", 300, 315]]),
+      line(630, [["The agency shall propose a full team and a detailed plan for every phase of the campaign.", 72, 520]]),
+      line(600, [["القيمة", 72, 100], ["البند", 300, 330]]),
+      line(586, [["500,000", 72, 110], ["الإنتاج", 300, 335]]),
+      line(572, [["250,000", 72, 110], ["الإعلام", 300, 335]])
+    ];
+
+    const tables = tablesFromAlignedLines(lines, 5);
+
+    expect(tables).toHaveLength(2);
+    expect(tables[0]).toMatchObject({
+      title: "Deliverables schedule",
+      pages: [5],
+      headers: ["Output", "Quantity / Videos", "Quantity / Posts"],
+      rows: [
+        ["Launch", "6", "40"],
+        ["Sustain", "2", "120"]
+      ],
+      mergedCells: [{ row: 0, column: 1, rowSpan: 1, columnSpan: 2 }]
+    });
+    expect(tables[1].headers).toEqual(["البند", "القيمة"]);
+    expect(tables[1].rows[0]).toEqual(["الإنتاج", "500,000"]);
+  });
+});
@@ -5,7 +5,11 @@ export default defineConfig({
   test: {
     environment: "node",
     include: ["tests/**/*.test.ts"],
-    globals: true
+    globals: true,
+    env: {
+      // Keep pipeline/route tests from writing analysis history to the real tmpdir.
+      ANALYSIS_STORE: "memory"
+    }
   },
   resolve: {
     alias: {